@@ -0,0 +1,56 @@
+// app/admin/cache-status/page.tsx
+import { getCacheStatusReport } from "@/lib/services/cache-status";
+import type { DatasetCacheStatus } from "@/lib/services/cache-status";
+import { SmartTable } from "@/components/SmartTable";
+
+// Same report as /api/cache-status, always built per request
+export const dynamic = "force-dynamic";
+
+// Stale symbols shown per dataset; the API lists all of them
+const STALE_SYMBOLS_SHOWN = 10;
+
+const formatTimestamp = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("en-US", { timeZone: "UTC" }) + " UTC"
+    : "—";
+
+const formatTtl = (ms: number) =>
+  ms % (24 * 60 * 60 * 1000) === 0
+    ? `${ms / (24 * 60 * 60 * 1000)}d`
+    : `${Math.round(ms / (60 * 60 * 1000))}h`;
+
+// SmartTable is a client component, so rows are plain preformatted values
+function toTableRow(status: DatasetCacheStatus) {
+  const shown = status.staleSymbols.slice(0, STALE_SYMBOLS_SHOWN).join(", ");
+  const more = status.staleSymbols.length - STALE_SYMBOLS_SHOWN;
+  return {
+    id: status.dataset,
+    dataset: status.dataset,
+    table: status.tableName,
+    rows: status.rowCount,
+    symbols: status.symbolCount,
+    oldest: formatTimestamp(status.oldestModifiedAt),
+    newest: formatTimestamp(status.newestModifiedAt),
+    ttl: formatTtl(status.cacheTtlMs),
+    stale: status.staleSymbols.length,
+    staleSymbols: status.error
+      ? `Error: ${status.error}`
+      : more > 0
+      ? `${shown} (+${more} more)`
+      : shown || "—",
+  };
+}
+
+export default async function CacheStatusPage() {
+  const report = await getCacheStatusReport();
+  return (
+    <div className="p-4">
+      <h2 className="mb-1 text-lg font-semibold">Cache status</h2>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Generated {formatTimestamp(report.generatedAt)}. Stale symbols are
+        refreshed from the provider on their next read.
+      </p>
+      <SmartTable data={report.datasets.map(toTableRow)} />
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/adjusted-prices/[symbol]/route.ts
+ * Handler for GET requests for a symbol's adjusted daily prices, computed
+ * on demand from the stored prices, splits and dividends.
+ * ?adjustment=split (default) | total_return | raw
+ *   - split: prices before a split scaled to today's share count.
+ *   - total_return: split-adjusted, with dividends reinvested.
+ * ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, either optional) narrows the
+ * rows returned; factors always stay relative to the newest bar.
+ * Ensures profile exists first.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import {
+  parseDateRangeParams,
+  QueryParamError,
+  type DateRange,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import {
+  getAdjustedPriceSeries,
+  parsePriceAdjustment,
+  PRICE_ADJUSTMENTS,
+  type AdjustedPriceSeries,
+} from "@/lib/services/adjusted-prices";
+import { getProfile } from "@/lib/services/profiles";
+
+/** Handles GET requests for a symbol's adjusted price series. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<AdjustedPriceSeries | { error: string }>> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  const adjustmentParam = searchParams.get("adjustment") ?? "split";
+  const adjustment = parsePriceAdjustment(adjustmentParam);
+  if (!adjustment) {
+    return NextResponse.json(
+      {
+        error: `Invalid adjustment '${adjustmentParam}'. Expected one of: ${PRICE_ADJUSTMENTS.join(
+          ", "
+        )}.`,
+      },
+      { status: 400 }
+    );
+  }
+  let range: DateRange;
+  try {
+    range = parseDateRangeParams(searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  console.log(`GET /api/adjusted-prices/${symbol} called (${adjustment})`);
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const series = await getAdjustedPriceSeries(symbol, adjustment, range);
+    return NextResponse.json(series, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[AdjPrice Route] Error computing ${adjustment} prices for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    let status = 500;
+    if (errorMessage.includes("not found")) {
+      status = 404;
+    } else if (errorMessage.includes("FMP request failed")) {
+      status = 502;
+    }
+    return NextResponse.json(
+      {
+        error: `Could not load adjusted prices for symbol ${symbol}. Reason: ${errorMessage}`,
+      },
+      { status }
+    );
+  }
+}
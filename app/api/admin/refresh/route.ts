@@ -0,0 +1,116 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/admin/refresh/route.ts
+ * Handler for POST requests to /api/admin/refresh (admin only)
+ * Forces a refresh from the provider, or purges stored rows, for a dataset
+ * regardless of its cacheTtlMs. Signals depending on refreshed data are
+ * recomputed afterwards.
+ * Body: { "dataset": "historical-prices", "symbols": ["AAPL"], "action": "refresh" | "purge" }
+ * Auth: `Authorization: Bearer <ADMIN_API_SECRET>`.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import { resolveSymbols } from "@/lib/common/symbols";
+import {
+  CACHE_ACTIONS,
+  CACHE_CONTROL_DATASETS,
+  findCacheControlDataset,
+  MAX_CACHE_CONTROL_SYMBOLS,
+  runCacheControl,
+  type CacheAction,
+  type CacheControlResult,
+} from "@/lib/services/cache-admin";
+
+// Never cache a mutation
+export const dynamic = "force-dynamic";
+
+interface RefreshRequestBody {
+  dataset?: unknown;
+  symbols?: unknown;
+  action?: unknown;
+}
+
+const badRequest = (error: string) =>
+  NextResponse.json({ error }, { status: 400 });
+
+/**
+ * Handles POST requests to refresh or purge a dataset.
+ * Per-symbol datasets need `symbols` for a refresh; a purge without symbols
+ * clears the whole dataset. Collection datasets (earnings-calendar,
+ * stock-screener) refresh as a whole.
+ */
+export async function POST(
+  request: Request
+): Promise<NextResponse<CacheControlResult | { error: string }>> {
+  if (!isAdminRequest(request)) {
+    console.warn("[Admin Refresh][Auth] Unauthorized access attempt.");
+    return NextResponse.json(
+      { error: "Unauthorized: admin bearer token required." },
+      { status: 401 }
+    );
+  }
+
+  let body: RefreshRequestBody;
+  try {
+    body = (await request.json()) as RefreshRequestBody;
+  } catch {
+    return badRequest("Request body must be JSON.");
+  }
+  if (!body || typeof body !== "object") {
+    return badRequest("Request body must be a JSON object.");
+  }
+
+  const definition =
+    typeof body.dataset === "string"
+      ? findCacheControlDataset(body.dataset)
+      : undefined;
+  if (!definition) {
+    return badRequest(
+      `Unknown dataset '${String(
+        body.dataset
+      )}'. Expected one of: ${CACHE_CONTROL_DATASETS.map((d) => d.dataset).join(
+        ", "
+      )}.`
+    );
+  }
+
+  const action = (body.action ?? "refresh") as CacheAction;
+  if (!CACHE_ACTIONS.includes(action)) {
+    return badRequest(
+      `Invalid action '${String(
+        body.action
+      )}'. Expected one of: ${CACHE_ACTIONS.join(", ")}.`
+    );
+  }
+
+  const rawSymbols = body.symbols ?? [];
+  if (
+    !Array.isArray(rawSymbols) ||
+    !rawSymbols.every((s) => typeof s === "string" && s.trim() !== "")
+  ) {
+    return badRequest("symbols must be an array of ticker strings.");
+  }
+  const symbols = await resolveSymbols(rawSymbols as string[]);
+  if (symbols.length > MAX_CACHE_CONTROL_SYMBOLS) {
+    return badRequest(
+      `Too many symbols (${symbols.length}). At most ${MAX_CACHE_CONTROL_SYMBOLS} per request.`
+    );
+  }
+  if (action === "refresh" && !definition.collection && symbols.length === 0) {
+    return badRequest(`Refreshing ${definition.dataset} requires symbols.`);
+  }
+
+  try {
+    const result = await runCacheControl(definition, action, symbols);
+    // Partial failures are reported per symbol in the body
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[Admin Refresh] Error:", errorMessage, error);
+    return NextResponse.json(
+      { error: `Could not ${action} ${definition.dataset}.` },
+      { status: 500 }
+    );
+  }
+}
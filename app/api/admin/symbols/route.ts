@@ -0,0 +1,154 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/admin/symbols/route.ts
+ * Handler for /api/admin/symbols (admin only)
+ * GET lists the stored symbol aliases.
+ * POST adds an alias or renames a ticker, moving its stored data:
+ * Body: { "action": "alias", "alias": "BRK.B", "symbol": "BRK-B", "type": "vendor" }
+ *    or { "action": "rename", "from": "FB", "to": "META" }
+ * Auth: `Authorization: Bearer <ADMIN_API_SECRET>`.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  addSymbolAlias,
+  getSymbolAliases,
+  isValidSymbol,
+  normalizeSymbol,
+  SYMBOL_ALIAS_TYPES,
+  type SymbolAlias,
+  type SymbolAliasType,
+} from "@/lib/common/symbols";
+import {
+  renameSymbol,
+  SymbolRenameError,
+  type SymbolRenameResult,
+} from "@/lib/services/symbols";
+
+// Never cache a mutation, nor the alias list it changes
+export const dynamic = "force-dynamic";
+
+interface SymbolsRequestBody {
+  action?: unknown;
+  alias?: unknown;
+  symbol?: unknown;
+  type?: unknown;
+  note?: unknown;
+  from?: unknown;
+  to?: unknown;
+}
+
+const badRequest = (error: string) =>
+  NextResponse.json({ error }, { status: 400 });
+
+const unauthorized = () => {
+  console.warn("[Admin Symbols][Auth] Unauthorized access attempt.");
+  return NextResponse.json(
+    { error: "Unauthorized: admin bearer token required." },
+    { status: 401 }
+  );
+};
+
+// A ticker field of the body, normalized, or null if missing/malformed
+function tickerField(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const symbol = normalizeSymbol(value);
+  return isValidSymbol(symbol) ? symbol : null;
+}
+
+/** Handles GET requests listing the stored aliases (built-ins excluded). */
+export async function GET(
+  request: Request
+): Promise<NextResponse<SymbolAlias[] | { error: string }>> {
+  if (!isAdminRequest(request)) return unauthorized();
+  try {
+    return NextResponse.json(await getSymbolAliases(), { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[Admin Symbols] Error listing aliases:", errorMessage);
+    return NextResponse.json(
+      { error: "Could not load symbol aliases." },
+      { status: 500 }
+    );
+  }
+}
+
+/** Handles POST requests adding an alias or renaming a ticker. */
+export async function POST(
+  request: Request
+): Promise<NextResponse<SymbolAlias | SymbolRenameResult | { error: string }>> {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  let body: SymbolsRequestBody;
+  try {
+    body = (await request.json()) as SymbolsRequestBody;
+  } catch {
+    return badRequest("Request body must be JSON.");
+  }
+  if (!body || typeof body !== "object") {
+    return badRequest("Request body must be a JSON object.");
+  }
+
+  if (body.action === "alias") {
+    const alias = tickerField(body.alias);
+    const symbol = tickerField(body.symbol);
+    if (!alias || !symbol) {
+      return badRequest("alias and symbol must be ticker strings.");
+    }
+    const type = (body.type ?? "vendor") as SymbolAliasType;
+    if (!SYMBOL_ALIAS_TYPES.includes(type)) {
+      return badRequest(
+        `Invalid type '${String(
+          body.type
+        )}'. Expected one of: ${SYMBOL_ALIAS_TYPES.join(", ")}.`
+      );
+    }
+    if (body.note !== undefined && typeof body.note !== "string") {
+      return badRequest("note must be a string.");
+    }
+    if (alias === symbol) {
+      return badRequest(`Alias ${alias} cannot point to itself.`);
+    }
+    try {
+      const stored = await addSymbolAlias(alias, symbol, type, body.note);
+      return NextResponse.json(stored, { status: 200 });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error("[Admin Symbols] Error adding alias:", errorMessage);
+      return NextResponse.json(
+        { error: `Could not store alias ${alias}.` },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (body.action === "rename") {
+    const from = tickerField(body.from);
+    const to = tickerField(body.to);
+    if (!from || !to) {
+      return badRequest("from and to must be ticker strings.");
+    }
+    try {
+      const result = await renameSymbol(from, to);
+      return NextResponse.json(result, { status: 200 });
+    } catch (error) {
+      // Same ticker, no profile to move or the new ticker is taken
+      if (error instanceof SymbolRenameError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error("[Admin Symbols] Error renaming:", errorMessage, error);
+      return NextResponse.json(
+        { error: `Could not rename ${from} to ${to}.` },
+        { status: 500 }
+      );
+    }
+  }
+
+  return badRequest(
+    `Invalid action '${String(body.action)}'. Expected 'alias' or 'rename'.`
+  );
+}
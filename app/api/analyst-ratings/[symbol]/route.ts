@@ -0,0 +1,76 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/analyst-ratings/[symbol]/route.ts
+ * Handler for GET requests for the individual analyst rating actions of a
+ * symbol (firm, action, previous and new grade), newest first.
+ * A symbol no firm covers returns an empty list.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import { cacheStatusHeaders, isNoDataError } from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import {
+  getAnalystRatingActionsForSymbolWithStatus,
+  type AnalystRatingActionApiItem,
+} from "@/lib/services/analyst-ratings";
+import { getProfile } from "@/lib/services/profiles";
+
+/** Handles GET requests for a symbol's analyst rating actions. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<
+  NextResponse<Partial<AnalystRatingActionApiItem>[] | { error: string }>
+> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  console.log(`GET /api/analyst-ratings/${symbol} called`);
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data, cache } = await getAnalystRatingActionsForSymbolWithStatus(
+      symbol,
+      { refresh }
+    );
+    return NextResponse.json(data, {
+      status: 200,
+      headers: cacheStatusHeaders(cache),
+    });
+  } catch (error) {
+    if (isNoDataError(error)) {
+      return NextResponse.json([], { status: 200 });
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Ratings Route] Error fetching rating actions for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      { error: `Could not load analyst rating actions for symbol ${symbol}.` },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
@@ -3,11 +3,35 @@
  * Handler for GET requests for a specific symbol.
  * Ensures profile exists first, then retrieves all OR the latest statement(s).
  * Use query parameter ?latest=true to get only the latest.
+ * Use query parameter ?period=annual|quarter|ttm to pick the period (default annual).
+ * Use query parameter ?fields=date,revenue,... to narrow each statement.
+ * Use query parameter ?asOf=YYYY-MM-DD for statements as known on that date.
+ * Use query parameter ?currency=USD to convert amounts at each statement date's rate.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  parseStatementPeriod,
+  STATEMENT_PERIODS,
+} from "@/lib/common/statements";
+import {
+  parseAsOfParam,
+  parseCurrencyParam,
+  parseFieldsParam,
+  QueryParamError,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+
+import {
+  convertStatementsToCurrency,
+  CurrencyConversionError,
+  withStatementCurrencyFields,
+} from "@/lib/services/fx-rates";
 import { getProfile } from "@/lib/services/profiles";
 import {
+  balanceSheetMonetaryFields,
   getBalanceSheetStatementsForSymbol,
   getLatestBalanceSheetStatement,
 } from "@/lib/services/balance-sheet-statements";
@@ -20,6 +44,8 @@ import type { BalanceSheetStatement } from "@/lib/services/balance-sheet-stateme
  * Ensures profile exists first.
  * Fetches all statements by default.
  * Fetches only the latest statement if query param `latest=true` is present.
+ * `period=quarter` returns quarterly statements, `period=ttm` trailing-twelve-month
+ * statements derived from the last four quarters.
  */
 export async function GET(
   request: Request, // Use the request object to access URL
@@ -32,18 +58,20 @@ export async function GET(
     | { error: string }
   >
 > {
-  // Access symbol directly from params, uppercase it
+  // Access symbol directly from params, resolve it to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   // Check for query parameter
   const { searchParams } = new URL(request.url);
   const getLatestOnly = searchParams.get("latest") === "true"; // Check if ?latest=true
+  const periodParam = searchParams.get("period");
+  const period = parseStatementPeriod(periodParam);
 
   console.log(
     `GET /api/balance-sheet-statements/${symbol} called ${
       getLatestOnly ? " (latest only)" : ""
-    }`
+    } (period: ${periodParam ?? "annual"})`
   );
 
   if (!symbol) {
@@ -53,7 +81,33 @@ export async function GET(
     );
   }
 
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  if (!period) {
+    return NextResponse.json(
+      {
+        error: `Invalid period '${periodParam}'. Expected one of: ${STATEMENT_PERIODS.join(
+          ", "
+        )}.`,
+      },
+      { status: 400 }
+    );
+  }
+
   try {
+    const fields = parseFieldsParam(searchParams);
+    const asOf = parseAsOfParam(searchParams);
+    const currency = parseCurrencyParam(searchParams);
+    // Converting needs each statement's date and currency, even if not asked for
+    const readFields = currency ? withStatementCurrencyFields(fields) : fields;
+
     // --- Step 1: Ensure Profile Exists (for Foreign Key Constraint) ---
     console.log(`Ensuring profile exists for ${symbol}...`);
     const profileData = await getProfile(symbol); // Call profile service first
@@ -79,7 +133,11 @@ export async function GET(
     if (getLatestOnly) {
       // --- Fetch Only Latest ---
       console.log(`Fetching latest balance sheet for ${symbol}...`);
-      data = await getLatestBalanceSheetStatement(symbol); // Returns single object or null
+      data = await getLatestBalanceSheetStatement(symbol, period, {
+        fields: readFields,
+        asOf,
+        refresh,
+      }); // Returns single object or null
 
       if (!data) {
         console.log(`Latest balance sheet not found for symbol: ${symbol}`);
@@ -94,16 +152,38 @@ export async function GET(
     } else {
       // --- Fetch All History ---
       console.log(`Fetching all balance sheets for ${symbol}...`);
-      data = await getBalanceSheetStatementsForSymbol(symbol); // Returns array
+      data = await getBalanceSheetStatementsForSymbol(symbol, period, {
+        fields: readFields,
+        asOf,
+        refresh,
+      }); // Returns array
 
       // Return 200 OK with empty array if history exists but is empty.
       // if (data.length === 0) { ... optional 404 handling ... }
       // data is Partial<BalanceSheetStatement>[]
     }
 
+    // ?currency= converts every amount, at the rate of each statement's date
+    if (currency && data) {
+      const converted = await convertStatementsToCurrency(
+        Array.isArray(data) ? data : [data],
+        currency,
+        balanceSheetMonetaryFields
+      );
+      data = Array.isArray(data) ? converted : converted[0];
+    }
+
     // Return the data (either single object or array)
     return NextResponse.json(data, { status: 200 });
   } catch (error) {
+    // Unknown or empty `fields` or a malformed `asOf` are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Missing currency or FX rate: converting would be silently wrong
+    if (error instanceof CurrencyConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     console.error(
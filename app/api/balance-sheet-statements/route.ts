@@ -5,27 +5,61 @@
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
+import {
+  parseStatementPeriod,
+  STATEMENT_PERIODS,
+} from "@/lib/common/statements";
+import {
+  parseAsOfParam,
+  parseFieldsParam,
+  QueryParamError,
+} from "@/lib/common/supabase";
+
 import { getAllBalanceSheetStatements } from "@/lib/services/balance-sheet-statements";
 import type { BalanceSheetStatement } from "@/lib/services/balance-sheet-statements";
 
 /**
  * Handles GET requests to fetch a list of balance sheet statements.
  * Uses the underlying service which may return projected data based on configuration.
+ * Query parameter ?period=annual|quarter|ttm picks the period (default annual).
+ * Query parameter ?fields=symbol,date,... narrows each statement.
+ * Query parameter ?asOf=YYYY-MM-DD returns the statements as known on that date.
  */
-export async function GET(): Promise<
-  NextResponse<Partial<BalanceSheetStatement>[] | { error: string }>
-> {
+export async function GET(
+  request: Request
+): Promise<NextResponse<Partial<BalanceSheetStatement>[] | { error: string }>> {
   console.log("GET /api/balance-sheet-statement called");
 
+  const { searchParams } = new URL(request.url);
+  const periodParam = searchParams.get("period");
+  const period = parseStatementPeriod(periodParam);
+  if (!period) {
+    return NextResponse.json(
+      {
+        error: `Invalid period '${periodParam}'. Expected one of: ${STATEMENT_PERIODS.join(
+          ", "
+        )}.`,
+      },
+      { status: 400 }
+    );
+  }
+
   try {
     // Call the service function to get the data.
     // This function already handles mapping to the BalanceSheetStatement type.
     const data: Partial<BalanceSheetStatement>[] =
-      await getAllBalanceSheetStatements();
+      await getAllBalanceSheetStatements(period, {
+        fields: parseFieldsParam(searchParams),
+        asOf: parseAsOfParam(searchParams),
+      });
 
     // Return the data as JSON response
     return NextResponse.json(data, { status: 200 });
   } catch (error) {
+    // Unknown or empty `fields` or a malformed `asOf` are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     // Log the error for server-side debugging
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
@@ -0,0 +1,37 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/cache-status/route.ts
+ * Handler for GET requests to /api/cache-status
+ * Reports per cached dataset: row count, oldest/newest modified_at, the
+ * configured cacheTtlMs and the symbols past TTL.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import {
+  getCacheStatusReport,
+  type CacheStatusReport,
+} from "@/lib/services/cache-status";
+
+// Freshness changes with every read and every minute, never cache it
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for the cache freshness report.
+ * Tables that cannot be inspected carry an `error` in their entry.
+ */
+export async function GET(): Promise<
+  NextResponse<CacheStatusReport | { error: string }>
+> {
+  console.log("GET /api/cache-status called");
+  try {
+    const report = await getCacheStatusReport();
+    return NextResponse.json(report, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("Error building cache status report:", errorMessage, error);
+    return NextResponse.json(
+      { error: "Could not load cache status." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/earnings-calendar/[symbol]/route.ts
+ * Handler for GET requests for the earnings history of a symbol: every
+ * stored reported quarter (newest first) with its EPS and revenue surprise
+ * percentages, and the next scheduled release.
+ * A symbol without calendar entries returns no quarters and no next date.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { resolveSymbol } from "@/lib/common/symbols";
+import {
+  getEarningsHistoryForSymbol,
+  type EarningsHistory,
+} from "@/lib/services/earnings-calendar";
+
+/** Handles GET requests for a symbol's earnings history. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<EarningsHistory | { error: string }>> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  console.log(`GET /api/earnings-calendar/${symbol} called`);
+
+  try {
+    const history = await getEarningsHistoryForSymbol(symbol);
+    return NextResponse.json(history, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Earnings Route] Error loading earnings history for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      { error: `Could not load earnings history for symbol ${symbol}.` },
+      { status: 500 }
+    );
+  }
+}
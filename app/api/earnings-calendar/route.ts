@@ -2,26 +2,70 @@
  * app/api/earnings-calendar/route.ts
  * Handler for GET requests to /api/earnings-calendar
  * Retrieves the latest earnings calendar snapshot.
+ * Or 'from' and 'to' (YYYY-MM-DD, inclusive) for the stored entries of a
+ * window of at most MAX_EARNINGS_RANGE_DAYS days, past quarters included.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
+import { differenceInCalendarDays, parseISO } from "date-fns";
 
-import { getEarningsCalendar } from "@/lib/services/earnings-calendar";
+import {
+  parseDateRangeParams,
+  QueryParamError,
+  type DateRange,
+} from "@/lib/common/supabase";
+import {
+  getEarningsCalendar,
+  getEarningsCalendarInRange,
+  MAX_EARNINGS_RANGE_DAYS,
+} from "@/lib/services/earnings-calendar";
 import type { EarningsCalendarApiItem } from "@/lib/services/earnings-calendar";
 
 /**
  * Handles GET requests to fetch the latest earnings calendar.
  * Uses the underlying service which returns cached or freshly fetched data,
  * potentially projected/ordered based on configuration.
+ * Example: /api/earnings-calendar?from=2025-07-01&to=2025-07-31
  */
-export async function GET(): Promise<
+export async function GET(request: Request): Promise<
   NextResponse<Partial<EarningsCalendarApiItem>[] | { error: string }> // Returns array of partials
 > {
   console.log("GET /api/earnings-calendar called");
 
+  // --- Date range: both ends required, as it spans every symbol ---
+  let range: DateRange;
+  try {
+    range = parseDateRangeParams(new URL(request.url).searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  const isRange = !!(range.from || range.to);
+  if (isRange) {
+    if (!range.from || !range.to) {
+      return NextResponse.json(
+        { error: "Both 'from' and 'to' are required for a date range." },
+        { status: 400 }
+      );
+    }
+    const days =
+      differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+    if (days > MAX_EARNINGS_RANGE_DAYS) {
+      return NextResponse.json(
+        {
+          error: `Date range too wide (${days} days). At most ${MAX_EARNINGS_RANGE_DAYS} days across all symbols.`,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
   try {
     // Call the service function -> returns Partial<EarningsCalendarApiItem>[]
-    const data: Partial<EarningsCalendarApiItem>[] =
-      await getEarningsCalendar();
+    const data: Partial<EarningsCalendarApiItem>[] = isRange
+      ? await getEarningsCalendarInRange(range)
+      : await getEarningsCalendar();
 
     // Return the data as JSON response
     return NextResponse.json(data, { status: 200 });
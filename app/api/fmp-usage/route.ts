@@ -0,0 +1,19 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/fmp-usage/route.ts
+ * Handler for GET requests to /api/fmp-usage
+ * Reports the shared FMP client's rate limiter, retry and budget counters.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { getFmpClientStats, type FmpClientStats } from "@/lib/common/providers";
+
+// Counters live in memory, so never serve a cached response
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for FMP usage counters.
+ * Counters are per server instance and reset when the instance restarts.
+ */
+export async function GET(): Promise<NextResponse<FmpClientStats>> {
+  return NextResponse.json(getFmpClientStats(), { status: 200 });
+}
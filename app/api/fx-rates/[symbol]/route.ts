@@ -0,0 +1,88 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/fx-rates/[symbol]/route.ts
+ * Handler for GET requests for the daily rates of a currency pair, e.g.
+ * /api/fx-rates/EURUSD (the USD price of one EUR).
+ * Use query parameter ?asOf=YYYY-MM-DD for the rates known up to that date.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  cacheStatusHeaders,
+  parseAsOfParam,
+  QueryParamError,
+} from "@/lib/common/supabase";
+import {
+  getFxRatesForPairWithStatus,
+  type FxRateApiItem,
+} from "@/lib/services/fx-rates";
+
+/**
+ * Handles GET requests for a currency pair's daily rates.
+ * A pair FMP does not quote is a 404.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<Partial<FxRateApiItem>[] | { error: string }>> {
+  const { symbol: pairParam } = await params;
+  const pair = pairParam.trim().toUpperCase();
+
+  if (!/^[A-Z]{6}$/.test(pair)) {
+    return NextResponse.json(
+      {
+        error: `Invalid currency pair '${pairParam}'. Expected two ISO 4217 codes, e.g. EURUSD.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  console.log(`GET /api/fx-rates/${pair} called`);
+
+  try {
+    const asOf = parseAsOfParam(searchParams);
+    const { data, cache } = await getFxRatesForPairWithStatus(pair, {
+      asOf,
+      refresh,
+    });
+    return NextResponse.json(data, {
+      status: 200,
+      headers: cacheStatusHeaders(cache),
+    });
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[FX Rates Route] Error fetching rates for ${pair}:`,
+      errorMessage,
+      error
+    );
+    if (
+      errorMessage.includes("No data found for symbol") ||
+      errorMessage.includes("FMP request failed (404)")
+    ) {
+      return NextResponse.json(
+        { error: `FX rates not found for ${pair}.` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(
+      { error: `Could not load FX rates for ${pair}.` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/grades-consensus/[symbol]/history/route.ts
+ * Handler for GET requests for the grades consensus trend of a symbol: the
+ * daily strong buy/buy/hold/sell/strong sell counts, net sentiment, 30 and
+ * 90-day changes and consensus transitions.
+ * ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, either optional) narrows the
+ * series; changes may compare against snapshots before 'from'.
+ * The latest snapshot is refreshed first when stale. Ensures profile exists.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import {
+  parseDateRangeParams,
+  QueryParamError,
+  type DateRange,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import {
+  getGradesConsensusTrend,
+  getLatestGradesConsensus,
+  type GradesConsensusTrend,
+} from "@/lib/services/grades-consensus";
+import { getProfile } from "@/lib/services/profiles";
+
+/** Handles GET requests for a symbol's grades consensus trend. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<GradesConsensusTrend | { error: string }>> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  let range: DateRange;
+  try {
+    range = parseDateRangeParams(new URL(request.url).searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  console.log(`GET /api/grades-consensus/${symbol}/history called`);
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Today's snapshot, fetched when stale; older ones are already stored
+    await getLatestGradesConsensus(symbol);
+    const trend = await getGradesConsensusTrend(symbol, range);
+    if (trend.series.length === 0) {
+      return NextResponse.json(
+        { error: `Grades consensus history not found for symbol ${symbol}.` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(trend, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Grades Route] Error loading grades consensus history for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: `Could not load grades consensus history for symbol ${symbol}.`,
+      },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
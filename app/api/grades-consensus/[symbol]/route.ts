@@ -2,15 +2,25 @@
  * app/api/grades-consensus/[symbol]/route.ts (Supabase Version)
  * Handler for GET requests to fetch grades consensus data for a symbol.
  * Accepts optional 'date' query parameter (YYYY-MM-DD).
+ * Accepts optional 'asOf' query parameter (YYYY-MM-DD): the latest snapshot
+ * taken on or before that date.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL;
+ * analyst consensus signals are recomputed afterwards.
  * Ensures profile exists first.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/common/symbols";
 import { isValid, parseISO } from "date-fns"; // Using date-fns for validation
 
+import { isAdminRequest } from "@/lib/common/auth";
+import { parseAsOfParam, QueryParamError } from "@/lib/common/supabase";
+import { recomputeDependentSignals } from "@/lib/services/cache-admin";
 import { getProfile } from "@/lib/services/profiles";
 import {
   getLatestGradesConsensus,
+  getGradesConsensusAsOf,
   getGradesConsensusForDateAndSymbol,
+  refreshGradesConsensus,
 } from "@/lib/services/grades-consensus";
 
 // 2. Import the API response type
@@ -31,6 +41,8 @@ function errorHasCode(
 /**
  * Handles GET requests to fetch grades consensus data for a specific symbol.
  * If 'date' query param (YYYY-MM-DD) is provided, fetches for that date.
+ * If 'asOf' query param (YYYY-MM-DD) is provided, fetches the latest
+ * snapshot on or before that date.
  * Otherwise, fetches the latest snapshot.
  * Ensures profile exists first.
  */
@@ -39,7 +51,7 @@ export async function GET(
   { params }: { params: Promise<{ symbol: string }> }
 ): Promise<NextResponse<Partial<GradesConsensusApiItem> | { error: string }>> {
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   // --- Parse Query Parameters ---
   const { searchParams } = new URL(request.url);
@@ -61,9 +73,38 @@ export async function GET(
     }
   }
 
+  // Unlike 'date', a malformed 'asOf' is rejected instead of ignored
+  let asOf: string | undefined;
+  try {
+    asOf = parseAsOfParam(searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+  if (asOf && targetDate) {
+    return NextResponse.json(
+      { error: "Use either 'date' or 'asOf', not both." },
+      { status: 400 }
+    );
+  }
+
   console.log(
     `GET /api/grades-consensus/${symbol} called ${
-      targetDate ? `(date: ${targetDate})` : "(latest)"
+      targetDate
+        ? `(date: ${targetDate})`
+        : asOf
+        ? `(asOf: ${asOf})`
+        : "(latest)"
     }`
   );
 
@@ -90,6 +131,12 @@ export async function GET(
     console.log(`[Grades Route] Profile check complete for ${symbol}.`);
     // --- End Step 1 ---
 
+    // --- Forced refresh, before any of the reads below ---
+    if (refresh) {
+      await refreshGradesConsensus(symbol);
+      await recomputeDependentSignals("grades-consensus", [symbol]);
+    }
+
     // --- Step 2: Fetch Grades Consensus Data (Conditional) ---
     let data: Partial<GradesConsensusApiItem> | null;
 
@@ -99,6 +146,11 @@ export async function GET(
         `[Grades Route] Fetching grades consensus for ${symbol} on ${targetDate}...`
       );
       data = await getGradesConsensusForDateAndSymbol(symbol, targetDate);
+    } else if (asOf) {
+      console.log(
+        `[Grades Route] Fetching grades consensus for ${symbol} as of ${asOf}...`
+      );
+      data = await getGradesConsensusAsOf(symbol, asOf);
     } else {
       // Fetch the latest using the existing service function
       console.log(
@@ -111,6 +163,8 @@ export async function GET(
     if (!data) {
       const notFoundMessage = targetDate
         ? `Grades consensus data not found for symbol ${symbol} on date ${targetDate}.`
+        : asOf
+        ? `Grades consensus data not found for symbol ${symbol} as of ${asOf}.`
         : `Latest grades consensus data not found for symbol ${symbol}.`;
       console.log(`[Grades Route] ${notFoundMessage}`);
       return NextResponse.json({ error: notFoundMessage }, { status: 404 });
@@ -2,12 +2,45 @@
  * app/api/historical-prices/[symbol]/route.ts
  * Handler for GET requests to fetch historical price data for a symbol.
  * Ensures profile exists before fetching historical data.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL;
+ * price-based signals are recomputed afterwards.
+ * ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, either optional) narrows the
+ * rows returned.
+ * ?currency=USD converts prices from the listing currency (the profile's)
+ * at each day's FX rate; every row then carries its fx_rate.
+ * ?interval=1w|1mo|1q|1y aggregates the daily rows (after any conversion)
+ * into weekly, monthly, quarterly or yearly bars; '1d' is the default.
+ * Periods cut by from/to only hold the days inside the range.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
+import { isAdminRequest } from "@/lib/common/auth";
 import { getProfile } from "@/lib/services/profiles";
-import { getHistoricalPricesForSymbol } from "@/lib/services/historical-prices";
-import type { HistoricalPriceRow } from "@/lib/services/historical-prices";
+import {
+  cacheStatusHeaders,
+  parseCurrencyParam,
+  parseDateRangeParams,
+  QueryParamError,
+  type DateRange,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { recomputeDependentSignals } from "@/lib/services/cache-admin";
+import {
+  convertRowsToCurrency,
+  CurrencyConversionError,
+} from "@/lib/services/fx-rates";
+import {
+  getHistoricalPricesForSymbolWithStatus,
+  historicalPriceMonetaryFields,
+  parseResamplePeriod,
+  resamplePriceBars,
+  RESAMPLE_PERIODS,
+  type ResamplePeriod,
+} from "@/lib/services/historical-prices";
+import type {
+  HistoricalPriceRow,
+  ResampledPriceBar,
+} from "@/lib/services/historical-prices";
 
 // Optional: Import common helpers if needed for final shaping/ordering
 // import { historicalPriceKeyOrder } from '../service/constants';
@@ -30,16 +63,20 @@ function errorHasCode(
 /**
  * Handles GET requests to fetch historical price data for a specific symbol.
  * Ensures profile exists first.
+ * A stale series may be served while it refreshes in the background;
+ * the X-Cache-Status / X-Cache-Modified-At headers say so.
  */
 export async function GET(
-  request: Request, // Keep request for potential future use
+  request: Request, // Used for ?refresh=true and the admin token
   { params }: { params: Promise<{ symbol: string }> }
-): Promise<NextResponse<HistoricalPriceRow[] | { error: string }>> {
+): Promise<
+  NextResponse<HistoricalPriceRow[] | ResampledPriceBar[] | { error: string }>
+> {
   // Returns array of Row type
 
-  // Access symbol directly from params, uppercase it
+  // Access symbol directly from params, resolve it to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   console.log(`GET /api/historical-price/${symbol} called`);
 
@@ -50,6 +87,42 @@ export async function GET(
     );
   }
 
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+  const intervalParam = searchParams.get("interval") ?? "1d";
+  let period: ResamplePeriod | null = null;
+  if (intervalParam !== "1d") {
+    period = parseResamplePeriod(intervalParam);
+    if (!period) {
+      return NextResponse.json(
+        {
+          error: `Invalid interval '${intervalParam}'. Expected one of: 1d, ${RESAMPLE_PERIODS.join(
+            ", "
+          )}.`,
+        },
+        { status: 400 }
+      );
+    }
+  }
+  let currency: string | undefined;
+  let range: DateRange;
+  try {
+    currency = parseCurrencyParam(searchParams);
+    range = parseDateRangeParams(searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
   try {
     // --- Step 1: Ensure Profile Exists (for Foreign Key Constraint) ---
     console.log(`[HistPrice Route] Ensuring profile exists for ${symbol}...`);
@@ -74,9 +147,13 @@ export async function GET(
       `[HistPrice Route] Fetching historical prices for ${symbol}...`
     );
     // Call the dedicated service function which handles caching/fetching/upserting
-    const data: HistoricalPriceRow[] = await getHistoricalPricesForSymbol(
-      symbol
+    const { data, cache } = await getHistoricalPricesForSymbolWithStatus(
+      symbol,
+      { refresh, ...range }
     );
+    if (refresh) {
+      await recomputeDependentSignals("historical-prices", [symbol]);
+    }
 
     // Optional: Reorder/filter if needed before sending response
     // const orderedData = data.map(item => reorderAndFilterObjectKeys(item, historicalPriceKeyOrder));
@@ -84,8 +161,35 @@ export async function GET(
 
     // Return the data directly from the service (service returns HistoricalPriceRow[])
     // Note: If the service returned Partial<ApiType>, you'd use that type here.
-    return NextResponse.json(data, { status: 200 });
+    if (currency) {
+      // Prices are quoted in the listing currency, e.g. TWD for 2330.TW
+      const converted = await convertRowsToCurrency(data, {
+        targetCurrency: currency,
+        fields: historicalPriceMonetaryFields,
+        currencyOf: () => profileData.currency,
+        dateOf: (row) => row.date,
+      });
+      return NextResponse.json(
+        period ? resamplePriceBars(converted, period) : converted,
+        { status: 200, headers: cacheStatusHeaders(cache) }
+      );
+    }
+    if (period) {
+      return NextResponse.json(resamplePriceBars(data, period), {
+        status: 200,
+        headers: cacheStatusHeaders(cache),
+      });
+    }
+
+    return NextResponse.json(data, {
+      status: 200,
+      headers: cacheStatusHeaders(cache),
+    });
   } catch (error: unknown) {
+    // Missing listing currency or FX rate: converting would be silently wrong
+    if (error instanceof CurrencyConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
     // <-- Catch as unknown
     // --- Type-Safe Error Handling ---
     let errorMessage: string;
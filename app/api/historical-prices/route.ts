@@ -3,10 +3,23 @@
  * Handler for GET requests to fetch historical price data for ALL symbols
  * for a specific date. Uses the dedicated service function.
  * Accepts a 'date' query parameter (YYYY-MM-DD), defaults to today (2025-05-06).
+ * Or 'from' and 'to' (YYYY-MM-DD, inclusive) for a window of at most
+ * MAX_ALL_SYMBOLS_RANGE_DAYS days.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+import {
+  parseDateRangeParams,
+  QueryParamError,
+  type DateRange,
+} from "@/lib/common/supabase";
 // Import the new service function via your service index file
-import { getHistoricalPricesForAllSymbolsByDate } from "@/lib/services/historical-prices";
+import {
+  getHistoricalPricesForAllSymbolsByDate,
+  getHistoricalPricesForAllSymbolsInRange,
+  MAX_ALL_SYMBOLS_RANGE_DAYS,
+} from "@/lib/services/historical-prices";
 // Import the type via your service index file
 import type { HistoricalPriceRow } from "@/lib/services/historical-prices";
 
@@ -22,6 +35,7 @@ function getTodayDateString(): string {
  * Handles GET requests to fetch historical price data for all symbols
  * for a given date from the Supabase database.
  * Example: /api/historical-price?date=2025-05-01
+ * Example: /api/historical-prices?from=2025-04-01&to=2025-04-30
  * If no date is provided, it defaults to the current date (2025-05-06).
  */
 export async function GET(
@@ -34,6 +48,59 @@ export async function GET(
   const routePath = "/api/historical-price"; // For logging context
   console.log(`GET ${routePath} called with dateParam: ${dateParam}`);
 
+  // --- Date range: both ends required, as it spans every symbol ---
+  let range: DateRange;
+  try {
+    range = parseDateRangeParams(searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  if (range.from || range.to) {
+    if (dateParam) {
+      return NextResponse.json(
+        { error: "Use either 'date' or 'from'/'to', not both." },
+        { status: 400 }
+      );
+    }
+    if (!range.from || !range.to) {
+      return NextResponse.json(
+        { error: "Both 'from' and 'to' are required for a date range." },
+        { status: 400 }
+      );
+    }
+    const days =
+      differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+    if (days > MAX_ALL_SYMBOLS_RANGE_DAYS) {
+      return NextResponse.json(
+        {
+          error: `Date range too wide (${days} days). At most ${MAX_ALL_SYMBOLS_RANGE_DAYS} days across all symbols.`,
+        },
+        { status: 400 }
+      );
+    }
+    try {
+      const data = await getHistoricalPricesForAllSymbolsInRange(range);
+      return NextResponse.json(data, { status: 200 });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(
+        `[Route ${routePath}] Error fetching all historical prices from ${range.from} to ${range.to}:`,
+        errorMessage,
+        error
+      );
+      return NextResponse.json(
+        {
+          error: `Could not load historical prices from ${range.from} to ${range.to}. Reason: ${errorMessage}`,
+        },
+        { status: 500 }
+      );
+    }
+  }
+
   if (dateParam) {
     // Validate YYYY-MM-DD format
     if (!/^\d{4}-\d{2}-\d{2}$/.test(dateParam)) {
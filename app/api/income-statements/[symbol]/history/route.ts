@@ -0,0 +1,113 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/income-statements/[symbol]/history/route.ts
+ * Handler for GET requests to /api/income-statements/[symbol]/history
+ * Shows how the income statement reported on ?date=YYYY-MM-DD changed over
+ * time (restatements): current values plus field-level version records.
+ * Use query parameter ?period=annual|quarter to pick the period (default annual).
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import {
+  parseStatementPeriod,
+  type StatementHistory,
+} from "@/lib/common/statements";
+import { resolveSymbol } from "@/lib/common/symbols";
+
+import { getProfile } from "@/lib/services/profiles";
+import { getIncomeStatementHistory } from "@/lib/services/income-statements";
+import type { IncomeStatement } from "@/lib/services/income-statements";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Handles GET requests for the restatement history of one statement.
+ * Ensures the profile exists first (statements reference it).
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<
+  NextResponse<StatementHistory<IncomeStatement> | { error: string }>
+> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  const date = searchParams.get("date");
+  const periodParam = searchParams.get("period");
+  const period = parseStatementPeriod(periodParam);
+
+  console.log(
+    `GET /api/income-statements/${symbol}/history called (date: ${date}, period: ${
+      periodParam ?? "annual"
+    })`
+  );
+
+  if (!symbol) {
+    return NextResponse.json(
+      { error: "Symbol parameter is missing or invalid." },
+      { status: 400 }
+    );
+  }
+  if (!date || !DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+    return NextResponse.json(
+      { error: `Invalid date '${date ?? ""}'. Expected YYYY-MM-DD.` },
+      { status: 400 }
+    );
+  }
+  if (period !== "annual" && period !== "quarter") {
+    return NextResponse.json(
+      {
+        error: `Invalid period '${periodParam}'. Expected one of: annual, quarter.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const history = await getIncomeStatementHistory(symbol, date, period);
+    if (!history.current && history.versions.length === 0) {
+      return NextResponse.json(
+        {
+          error: `No income statement reported on ${date} for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(history, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `Error fetching income statement history for ${symbol} (${date}):`,
+      errorMessage,
+      error
+    );
+
+    if (
+      errorMessage.includes("No data found for symbol") ||
+      errorMessage.includes("FMP request failed (404)")
+    ) {
+      return NextResponse.json(
+        { error: `Income statement data not found for symbol ${symbol}.` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: `Could not load income statement history for symbol ${symbol}.`,
+      },
+      { status: 500 }
+    );
+  }
+}
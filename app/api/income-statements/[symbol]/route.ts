@@ -3,13 +3,37 @@
  * Handler for GET requests for a specific symbol.
  * Ensures profile exists first, then retrieves all OR the latest statement(s).
  * Use query parameter ?latest=true to get only the latest.
+ * Use query parameter ?period=annual|quarter|ttm to pick the period (default annual).
+ * Use query parameter ?fields=date,revenue,... to narrow each statement.
+ * Use query parameter ?asOf=YYYY-MM-DD for statements as known on that date.
+ * Use query parameter ?currency=USD to convert amounts at each statement date's rate.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  parseStatementPeriod,
+  STATEMENT_PERIODS,
+} from "@/lib/common/statements";
+import {
+  parseAsOfParam,
+  parseCurrencyParam,
+  parseFieldsParam,
+  QueryParamError,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+
+import {
+  convertStatementsToCurrency,
+  CurrencyConversionError,
+  withStatementCurrencyFields,
+} from "@/lib/services/fx-rates";
 import { getProfile } from "@/lib/services/profiles";
 import {
   getIncomeStatementsForSymbol,
   getLatestIncomeStatement,
+  incomeStatementMonetaryFields,
 } from "@/lib/services/income-statements";
 import type { IncomeStatement } from "@/lib/services/income-statements";
 
@@ -17,6 +41,8 @@ import type { IncomeStatement } from "@/lib/services/income-statements";
  * Handles GET requests for a specific symbol.
  * Fetches all statements by default.
  * Fetches only the latest statement if query param `latest=true` is present.
+ * `period=quarter` returns quarterly statements, `period=ttm` trailing-twelve-month
+ * statements derived from the last four quarters.
  */
 export async function GET(
   request: Request, // Use the request object to access URL
@@ -27,18 +53,20 @@ export async function GET(
     Partial<IncomeStatement> | Partial<IncomeStatement>[] | { error: string }
   >
 > {
-  // Get and uppercase the symbol from the route parameters
+  // Get the symbol from the route parameters, resolved to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   // Check for query parameter
   const { searchParams } = new URL(request.url);
   const getLatestOnly = searchParams.get("latest") === "true";
+  const periodParam = searchParams.get("period");
+  const period = parseStatementPeriod(periodParam);
 
   console.log(
     `GET /api/income-statements/${symbol} called ${
       getLatestOnly ? " (latest only)" : ""
-    }`
+    } (period: ${periodParam ?? "annual"})`
   );
 
   if (!symbol) {
@@ -48,7 +76,33 @@ export async function GET(
     );
   }
 
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  if (!period) {
+    return NextResponse.json(
+      {
+        error: `Invalid period '${periodParam}'. Expected one of: ${STATEMENT_PERIODS.join(
+          ", "
+        )}.`,
+      },
+      { status: 400 }
+    );
+  }
+
   try {
+    const fields = parseFieldsParam(searchParams);
+    const asOf = parseAsOfParam(searchParams);
+    const currency = parseCurrencyParam(searchParams);
+    // Converting needs each statement's date and currency, even if not asked for
+    const readFields = currency ? withStatementCurrencyFields(fields) : fields;
+
     // --- Step 1: Ensure Profile Exists (for Foreign Key Constraint) ---
     console.log(`Ensuring profile exists for ${symbol}...`);
     const profileData = await getProfile(symbol);
@@ -72,7 +126,11 @@ export async function GET(
     if (getLatestOnly) {
       // --- Fetch Only Latest ---
       console.log(`Fetching latest income statement for ${symbol}...`);
-      data = await getLatestIncomeStatement(symbol); // Calls service.getOne
+      data = await getLatestIncomeStatement(symbol, period, {
+        fields: readFields,
+        asOf,
+        refresh,
+      }); // Calls service.getOne
 
       if (!data) {
         console.log(`Latest income statement not found for symbol: ${symbol}`);
@@ -87,7 +145,11 @@ export async function GET(
     } else {
       // --- Fetch All History ---
       console.log(`Fetching all income statements for ${symbol}...`);
-      data = await getIncomeStatementsForSymbol(symbol); // Calls service.getAllForSymbol
+      data = await getIncomeStatementsForSymbol(symbol, period, {
+        fields: readFields,
+        asOf,
+        refresh,
+      }); // Calls service.getAllForSymbol
 
       // Return 200 OK with empty array if history exists but is empty for this symbol
       // (Don't return 404 here unless getAllForSymbol throws a specific 'not found' error)
@@ -101,9 +163,27 @@ export async function GET(
       // data is Partial<IncomeStatement>[]
     }
 
+    // ?currency= converts every amount, at the rate of each statement's date
+    if (currency && data) {
+      const converted = await convertStatementsToCurrency(
+        Array.isArray(data) ? data : [data],
+        currency,
+        incomeStatementMonetaryFields
+      );
+      data = Array.isArray(data) ? converted : converted[0];
+    }
+
     // Return the data (either single object or array, both potentially partial)
     return NextResponse.json(data, { status: 200 });
   } catch (error) {
+    // Unknown or empty `fields` or a malformed `asOf` are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Missing currency or FX rate: converting would be silently wrong
+    if (error instanceof CurrencyConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     console.error(
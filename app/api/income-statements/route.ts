@@ -5,26 +5,63 @@
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
+import {
+  parseStatementPeriod,
+  STATEMENT_PERIODS,
+} from "@/lib/common/statements";
+import {
+  parseAsOfParam,
+  parseFieldsParam,
+  QueryParamError,
+} from "@/lib/common/supabase";
+
 import { getAllIncomeStatements } from "@/lib/services/income-statements";
 import type { IncomeStatement } from "@/lib/services/income-statements";
 
 /**
  * Handles GET requests to fetch a list of income statements.
  * Uses the underlying service which may return projected data based on configuration.
+ * Query parameter ?period=annual|quarter|ttm picks the period (default annual).
+ * Query parameter ?fields=symbol,date,... narrows each statement.
+ * Query parameter ?asOf=YYYY-MM-DD returns the statements as known on that date.
  * In 'bySymbol' mode, this reads from the cache without triggering fetches.
  */
-export async function GET(): Promise<
-  NextResponse<Partial<IncomeStatement>[] | { error: string }>
-> {
+export async function GET(
+  request: Request
+): Promise<NextResponse<Partial<IncomeStatement>[] | { error: string }>> {
   console.log("GET /api/income-statements called");
 
+  const { searchParams } = new URL(request.url);
+  const periodParam = searchParams.get("period");
+  const period = parseStatementPeriod(periodParam);
+  if (!period) {
+    return NextResponse.json(
+      {
+        error: `Invalid period '${periodParam}'. Expected one of: ${STATEMENT_PERIODS.join(
+          ", "
+        )}.`,
+      },
+      { status: 400 }
+    );
+  }
+
   try {
     // Call the service function -> returns IncomeStatement[] (potentially partial if projected)
-    const data: Partial<IncomeStatement>[] = await getAllIncomeStatements();
+    const data: Partial<IncomeStatement>[] = await getAllIncomeStatements(
+      period,
+      {
+        fields: parseFieldsParam(searchParams),
+        asOf: parseAsOfParam(searchParams),
+      }
+    );
 
     // Return the data as JSON response
     return NextResponse.json(data, { status: 200 });
   } catch (error) {
+    // Unknown or empty `fields` or a malformed `asOf` are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     console.error("Error fetching income statement list:", errorMessage, error);
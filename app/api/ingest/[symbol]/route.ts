@@ -1,5 +1,6 @@
 // app/api/fetch/[symbol]/route.ts
 import { NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/common/symbols";
 import { processSymbolData } from "@/lib/services/ingest";
 import type { SymbolProcessingResult } from "@/lib/services/ingest";
 
@@ -8,7 +9,7 @@ export async function GET(
   { params }: { params: Promise<{ symbol: string }> }
 ): Promise<NextResponse> {
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   console.log(
     `[API FetchData/${symbol}] Received request to fetch all data for symbol: ${symbol}`
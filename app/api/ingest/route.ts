@@ -1,12 +1,17 @@
 // app/api/fetch/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { resolveSymbols } from "@/lib/common/symbols";
+import { getStorage } from "@/lib/common/storage";
+import { parseSymbolsParam, QueryParamError } from "@/lib/common/supabase";
 import {
   fetchAllSymbols,
   processSymbolData,
+  processSymbolsData,
   type SymbolProcessingResult,
 } from "@/lib/services/ingest";
 import { getEarningsCalendar } from "@/lib/services/earnings-calendar"; // For global earnings calendar
+import { pruneExpiredIntradayPrices } from "@/lib/services/intraday-prices";
+import { getFmpClientStats } from "@/lib/common/providers"; // Shared FMP client usage counters
 
 /**
  * Determines the batch size based on query parameters, environment variables, or a default.
@@ -50,15 +55,45 @@ function determineBatchSize(searchParams: URLSearchParams): number {
   return defaultHardcodedBatchSize;
 }
 
+/**
+ * Handles GET ?symbols=AAPL,MSFT: ingests just those symbols and returns
+ * their SymbolProcessingResult keyed by symbol. Cron-protected like the
+ * batch runs: one request may cost provider calls for up to 100 symbols.
+ */
+async function ingestRequestedSymbols(
+  symbols: string[]
+): Promise<NextResponse> {
+  console.log(
+    `[API FetchData BATCH] Processing ${symbols.length} requested symbols.`
+  );
+  try {
+    const results = await processSymbolsData(symbols);
+    return NextResponse.json(results, { status: 200 });
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : String(e);
+    console.error(
+      `[API FetchData BATCH] Unexpected error processing symbols: ${errorMessage}`
+    );
+    return NextResponse.json(
+      {
+        message:
+          "An unexpected error occurred while fetching data for the requested symbols.",
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
+
 export async function GET(request: NextRequest): Promise<NextResponse> {
-  // --- Authorization Check ---
+  // --- Authorization Check (batch runs and requested symbols) ---
   const authHeader = request.headers.get("authorization");
   const authToken = authHeader?.startsWith("Bearer ")
     ? authHeader.substring(7)
     : null;
 
   if (process.env.CRON_SECRET && authToken !== process.env.CRON_SECRET) {
-    console.warn("[API FetchData ALL][Auth] Unauthorized access attempt.");
+    console.warn("[API FetchData][Auth] Unauthorized access attempt.");
     return NextResponse.json(
       { error: "Unauthorized", message: "Invalid or missing Bearer token." },
       { status: 401 }
@@ -66,9 +101,23 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
   // --- End Authorization Check ---
 
+  // --- Requested Symbols (batch of the per-symbol route) ---
+  let requestedSymbols: string[] | undefined;
+  try {
+    requestedSymbols = parseSymbolsParam(new URL(request.url).searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  if (requestedSymbols) {
+    return ingestRequestedSymbols(await resolveSymbols(requestedSymbols));
+  }
+
   const { searchParams } = new URL(request.url);
   const startTime = Date.now();
-  const supabase = getSupabaseServerClient(); // Client for fetching all symbols
+  const storage = getStorage(); // Backend for fetching all symbols
 
   // --- Batch Number Determination ---
   const batchParam = searchParams.get("batch");
@@ -93,7 +142,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   let allSymbols: string[];
   try {
-    allSymbols = await fetchAllSymbols(supabase); // Use the service function
+    allSymbols = await fetchAllSymbols(storage); // Use the service function
   } catch (err: unknown) {
     const errorMessage = err instanceof Error ? err.message : String(err);
     console.error(
@@ -131,9 +180,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     // Process symbols in parallel for the current batch
     const processingPromises = symbolsForThisBatch.map((symbol) =>
-      processSymbolData(
-        symbol /*, supabase - optional if underlying services handle their own client */
-      )
+      processSymbolData(symbol)
     );
     // Using Promise.all to collect results, assuming individual processSymbolData handles its errors gracefully
     // and returns a SymbolProcessingResult even on failure within its scope.
@@ -177,6 +224,25 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
   }
 
+  let intradayRetentionStatus: string = "Skipped (not batch 1)";
+  if (batchNumber === 1) {
+    // Series nobody reads anymore are never refreshed, so never pruned
+    try {
+      const pruned = await pruneExpiredIntradayPrices(storage);
+      intradayRetentionStatus = `Success: ${Object.values(pruned).reduce(
+        (sum, count) => sum + count,
+        0
+      )} expired bar(s) deleted`;
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      intradayRetentionStatus = `Failed: ${errorMsg}`;
+      console.error(
+        "[API FetchData ALL] Error pruning intraday prices:",
+        errorMsg
+      );
+    }
+  }
+
   const endTime = Date.now();
   const durationMs = endTime - startTime;
 
@@ -215,6 +281,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       nextBatch,
       durationMs,
       earningsCalendarStatus,
+      intradayRetentionStatus,
+      fmpUsage: getFmpClientStats(), // Rate limiter / budget counters for this instance
       details: symbolProcessingResults, // Array of SymbolProcessingResult
     },
     { status: 200 }
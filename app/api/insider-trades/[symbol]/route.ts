@@ -0,0 +1,78 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/insider-trades/[symbol]/route.ts
+ * Handler for GET requests for the insider transactions of a symbol
+ * (filer, role, transaction type, shares, price, date), newest first.
+ * A symbol without insider filings returns an empty list.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL;
+ * the insider signals are recomputed afterwards.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import { cacheStatusHeaders, isNoDataError } from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { recomputeDependentSignals } from "@/lib/services/cache-admin";
+import {
+  getInsiderTradesForSymbolWithStatus,
+  type InsiderTradeApiItem,
+} from "@/lib/services/insider-trades";
+import { getProfile } from "@/lib/services/profiles";
+
+/** Handles GET requests for a symbol's insider transactions. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<Partial<InsiderTradeApiItem>[] | { error: string }>> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  console.log(`GET /api/insider-trades/${symbol} called`);
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data, cache } = await getInsiderTradesForSymbolWithStatus(symbol, {
+      refresh,
+    });
+    if (refresh) {
+      await recomputeDependentSignals("insider-trades", [symbol]);
+    }
+    return NextResponse.json(data, {
+      status: 200,
+      headers: cacheStatusHeaders(cache),
+    });
+  } catch (error) {
+    if (isNoDataError(error)) {
+      return NextResponse.json([], { status: 200 });
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[InsiderTrades Route] Error fetching insider trades for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      { error: `Could not load insider trades for symbol ${symbol}.` },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/intraday-prices/[symbol]/route.ts
+ * Handler for GET requests for a symbol's intraday bars, newest first.
+ * ?interval=1m|5m|15m|1h (required) selects the bar length. Each interval
+ * keeps its own retention window of days (older bars are not available).
+ * ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive days, either optional) narrows
+ * the bars returned.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL.
+ * Ensures profile exists first.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  cacheStatusHeaders,
+  parseDateRangeParams,
+  QueryParamError,
+  reorderAndFilterObjectKeys,
+  type DateRange,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import {
+  getIntradayPricesForSymbolWithStatus,
+  INTRADAY_INTERVALS,
+  intradayPriceKeyOrder,
+  parseIntradayInterval,
+  type IntradayPriceApiItem,
+} from "@/lib/services/intraday-prices";
+import { getProfile } from "@/lib/services/profiles";
+
+/** Handles GET requests for a symbol's intraday bars of one interval. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<Partial<IntradayPriceApiItem>[] | { error: string }>> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  const intervalParam = searchParams.get("interval");
+  const interval = parseIntradayInterval(intervalParam);
+  if (!interval) {
+    return NextResponse.json(
+      {
+        error: `${
+          intervalParam
+            ? `Invalid interval '${intervalParam}'`
+            : "Missing interval"
+        }. Expected one of: ${INTRADAY_INTERVALS.join(", ")}.`,
+      },
+      { status: 400 }
+    );
+  }
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+  let range: DateRange;
+  try {
+    range = parseDateRangeParams(searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  console.log(`GET /api/intraday-prices/${symbol} called (${interval})`);
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data, cache } = await getIntradayPricesForSymbolWithStatus(
+      symbol,
+      interval,
+      { refresh, ...range }
+    );
+    return NextResponse.json(
+      data.map((row) => reorderAndFilterObjectKeys(row, intradayPriceKeyOrder)),
+      { status: 200, headers: cacheStatusHeaders(cache) }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Intraday Route] Error fetching ${interval} bars for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: `Could not load ${interval} prices for symbol ${symbol}. Reason: ${errorMessage}`,
+      },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
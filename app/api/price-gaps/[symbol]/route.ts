@@ -0,0 +1,84 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/price-gaps/[symbol]/route.ts
+ * Handler for GET requests for the gap report of a symbol's stored daily
+ * prices: trading sessions with no bar, duplicate bars and bars on days
+ * the exchange was closed. Exchanges without a known trading calendar
+ * report calendarSupported: false and no gaps.
+ * ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, either optional) narrows the
+ * dates checked.
+ * Admins may add ?refetch=true to refetch the missing sessions from the
+ * provider; price-based signals are recomputed afterwards.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  parseDateRangeParams,
+  QueryParamError,
+  type DateRange,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { recomputeDependentSignals } from "@/lib/services/cache-admin";
+import {
+  detectPriceGaps,
+  refetchPriceGaps,
+  type PriceGapRefetchResult,
+  type PriceGapReport,
+} from "@/lib/services/price-gaps";
+
+/** Handles GET requests for a symbol's price gaps. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<
+  NextResponse<PriceGapReport | PriceGapRefetchResult | { error: string }>
+> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  // ?refetch=true costs one provider call per gap: admins only
+  const refetch = searchParams.get("refetch") === "true";
+  if (refetch && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refetch=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+  let range: DateRange;
+  try {
+    range = parseDateRangeParams(searchParams);
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  console.log(`GET /api/price-gaps/${symbol} called`);
+
+  try {
+    if (!refetch) {
+      return NextResponse.json(await detectPriceGaps(symbol, range), {
+        status: 200,
+      });
+    }
+    const result = await refetchPriceGaps(symbol, range);
+    if (result.refetched.length > 0) {
+      await recomputeDependentSignals("historical-prices", [symbol]);
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[PriceGaps Route] Error checking price gaps for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      { error: `Could not check price gaps for symbol ${symbol}.` },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
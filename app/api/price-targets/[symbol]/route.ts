@@ -0,0 +1,91 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/price-targets/[symbol]/route.ts
+ * Handler for GET requests for the analyst price target consensus of a
+ * symbol (consensus, median, high and low): the latest daily snapshot.
+ * ?history=true returns every stored snapshot instead, newest first.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL;
+ * the price target signals are recomputed afterwards.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import { cacheStatusHeaders, isNoDataError } from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { recomputeDependentSignals } from "@/lib/services/cache-admin";
+import {
+  getLatestPriceTargetWithStatus,
+  getPriceTargetHistoryForSymbol,
+  type PriceTargetApiItem,
+} from "@/lib/services/price-targets";
+import { getProfile } from "@/lib/services/profiles";
+
+/** Handles GET requests for a symbol's price targets. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<
+  NextResponse<
+    | Partial<PriceTargetApiItem>
+    | Partial<PriceTargetApiItem>[]
+    | { error: string }
+  >
+> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  const history = searchParams.get("history") === "true";
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  console.log(`GET /api/price-targets/${symbol} called`);
+
+  const notFound = () =>
+    NextResponse.json(
+      { error: `Price targets not found for symbol ${symbol}.` },
+      { status: 404 }
+    );
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data, cache } = await getLatestPriceTargetWithStatus(symbol, {
+      refresh,
+    });
+    if (refresh) {
+      await recomputeDependentSignals("price-targets", [symbol]);
+    }
+    if (!data) return notFound();
+    return NextResponse.json(
+      history ? await getPriceTargetHistoryForSymbol(symbol) : data,
+      { status: 200, headers: cacheStatusHeaders(cache) }
+    );
+  } catch (error) {
+    if (isNoDataError(error)) return notFound();
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[PriceTargets Route] Error fetching price targets for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      { error: `Could not load price targets for symbol ${symbol}.` },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
@@ -2,9 +2,19 @@
  * app/api/profile/[symbol]/route.ts
  * Handler for GET requests to /api/profile/[symbol]
  * Retrieves the company profile for a specific symbol.
+ * Use query parameter ?fields=symbol,company_name to narrow the response.
+ * Use query parameter ?asOf=YYYY-MM-DD for the profile as stored on that date.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
+import { isAdminRequest } from "@/lib/common/auth";
+import {
+  parseAsOfParam,
+  parseFieldsParam,
+  QueryParamError,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
 import { getProfile } from "@/lib/services/profiles";
 import type { Profile } from "@/lib/services/profiles";
 
@@ -12,11 +22,11 @@ import type { Profile } from "@/lib/services/profiles";
  * Handles GET requests to fetch the profile for a specific symbol.
  */
 export async function GET(
-  request: Request, // Keep request for potential future use (e.g., headers)
+  request: Request, // Used for query parameters and the admin token
   { params }: { params: Promise<{ symbol: string }> }
 ): Promise<NextResponse<Partial<Profile> | { error: string }>> {
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   console.log(`GET /api/profile/${symbol} called`);
 
@@ -27,10 +37,26 @@ export async function GET(
     );
   }
 
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
   try {
     // Call the service function to get the profile data for the symbol.
     // Service now returns Partial<Profile> | null
-    const data: Partial<Profile> | null = await getProfile(symbol);
+    const fields = parseFieldsParam(searchParams);
+    const asOf = parseAsOfParam(searchParams);
+    const data: Partial<Profile> | null = await getProfile(symbol, {
+      fields,
+      asOf,
+      refresh,
+    });
 
     // Handle case where the profile is not found (service returns null)
     if (!data) {
@@ -44,6 +70,11 @@ export async function GET(
     // Return the profile data (single partial object)
     return NextResponse.json(data, { status: 200 });
   } catch (error) {
+    // Unknown or empty `fields` or a malformed `asOf` are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     // Log the error for server-side debugging
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
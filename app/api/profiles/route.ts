@@ -1,30 +1,72 @@
 /* ──────────────────────────────────────────────────────────────────────
  * app/api/profile/route.ts
  * Handler for GET requests to /api/profile
- * Retrieves a list view of all company profiles.
+ * Retrieves a paginated list view of company profiles, or with
+ * ?symbols=AAPL,MSFT the profiles of those symbols keyed by symbol.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
-import { getAllProfiles } from "@/lib/services/profiles";
+import {
+  parseCollectionQuery,
+  parseFieldsParam,
+  parseSymbolsParam,
+  QueryParamError,
+  type BatchResult,
+  type Page,
+  type WithCacheStatus,
+} from "@/lib/common/supabase";
+import { resolveSymbols } from "@/lib/common/symbols";
+import {
+  getProfilesForSymbols,
+  getProfilesPage,
+} from "@/lib/services/profiles";
 import type { Profile } from "@/lib/services/profiles";
 
 /**
- * Handles GET requests to fetch a list of all company profiles.
- * Uses the underlying service which returns projected data based on configuration.
+ * Handles GET requests to fetch one page of company profiles.
+ * Query params: `limit`, `cursor` (from the previous page's nextCursor),
+ * `sort` (e.g. `-market_cap`) and filters such as `sector=Technology` or
+ * `marketCap.gte=1e10`. Fields must be part of the profile API fields.
+ * `fields` (e.g. `symbol,company_name,market_cap`) narrows each item.
+ * `symbols` (e.g. `AAPL,MSFT,NVDA`) switches to a batch read instead: one
+ * entry per symbol, `{ data, cache }` or `{ error }`, fetching missing or
+ * stale profiles from the provider.
  */
-export async function GET(): Promise<
-  NextResponse<Partial<Profile>[] | { error: string }>
+export async function GET(
+  request: Request
+): Promise<
+  NextResponse<
+    | Page<Partial<Profile>>
+    | BatchResult<WithCacheStatus<Partial<Profile>>>
+    | { error: string }
+  >
 > {
   console.log("GET /api/profile called"); // Optional: Logging
 
   try {
-    // Call the service function to get the data.
-    // Service now returns Partial<Profile>[]
-    const data: Partial<Profile>[] = await getAllProfiles();
+    const { searchParams } = new URL(request.url);
+    const fields = parseFieldsParam(searchParams);
 
-    // Return the data as JSON response
-    return NextResponse.json(data, { status: 200 });
+    const symbolsParam = parseSymbolsParam(searchParams);
+    if (symbolsParam) {
+      const symbols = await resolveSymbols(symbolsParam);
+      const profiles = await getProfilesForSymbols(symbols, { fields });
+      return NextResponse.json(profiles, { status: 200 });
+    }
+
+    const query = parseCollectionQuery(searchParams);
+
+    // Call the service function to get one page of the data.
+    const { data: page } = await getProfilesPage(query, { fields });
+
+    // Return the page as JSON response
+    return NextResponse.json(page, { status: 200 });
   } catch (error) {
+    // Invalid paging/filter/sort/fields params are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     // Log the error for server-side debugging
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
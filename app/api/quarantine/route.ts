@@ -0,0 +1,61 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/quarantine/route.ts
+ * Handler for GET requests to /api/quarantine
+ * Lists raw provider records that failed schema validation, newest first.
+ * Query params: `table` (e.g. income_statements), `symbol`, `limit`.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import {
+  DEFAULT_PAGE_LIMIT,
+  getQuarantinedRecords,
+  MAX_PAGE_LIMIT,
+  type QuarantinedRecord,
+} from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+
+// Quarantine grows with every fetch, never serve a cached response
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for quarantined records.
+ * Without `table`/`symbol` all quarantined records are listed.
+ */
+export async function GET(
+  request: Request
+): Promise<NextResponse<QuarantinedRecord[] | { error: string }>> {
+  const { searchParams } = new URL(request.url);
+  const tableName = searchParams.get("table") ?? undefined;
+  const symbolParam = searchParams.get("symbol");
+  const symbol = symbolParam ? await resolveSymbol(symbolParam) : undefined;
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_PAGE_LIMIT : Number(limitParam);
+
+  console.log(
+    `GET /api/quarantine called (table: ${tableName ?? "*"}, symbol: ${
+      symbol ?? "*"
+    })`
+  );
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    return NextResponse.json(
+      {
+        error: `Invalid limit '${limitParam}'. Expected an integer between 1 and ${MAX_PAGE_LIMIT}.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const records = await getQuarantinedRecords({ tableName, symbol, limit });
+    return NextResponse.json(records, { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("Error fetching quarantined records:", errorMessage, error);
+    return NextResponse.json(
+      { error: "Could not load quarantined records." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 // app/api/signal-analyst-consensus/[symbol]/route.ts
 import { NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/common/symbols";
 import { processAnalystConsensusForSymbol } from "@/lib/services/signal-analyst-consensus/service";
 import type { AnalystProcessingResult } from "@/lib/services/signal-analyst-consensus/service"; // Import the result type
 
@@ -7,9 +8,9 @@ export async function GET(
   request: Request, // Keep request even if not used, for standard signature
   { params }: { params: Promise<{ symbol: string }> } // Next.js 13+ direct params
 ): Promise<NextResponse> {
-  // Access symbol directly from params, uppercase it
+  // Access symbol directly from params, resolve it to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   console.log(
     `[API AnalystConsensus/${symbol}] Received request for symbol: ${symbol}`
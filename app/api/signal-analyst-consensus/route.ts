@@ -1,6 +1,7 @@
 // app/api/signal-analyst-consensus/route.ts
 import { NextResponse } from "next/server";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage } from "@/lib/common/storage";
+import { getProfileSymbols } from "@/lib/services/signals";
 import {
   processAnalystConsensusForSymbol,
   type AnalystProcessingResult,
@@ -10,46 +11,16 @@ export async function GET(): Promise<NextResponse> {
   console.log(
     "[API AnalystConsensus ALL] Received request to process all symbols."
   );
-  const supabase = getSupabaseServerClient(); // Single client for this operation
+  const storage = getStorage(); // Single backend for this operation
 
-  // 1. Fetch symbols from the profile_symbols view
+  // 1. Fetch the distinct symbols of the stored profiles
   let symbolsToProcess: string[] = [];
   try {
-    const { data: symbolsData, error: symbolsError } = await supabase
-      .from("profile_symbols") // Make sure this view name is correct
-      .select("symbol");
-
-    if (symbolsError) {
-      console.error(
-        "[API AnalystConsensus ALL] Error fetching symbols from profile_symbols:",
-        symbolsError.message
-      );
-      return NextResponse.json(
-        {
-          message: "Error fetching symbol list from profile_symbols.",
-          error: symbolsError.message,
-        },
-        { status: 500 }
-      );
-    }
-
-    if (!symbolsData || symbolsData.length === 0) {
-      console.log(
-        "[API AnalystConsensus ALL] No symbols found in profile_symbols view."
-      );
-      return NextResponse.json(
-        { message: "No symbols found in profile_symbols view to process." },
-        { status: 200 }
-      );
-    }
-
-    symbolsToProcess = symbolsData
-      .map((s: { symbol: string | null }) => s.symbol)
-      .filter((s): s is string => typeof s === "string" && s.trim() !== "");
+    symbolsToProcess = await getProfileSymbols(storage);
 
     if (symbolsToProcess.length === 0) {
       console.log(
-        "[API AnalystConsensus ALL] No valid symbols to process after filtering."
+        "[API AnalystConsensus ALL] No symbols found in stored profiles."
       );
       return NextResponse.json(
         { message: "No valid symbols found to process." },
@@ -77,7 +48,7 @@ export async function GET(): Promise<NextResponse> {
   // 2. Process each symbol
   const allResults: AnalystProcessingResult[] = [];
   for (const symbol of symbolsToProcess) {
-    const result = await processAnalystConsensusForSymbol(symbol, supabase); // Pass the client
+    const result = await processAnalystConsensusForSymbol(symbol, storage); // Pass the client
     allResults.push(result);
   }
 
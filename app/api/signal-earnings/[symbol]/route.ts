@@ -1,5 +1,6 @@
 // app/api/signal-earnings/[symbol]/route.ts
 import { NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/common/symbols";
 import { processEarningsSignalsForSymbol } from "@/lib/services/signal-earnings/service";
 import type { EarningsProcessingResult } from "@/lib/services/signal-earnings/service";
 
@@ -7,9 +8,9 @@ export async function GET(
   request: Request,
   { params }: { params: Promise<{ symbol: string }> }
 ): Promise<NextResponse> {
-  // Access symbol directly from params, uppercase it
+  // Access symbol directly from params, resolve it to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   console.log(
     `[API EarningsSignal/${symbol}] Received request for symbol: ${symbol}`
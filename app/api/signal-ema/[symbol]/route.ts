@@ -1,19 +1,46 @@
 // app/api/signal-ema/[symbol]/route.ts
 import { NextResponse } from "next/server";
-import { processEmaSignalsForSymbol } from "@/lib/services/signal-ema/service";
+import { resolveSymbol } from "@/lib/common/symbols";
+import {
+  parseSignalPriceInterval,
+  SIGNAL_PRICE_INTERVALS,
+} from "@/lib/services/adjusted-prices";
+import {
+  computeEmaSignalsForInterval,
+  processEmaSignalsForSymbol,
+} from "@/lib/services/signal-ema/service";
 import type { EmaProcessingResult } from "@/lib/services/signal-ema/service";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ symbol: string }> }
 ): Promise<NextResponse> {
-  // Access symbol directly from params, uppercase it
+  // Access symbol directly from params, resolve it to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
   console.log(
     `[API EmaSignal/${symbol}] Received request for symbol: ${symbol}`
   );
 
+  // ?interval=5m (intraday) or 1w (resampled daily bars) computes on those
+  // bars instead; the signals are returned, not stored
+  const intervalParam = new URL(request.url).searchParams.get("interval");
+  if (intervalParam) {
+    const interval = parseSignalPriceInterval(intervalParam);
+    if (!interval) {
+      return NextResponse.json(
+        {
+          error: `Invalid interval '${intervalParam}'. Expected one of: ${SIGNAL_PRICE_INTERVALS.join(
+            ", "
+          )}.`,
+        },
+        { status: 400 }
+      );
+    }
+    const result = await computeEmaSignalsForInterval(symbol, interval);
+    return NextResponse.json(result, { status: result.error ? 500 : 200 });
+  }
+
   try {
     const result: EmaProcessingResult = await processEmaSignalsForSymbol(
       symbol
@@ -26,6 +53,7 @@ export async function GET(
       status: string;
       latestSignalDate?: string | null;
       error?: string;
+      skipReason?: string;
     } = {
       message: "", // Will be set below
       symbol: result.processedSymbol,
@@ -55,6 +83,10 @@ export async function GET(
         case "skipped_fresh":
           responsePayload.message = `EMA signals for symbol ${result.processedSymbol} are already fresh. No new signals generated.`;
           break;
+        case "skipped":
+          responsePayload.message = `EMA signals for symbol ${result.processedSymbol} were not generated (missing price sessions).`;
+          responsePayload.skipReason = result.skipReason;
+          break;
         case "no_data_for_generation":
           responsePayload.message = `No new EMA signals generated for ${
             result.processedSymbol
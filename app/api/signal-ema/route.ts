@@ -1,6 +1,7 @@
 // app/api/signal-ema/route.ts
 import { NextResponse } from "next/server";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage } from "@/lib/common/storage";
+import { getProfileSymbols } from "@/lib/services/signals";
 import {
   processEmaSignalsForSymbol,
   type EmaProcessingResult,
@@ -10,47 +11,15 @@ export async function GET(): Promise<NextResponse> {
   console.log(
     "[API EmaSignal ALL] Received request to process all symbols for EMA signals."
   );
-  const supabase = getSupabaseServerClient(); // Single client for this operation
+  const storage = getStorage(); // Single backend for this operation
 
-  // 1. Fetch symbols from the profile_symbols view
+  // 1. Fetch the distinct symbols of the stored profiles
   let symbolsToProcess: string[] = [];
   try {
-    const { data: symbolsData, error: symbolsError } = await supabase
-      .from("profile_symbols") // Ensure this view name is correct
-      .select("symbol");
-
-    if (symbolsError) {
-      console.error(
-        "[API EmaSignal ALL] Error fetching symbols from profile_symbols:",
-        symbolsError.message
-      );
-      return NextResponse.json(
-        {
-          message: "Error fetching symbol list from profile_symbols.",
-          error: symbolsError.message,
-        },
-        { status: 500 }
-      );
-    }
-
-    if (!symbolsData || symbolsData.length === 0) {
-      console.log(
-        "[API EmaSignal ALL] No symbols found in profile_symbols view."
-      );
-      return NextResponse.json(
-        { message: "No symbols found in profile_symbols view to process." },
-        { status: 200 }
-      );
-    }
-
-    symbolsToProcess = symbolsData
-      .map((s: { symbol: string | null }) => s.symbol)
-      .filter((s): s is string => typeof s === "string" && s.trim() !== "");
+    symbolsToProcess = await getProfileSymbols(storage);
 
     if (symbolsToProcess.length === 0) {
-      console.log(
-        "[API EmaSignal ALL] No valid symbols to process after filtering."
-      );
+      console.log("[API EmaSignal ALL] No symbols found in stored profiles.");
       return NextResponse.json(
         { message: "No valid symbols found to process." },
         { status: 200 }
@@ -77,8 +46,8 @@ export async function GET(): Promise<NextResponse> {
   // 2. Process each symbol
   const allResults: EmaProcessingResult[] = [];
   for (const symbol of symbolsToProcess) {
-    // Pass the existing supabase client instance to the service function
-    const result = await processEmaSignalsForSymbol(symbol, supabase);
+    // Pass the shared storage backend to the service function
+    const result = await processEmaSignalsForSymbol(symbol, storage);
     allResults.push(result);
   }
 
@@ -86,6 +55,7 @@ export async function GET(): Promise<NextResponse> {
   let totalSignalsGenerated: number = 0;
   let successfullyProcessedCount: number = 0;
   let skippedFreshCount: number = 0;
+  let skippedCount: number = 0; // Missing sessions (SIGNAL_GAP_POLICY=skip)
   let noDataForGenerationCount: number = 0;
   let errorCount: number = 0;
 
@@ -98,6 +68,9 @@ export async function GET(): Promise<NextResponse> {
       case "skipped_fresh":
         skippedFreshCount++;
         break;
+      case "skipped":
+        skippedCount++;
+        break;
       case "no_data_for_generation":
         noDataForGenerationCount++;
         break;
@@ -112,6 +85,7 @@ export async function GET(): Promise<NextResponse> {
     totalSymbolsAttempted: symbolsToProcess.length,
     successfullyProcessedCount,
     skippedFreshCount,
+    skippedCount,
     noDataForGenerationCount,
     errorCount,
     totalSignalsGenerated,
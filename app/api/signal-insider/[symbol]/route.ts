@@ -0,0 +1,82 @@
+// app/api/signal-insider/[symbol]/route.ts
+import { NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { processInsiderSignalsForSymbol } from "@/lib/services/signal-insider/service";
+import type { InsiderProcessingResult } from "@/lib/services/signal-insider/service";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse> {
+  // Access symbol directly from params, resolve it to the canonical ticker
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  console.log(
+    `[API InsiderSignal/${symbol}] Received request for symbol: ${symbol}`
+  );
+
+  try {
+    const result: InsiderProcessingResult =
+      await processInsiderSignalsForSymbol(symbol);
+
+    if (result.status === "error") {
+      console.error(
+        `[API InsiderSignal/${symbol}] Service error for symbol ${result.processedSymbol}: ${result.error}`
+      );
+      return NextResponse.json(
+        {
+          message: `Error processing insider signals for symbol ${result.processedSymbol}.`,
+          symbol: result.processedSymbol,
+          error: result.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    let httpStatus: number = 200;
+    let message: string = "";
+
+    switch (result.status) {
+      case "processed":
+        message = `Successfully processed insider signals for symbol ${result.processedSymbol}. Signals generated: ${result.signalsGenerated}.`;
+        break;
+      case "skipped_fresh":
+        message = `Insider signals for symbol ${result.processedSymbol} are already fresh. No new signals generated.`;
+        break;
+      case "no_data_for_generation":
+        message = `No new insider signals generated for ${result.processedSymbol} (no open-market insider trades or conditions met).`;
+        break;
+      default:
+        message = `Unknown processing status for symbol ${result.processedSymbol}. Status: ${result.status}`;
+        httpStatus = 500; // Treat unexpected status as an error
+        break;
+    }
+
+    console.log(
+      `[API InsiderSignal/${symbol}] Responding for ${result.processedSymbol}: ${message}`
+    );
+    return NextResponse.json(
+      {
+        message,
+        symbol: result.processedSymbol,
+        signalsGenerated: result.signalsGenerated,
+        status: result.status,
+      },
+      { status: httpStatus }
+    );
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : String(e);
+    console.error(
+      `[API InsiderSignal/${symbol}] Unexpected error processing symbol ${symbol}: ${errorMessage}`
+    );
+    return NextResponse.json(
+      {
+        message: `An unexpected error occurred while processing insider signals for symbol ${symbol}.`,
+        symbol,
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+// app/api/signal-insider/route.ts
+import { NextResponse } from "next/server";
+import { getStorage } from "@/lib/common/storage";
+import { getProfileSymbols } from "@/lib/services/signals";
+import {
+  processInsiderSignalsForSymbol,
+  type InsiderProcessingResult,
+} from "@/lib/services/signal-insider/service";
+
+export async function GET(): Promise<NextResponse> {
+  console.log(
+    "[API InsiderSignal ALL] Received request to process all symbols for insider signals."
+  );
+  const storage = getStorage(); // Single backend for this operation
+
+  // 1. Fetch the distinct symbols of the stored profiles
+  let symbolsToProcess: string[] = [];
+  try {
+    symbolsToProcess = await getProfileSymbols(storage);
+
+    if (symbolsToProcess.length === 0) {
+      console.log(
+        "[API InsiderSignal ALL] No symbols found in stored profiles."
+      );
+      return NextResponse.json(
+        { message: "No valid symbols found to process." },
+        { status: 200 }
+      );
+    }
+    console.log(
+      `[API InsiderSignal ALL] Found ${symbolsToProcess.length} symbols to process.`
+    );
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : String(e);
+    console.error(
+      "[API InsiderSignal ALL] Unexpected error fetching symbols:",
+      errorMessage
+    );
+    return NextResponse.json(
+      {
+        message: "An unexpected error occurred while fetching symbols.",
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+
+  // 2. Process each symbol
+  const allResults: InsiderProcessingResult[] = [];
+  for (const symbol of symbolsToProcess) {
+    // Pass the shared storage backend to the service function
+    const result = await processInsiderSignalsForSymbol(symbol, storage);
+    allResults.push(result);
+  }
+
+  // 3. Aggregate results and respond
+  let totalSignalsGenerated: number = 0;
+  let successfullyProcessedCount: number = 0;
+  let skippedFreshCount: number = 0;
+  let noDataForGenerationCount: number = 0;
+  let errorCount: number = 0;
+
+  for (const res of allResults) {
+    totalSignalsGenerated += res.signalsGenerated;
+    switch (res.status) {
+      case "processed":
+        successfullyProcessedCount++;
+        break;
+      case "skipped_fresh":
+        skippedFreshCount++;
+        break;
+      case "no_data_for_generation":
+        noDataForGenerationCount++;
+        break;
+      case "error":
+        errorCount++;
+        break;
+    }
+  }
+
+  const responseSummary = {
+    message: `Insider signals processing complete for all ${symbolsToProcess.length} attempted symbols.`,
+    totalSymbolsAttempted: symbolsToProcess.length,
+    successfullyProcessedCount,
+    skippedFreshCount,
+    noDataForGenerationCount,
+    errorCount,
+    totalSignalsGenerated,
+    results: allResults, // Includes details for each symbol
+  };
+
+  console.log(
+    `[API InsiderSignal ALL] Processing finished. Generated ${totalSignalsGenerated} signals. Errors: ${errorCount}.`
+  );
+
+  return NextResponse.json(responseSummary, { status: 200 });
+}
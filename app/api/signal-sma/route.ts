@@ -1,6 +1,7 @@
 // app/api/signal-sma/route.ts
 import { NextResponse } from "next/server";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage } from "@/lib/common/storage";
+import { getProfileSymbols } from "@/lib/services/signals";
 import {
   processSmaSignalsForSymbol,
   type SmaProcessingResult,
@@ -10,47 +11,15 @@ export async function GET(): Promise<NextResponse> {
   console.log(
     "[API SmaSignal ALL] Received request to process all symbols for SMA signals."
   );
-  const supabase = getSupabaseServerClient();
+  const storage = getStorage(); // Single backend for this operation
 
-  // 1. Fetch symbols from the profile_symbols view
+  // 1. Fetch the distinct symbols of the stored profiles
   let symbolsToProcess: string[] = [];
   try {
-    const { data: symbolsData, error: symbolsError } = await supabase
-      .from("profile_symbols")
-      .select("symbol");
-
-    if (symbolsError) {
-      console.error(
-        "[API SmaSignal ALL] Error fetching symbols from profile_symbols:",
-        symbolsError.message
-      );
-      return NextResponse.json(
-        {
-          message: "Error fetching symbol list from profile_symbols.",
-          error: symbolsError.message,
-        },
-        { status: 500 }
-      );
-    }
-
-    if (!symbolsData || symbolsData.length === 0) {
-      console.log(
-        "[API SmaSignal ALL] No symbols found in profile_symbols view."
-      );
-      return NextResponse.json(
-        { message: "No symbols found in profile_symbols view to process." },
-        { status: 200 }
-      );
-    }
-
-    symbolsToProcess = symbolsData
-      .map((s: { symbol: string | null }) => s.symbol)
-      .filter((s): s is string => typeof s === "string" && s.trim() !== "");
+    symbolsToProcess = await getProfileSymbols(storage);
 
     if (symbolsToProcess.length === 0) {
-      console.log(
-        "[API SmaSignal ALL] No valid symbols to process after filtering."
-      );
+      console.log("[API SmaSignal ALL] No symbols found in stored profiles.");
       return NextResponse.json(
         { message: "No valid symbols found to process." },
         { status: 200 }
@@ -77,7 +46,7 @@ export async function GET(): Promise<NextResponse> {
   // 2. Process each symbol
   const allResults: SmaProcessingResult[] = [];
   for (const symbol of symbolsToProcess) {
-    const result = await processSmaSignalsForSymbol(symbol, supabase);
+    const result = await processSmaSignalsForSymbol(symbol, storage);
     allResults.push(result);
   }
 
@@ -85,6 +54,7 @@ export async function GET(): Promise<NextResponse> {
   let totalSignalsGenerated: number = 0;
   let successfullyProcessedCount: number = 0;
   let skippedFreshCount: number = 0;
+  let skippedCount: number = 0; // Missing sessions (SIGNAL_GAP_POLICY=skip)
   let noDataForGenerationCount: number = 0;
   let errorCount: number = 0;
 
@@ -97,6 +67,9 @@ export async function GET(): Promise<NextResponse> {
       case "skipped_fresh":
         skippedFreshCount++;
         break;
+      case "skipped":
+        skippedCount++;
+        break;
       case "no_data_for_generation":
         noDataForGenerationCount++;
         break;
@@ -111,6 +84,7 @@ export async function GET(): Promise<NextResponse> {
     totalSymbolsAttempted: symbolsToProcess.length,
     successfullyProcessedCount,
     skippedFreshCount,
+    skippedCount,
     noDataForGenerationCount,
     errorCount,
     totalSignalsGenerated,
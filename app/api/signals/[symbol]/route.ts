@@ -1,5 +1,8 @@
 // app/api/signals/[symbol]/route.ts
+// Admins may add ?refresh=true to recompute every signal despite the TTL.
 import { NextResponse } from "next/server";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { isAdminRequest } from "@/lib/common/auth";
 import { getSignalsForSymbol } from "@/lib/services/signals"; // Orchestrator service
 import type { SignalRow as DbSignalRow } from "@/lib/services/signals"; // DB row type
 import {
@@ -8,21 +11,34 @@ import {
 } from "@/lib/services/signals/formatting"; // Transformation service
 
 export async function GET(
-  request: Request, // Keep for standard signature
+  request: Request, // Used for ?refresh=true and the admin token
   { params }: { params: Promise<{ symbol: string }> }
 ): Promise<NextResponse<MarketSignal[] | { error: string }>> {
-  // Access symbol directly from params, uppercase it
+  // Access symbol directly from params, resolve it to the canonical ticker
   const { symbol: symbolParam } = await params;
-  const symbol = symbolParam?.toUpperCase();
+  const symbol = await resolveSymbol(symbolParam);
 
   console.log(
     `[Signals] GET request for symbol: ${symbol}. This will process and transform signals.`
   );
 
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
   try {
     // Step 1: Ensure signals are up-to-date for this specific symbol and get raw data.
     // getSignalsForSymbol is the orchestrator that calls all individual signal processors.
-    const rawSignals: DbSignalRow[] = await getSignalsForSymbol(symbol);
+    const rawSignals: DbSignalRow[] = await getSignalsForSymbol(
+      symbol,
+      refresh
+    );
 
     if (!rawSignals) {
       // Should ideally always be an array from getSignalsForSymbol
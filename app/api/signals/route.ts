@@ -1,22 +1,47 @@
 /* ──────────────────────────────────────────────────────────────────────
  * app/api/signals/route.ts
- * Handler for GET requests to process and fetch signals for all distinct symbols,
- * transforming them for frontend display using a dedicated formatting service.
+ * Handler for GET requests to process signals for all distinct symbols and
+ * return them one page at a time, transformed for frontend display using a
+ * dedicated formatting service. With ?symbols=AAPL,MSFT it processes only
+ * those symbols and returns their signals keyed by symbol.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
-import { ensureAndGetAllSignals } from "@/lib/services/signals"; // Your existing service to get raw signals
-import type { SignalRow as DbSignalRow } from "@/lib/services/signals"; // Type from your signals service
+import { resolveSymbols } from "@/lib/common/symbols";
+import {
+  parseCollectionQuery,
+  parseSymbolsParam,
+  QueryParamError,
+  type BatchResult,
+  type Page,
+} from "@/lib/common/supabase";
+import {
+  ensureAllSignals,
+  getSignalsForSymbols,
+  getSignalsPage,
+} from "@/lib/services/signals"; // Signal generation + paged/batch reads
 import {
   transformDbSignalToMarketSignal,
   type MarketSignal, // Import the transformation function and MarketSignal type
 } from "@/lib/services/signals/formatting"; // Path to the new formatting service
 
 /**
- * Handles GET requests. It ensures signals are up-to-date for all distinct symbols,
- * then fetches and transforms these signals for frontend display.
+ * Handles GET requests. On the first page (no cursor) it ensures signals are
+ * up-to-date for all distinct symbols; every request then reads one page of
+ * signals and transforms it for frontend display.
+ * Query params: `limit`, `cursor`, `sort` (default `-signal_date`) and filters
+ * such as `symbol=AAPL` or `signal_category=technical`.
+ * `symbols` (e.g. `AAPL,MSFT,NVDA`) switches to a batch read instead: signals
+ * are ensured for those symbols only and returned keyed by symbol, with an
+ * `{ error }` entry for symbols whose generation failed.
  */
-export async function GET(): Promise<
-  NextResponse<MarketSignal[] | { error: string; details?: string }>
+export async function GET(
+  request: Request
+): Promise<
+  NextResponse<
+    | Page<MarketSignal>
+    | BatchResult<MarketSignal[]>
+    | { error: string; details?: string }
+  >
 > {
   const routePath = "/api/signals";
   console.log(
@@ -24,29 +49,54 @@ export async function GET(): Promise<
   );
 
   try {
-    // Step 1: Ensure all signals are up-to-date and get the raw data.
-    // ensureAndGetAllSignals is expected to call the orchestrator getSignalsBySymbol for each symbol.
-    const rawSignals: DbSignalRow[] = await ensureAndGetAllSignals();
+    const { searchParams } = new URL(request.url);
 
-    if (!rawSignals) {
-      console.warn(
-        `[Route ${routePath}] ensureAndGetAllSignals returned null or undefined.`
+    const symbolsParam = parseSymbolsParam(searchParams);
+    if (symbolsParam) {
+      const symbols = await resolveSymbols(symbolsParam);
+      const signalsBySymbol = await getSignalsForSymbols(symbols);
+      const marketSignals: BatchResult<MarketSignal[]> = Object.fromEntries(
+        Object.entries(signalsBySymbol).map(([symbol, entry]) => [
+          symbol,
+          Array.isArray(entry)
+            ? entry.map(transformDbSignalToMarketSignal)
+            : entry,
+        ])
+      );
+      console.log(
+        `[Route ${routePath}] Successfully processed signals for ${symbols.length} requested symbol(s).`
       );
-      // Return empty array if ensureAndGetAllSignals can return null/undefined
-      // If it always returns an array (even empty), this check might not be strictly needed
-      return NextResponse.json([], { status: 200 });
+      return NextResponse.json(marketSignals, { status: 200 });
+    }
+
+    const query = parseCollectionQuery(searchParams);
+
+    // Step 1: Ensure all signals are up-to-date, once per listing (first page only).
+    if (!query.cursor) {
+      await ensureAllSignals();
     }
 
-    // Step 2: Transform the raw signals into the MarketSignal format for the frontend.
-    const marketSignals: MarketSignal[] = rawSignals.map(
+    // Step 2: Read one page of raw signals.
+    const page = await getSignalsPage(query);
+
+    // Step 3: Transform the raw signals into the MarketSignal format for the frontend.
+    const marketSignals: MarketSignal[] = page.data.map(
       transformDbSignalToMarketSignal
     );
 
     console.log(
-      `[Route ${routePath}] Successfully processed and transformed signals. Total market signals: ${marketSignals.length}.`
+      `[Route ${routePath}] Successfully processed and transformed signals. Market signals in page: ${marketSignals.length}.`
+    );
+    return NextResponse.json(
+      { data: marketSignals, nextCursor: page.nextCursor },
+      { status: 200 }
     );
-    return NextResponse.json(marketSignals, { status: 200 });
   } catch (error: unknown) {
+    // Invalid paging/filter/sort params are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     let errorMessage =
       "An unknown error occurred while processing and fetching signals.";
     let errorDetails: string | undefined;
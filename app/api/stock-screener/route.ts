@@ -1,31 +1,57 @@
 /* ──────────────────────────────────────────────────────────────────────
  * app/api/stock-screener/route.ts
  * Handler for GET requests to /api/stock-screener
- * Retrieves the latest stock screener results list.
+ * Retrieves the latest stock screener results, one page at a time.
  * ---------------------------------------------------------------------*/
 import { NextResponse } from "next/server";
 
-import { getStockScreenerResults } from "@/lib/services/stocker-screener";
+import {
+  cacheStatusHeaders,
+  parseCollectionQuery,
+  parseFieldsParam,
+  QueryParamError,
+  type Page,
+} from "@/lib/common/supabase";
+import { getStockScreenerPage } from "@/lib/services/stocker-screener";
 import type { StockScreenerItem } from "@/lib/services/stocker-screener";
 
 /**
- * Handles GET requests to fetch the latest stock screener results.
+ * Handles GET requests to fetch one page of the latest stock screener results.
+ * Query params: `limit`, `cursor` (from the previous page's nextCursor),
+ * `sort` (e.g. `-market_cap`) and filters such as `sector=Technology` or
+ * `marketCap.gte=1e10`. Fields must be part of the screener API fields.
+ * `fields` (e.g. `symbol,price,market_cap`) narrows each item.
  * Uses the underlying service which returns cached or freshly fetched data,
  * potentially projected/ordered based on configuration.
+ * A stale snapshot may be served while it refreshes in the background;
+ * the X-Cache-Status / X-Cache-Modified-At headers say so.
  */
-export async function GET(): Promise<
-  NextResponse<Partial<StockScreenerItem>[] | { error: string }> // Returns array of partials
+export async function GET(request: Request): Promise<
+  NextResponse<Page<Partial<StockScreenerItem>> | { error: string }> // Returns a page of partials
 > {
   console.log("GET /api/stock-screener called");
 
   try {
-    // Call the service function -> returns Partial<StockScreenerApiItem>[]
-    const data: Partial<StockScreenerItem>[] = await getStockScreenerResults();
+    const { searchParams } = new URL(request.url);
+    const query = parseCollectionQuery(searchParams);
+    const fields = parseFieldsParam(searchParams);
 
-    // Return the data as JSON response
-    return NextResponse.json(data, { status: 200 });
+    // Call the service function -> returns a page of Partial<StockScreenerApiItem> plus cache status
+    const { data: page, cache } = await getStockScreenerPage(query, {
+      fields,
+    });
+
+    // Return the page as JSON response, with the staleness indicator in headers
+    return NextResponse.json(page, {
+      status: 200,
+      headers: cacheStatusHeaders(cache),
+    });
   } catch (error: unknown) {
     // Catch as unknown
+    // Invalid paging/filter/sort/fields params are the client's fault
+    if (error instanceof QueryParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     let errorMessage: string;
     if (error instanceof Error) {
       errorMessage = error.message;
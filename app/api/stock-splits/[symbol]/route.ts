@@ -0,0 +1,77 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * app/api/stock-splits/[symbol]/route.ts
+ * Handler for GET requests for the split history of a symbol, newest first.
+ * A symbol that never split returns an empty list.
+ * Admins may add ?refresh=true to refetch from the provider despite the TTL;
+ * price-based signals are recomputed afterwards.
+ * ---------------------------------------------------------------------*/
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/common/auth";
+import { cacheStatusHeaders, isNoDataError } from "@/lib/common/supabase";
+import { resolveSymbol } from "@/lib/common/symbols";
+import { recomputeDependentSignals } from "@/lib/services/cache-admin";
+import { getProfile } from "@/lib/services/profiles";
+import {
+  getStockSplitsForSymbolWithStatus,
+  type StockSplitApiItem,
+} from "@/lib/services/stock-splits";
+
+/** Handles GET requests for a symbol's stock splits. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ symbol: string }> }
+): Promise<NextResponse<Partial<StockSplitApiItem>[] | { error: string }>> {
+  const { symbol: symbolParam } = await params;
+  const symbol = await resolveSymbol(symbolParam);
+
+  const { searchParams } = new URL(request.url);
+  // ?refresh=true skips the cache TTL and costs provider calls: admins only
+  const refresh = searchParams.get("refresh") === "true";
+  if (refresh && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: "refresh=true requires an admin bearer token." },
+      { status: 401 }
+    );
+  }
+
+  console.log(`GET /api/stock-splits/${symbol} called`);
+
+  try {
+    const profileData = await getProfile(symbol);
+    if (!profileData) {
+      return NextResponse.json(
+        {
+          error: `Data (or underlying profile) not found for symbol ${symbol}.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data, cache } = await getStockSplitsForSymbolWithStatus(symbol, {
+      refresh,
+    });
+    if (refresh) {
+      await recomputeDependentSignals("stock-splits", [symbol]);
+    }
+    return NextResponse.json(data, {
+      status: 200,
+      headers: cacheStatusHeaders(cache),
+    });
+  } catch (error) {
+    if (isNoDataError(error)) {
+      return NextResponse.json([], { status: 200 });
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Splits Route] Error fetching splits for ${symbol}:`,
+      errorMessage,
+      error
+    );
+    return NextResponse.json(
+      { error: `Could not load stock splits for symbol ${symbol}.` },
+      { status: errorMessage.includes("FMP request failed") ? 502 : 500 }
+    );
+  }
+}
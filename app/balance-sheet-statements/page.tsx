@@ -1,14 +1,46 @@
 // app/balance-sheet-statements/page.tsx
-import { getAllBalanceSheetStatements } from "@/lib/services/balance-sheet-statements";
+import {
+  getAllBalanceSheetStatements,
+  balanceSheetMonetaryFields,
+} from "@/lib/services/balance-sheet-statements";
+import {
+  convertStatementsToCurrency,
+  TABLE_CURRENCY,
+} from "@/lib/services/fx-rates";
 import { SmartTable } from "@/components/SmartTable";
+import { PeriodSwitcher } from "@/components/PeriodSwitcher";
+import {
+  DEFAULT_STATEMENT_PERIOD,
+  parseStatementPeriod,
+} from "@/lib/common/statements";
 
 export const revalidate = 60;
 
-export default async function BalanceSheetStatementsPage() {
-  const data = await getAllBalanceSheetStatements();
+export default async function BalanceSheetStatementsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ period?: string }>;
+}) {
+  // Unknown periods fall back to annual rather than failing the page
+  const period =
+    parseStatementPeriod((await searchParams).period) ??
+    DEFAULT_STATEMENT_PERIOD;
+  // Companies report in different currencies (e.g. TWD for TSM), so amounts
+  // are compared in one; those without an FX rate are blanked, not mixed in
+  const data = await convertStatementsToCurrency(
+    await getAllBalanceSheetStatements(period),
+    TABLE_CURRENCY,
+    balanceSheetMonetaryFields,
+    "blank"
+  );
   data.map((item) => {
     delete item.date;
     return item;
   });
-  return <SmartTable data={data} />;
+  return (
+    <>
+      <PeriodSwitcher basePath="/balance-sheet-statements" current={period} />
+      <SmartTable data={data} />
+    </>
+  );
 }
@@ -1,14 +1,46 @@
 // app/balance-sheet-statements/page.tsx
-import { getAllCashFlowStatements } from "@/lib/services/cash-flow-statements";
+import {
+  getAllCashFlowStatements,
+  cashFlowMonetaryFields,
+} from "@/lib/services/cash-flow-statements";
+import {
+  convertStatementsToCurrency,
+  TABLE_CURRENCY,
+} from "@/lib/services/fx-rates";
 import { SmartTable } from "@/components/SmartTable";
+import { PeriodSwitcher } from "@/components/PeriodSwitcher";
+import {
+  DEFAULT_STATEMENT_PERIOD,
+  parseStatementPeriod,
+} from "@/lib/common/statements";
 
 export const revalidate = 60;
 
-export default async function CashFlowStatementsPage() {
-  const data = await getAllCashFlowStatements();
+export default async function CashFlowStatementsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ period?: string }>;
+}) {
+  // Unknown periods fall back to annual rather than failing the page
+  const period =
+    parseStatementPeriod((await searchParams).period) ??
+    DEFAULT_STATEMENT_PERIOD;
+  // Companies report in different currencies (e.g. TWD for TSM), so amounts
+  // are compared in one; those without an FX rate are blanked, not mixed in
+  const data = await convertStatementsToCurrency(
+    await getAllCashFlowStatements(period),
+    TABLE_CURRENCY,
+    cashFlowMonetaryFields,
+    "blank"
+  );
   data.map((item) => {
     delete item.date;
     return item;
   });
-  return <SmartTable data={data} />;
+  return (
+    <>
+      <PeriodSwitcher basePath="/cash-flow-statements" current={period} />
+      <SmartTable data={data} />
+    </>
+  );
 }
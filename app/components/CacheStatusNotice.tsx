@@ -0,0 +1,27 @@
+import type { FC } from "react";
+import type { CacheStatus } from "@/lib/common/supabase";
+
+interface CacheStatusNoticeProps {
+  cache: CacheStatus;
+}
+
+/**
+ * Tells the reader when a page shows cached data that is past its TTL
+ * (served while refreshing) or left over from a failed refresh.
+ * Renders nothing for fresh data.
+ */
+export const CacheStatusNotice: FC<CacheStatusNoticeProps> = ({ cache }) => {
+  if (cache.state !== "stale" && cache.state !== "fallback") {
+    return null;
+  }
+  const asOf = cache.modifiedAt
+    ? new Date(cache.modifiedAt).toLocaleString("en-US", { timeZone: "UTC" })
+    : "an unknown time";
+  return (
+    <p className="mb-4 text-sm text-muted-foreground" role="status">
+      {cache.state === "stale"
+        ? `Showing data from ${asOf} UTC. A refresh is running in the background.`
+        : `Showing data from ${asOf} UTC. The latest refresh failed.`}
+    </p>
+  );
+};
@@ -0,0 +1,61 @@
+import type { FC } from "react";
+import Link from "next/link";
+import { Button } from "./ui/button";
+
+/** Page `searchParams` as passed to App Router pages. */
+export type PageSearchParams = Record<string, string | string[] | undefined>;
+
+/** Converts App Router page searchParams into URLSearchParams. */
+export function toUrlSearchParams(params: PageSearchParams): URLSearchParams {
+  const result = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) result.append(key, item);
+    }
+  }
+  return result;
+}
+
+interface PaginationLinksProps {
+  /** Page path the links point to, e.g. "/screener". */
+  basePath: string;
+  /** Current query (filters/sort/limit are kept, cursor is replaced). */
+  params: URLSearchParams;
+  nextCursor: string | null;
+}
+
+/**
+ * "First page" / "Next page" links for cursor-paginated list pages.
+ * Keyset cursors only go forward, so there is no "previous" link.
+ */
+export const PaginationLinks: FC<PaginationLinksProps> = ({
+  basePath,
+  params,
+  nextCursor,
+}) => {
+  const firstParams = new URLSearchParams(params);
+  firstParams.delete("cursor");
+  const nextParams = new URLSearchParams(params);
+  if (nextCursor) nextParams.set("cursor", nextCursor);
+
+  const isFirstPage = !params.has("cursor");
+  const query = (p: URLSearchParams) => {
+    const qs = p.toString();
+    return qs ? `?${qs}` : "";
+  };
+
+  return (
+    <nav className="my-4 flex gap-2" aria-label="Pagination">
+      {!isFirstPage && (
+        <Button asChild size="sm" variant="outline">
+          <Link href={`${basePath}${query(firstParams)}`}>First page</Link>
+        </Button>
+      )}
+      {nextCursor && (
+        <Button asChild size="sm" variant="outline">
+          <Link href={`${basePath}${query(nextParams)}`}>Next page</Link>
+        </Button>
+      )}
+    </nav>
+  );
+};
@@ -0,0 +1,45 @@
+import type { FC } from "react";
+import Link from "next/link";
+import { Button } from "./ui/button";
+import {
+  STATEMENT_PERIODS,
+  type StatementPeriod,
+} from "@/lib/common/statements";
+
+const PERIOD_LABELS: Record<StatementPeriod, string> = {
+  annual: "Annual",
+  quarter: "Quarterly",
+  ttm: "TTM",
+};
+
+interface PeriodSwitcherProps {
+  /** Page path the links point to, e.g. "/income-statements". */
+  basePath: string;
+  current: StatementPeriod;
+}
+
+/** Links that reload a statement page for another reporting period. */
+export const PeriodSwitcher: FC<PeriodSwitcherProps> = ({
+  basePath,
+  current,
+}) => {
+  return (
+    <nav className="mb-4 flex gap-2" aria-label="Reporting period">
+      {STATEMENT_PERIODS.map((period) => (
+        <Button
+          key={period}
+          asChild
+          size="sm"
+          variant={period === current ? "default" : "outline"}
+        >
+          <Link
+            href={`${basePath}?period=${period}`}
+            aria-current={period === current ? "page" : undefined}
+          >
+            {PERIOD_LABELS[period]}
+          </Link>
+        </Button>
+      ))}
+    </nav>
+  );
+};
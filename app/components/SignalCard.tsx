@@ -46,6 +46,7 @@ interface MarketSignal {
   title: string;
   description: string;
   timestamp: number;
+  trendUrl?: string; // e.g. the analyst consensus history of the symbol
 }
 
 interface SignalCardProps {
@@ -383,6 +384,16 @@ const SignalCard: FC<SignalCardProps> = ({ signal }) => {
           <div>
             <h3 className="text-sm font-medium mb-2 flex items-center">
               <AreaChart className="h-4 w-4 mr-2 text-primary" /> Chart
+              {signal.trendUrl && (
+                <a
+                  href={signal.trendUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-auto text-xs font-normal text-primary hover:underline"
+                >
+                  View trend
+                </a>
+              )}
             </h3>
             <div className="flex items-center justify-center h-32 bg-muted rounded-md">
               <p className="text-sm text-muted-foreground">
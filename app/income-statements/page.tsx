@@ -1,14 +1,46 @@
 // app/income-statements/page.tsx
-import { getAllIncomeStatements } from "@/lib/services/income-statements";
+import {
+  getAllIncomeStatements,
+  incomeStatementMonetaryFields,
+} from "@/lib/services/income-statements";
+import {
+  convertStatementsToCurrency,
+  TABLE_CURRENCY,
+} from "@/lib/services/fx-rates";
 import { SmartTable } from "@/components/SmartTable";
+import { PeriodSwitcher } from "@/components/PeriodSwitcher";
+import {
+  DEFAULT_STATEMENT_PERIOD,
+  parseStatementPeriod,
+} from "@/lib/common/statements";
 
 export const revalidate = 60;
 
-export default async function IncomeStatementsPage() {
-  const data = await getAllIncomeStatements();
+export default async function IncomeStatementsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ period?: string }>;
+}) {
+  // Unknown periods fall back to annual rather than failing the page
+  const period =
+    parseStatementPeriod((await searchParams).period) ??
+    DEFAULT_STATEMENT_PERIOD;
+  // Companies report in different currencies (e.g. TWD for TSM), so amounts
+  // are compared in one; those without an FX rate are blanked, not mixed in
+  const data = await convertStatementsToCurrency(
+    await getAllIncomeStatements(period),
+    TABLE_CURRENCY,
+    incomeStatementMonetaryFields,
+    "blank"
+  );
   data.map((item) => {
     delete item.date;
     return item;
   });
-  return <SmartTable data={data} />;
+  return (
+    <>
+      <PeriodSwitcher basePath="/income-statements" current={period} />
+      <SmartTable data={data} />
+    </>
+  );
 }
@@ -16,6 +16,7 @@ interface MarketSignal {
   timestamp: number;
   symbol?: string;
   signalCode?: string;
+  trendUrl?: string;
 }
 
 const TOP_SYMBOLS_TO_PROCESS: string[] = [
@@ -93,9 +94,10 @@ export default function Home() {
 
     let overallErrorMessage: string | null = null;
     let ingestedSymbolsCount = 0;
+    const symbolsParam = encodeURIComponent(TOP_SYMBOLS_TO_PROCESS.join(","));
 
     try {
-      // Phase 1: Ingest data
+      // Phase 1: Ingest data (per symbol: batch ingestion is cron-only)
       setLoadingMessage(
         `Ingesting data for ${TOP_SYMBOLS_TO_PROCESS.length} symbols...`
       );
@@ -165,56 +167,52 @@ export default function Home() {
           "Some data ingestion tasks failed. Displayed signals might be based on partially updated data.";
       }
 
-      // Phase 2: Fetch signals
+      // Phase 2: Fetch signals (one batch request for all symbols)
       setLoadingMessage(
         `Fetching signals for ${TOP_SYMBOLS_TO_PROCESS.length} symbols...`
       );
       let allFetchedSignals: MarketSignal[] = [];
-      const signalFetchPromises = TOP_SYMBOLS_TO_PROCESS.map(async (symbol) => {
-        try {
-          const response = await fetch(`/api/signals/${symbol}`);
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            console.warn(
-              `Signal fetch failed for ${symbol}: ${
-                errorData.error || response.statusText || response.status
-              }`
-            );
-            return [];
-          }
-          const fetchedSignalsForSymbol: MarketSignal[] = await response.json();
-          return fetchedSignalsForSymbol;
-        } catch (signalErr: unknown) {
-          const errorMessage =
-            signalErr instanceof Error
-              ? signalErr.message
-              : "Unknown signal fetch error";
-          console.warn(`Signal fetch error for ${symbol}: ${errorMessage}`);
-          return [];
-        }
-      });
-
-      const signalResults = await Promise.allSettled(signalFetchPromises);
-      let signalFetchRejections = 0;
-      signalResults.forEach((result) => {
-        if (result.status === "fulfilled" && Array.isArray(result.value)) {
-          allFetchedSignals = allFetchedSignals.concat(result.value);
-        } else if (result.status === "rejected") {
-          console.error(
-            `Critical signal fetch promise rejection: `,
-            result.reason
+      let signalFetchFailures = 0;
+      try {
+        const response = await fetch(`/api/signals?symbols=${symbolsParam}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          console.warn(
+            `Batch signal fetch failed: ${
+              errorData.error || response.statusText || response.status
+            }`
           );
-          signalFetchRejections++;
+          signalFetchFailures = TOP_SYMBOLS_TO_PROCESS.length;
+        } else {
+          const signalsBySymbol: Record<
+            string,
+            MarketSignal[] | { error: string }
+          > = await response.json();
+          Object.entries(signalsBySymbol).forEach(([symbol, entry]) => {
+            if (Array.isArray(entry)) {
+              allFetchedSignals = allFetchedSignals.concat(entry);
+            } else {
+              console.warn(`Signal fetch failed for ${symbol}: ${entry.error}`);
+              signalFetchFailures++;
+            }
+          });
         }
-      });
+      } catch (signalErr: unknown) {
+        const errorMessage =
+          signalErr instanceof Error
+            ? signalErr.message
+            : "Unknown signal fetch error";
+        console.error(`Batch signal fetch error: ${errorMessage}`);
+        signalFetchFailures = TOP_SYMBOLS_TO_PROCESS.length;
+      }
 
       allFetchedSignals.sort((a, b) => b.timestamp - a.timestamp);
       console.log(
-        `Signal fetching completed. Total signals retrieved: ${allFetchedSignals.length}. Rejections: ${signalFetchRejections}`
+        `Signal fetching completed. Total signals retrieved: ${allFetchedSignals.length}. Failures: ${signalFetchFailures}`
       );
       setSignals(allFetchedSignals);
 
-      if (signalFetchRejections > 0 && !overallErrorMessage) {
+      if (signalFetchFailures > 0 && !overallErrorMessage) {
         overallErrorMessage =
           "Some signals could not be fetched. The displayed list may be incomplete.";
       }
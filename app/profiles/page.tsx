@@ -1,10 +1,43 @@
 // app/profiles/page.tsx
-import { getAllProfiles } from "@/lib/services/profiles";
+import { getProfilesPage } from "@/lib/services/profiles";
 import { SmartTable } from "@/components/SmartTable";
+import {
+  PaginationLinks,
+  toUrlSearchParams,
+  type PageSearchParams,
+} from "@/components/PaginationLinks";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { parseCollectionQuery, QueryParamError } from "@/lib/common/supabase";
 
 export const revalidate = 60;
 
-export default async function ProfilesPage() {
-  const data = await getAllProfiles();
-  return <SmartTable data={data} />;
+export default async function ProfilesPage({
+  searchParams,
+}: {
+  searchParams: Promise<PageSearchParams>;
+}) {
+  // Same paging/filter/sort params as /api/profiles
+  const params = toUrlSearchParams(await searchParams);
+  try {
+    const { data: page } = await getProfilesPage(parseCollectionQuery(params));
+    return (
+      <>
+        <SmartTable data={page.data} />
+        <PaginationLinks
+          basePath="/profiles"
+          params={params}
+          nextCursor={page.nextCursor}
+        />
+      </>
+    );
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      );
+    }
+    throw error;
+  }
 }
@@ -1,10 +1,47 @@
 // app/stock-screener/page.tsx
-import { getStockScreenerResults } from "@/lib/services/stocker-screener";
+import { getStockScreenerPage } from "@/lib/services/stocker-screener";
 import { SmartTable } from "@/components/SmartTable";
+import { CacheStatusNotice } from "@/components/CacheStatusNotice";
+import {
+  PaginationLinks,
+  toUrlSearchParams,
+  type PageSearchParams,
+} from "@/components/PaginationLinks";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { parseCollectionQuery, QueryParamError } from "@/lib/common/supabase";
 
 export const revalidate = 60;
 
-export default async function ProfilesPage() {
-  const data = await getStockScreenerResults();
-  return <SmartTable data={data} />;
+export default async function ProfilesPage({
+  searchParams,
+}: {
+  searchParams: Promise<PageSearchParams>;
+}) {
+  // Same paging/filter/sort params as /api/stock-screener
+  const params = toUrlSearchParams(await searchParams);
+  try {
+    const { data: page, cache } = await getStockScreenerPage(
+      parseCollectionQuery(params)
+    );
+    return (
+      <>
+        <CacheStatusNotice cache={cache} />
+        <SmartTable data={page.data} />
+        <PaginationLinks
+          basePath="/screener"
+          params={params}
+          nextCursor={page.nextCursor}
+        />
+      </>
+    );
+  } catch (error) {
+    if (error instanceof QueryParamError) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      );
+    }
+    throw error;
+  }
 }
@@ -0,0 +1,28 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/auth/admin.ts
+ * Admin authentication for cache control (forced refresh, purge).
+ * Admin requests carry `Authorization: Bearer <ADMIN_API_SECRET>`.
+ * Without the env variable every request is rejected: unlike the cron
+ * secret, admin access is never open by default.
+ * ---------------------------------------------------------------------*/
+import { timingSafeEqual } from "node:crypto";
+
+/** Environment variable holding the admin bearer token. */
+export const ADMIN_SECRET_ENV = "ADMIN_API_SECRET";
+
+/** Bearer token of a request, or null if there is none. */
+export function getBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get("authorization");
+  return authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : null;
+}
+
+/** True if the request carries the configured admin token. */
+export function isAdminRequest(request: Request): boolean {
+  const secret = process.env[ADMIN_SECRET_ENV];
+  const token = getBearerToken(request);
+  if (!secret || !token) return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  // Constant-time compare; lengths must match for timingSafeEqual
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,5 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/auth/index.ts
+ * Exports request authentication helpers.
+ * ---------------------------------------------------------------------*/
+export * from "./admin";
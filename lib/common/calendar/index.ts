@@ -0,0 +1,5 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/calendar/index.ts
+ * Exports the exchange trading calendar.
+ * ---------------------------------------------------------------------*/
+export * from "./tradingCalendar";
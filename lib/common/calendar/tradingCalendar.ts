@@ -0,0 +1,194 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/calendar/tradingCalendar.ts
+ * Trading calendar of the US equity exchanges (NYSE, Nasdaq, NYSE
+ * American), which share their holidays and early closes.
+ * Holidays follow the NYSE rules: a holiday on a Saturday is observed on
+ * the Friday before, on a Sunday on the Monday after, except New Year's
+ * Day on a Saturday, which is not observed. One-off closures (national
+ * mourning, storms) are listed separately.
+ * Dates are calendar days ('YYYY-MM-DD'); no time zones are involved.
+ * ---------------------------------------------------------------------*/
+
+/** A trading day; early closes end at 1 pm ET. */
+export interface TradingSession {
+  date: string;
+  earlyClose: boolean;
+}
+
+/** A day the calendar names: a holiday or an early close. */
+export interface CalendarDay {
+  date: string;
+  name: string;
+}
+
+/** Exchanges (as written in profiles.exchange) that follow this calendar. */
+export const US_EQUITY_EXCHANGES: ReadonlyArray<string> = [
+  "NYSE",
+  "NASDAQ",
+  "AMEX",
+];
+
+/** Unscheduled full-day closures. */
+const SPECIAL_CLOSURES: ReadonlyArray<CalendarDay> = [
+  { date: "2001-09-11", name: "September 11 attacks" },
+  { date: "2001-09-12", name: "September 11 attacks" },
+  { date: "2001-09-13", name: "September 11 attacks" },
+  { date: "2001-09-14", name: "September 11 attacks" },
+  { date: "2004-06-11", name: "Mourning for President Reagan" },
+  { date: "2007-01-02", name: "Mourning for President Ford" },
+  { date: "2012-10-29", name: "Hurricane Sandy" },
+  { date: "2012-10-30", name: "Hurricane Sandy" },
+  { date: "2018-12-05", name: "Mourning for President George H.W. Bush" },
+  { date: "2025-01-09", name: "Mourning for President Carter" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- UTC date helpers (calendar days only) ---
+
+const toDay = (time: number): string =>
+  new Date(time).toISOString().slice(0, 10);
+const fromDay = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+const makeDay = (year: number, month: number, day: number): number =>
+  Date.UTC(year, month - 1, day);
+const weekday = (time: number): number => new Date(time).getUTCDay(); // 0 = Sunday
+
+// The nth given weekday of a month (n = -1 for the last one)
+function nthWeekday(
+  year: number,
+  month: number,
+  day: number,
+  n: number
+): number {
+  if (n > 0) {
+    const first = makeDay(year, month, 1);
+    const offset = (day - weekday(first) + 7) % 7;
+    return first + (offset + (n - 1) * 7) * DAY_MS;
+  }
+  const last = makeDay(year, month + 1, 0);
+  return last - ((weekday(last) - day + 7) % 7) * DAY_MS;
+}
+
+// Saturday holidays move to Friday, Sunday holidays to Monday
+function observed(time: number): number {
+  const day = weekday(time);
+  if (day === 6) return time - DAY_MS;
+  if (day === 0) return time + DAY_MS;
+  return time;
+}
+
+// Easter Sunday (anonymous Gregorian algorithm)
+function easterSunday(year: number): number {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return makeDay(year, month, day);
+}
+
+const holidayCache = new Map<number, CalendarDay[]>();
+const earlyCloseCache = new Map<number, CalendarDay[]>();
+
+/** Full-day market holidays (and special closures) of a year, by date. */
+export function getMarketHolidays(year: number): CalendarDay[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays: Array<[number, string]> = [];
+  const newYear = makeDay(year, 1, 1);
+  if (weekday(newYear) !== 6)
+    holidays.push([observed(newYear), "New Year's Day"]);
+  if (year >= 1998) {
+    holidays.push([nthWeekday(year, 1, 1, 3), "Martin Luther King Jr. Day"]);
+  }
+  holidays.push([nthWeekday(year, 2, 1, 3), "Washington's Birthday"]);
+  holidays.push([easterSunday(year) - 2 * DAY_MS, "Good Friday"]);
+  holidays.push([nthWeekday(year, 5, 1, -1), "Memorial Day"]);
+  if (year >= 2022) {
+    holidays.push([observed(makeDay(year, 6, 19)), "Juneteenth"]);
+  }
+  holidays.push([observed(makeDay(year, 7, 4)), "Independence Day"]);
+  holidays.push([nthWeekday(year, 9, 1, 1), "Labor Day"]);
+  holidays.push([nthWeekday(year, 11, 4, 4), "Thanksgiving Day"]);
+  holidays.push([observed(makeDay(year, 12, 25)), "Christmas Day"]);
+
+  const result = [
+    ...holidays.map(([time, name]) => ({ date: toDay(time), name })),
+    ...SPECIAL_CLOSURES.filter(({ date }) => date.startsWith(`${year}-`)),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(year, result);
+  return result;
+}
+
+/**
+ * Early closes (1 pm ET) of a year: July 3 and Christmas Eve when they
+ * fall on Monday to Thursday, and the day after Thanksgiving.
+ */
+export function getEarlyCloses(year: number): CalendarDay[] {
+  const cached = earlyCloseCache.get(year);
+  if (cached) return cached;
+
+  const earlyCloses: CalendarDay[] = [];
+  const july3 = makeDay(year, 7, 3);
+  if (weekday(july3) >= 1 && weekday(july3) <= 4) {
+    earlyCloses.push({ date: toDay(july3), name: "Independence Day eve" });
+  }
+  earlyCloses.push({
+    date: toDay(nthWeekday(year, 11, 4, 4) + DAY_MS),
+    name: "Day after Thanksgiving",
+  });
+  const christmasEve = makeDay(year, 12, 24);
+  if (weekday(christmasEve) >= 1 && weekday(christmasEve) <= 4) {
+    earlyCloses.push({ date: toDay(christmasEve), name: "Christmas Eve" });
+  }
+  earlyCloseCache.set(year, earlyCloses);
+  return earlyCloses;
+}
+
+const yearOf = (date: string): number => Number(date.slice(0, 4));
+
+/** Whether the US equity exchanges trade on `date` (YYYY-MM-DD). */
+export function isTradingDay(date: string): boolean {
+  const day = weekday(fromDay(date));
+  if (day === 0 || day === 6) return false;
+  return !getMarketHolidays(yearOf(date)).some(
+    (holiday) => holiday.date === date
+  );
+}
+
+/** Whether `date` is a trading day closing early. */
+export function isEarlyClose(date: string): boolean {
+  return getEarlyCloses(yearOf(date)).some((day) => day.date === date);
+}
+
+/** Trading sessions from `from` to `to` (inclusive), oldest first. */
+export function getTradingSessions(from: string, to: string): TradingSession[] {
+  const sessions: TradingSession[] = [];
+  for (let time = fromDay(from); time <= fromDay(to); time += DAY_MS) {
+    const date = toDay(time);
+    if (isTradingDay(date)) {
+      sessions.push({ date, earlyClose: isEarlyClose(date) });
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Whether an exchange follows this calendar. Gap detection is skipped for
+ * the others (their holidays are not known here).
+ */
+export function hasTradingCalendar(
+  exchange: string | null | undefined
+): boolean {
+  return !!exchange && US_EQUITY_EXCHANGES.includes(exchange.toUpperCase());
+}
@@ -0,0 +1,84 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/providers/fileProvider.ts
+ * Local, file-backed implementation of the DataProvider interface.
+ * Serves previously captured vendor payloads from disk so the app can run
+ * offline (development, demos, reproducible debugging).
+ *
+ * Layout (relative to the provider root directory):
+ *   {basePath}/{path}/{SYMBOL}[.{param}={value}...].json   per-symbol
+ *   {basePath}/{path}/index[.{param}={value}...].json      collection
+ * Static params are appended in alphabetical order, e.g.
+ *   v3/income-statement/AAPL.period=annual.json
+ * ---------------------------------------------------------------------*/
+import { readFile } from "fs/promises";
+import path from "path";
+import type { DataProvider, ProviderEndpoint } from "./types";
+
+const COLLECTION_FILE_STEM = "index";
+
+/** Resolves the JSON file that holds the payload for an endpoint. */
+function resolveFilePath(
+  rootDir: string,
+  endpoint: ProviderEndpoint,
+  symbol?: string
+): string {
+  const { basePath = "v3", params = {} } = endpoint;
+  const paramSuffix = Object.keys(params)
+    .sort()
+    .map((key) => `.${key}=${String(params[key])}`)
+    .join("");
+  const stem = symbol ?? COLLECTION_FILE_STEM;
+  return path.join(
+    rootDir,
+    basePath,
+    endpoint.path,
+    `${stem}${paramSuffix}.json`
+  );
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code: unknown }).code === "ENOENT"
+  );
+}
+
+/**
+ * Creates a provider that reads vendor payloads from JSON files.
+ * A missing file is treated like an empty upstream response (`[]`), so the
+ * services report "no data" exactly as they would for an unknown symbol.
+ *
+ * @param rootDir Root directory holding the captured payloads.
+ */
+export function createFileProvider(rootDir: string): DataProvider {
+  async function read(
+    endpoint: ProviderEndpoint,
+    symbol?: string
+  ): Promise<unknown> {
+    const filePath = resolveFilePath(rootDir, endpoint, symbol);
+    try {
+      const contents = await readFile(filePath, "utf8");
+      return JSON.parse(contents) as unknown;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        console.warn(`[FileProvider] No payload file at ${filePath}.`);
+        return [];
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `File provider read failed for ${filePath}: ${errorMessage}`
+      );
+    }
+  }
+
+  return {
+    name: "file",
+    fetchBySymbol: (endpoint, symbol) => read(endpoint, symbol),
+    fetchCollection: (endpoint) => read(endpoint),
+    describeEndpoint: (endpoint, symbol) =>
+      resolveFilePath(rootDir, endpoint, symbol),
+  };
+}
@@ -0,0 +1,254 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/providers/fmpClient.ts
+ * Shared HTTP client for all FMP traffic.
+ * - Token-bucket rate limiter (requests per minute).
+ * - Exponential backoff with full jitter on 429 and 5xx responses.
+ * - Per-day request budget (resets at 00:00 UTC).
+ * - Usage counters for monitoring.
+ * Counters and limiter state are per server instance.
+ * ---------------------------------------------------------------------*/
+
+export interface FmpClientOptions {
+  /** Sustained request rate. Also the burst size of the token bucket. */
+  requestsPerMinute: number;
+  /** Retries after the first attempt for 429/5xx/network errors. */
+  maxRetries: number;
+  /** Base delay for exponential backoff (ms). */
+  baseBackoffMs: number;
+  /** Upper bound for a single backoff delay (ms). */
+  maxBackoffMs: number;
+  /** Maximum upstream requests per UTC day. 0 disables the budget. */
+  dailyRequestBudget: number;
+}
+
+export interface FmpClientStats {
+  /** Upstream HTTP attempts (including retries). */
+  requests: number;
+  /** Calls that ended with a 2xx response. */
+  successes: number;
+  /** Calls that ended with a non-2xx response or network error. */
+  failures: number;
+  /** Attempts repeated after a 429/5xx/network error. */
+  retries: number;
+  /** 429 responses received from FMP. */
+  rateLimitedResponses: number;
+  /** Calls rejected locally because the daily budget was used up. */
+  budgetRejections: number;
+  /** Total time spent waiting for the local rate limiter (ms). */
+  throttledWaitMs: number;
+  /** UTC day (YYYY-MM-DD) the budget counters refer to. */
+  budgetDay: string;
+  /** Upstream attempts made during budgetDay. */
+  budgetUsed: number;
+  /** Configured daily budget (0 = unlimited). */
+  dailyRequestBudget: number;
+  requestsPerMinute: number;
+}
+
+export interface FmpClient {
+  /** Performs a GET request against FMP, honouring limits, budget and retries. */
+  fetch(url: string): Promise<Response>;
+  /** Returns a snapshot of the usage counters. */
+  getStats(): FmpClientStats;
+}
+
+// Helper to read a positive integer env var with a fallback
+function readIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const parsed = parseInt(raw, 10);
+  if (isNaN(parsed) || parsed < 0) {
+    console.warn(`[FmpClient] Invalid ${name}: '${raw}'. Using ${fallback}.`);
+    return fallback;
+  }
+  return parsed;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const utcDay = (): string => new Date().toISOString().split("T")[0];
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Parses a Retry-After header (seconds or HTTP date) into milliseconds. */
+function parseRetryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const dateMs = Date.parse(header);
+  return isNaN(dateMs) ? null : Math.max(0, dateMs - Date.now());
+}
+
+/**
+ * Creates an FMP HTTP client. Most code should use the shared instance from
+ * getFmpClient(); separate instances are only useful for isolated limits.
+ */
+export function createFmpClient(options: FmpClientOptions): FmpClient {
+  const {
+    requestsPerMinute,
+    maxRetries,
+    baseBackoffMs,
+    maxBackoffMs,
+    dailyRequestBudget,
+  } = options;
+
+  // --- Token Bucket State ---
+  const capacity = Math.max(1, requestsPerMinute);
+  const refillPerMs = capacity / 60_000;
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  // Serializes token acquisition so waiters are served in FIFO order
+  let acquireQueue: Promise<void> = Promise.resolve();
+
+  // --- Counters ---
+  const stats: Omit<
+    FmpClientStats,
+    "dailyRequestBudget" | "requestsPerMinute"
+  > = {
+    requests: 0,
+    successes: 0,
+    failures: 0,
+    retries: 0,
+    rateLimitedResponses: 0,
+    budgetRejections: 0,
+    throttledWaitMs: 0,
+    budgetDay: utcDay(),
+    budgetUsed: 0,
+  };
+
+  function refillTokens(): void {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  }
+
+  function acquireToken(): Promise<void> {
+    const acquired = acquireQueue.then(async () => {
+      refillTokens();
+      if (tokens < 1) {
+        const waitMs = Math.ceil((1 - tokens) / refillPerMs);
+        stats.throttledWaitMs += waitMs;
+        await sleep(waitMs);
+        refillTokens();
+      }
+      tokens -= 1;
+    });
+    acquireQueue = acquired.catch(() => undefined);
+    return acquired;
+  }
+
+  // Reserves one request from the daily budget, throwing when exhausted
+  function consumeBudget(): void {
+    const today = utcDay();
+    if (stats.budgetDay !== today) {
+      stats.budgetDay = today;
+      stats.budgetUsed = 0;
+    }
+    if (dailyRequestBudget > 0 && stats.budgetUsed >= dailyRequestBudget) {
+      stats.budgetRejections++;
+      throw new Error(
+        `FMP daily request budget exhausted (${dailyRequestBudget} requests on ${today}).`
+      );
+    }
+    stats.budgetUsed++;
+  }
+
+  function backoffDelayMs(attempt: number, retryAfterMs: number | null) {
+    // Full jitter: random delay between 0 and the exponential ceiling
+    const ceiling = Math.min(maxBackoffMs, baseBackoffMs * 2 ** attempt);
+    const jittered = Math.random() * ceiling;
+    return retryAfterMs !== null ? Math.max(retryAfterMs, jittered) : jittered;
+  }
+
+  async function fetchWithRetries(url: string): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      consumeBudget();
+      await acquireToken();
+      stats.requests++;
+
+      let response: Response;
+      try {
+        response = await fetch(url, { cache: "no-store" });
+      } catch (networkError) {
+        if (attempt >= maxRetries) {
+          stats.failures++;
+          throw networkError;
+        }
+        stats.retries++;
+        const delay = backoffDelayMs(attempt, null);
+        console.warn(
+          `[FmpClient] Network error (attempt ${attempt + 1}/${
+            maxRetries + 1
+          }). Retrying in ${Math.round(delay)}ms.`
+        );
+        await sleep(delay);
+        continue;
+      }
+
+      if (response.status === 429) stats.rateLimitedResponses++;
+      if (response.ok) {
+        stats.successes++;
+        return response;
+      }
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+        stats.failures++;
+        return response;
+      }
+
+      stats.retries++;
+      const delay = backoffDelayMs(
+        attempt,
+        parseRetryAfterMs(response.headers.get("retry-after"))
+      );
+      console.warn(
+        `[FmpClient] FMP responded ${response.status} (attempt ${attempt + 1}/${
+          maxRetries + 1
+        }). Retrying in ${Math.round(delay)}ms.`
+      );
+      // Release the connection before retrying
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(delay);
+    }
+  }
+
+  return {
+    fetch: fetchWithRetries,
+    getStats: () => ({
+      ...stats,
+      dailyRequestBudget,
+      requestsPerMinute,
+    }),
+  };
+}
+
+// Module-level cache for the shared client instance
+let cachedFmpClient: FmpClient | null = null;
+
+/**
+ * Gets the shared FMP client configured from environment variables:
+ * - FMP_REQUESTS_PER_MINUTE (default 300)
+ * - FMP_MAX_RETRIES (default 3)
+ * - FMP_BACKOFF_BASE_MS (default 500), FMP_BACKOFF_MAX_MS (default 30000)
+ * - FMP_DAILY_REQUEST_BUDGET (default 0 = unlimited)
+ */
+export function getFmpClient(): FmpClient {
+  if (cachedFmpClient) {
+    return cachedFmpClient;
+  }
+  cachedFmpClient = createFmpClient({
+    requestsPerMinute: Math.max(1, readIntEnv("FMP_REQUESTS_PER_MINUTE", 300)),
+    maxRetries: readIntEnv("FMP_MAX_RETRIES", 3),
+    baseBackoffMs: readIntEnv("FMP_BACKOFF_BASE_MS", 500),
+    maxBackoffMs: readIntEnv("FMP_BACKOFF_MAX_MS", 30_000),
+    dailyRequestBudget: readIntEnv("FMP_DAILY_REQUEST_BUDGET", 0),
+  });
+  return cachedFmpClient;
+}
+
+/** Returns the usage counters of the shared FMP client. */
+export function getFmpClientStats(): FmpClientStats {
+  return getFmpClient().getStats();
+}
@@ -0,0 +1,94 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/providers/fmpProvider.ts
+ * Financial Modeling Prep (FMP) implementation of the DataProvider interface.
+ * Owns URL construction, API key handling and FMP error reporting.
+ * All requests go through the shared, rate-limited FMP client.
+ * ---------------------------------------------------------------------*/
+import type { DataProvider, ProviderEndpoint } from "./types";
+import { getFmpClient } from "./fmpClient";
+
+const FMP_HOST = "https://financialmodelingprep.com";
+
+// Helper function to safely get the FMP API key
+function getFmpApiKey(): string {
+  const apiKey = process.env.FMP_API_KEY;
+  if (!apiKey) {
+    throw new Error("FMP_API_KEY environment variable is not set.");
+  }
+  return apiKey;
+}
+
+/**
+ * Builds the FMP URL for an endpoint. The 'stable' base path lives at the
+ * host root, every other version lives under /api/{version}.
+ */
+function buildFmpUrl(
+  endpoint: ProviderEndpoint,
+  apiKey: string,
+  symbol?: string
+): string {
+  const {
+    basePath = "v3",
+    path,
+    symbolLocation = "path",
+    params = {},
+  } = endpoint;
+  const baseUrl =
+    basePath === "stable"
+      ? `${FMP_HOST}/${basePath}/${path}`
+      : `${FMP_HOST}/api/${basePath}/${path}`;
+  const baseQueryParams: Record<string, string> = { apikey: apiKey };
+  for (const [key, value] of Object.entries(params)) {
+    baseQueryParams[key] = String(value);
+  }
+
+  if (symbol === undefined) {
+    return `${baseUrl}?${new URLSearchParams(baseQueryParams).toString()}`;
+  }
+  if (symbolLocation === "param") {
+    const queryParams = new URLSearchParams({
+      ...baseQueryParams,
+      symbol,
+    }).toString();
+    return `${baseUrl}?${queryParams}`;
+  }
+  const queryParams = new URLSearchParams(baseQueryParams).toString();
+  return `${baseUrl}/${symbol}?${queryParams}`;
+}
+
+/**
+ * Creates the FMP data provider.
+ * Errors keep the historical "FMP request failed (<status>)." wording, which
+ * the API routes rely on to map upstream 404s to their own 404 responses.
+ */
+export function createFmpProvider(): DataProvider {
+  async function request(
+    endpoint: ProviderEndpoint,
+    symbol?: string
+  ): Promise<unknown> {
+    const apiKey = getFmpApiKey();
+    const actualUrl = buildFmpUrl(endpoint, apiKey, symbol);
+    const redactedUrl = actualUrl.replace(apiKey, "***");
+
+    const response = await getFmpClient().fetch(actualUrl);
+    if (!response.ok) {
+      let eBody = `(Status ${response.status})`;
+      try {
+        eBody = await response.text();
+      } catch {}
+      console.error(
+        `FMP Error Body (${response.status}) for ${redactedUrl}: ${eBody}`
+      );
+      throw new Error(`FMP request failed (${response.status}).`);
+    }
+    return response.json();
+  }
+
+  return {
+    name: "fmp",
+    fetchBySymbol: (endpoint, symbol) => request(endpoint, symbol),
+    fetchCollection: (endpoint) => request(endpoint),
+    describeEndpoint: (endpoint, symbol) =>
+      buildFmpUrl(endpoint, "***", symbol),
+  };
+}
@@ -0,0 +1,55 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/providers/index.ts
+ * Exports the market-data provider layer and resolves the active provider.
+ * ---------------------------------------------------------------------*/
+import path from "path";
+import type { DataProvider } from "./types";
+import { createFmpProvider } from "./fmpProvider";
+import { createFileProvider } from "./fileProvider";
+
+export * from "./types";
+export { createFmpProvider } from "./fmpProvider";
+export { createFileProvider } from "./fileProvider";
+export {
+  getFmpClient,
+  getFmpClientStats,
+  type FmpClientStats,
+} from "./fmpClient";
+
+const DEFAULT_FILE_PROVIDER_DIR = "data/provider";
+
+// Module-level cache for the active provider instance
+let cachedDataProvider: DataProvider | null = null;
+
+/**
+ * Gets the process-wide data provider selected by the DATA_PROVIDER
+ * environment variable:
+ * - 'fmp' (default): Financial Modeling Prep over HTTP.
+ * - 'file': JSON payloads read from DATA_PROVIDER_DIR (default ./data/provider).
+ *
+ * @throws {Error} If DATA_PROVIDER names an unknown provider.
+ */
+export function getDataProvider(): DataProvider {
+  if (cachedDataProvider) {
+    return cachedDataProvider;
+  }
+
+  const providerName = (process.env.DATA_PROVIDER ?? "fmp").toLowerCase();
+  switch (providerName) {
+    case "fmp":
+      cachedDataProvider = createFmpProvider();
+      break;
+    case "file":
+      cachedDataProvider = createFileProvider(
+        path.resolve(process.env.DATA_PROVIDER_DIR ?? DEFAULT_FILE_PROVIDER_DIR)
+      );
+      break;
+    default:
+      throw new Error(
+        `Unknown DATA_PROVIDER '${providerName}'. Expected 'fmp' or 'file'.`
+      );
+  }
+
+  console.log(`Using '${cachedDataProvider.name}' market-data provider.`);
+  return cachedDataProvider;
+}
@@ -0,0 +1,46 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/providers/types.ts
+ * Common type definitions for pluggable market-data providers.
+ * ---------------------------------------------------------------------*/
+
+/**
+ * Describes a single upstream dataset endpoint independently of the vendor.
+ * Field names follow the FMP layout (the original and default vendor), but
+ * every provider interprets them in its own way (e.g. the file provider maps
+ * `path` to a directory on disk).
+ */
+export interface ProviderEndpoint {
+  /** API version / base path segment. FMP: 'v3' (default) or 'stable'. */
+  basePath?: "v3" | "stable" | string;
+  /** Dataset path, e.g. 'income-statement' or 'historical-price-full'. */
+  path: string;
+  /**
+   * Where the symbol goes for per-symbol requests. Defaults to 'path'.
+   * - 'path': Appended as a path segment (e.g. /income-statement/AAPL).
+   * - 'param': Sent as a `symbol` query parameter (e.g. /profile?symbol=AAPL).
+   */
+  symbolLocation?: "path" | "param";
+  /** Static query parameters sent with every request. */
+  params?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A source of raw market data. Implementations return the vendor payload
+ * untouched (`unknown`); validation and mapping stay in the services.
+ */
+export interface DataProvider {
+  /** Short identifier used in logs, e.g. 'fmp' or 'file'. */
+  readonly name: string;
+
+  /** Fetches the raw payload of a per-symbol endpoint. */
+  fetchBySymbol(endpoint: ProviderEndpoint, symbol: string): Promise<unknown>;
+
+  /** Fetches the raw payload of a collection (non-symbol) endpoint. */
+  fetchCollection(endpoint: ProviderEndpoint): Promise<unknown>;
+
+  /**
+   * Returns a human-readable, secret-free description of where a request
+   * would be sent (a redacted URL, a file path, ...). Used for logging.
+   */
+  describeEndpoint(endpoint: ProviderEndpoint, symbol?: string): string;
+}
@@ -0,0 +1,8 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/statements/index.ts
+ * Exports the shared helpers for period-aware financial statements.
+ * ---------------------------------------------------------------------*/
+export * from "./period";
+export * from "./ttm";
+export * from "./periodService";
+export * from "./schema";
@@ -0,0 +1,39 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/statements/period.ts
+ * Reporting periods for financial statements (annual, quarter, TTM).
+ * ---------------------------------------------------------------------*/
+
+/** Periods accepted by the statement services and `?period=` query param. */
+export const STATEMENT_PERIODS = ["annual", "quarter", "ttm"] as const;
+
+export type StatementPeriod = (typeof STATEMENT_PERIODS)[number];
+
+export const DEFAULT_STATEMENT_PERIOD: StatementPeriod = "annual";
+
+/** Values of the stored 'period' column for annual statements (from FMP). */
+export const ANNUAL_PERIOD_VALUES: ReadonlyArray<string> = ["FY"];
+
+/** Values of the stored 'period' column for quarterly statements (from FMP). */
+export const QUARTER_PERIOD_VALUES: ReadonlyArray<string> = [
+  "Q1",
+  "Q2",
+  "Q3",
+  "Q4",
+];
+
+/** 'period' value given to derived trailing-twelve-month statements. */
+export const TTM_PERIOD_VALUE = "TTM";
+
+/**
+ * Parses a `period` query parameter. Missing values default to annual.
+ * @returns The period, or null if the value is not a known period.
+ */
+export function parseStatementPeriod(
+  value: string | null | undefined
+): StatementPeriod | null {
+  if (!value) return DEFAULT_STATEMENT_PERIOD;
+  const normalized = value.toLowerCase();
+  return (STATEMENT_PERIODS as ReadonlyArray<string>).includes(normalized)
+    ? (normalized as StatementPeriod)
+    : null;
+}
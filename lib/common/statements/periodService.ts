@@ -0,0 +1,192 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/statements/periodService.ts
+ * Combines the annual and quarterly services of a statement dataset into
+ * one period-aware service. TTM statements are derived from quarters on
+ * read and never stored.
+ * ReadOptions (e.g. fields) are passed through to the underlying services;
+ * TTM statements are built from full quarters and narrowed afterwards.
+ * getHistory pairs a reporting date's current values with its version
+ * records (restatements), for services with trackVersions enabled.
+ * ---------------------------------------------------------------------*/
+import {
+  reorderAndFilterObjectKeys,
+  resolveFields,
+  type ReadOptions,
+  type RecordVersion,
+} from "@/lib/common/supabase";
+import type { StatementPeriod } from "./period";
+import { DEFAULT_STATEMENT_PERIOD } from "./period";
+import {
+  buildTtmSeries,
+  buildTtmStatement,
+  type StatementRecord,
+  type TtmOptions,
+} from "./ttm";
+
+/** Read methods of a generic Supabase service, as used here. */
+export interface StatementReader<ApiType> {
+  getOne(
+    symbol: string,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType> | null>;
+  getAllForSymbol(
+    symbol: string,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType>[]>;
+  getAll(options?: ReadOptions): Promise<Partial<ApiType>[]>;
+  getVersions(
+    symbol: string,
+    keyMatch?: Record<string, string>
+  ): Promise<RecordVersion[]>;
+  refresh(symbol?: string): Promise<void>;
+  purge(symbol?: string): Promise<number>;
+}
+
+/** How one reporting date's statement changed over time. */
+export interface StatementHistory<ApiType> {
+  symbol: string;
+  date: string;
+  period: "annual" | "quarter";
+  /** Values as currently stored (null if the date is unknown). */
+  current: Partial<ApiType> | null;
+  /** Version records, newest first. Each holds the fields it changed. */
+  versions: RecordVersion[];
+}
+
+export interface PeriodStatementServiceConfig<ApiType extends StatementRecord> {
+  /** Service scoped to annual (FY) rows. */
+  annual: StatementReader<ApiType>;
+  /** Service scoped to quarterly (Q1-Q4) rows of the same table. */
+  quarterly: StatementReader<ApiType>;
+  /** How quarters are rolled up into TTM statements. */
+  ttm: TtmOptions<ApiType>;
+  /** The services' apiFieldOrder; validates `fields` for TTM reads. */
+  fieldOrder: ReadonlyArray<keyof ApiType>;
+}
+
+/**
+ * Creates a period-aware statement service. Every method takes an optional
+ * period (default: annual), so existing callers keep their behaviour.
+ */
+export function createPeriodStatementService<ApiType extends StatementRecord>(
+  config: PeriodStatementServiceConfig<ApiType>
+) {
+  const { annual, quarterly, ttm, fieldOrder } = config;
+
+  const readerFor = (period: "annual" | "quarter") =>
+    period === "quarter" ? quarterly : annual;
+
+  // TTM needs every summed field of the quarters, so field selection is
+  // applied to the derived statements instead of the quarterly reads
+  function narrowTtm(
+    statements: Partial<ApiType>[],
+    options?: ReadOptions
+  ): Partial<ApiType>[] {
+    if (!options?.fields) return statements;
+    const order = resolveFields(
+      options.fields,
+      fieldOrder as ReadonlyArray<string>
+    ) as ReadonlyArray<keyof ApiType>;
+    return statements.map((s) => reorderAndFilterObjectKeys(s, order));
+  }
+
+  /** Latest statement for the symbol in the given period. */
+  async function getOne(
+    symbol: string,
+    period: StatementPeriod = DEFAULT_STATEMENT_PERIOD,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType> | null> {
+    if (period === "ttm") {
+      const quarters = await quarterly.getAllForSymbol(symbol, {
+        asOf: options?.asOf,
+        refresh: options?.refresh,
+      });
+      const statement = buildTtmStatement(quarters, ttm);
+      return narrowTtm(statement ? [statement] : [], options)[0] ?? null;
+    }
+    return readerFor(period).getOne(symbol, options);
+  }
+
+  /** All statements for the symbol in the given period, newest first. */
+  async function getAllForSymbol(
+    symbol: string,
+    period: StatementPeriod = DEFAULT_STATEMENT_PERIOD,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType>[]> {
+    if (period === "ttm") {
+      const quarters = await quarterly.getAllForSymbol(symbol, {
+        asOf: options?.asOf,
+        refresh: options?.refresh,
+      });
+      return narrowTtm(buildTtmSeries(quarters, ttm), options);
+    }
+    return readerFor(period).getAllForSymbol(symbol, options);
+  }
+
+  /**
+   * List view for the given period. For TTM, one statement per symbol built
+   * from the cached quarters (symbols without four consecutive quarters are
+   * left out).
+   */
+  async function getAll(
+    period: StatementPeriod = DEFAULT_STATEMENT_PERIOD,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType>[]> {
+    if (period !== "ttm") {
+      return readerFor(period).getAll(options);
+    }
+    const quartersBySymbol = new Map<string, Partial<ApiType>[]>();
+    for (const quarter of await quarterly.getAll({
+      asOf: options?.asOf,
+      refresh: options?.refresh,
+    })) {
+      if (!quarter.symbol) continue;
+      const list = quartersBySymbol.get(quarter.symbol) ?? [];
+      list.push(quarter);
+      quartersBySymbol.set(quarter.symbol, list);
+    }
+    const result: Partial<ApiType>[] = [];
+    for (const quarters of quartersBySymbol.values()) {
+      const statement = buildTtmStatement(quarters, ttm);
+      if (statement) result.push(statement);
+    }
+    return narrowTtm(result, options);
+  }
+
+  /**
+   * Restatement history for the statement reported on `date`.
+   * Reading the statements first refreshes stale rows, so a restatement
+   * published since the last refresh shows up right away. TTM statements
+   * are derived, not stored, and have no history of their own.
+   */
+  async function getHistory(
+    symbol: string,
+    date: string,
+    period: "annual" | "quarter" = "annual"
+  ): Promise<StatementHistory<ApiType>> {
+    const reader = readerFor(period);
+    const statements = await reader.getAllForSymbol(symbol);
+    const current = statements.find((s) => s.date === date) ?? null;
+    const versions = await reader.getVersions(symbol, { date });
+    return { symbol, date, period, current, versions };
+  }
+
+  /** Forced refresh of the annual and quarterly statements of a symbol. */
+  async function refresh(symbol: string): Promise<void> {
+    await Promise.all([annual.refresh(symbol), quarterly.refresh(symbol)]);
+  }
+
+  /**
+   * Deletes the stored annual and quarterly statements (of one symbol, or
+   * all). Returns the number of rows deleted.
+   */
+  async function purge(symbol?: string): Promise<number> {
+    const counts = await Promise.all([
+      annual.purge(symbol),
+      quarterly.purge(symbol),
+    ]);
+    return counts[0] + counts[1];
+  }
+
+  return { getOne, getAllForSymbol, getAll, getHistory, refresh, purge };
+}
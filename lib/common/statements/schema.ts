@@ -0,0 +1,49 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/statements/schema.ts
+ * Raw-record schema shared by the financial statement datasets.
+ * The identifying fields (symbol, date, period) form the unique key, so a
+ * statement missing any of them cannot be stored meaningfully.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+/** Header fields every raw FMP statement carries. */
+export interface RawStatementHeader {
+  date: string | null;
+  symbol: string;
+  reportedCurrency: string | null;
+  cik: string | null;
+  fillingDate: string | null;
+  acceptedDate: string | null;
+  calendarYear: string | null;
+  period: string;
+}
+
+/** Rules for the statement header; datasets add their line items. */
+export const statementHeaderSchema: RecordSchema<RawStatementHeader> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  date: { type: "date", required: true },
+  period: { type: "string", required: true, pattern: /^(FY|Q[1-4])$/ },
+  reportedCurrency: { type: "string", maxLength: 3 }, // VARCHAR(3)
+  cik: { type: "string" },
+  fillingDate: { type: "date" },
+  acceptedDate: { type: "timestamp" },
+  calendarYear: { type: "string", pattern: /^\d{4}$/ },
+};
+
+/**
+ * API fields every statement carries that are not amounts in the reported
+ * currency. Everything else is converted by `?currency=`.
+ */
+export const STATEMENT_METADATA_FIELDS: ReadonlyArray<string> = [
+  "id",
+  "symbol",
+  "date",
+  "reported_currency",
+  "cik",
+  "filling_date",
+  "accepted_date",
+  "calendar_year",
+  "period",
+  "link",
+  "final_link",
+];
@@ -0,0 +1,129 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/statements/ttm.ts
+ * Derives trailing-twelve-month (TTM) statements from quarterly statements.
+ * Flow values are summed over four consecutive quarters; point-in-time
+ * values (and all metadata) come from the most recent quarter.
+ * ---------------------------------------------------------------------*/
+import { TTM_PERIOD_VALUE } from "./period";
+
+/** Minimal shape shared by all statement API types. */
+export interface StatementRecord {
+  id?: string;
+  symbol?: string;
+  date?: string;
+  period?: string | null;
+}
+
+/** Describes how a statement type is rolled up into a TTM statement. */
+export interface TtmOptions<T extends StatementRecord> {
+  /** Flow fields summed over the four quarters. */
+  sumFields: ReadonlyArray<keyof T>;
+  /** Fields taken from the oldest of the four quarters (e.g. opening cash). */
+  earliestFields?: ReadonlyArray<keyof T>;
+  /** Ratio fields recomputed from the summed values: [numerator, denominator]. */
+  ratioFields?: Partial<Record<keyof T, readonly [keyof T, keyof T]>>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Consecutive fiscal quarter ends are 13 weeks apart, give or take a week or
+// a calendar-month boundary. Anything outside this window means a gap.
+const MIN_QUARTER_GAP_DAYS = 75;
+const MAX_QUARTER_GAP_DAYS = 105;
+
+// Sorts statements newest first, dropping any without a date
+function sortByDateDesc<T extends StatementRecord>(
+  statements: Partial<T>[]
+): Partial<T>[] {
+  return statements
+    .filter((s): s is Partial<T> & { date: string } => !!s.date)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// True if the (newest-first) quarters follow each other without gaps
+function areConsecutiveQuarters<T extends StatementRecord>(
+  quarters: Partial<T>[]
+): boolean {
+  for (let i = 0; i < quarters.length - 1; i++) {
+    const gapDays =
+      (Date.parse(quarters[i].date as string) -
+        Date.parse(quarters[i + 1].date as string)) /
+      DAY_MS;
+    if (gapDays < MIN_QUARTER_GAP_DAYS || gapDays > MAX_QUARTER_GAP_DAYS) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Combines four newest-first quarters into one TTM statement
+function combineQuarters<T extends StatementRecord>(
+  quarters: Partial<T>[],
+  options: TtmOptions<T>
+): Partial<T> | null {
+  if (quarters.length !== 4 || !areConsecutiveQuarters(quarters)) {
+    return null;
+  }
+  const read = (q: Partial<T>, field: keyof T): unknown =>
+    (q as Record<string, unknown>)[field as string];
+
+  // Metadata and point-in-time values come from the latest quarter
+  const result: Record<string, unknown> = {
+    ...(quarters[0] as Record<string, unknown>),
+    period: TTM_PERIOD_VALUE,
+  };
+  delete result.id; // A derived statement has no row of its own
+
+  for (const field of options.sumFields) {
+    const values = quarters.map((q) => read(q, field));
+    // A missing quarter value makes the sum meaningless
+    result[field as string] = values.every((v) => typeof v === "number")
+      ? (values as number[]).reduce((sum, v) => sum + v, 0)
+      : null;
+  }
+  for (const field of options.earliestFields ?? []) {
+    result[field as string] = read(quarters[3], field) ?? null;
+  }
+  for (const [field, pair] of Object.entries(options.ratioFields ?? {})) {
+    const [numeratorField, denominatorField] = pair as readonly [
+      keyof T,
+      keyof T
+    ];
+    const numerator = result[numeratorField as string];
+    const denominator = result[denominatorField as string];
+    result[field] =
+      typeof numerator === "number" &&
+      typeof denominator === "number" &&
+      denominator !== 0
+        ? numerator / denominator
+        : null;
+  }
+  return result as Partial<T>;
+}
+
+/**
+ * Builds the latest TTM statement from a symbol's quarterly statements.
+ * @returns null if the latest four quarters are missing or not consecutive.
+ */
+export function buildTtmStatement<T extends StatementRecord>(
+  quarters: Partial<T>[],
+  options: TtmOptions<T>
+): Partial<T> | null {
+  return combineQuarters(sortByDateDesc(quarters).slice(0, 4), options);
+}
+
+/**
+ * Builds a rolling TTM series (newest first) from a symbol's quarterly
+ * statements: one TTM statement per quarter that has three prior quarters.
+ */
+export function buildTtmSeries<T extends StatementRecord>(
+  quarters: Partial<T>[],
+  options: TtmOptions<T>
+): Partial<T>[] {
+  const sorted = sortByDateDesc(quarters);
+  const series: Partial<T>[] = [];
+  for (let i = 0; i + 4 <= sorted.length; i++) {
+    const ttm = combineQuarters(sorted.slice(i, i + 4), options);
+    if (ttm) series.push(ttm);
+  }
+  return series;
+}
@@ -0,0 +1,115 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/conditions.ts
+ * In-process evaluation of storage queries: condition matching, ordering
+ * (nulls last) and LIKE patterns. Used by the in-memory backend; the
+ * MongoDB backend reuses the LIKE translation.
+ * ---------------------------------------------------------------------*/
+import type {
+  Condition,
+  SelectQuery,
+  SortOrder,
+  StorageValue,
+  StoredRow,
+} from "./types";
+
+/** Translates a SQL LIKE pattern to an anchored regular expression. */
+export function likeToRegExp(pattern: string, ignoreCase = false): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "%") return ".*";
+      if (ch === "_") return ".";
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "");
+}
+
+// Orders two non-null values; numbers numerically, everything else as text
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Equality across number/string representations (e.g. '1' vs 1)
+const sameValue = (a: unknown, b: StorageValue) =>
+  typeof a === "number" || typeof b === "number"
+    ? Number(a) === Number(b)
+    : String(a) === String(b);
+
+export function matchesCondition(
+  row: StoredRow,
+  condition: Condition
+): boolean {
+  const value = row[condition.column] ?? null;
+  switch (condition.op) {
+    case "eq":
+      return condition.value === null
+        ? value === null
+        : value !== null && sameValue(value, condition.value);
+    case "neq":
+      return condition.value === null
+        ? value !== null
+        : value !== null && !sameValue(value, condition.value);
+    case "in":
+      return (
+        value !== null &&
+        condition.value.some((v) => v !== null && sameValue(value, v))
+      );
+    case "like":
+    case "ilike":
+      return (
+        typeof value === "string" &&
+        likeToRegExp(condition.value, condition.op === "ilike").test(value)
+      );
+    default: {
+      // Range operators never match nulls (SQL semantics)
+      if (value === null || condition.value === null) return false;
+      const order = compareValues(value, condition.value);
+      if (condition.op === "gt") return order > 0;
+      if (condition.op === "gte") return order >= 0;
+      if (condition.op === "lt") return order < 0;
+      return order <= 0;
+    }
+  }
+}
+
+/** True if the row satisfies `where` and at least one `anyOf` group. */
+export function matchesQuery(
+  row: StoredRow,
+  query: Pick<SelectQuery, "where" | "anyOf">
+): boolean {
+  const { where = [], anyOf } = query;
+  if (!where.every((c) => matchesCondition(row, c))) return false;
+  if (!anyOf || anyOf.length === 0) return true;
+  return anyOf.some((group) => group.every((c) => matchesCondition(row, c)));
+}
+
+/** Comparator for Array.sort following the sort orders (nulls last). */
+export function compareRows(
+  orderBy: ReadonlyArray<SortOrder>
+): (a: StoredRow, b: StoredRow) => number {
+  return (a, b) => {
+    for (const { column, ascending = true } of orderBy) {
+      const left = a[column] ?? null;
+      const right = b[column] ?? null;
+      if (left === null && right === null) continue;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const order = compareValues(left, right);
+      if (order !== 0) return ascending ? order : -order;
+    }
+    return 0;
+  };
+}
+
+/** Copy of a row limited to the given columns (all when omitted). */
+export function projectRow(
+  row: StoredRow,
+  columns?: ReadonlyArray<string>
+): StoredRow {
+  if (!columns) return { ...row };
+  return Object.fromEntries(columns.map((c) => [c, row[c] ?? null]));
+}
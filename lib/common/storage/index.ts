@@ -0,0 +1,52 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/index.ts
+ * Exports the storage layer and resolves the active storage backend.
+ * ---------------------------------------------------------------------*/
+import type { StorageAdapter } from "./types";
+import { createSupabaseStorage } from "./supabaseStorage";
+import { createMongoStorage } from "./mongoStorage";
+import { createMemoryStorage } from "./memoryStorage";
+
+export * from "./types";
+export { createStorageAdapter } from "./storage";
+export { createSupabaseStorage, toOrFilter } from "./supabaseStorage";
+export { createMongoStorage } from "./mongoStorage";
+export { createMemoryStorage } from "./memoryStorage";
+
+// Module-level cache for the active storage backend
+let cachedStorage: StorageAdapter | null = null;
+
+/**
+ * Gets the process-wide storage backend selected by the STORAGE_BACKEND
+ * environment variable:
+ * - 'supabase' (default): Postgres through the server-side Supabase client.
+ * - 'mongodb': the database from MONGODB_URI / MONGODB_DB.
+ * - 'memory': process memory, empty at start (no database needed).
+ *
+ * @throws {Error} If STORAGE_BACKEND names an unknown backend.
+ */
+export function getStorage(): StorageAdapter {
+  if (cachedStorage) {
+    return cachedStorage;
+  }
+
+  const backendName = (process.env.STORAGE_BACKEND ?? "supabase").toLowerCase();
+  switch (backendName) {
+    case "supabase":
+      cachedStorage = createSupabaseStorage();
+      break;
+    case "mongodb":
+      cachedStorage = createMongoStorage();
+      break;
+    case "memory":
+      cachedStorage = createMemoryStorage();
+      break;
+    default:
+      throw new Error(
+        `Unknown STORAGE_BACKEND '${backendName}'. Expected 'supabase', 'mongodb' or 'memory'.`
+      );
+  }
+
+  console.log(`Using '${cachedStorage.name}' storage backend.`);
+  return cachedStorage;
+}
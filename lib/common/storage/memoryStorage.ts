@@ -0,0 +1,119 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/memoryStorage.ts
+ * In-memory storage backend. Data lives as long as the process, which is
+ * enough for local runs and tests without a database; seed it with rows
+ * to start from a known state.
+ * ---------------------------------------------------------------------*/
+import { randomUUID } from "crypto";
+
+import { compareRows, matchesQuery, projectRow } from "./conditions";
+import { createStorageAdapter } from "./storage";
+import type { SelectQuery, StorageAdapter, StoredRow } from "./types";
+
+// Identity of a row by its unique key columns
+const keyOf = (row: StoredRow, uniqueKeys: ReadonlyArray<string>) =>
+  JSON.stringify(uniqueKeys.map((c) => row[c] ?? null));
+
+/**
+ * Creates an in-memory storage backend.
+ * @param seed Initial rows per table; they are copied, not referenced.
+ */
+export function createMemoryStorage(
+  seed: Record<string, ReadonlyArray<StoredRow>> = {}
+): StorageAdapter {
+  const tables = new Map<string, StoredRow[]>();
+
+  // Fills the columns Postgres would default
+  const withDefaults = (row: StoredRow, now: string): StoredRow => ({
+    id: randomUUID(),
+    created_at: now,
+    modified_at: now,
+    ...row,
+  });
+
+  const tableRows = (table: string): StoredRow[] => {
+    let rows = tables.get(table);
+    if (!rows) {
+      rows = [];
+      tables.set(table, rows);
+    }
+    return rows;
+  };
+
+  const now = new Date().toISOString();
+  for (const [table, rows] of Object.entries(seed)) {
+    tableRows(table).push(...rows.map((row) => withDefaults(row, now)));
+  }
+
+  return createStorageAdapter({
+    name: "memory",
+
+    async select<T extends object>(table: string, query: SelectQuery = {}) {
+      const { columns, orderBy = [], limit, offset = 0 } = query;
+      const matches = tableRows(table).filter((row) =>
+        matchesQuery(row, query)
+      );
+      if (orderBy.length > 0) matches.sort(compareRows(orderBy));
+      const page = matches.slice(
+        offset,
+        limit === undefined ? undefined : offset + limit
+      );
+      return page.map((row) => projectRow(row, columns) as T);
+    },
+
+    async upsert<T extends object>(
+      table: string,
+      rows: ReadonlyArray<StoredRow>,
+      uniqueKeys: ReadonlyArray<string>,
+      { returning = true } = {}
+    ) {
+      const stored = tableRows(table);
+      const indexByKey = new Map(
+        stored.map((row, index) => [keyOf(row, uniqueKeys), index])
+      );
+      const now = new Date().toISOString();
+      const written: StoredRow[] = [];
+      for (const row of rows) {
+        const key = keyOf(row, uniqueKeys);
+        const index = indexByKey.get(key);
+        if (index === undefined) {
+          const inserted = withDefaults(row, now);
+          indexByKey.set(key, stored.length);
+          stored.push(inserted);
+          written.push(inserted);
+        } else {
+          // Like the modified_at triggers, updates refresh the timestamp
+          stored[index] = { ...stored[index], modified_at: now, ...row };
+          written.push(stored[index]);
+        }
+      }
+      return returning ? written.map((row) => ({ ...row } as T)) : [];
+    },
+
+    async insert(table, rows) {
+      const now = new Date().toISOString();
+      tableRows(table).push(...rows.map((row) => withDefaults(row, now)));
+    },
+
+    async update(table, values, where = []) {
+      const now = new Date().toISOString();
+      let count = 0;
+      tables.set(
+        table,
+        tableRows(table).map((row) => {
+          if (!matchesQuery(row, { where })) return row;
+          count++;
+          return { ...row, modified_at: now, ...values };
+        })
+      );
+      return count;
+    },
+
+    async delete(table, where = []) {
+      const stored = tableRows(table);
+      const kept = stored.filter((row) => !matchesQuery(row, { where }));
+      tables.set(table, kept);
+      return stored.length - kept.length;
+    },
+  });
+}
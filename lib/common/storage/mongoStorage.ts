@@ -0,0 +1,201 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/mongoStorage.ts
+ * Storage backend on MongoDB (MONGODB_URI / MONGODB_DB).
+ * Each table is a collection with a unique index on its upsert keys; rows
+ * keep a string `id` like the Postgres rows, and Mongo's `_id` is never
+ * returned.
+ * ---------------------------------------------------------------------*/
+import { randomUUID } from "crypto";
+import type { Collection, Document, Filter } from "mongodb";
+
+import { ensureCollection } from "@/lib/mongodb/ensureCollection";
+import { likeToRegExp } from "./conditions";
+import { createStorageAdapter } from "./storage";
+import type {
+  Condition,
+  SelectQuery,
+  SortOrder,
+  StorageAdapter,
+  StoredRow,
+} from "./types";
+
+// Collections already ensured in this process, by name and unique keys
+const ensuredCollections = new Map<string, Promise<Collection<Document>>>();
+
+function getCollection(
+  table: string,
+  uniqueKeys?: ReadonlyArray<string>
+): Promise<Collection<Document>> {
+  const cacheKey = uniqueKeys ? `${table}:${uniqueKeys.join(",")}` : table;
+  let collection = ensuredCollections.get(cacheKey);
+  if (!collection) {
+    collection = ensureCollection<Document>(
+      table,
+      uniqueKeys && Object.fromEntries(uniqueKeys.map((key) => [key, 1])),
+      uniqueKeys && { unique: true }
+    );
+    // Forget failures so the next call can retry
+    collection.catch(() => ensuredCollections.delete(cacheKey));
+    ensuredCollections.set(cacheKey, collection);
+  }
+  return collection;
+}
+
+function toFilterEntry(condition: Condition): Document {
+  const { column } = condition;
+  switch (condition.op) {
+    case "eq":
+      return { [column]: condition.value };
+    case "neq":
+      // $ne alone also matches missing/null fields, unlike SQL
+      return condition.value === null
+        ? { [column]: { $ne: null } }
+        : { [column]: { $ne: condition.value, $exists: true, $nin: [null] } };
+    case "in":
+      return { [column]: { $in: [...condition.value] } };
+    case "like":
+    case "ilike":
+      return {
+        [column]: {
+          $regex: likeToRegExp(condition.value, condition.op === "ilike"),
+        },
+      };
+    default:
+      return { [column]: { [`$${condition.op}`]: condition.value } };
+  }
+}
+
+function toFilter(
+  where: ReadonlyArray<Condition> = [],
+  anyOf?: ReadonlyArray<ReadonlyArray<Condition>>
+): Filter<Document> {
+  const clauses: Document[] = where.map(toFilterEntry);
+  if (anyOf && anyOf.length > 0) {
+    clauses.push({
+      $or: anyOf.map((group) => ({ $and: group.map(toFilterEntry) })),
+    });
+  }
+  return clauses.length > 0 ? { $and: clauses } : {};
+}
+
+// Mongo sorts nulls first ascending; sort on a null flag first so nulls
+// come last in both directions, as the other backends do
+function sortStages(orderBy: ReadonlyArray<SortOrder>): Document[] {
+  if (orderBy.length === 0) return [];
+  const flag = (column: string) => `__null_${column}`;
+  return [
+    {
+      $addFields: Object.fromEntries(
+        orderBy.map(({ column }) => [
+          flag(column),
+          { $cond: [{ $eq: [{ $ifNull: [`$${column}`, null] }, null] }, 1, 0] },
+        ])
+      ),
+    },
+    {
+      $sort: Object.fromEntries(
+        orderBy.flatMap(({ column, ascending = true }) => [
+          [flag(column), 1],
+          [column, ascending ? 1 : -1],
+        ])
+      ),
+    },
+    { $unset: orderBy.map(({ column }) => flag(column)) },
+  ];
+}
+
+/** Creates a storage backend over the MongoDB database from getDb(). */
+export function createMongoStorage(): StorageAdapter {
+  return createStorageAdapter({
+    name: "mongodb",
+
+    async select<T extends object>(table: string, query: SelectQuery = {}) {
+      const { columns, where, anyOf, orderBy = [], limit, offset } = query;
+      const collection = await getCollection(table);
+      const pipeline: Document[] = [
+        { $match: toFilter(where, anyOf) },
+        ...sortStages(orderBy),
+      ];
+      if (offset !== undefined) pipeline.push({ $skip: offset });
+      if (limit !== undefined) pipeline.push({ $limit: limit });
+      pipeline.push(
+        columns
+          ? {
+              $project: {
+                _id: 0,
+                ...Object.fromEntries(columns.map((c) => [c, 1])),
+              },
+            }
+          : { $unset: "_id" }
+      );
+      return (await collection.aggregate(pipeline).toArray()) as T[];
+    },
+
+    async upsert<T extends object>(
+      table: string,
+      rows: ReadonlyArray<StoredRow>,
+      uniqueKeys: ReadonlyArray<string>,
+      { returning = true } = {}
+    ) {
+      if (rows.length === 0) return [];
+      const collection = await getCollection(table, uniqueKeys);
+      const now = new Date().toISOString();
+      const keyFilter = (row: StoredRow) =>
+        Object.fromEntries(uniqueKeys.map((key) => [key, row[key] ?? null]));
+
+      await collection.bulkWrite(
+        rows.map((row) => {
+          const { id, created_at, ...values } = row;
+          return {
+            updateOne: {
+              filter: keyFilter(row),
+              update: {
+                $set: { modified_at: now, ...values },
+                $setOnInsert: {
+                  id: id ?? randomUUID(),
+                  created_at: created_at ?? now,
+                },
+              },
+              upsert: true,
+            },
+          };
+        }),
+        { ordered: false }
+      );
+      if (!returning) return [];
+
+      const stored = await collection
+        .find({ $or: rows.map(keyFilter) }, { projection: { _id: 0 } })
+        .toArray();
+      return stored as T[];
+    },
+
+    async insert(table, rows) {
+      if (rows.length === 0) return;
+      const collection = await getCollection(table);
+      const now = new Date().toISOString();
+      await collection.insertMany(
+        rows.map((row) => ({
+          id: randomUUID(),
+          created_at: now,
+          modified_at: now,
+          ...row,
+        }))
+      );
+    },
+
+    async update(table, values, where = []) {
+      const collection = await getCollection(table);
+      const { modifiedCount } = await collection.updateMany(toFilter(where), {
+        $set: { modified_at: new Date().toISOString(), ...values },
+      });
+      return modifiedCount;
+    },
+
+    async delete(table, where = []) {
+      const collection = await getCollection(table);
+      const { deletedCount } = await collection.deleteMany(toFilter(where));
+      return deletedCount;
+    },
+  });
+}
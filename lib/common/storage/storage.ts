@@ -0,0 +1,55 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/storage.ts
+ * Completes a backend's core operations into a full StorageAdapter.
+ * ---------------------------------------------------------------------*/
+import type { SelectQuery, StorageAdapter, StorageCore } from "./types";
+
+/**
+ * Adds the derived reads (first row, latest by symbol, freshness check) to
+ * a backend, so every backend answers them the same way.
+ */
+export function createStorageAdapter(core: StorageCore): StorageAdapter {
+  const adapter: StorageAdapter = {
+    name: core.name,
+    select: core.select,
+    upsert: core.upsert,
+    insert: core.insert,
+    update: core.update,
+    delete: core.delete,
+
+    async selectFirst<T extends object>(
+      table: string,
+      query: SelectQuery = {}
+    ): Promise<T | null> {
+      const rows = await core.select<T>(table, { ...query, limit: 1 });
+      return rows[0] ?? null;
+    },
+
+    selectLatest<T extends object>(
+      table: string,
+      symbol: string,
+      orderColumn: string,
+      query: Pick<SelectQuery, "columns" | "where" | "anyOf"> = {}
+    ): Promise<T | null> {
+      return adapter.selectFirst<T>(table, {
+        ...query,
+        where: [
+          { column: "symbol", op: "eq", value: symbol },
+          ...(query.where ?? []),
+        ],
+        orderBy: [{ column: orderColumn, ascending: false }],
+      });
+    },
+
+    async latestTimestamp(table, where = [], column = "modified_at") {
+      const row = await adapter.selectFirst<Record<string, unknown>>(table, {
+        columns: [column],
+        where,
+        orderBy: [{ column, ascending: false }],
+      });
+      const value = row?.[column];
+      return typeof value === "string" ? value : null;
+    },
+  };
+  return adapter;
+}
@@ -0,0 +1,192 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/supabaseStorage.ts
+ * Storage backend on Supabase (Postgres via PostgREST).
+ * Unique keys must match the tables' UNIQUE constraints (see the ddl.sql
+ * files); ids and created_at come from the column defaults.
+ * ---------------------------------------------------------------------*/
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+
+import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { createStorageAdapter } from "./storage";
+import type {
+  Condition,
+  SelectQuery,
+  StorageAdapter,
+  StorageValue,
+} from "./types";
+
+// Structural view of a PostgREST filter builder, so conditions can be
+// applied to select, update and delete builders alike
+interface FilterBuilder<B> {
+  eq(column: string, value: unknown): B;
+  neq(column: string, value: unknown): B;
+  gt(column: string, value: unknown): B;
+  gte(column: string, value: unknown): B;
+  lt(column: string, value: unknown): B;
+  lte(column: string, value: unknown): B;
+  in(column: string, values: unknown[]): B;
+  like(column: string, pattern: string): B;
+  ilike(column: string, pattern: string): B;
+  is(column: string, value: null): B;
+  not(column: string, operator: string, value: unknown): B;
+  or(filters: string): B;
+}
+
+function applyCondition<B extends FilterBuilder<B>>(
+  builder: B,
+  condition: Condition
+): B {
+  const { column } = condition;
+  switch (condition.op) {
+    case "eq":
+      return condition.value === null
+        ? builder.is(column, null)
+        : builder.eq(column, condition.value);
+    case "neq":
+      return condition.value === null
+        ? builder.not(column, "is", null)
+        : builder.neq(column, condition.value);
+    case "in":
+      return builder.in(column, [...condition.value]);
+    case "like":
+      return builder.like(column, condition.value);
+    case "ilike":
+      return builder.ilike(column, condition.value);
+    default:
+      return builder[condition.op](column, condition.value);
+  }
+}
+
+// Values inside PostgREST `or` filters are double-quoted so commas, dots
+// and parentheses in them are not read as syntax
+const quote = (value: StorageValue) =>
+  `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// One condition in PostgREST filter-string syntax, e.g. date.lt."2024-01-01"
+function conditionToFilter(condition: Condition): string {
+  const { column } = condition;
+  switch (condition.op) {
+    case "eq":
+      return condition.value === null
+        ? `${column}.is.null`
+        : `${column}.eq.${quote(condition.value)}`;
+    case "neq":
+      return condition.value === null
+        ? `${column}.not.is.null`
+        : `${column}.neq.${quote(condition.value)}`;
+    case "in":
+      return `${column}.in.(${condition.value.map(quote).join(",")})`;
+    default:
+      return `${column}.${condition.op}.${quote(condition.value)}`;
+  }
+}
+
+/** Joins AND groups into one PostgREST `or` filter string. */
+export function toOrFilter(
+  groups: ReadonlyArray<ReadonlyArray<Condition>>
+): string {
+  return groups
+    .map((group) =>
+      group.length === 1
+        ? conditionToFilter(group[0])
+        : `and(${group.map(conditionToFilter).join(",")})`
+    )
+    .join(",");
+}
+
+function toError(action: string, table: string, error: PostgrestError): Error {
+  console.error(`Supabase error on ${action} ${table}:`, error);
+  return new Error(
+    `Database ${action} failed on ${table}: ${error.message} (Code: ${error.code})`
+  );
+}
+
+/**
+ * Creates a storage backend over a Supabase client.
+ * @param getClient Client getter; defaults to the server-side client, which
+ *   is resolved lazily so the backend can be created without credentials.
+ */
+export function createSupabaseStorage(
+  getClient: () => SupabaseClient = getSupabaseServerClient
+): StorageAdapter {
+  return createStorageAdapter({
+    name: "supabase",
+
+    async select<T extends object>(table: string, query: SelectQuery = {}) {
+      const { columns, where = [], anyOf, orderBy = [], limit, offset } = query;
+      let builder = getClient()
+        .from(table)
+        .select(columns ? columns.join(",") : "*");
+      for (const condition of where) {
+        builder = applyCondition(builder, condition);
+      }
+      if (anyOf && anyOf.length > 0) builder = builder.or(toOrFilter(anyOf));
+      for (const { column, ascending = true } of orderBy) {
+        builder = builder.order(column, { ascending, nullsFirst: false });
+      }
+      if (offset !== undefined) {
+        // range() is inclusive; without a limit read the PostgREST maximum
+        builder = builder.range(offset, offset + (limit ?? 1000) - 1);
+      } else if (limit !== undefined) {
+        builder = builder.limit(limit);
+      }
+
+      const { data, error } = (await builder) as {
+        data: T[] | null;
+        error: PostgrestError | null;
+      };
+      if (error) throw toError("read", table, error);
+      return data ?? [];
+    },
+
+    async upsert<T extends object>(
+      table: string,
+      rows: ReadonlyArray<Record<string, unknown>>,
+      uniqueKeys: ReadonlyArray<string>,
+      { returning = true } = {}
+    ) {
+      if (rows.length === 0) return [];
+      const builder = getClient()
+        .from(table)
+        .upsert([...rows], { onConflict: uniqueKeys.join(",") });
+      const { data, error } = (await (returning
+        ? builder.select("*")
+        : builder)) as { data: T[] | null; error: PostgrestError | null };
+      if (error) throw toError("upsert", table, error);
+      return data ?? [];
+    },
+
+    async insert(table, rows) {
+      if (rows.length === 0) return;
+      const { error } = await getClient()
+        .from(table)
+        .insert([...rows]);
+      if (error) throw toError("insert", table, error);
+    },
+
+    async update(table, values, where = []) {
+      // modified_at is set by the moddatetime triggers
+      let builder = getClient().from(table).update(values, { count: "exact" });
+      for (const condition of where) {
+        builder = applyCondition(builder, condition);
+      }
+      // PostgREST refuses unfiltered updates; every table has an id
+      if (where.length === 0) builder = builder.not("id", "is", null);
+      const { count, error } = await builder;
+      if (error) throw toError("update", table, error);
+      return count ?? 0;
+    },
+
+    async delete(table, where = []) {
+      let builder = getClient().from(table).delete({ count: "exact" });
+      for (const condition of where) {
+        builder = applyCondition(builder, condition);
+      }
+      // PostgREST refuses unfiltered deletes; every table has an id
+      if (where.length === 0) builder = builder.not("id", "is", null);
+      const { count, error } = await builder;
+      if (error) throw toError("delete", table, error);
+      return count ?? 0;
+    },
+  });
+}
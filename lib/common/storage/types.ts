@@ -0,0 +1,134 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/storage/types.ts
+ * Common type definitions for pluggable storage backends.
+ * Services describe reads and writes with plain objects (conditions,
+ * sort orders, unique keys); each backend translates them to its own
+ * query language (PostgREST, MongoDB) or evaluates them in memory.
+ * ---------------------------------------------------------------------*/
+
+/** Scalar column value as stored (dates/timestamps are ISO strings). */
+export type StorageValue = string | number | boolean | null;
+
+/** A stored row/document. Columns use the snake_case table names. */
+export type StoredRow = Record<string, unknown>;
+
+/**
+ * One column condition.
+ * - 'eq'/'neq' with null mean IS NULL / IS NOT NULL.
+ * - 'like'/'ilike' take SQL LIKE patterns ('%' any run, '_' one character).
+ */
+export type Condition =
+  | {
+      column: string;
+      op: "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
+      value: StorageValue;
+    }
+  | { column: string; op: "in"; value: ReadonlyArray<StorageValue> }
+  | { column: string; op: "like" | "ilike"; value: string };
+
+/** Sort order on one column. Nulls always sort last. */
+export interface SortOrder {
+  column: string;
+  ascending?: boolean; // Default: true
+}
+
+export interface SelectQuery {
+  /** Columns to return. Omitted = every column. */
+  columns?: ReadonlyArray<string>;
+  /** Conditions that must all hold. */
+  where?: ReadonlyArray<Condition>;
+  /**
+   * Alternatives, of which at least one must hold (each an AND group).
+   * Combined with `where` by AND, e.g. keyset cursors or pattern lists.
+   */
+  anyOf?: ReadonlyArray<ReadonlyArray<Condition>>;
+  orderBy?: ReadonlyArray<SortOrder>;
+  limit?: number;
+  offset?: number;
+}
+
+export interface UpsertOptions {
+  /** Return the stored rows (default true). Skip for large batches. */
+  returning?: boolean;
+}
+
+/**
+ * A backend storing the cached tables. Backends fill in `id` and
+ * `created_at` for new rows and default `modified_at` to the write time,
+ * as the Postgres defaults/triggers do.
+ */
+export interface StorageAdapter {
+  /** Short identifier used in logs, e.g. 'supabase' or 'memory'. */
+  readonly name: string;
+
+  /** Rows of a table matching the query (a whole collection by default). */
+  select<T extends object = StoredRow>(
+    table: string,
+    query?: SelectQuery
+  ): Promise<T[]>;
+
+  /** First row matching the query, or null. */
+  selectFirst<T extends object = StoredRow>(
+    table: string,
+    query?: SelectQuery
+  ): Promise<T | null>;
+
+  /**
+   * Latest row of a symbol by `orderColumn` (descending), or null.
+   * `query` may add conditions and a projection.
+   */
+  selectLatest<T extends object = StoredRow>(
+    table: string,
+    symbol: string,
+    orderColumn: string,
+    query?: Pick<SelectQuery, "columns" | "where" | "anyOf">
+  ): Promise<T | null>;
+
+  /**
+   * Inserts rows, replacing stored rows with the same `uniqueKeys` values
+   * (other columns of a replaced row are kept).
+   * @returns The stored rows, unless `returning` is false.
+   */
+  upsert<T extends object = StoredRow>(
+    table: string,
+    rows: ReadonlyArray<StoredRow>,
+    uniqueKeys: ReadonlyArray<string>,
+    options?: UpsertOptions
+  ): Promise<T[]>;
+
+  /** Appends rows (no uniqueness handling). */
+  insert(table: string, rows: ReadonlyArray<StoredRow>): Promise<void>;
+
+  /**
+   * Sets `values` on the rows matching every condition; no conditions =
+   * every row. Like upserts, updates refresh `modified_at`.
+   * @returns Number of rows updated.
+   */
+  update(
+    table: string,
+    values: StoredRow,
+    where?: ReadonlyArray<Condition>
+  ): Promise<number>;
+
+  /**
+   * Deletes rows matching every condition; no conditions = every row.
+   * @returns Number of rows deleted.
+   */
+  delete(table: string, where?: ReadonlyArray<Condition>): Promise<number>;
+
+  /**
+   * Freshness check: the latest `column` value (default 'modified_at') of
+   * the rows matching `where`, or null if there are none.
+   */
+  latestTimestamp(
+    table: string,
+    where?: ReadonlyArray<Condition>,
+    column?: string
+  ): Promise<string | null>;
+}
+
+/** The operations each backend implements; the rest derive from them. */
+export type StorageCore = Pick<
+  StorageAdapter,
+  "name" | "select" | "upsert" | "insert" | "update" | "delete"
+>;
@@ -0,0 +1,18 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/supabase/cacheStatus.ts
+ * Helpers for exposing a service call's cache status to API clients.
+ * ---------------------------------------------------------------------*/
+import type { CacheStatus } from "./types";
+
+/**
+ * Response headers describing how the returned data relates to the cache:
+ * - X-Cache-Status: fresh | stale | refreshed | fallback | unchecked
+ * - X-Cache-Modified-At: modified_at of the served rows (when known)
+ */
+export function cacheStatusHeaders(cache: CacheStatus): Record<string, string> {
+  const headers: Record<string, string> = { "X-Cache-Status": cache.state };
+  if (cache.modifiedAt) {
+    headers["X-Cache-Modified-At"] = cache.modifiedAt;
+  }
+  return headers;
+}
@@ -1,29 +1,73 @@
 /* ──────────────────────────────────────────────────────────────────────
  * src/api/common/supabase/genericService.ts
- * Implementation of the generic service creator function for Supabase/Postgres.
+ * Implementation of the generic caching service creator function.
  * Uses apiFieldOrder config for both DB projection and API response shaping.
- * Uses fmpSymbolLocation config for FMP URL structure.
- * Includes explicit casts on Supabase calls to guide TS inference.
+ * Read methods accept ReadOptions.fields to narrow both per request, and
+ * ReadOptions.asOf for point-in-time reads.
+ * Upstream data comes from the configured DataProvider (FMP by default);
+ * rows are cached in the configured StorageAdapter (Supabase by default).
  * ---------------------------------------------------------------------*/
-import { SupabaseClient, PostgrestError } from "@supabase/supabase-js";
-// Import the Supabase client getter you created
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
-// Import common types and helpers for Supabase
-import { BaseRow, GenericSupabaseServiceConfig, FetchMode } from "./types";
+// Import common types and helpers for the service
+import {
+  BaseRow,
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  WithCacheStatus,
+  CacheStatus,
+  ReadOptions,
+  BatchResult,
+} from "./types";
+// Import paging/filtering/sorting helpers for collection reads
+import {
+  QueryParamError,
+  resolveFields,
+  slicePage,
+  toCollectionSelect,
+  validateCollectionQuery,
+  type CollectionQuery,
+  type CollectionSort,
+  type Page,
+} from "./query";
 // Import the FILTERING version of the reordering helper
 import { reorderAndFilterObjectKeys } from "./mappers";
+// Import in-flight request coalescing for cache misses
+import { singleFlight, singleFlightKey } from "./singleFlight";
+// Import version history helpers (restatement tracking)
+import {
+  getRecordVersions,
+  recordVersions,
+  rewindRows,
+  type RecordVersion,
+} from "./versioning";
+// Import per-record schema validation and the quarantine for rejects
+import { partitionRecords } from "@/lib/common/validation";
+import { quarantineRecords } from "./quarantine";
+// Import the market-data provider layer
+import { getDataProvider, ProviderEndpoint } from "@/lib/common/providers";
+// Import the storage layer the rows are cached in
+import {
+  getStorage,
+  type Condition,
+  type SelectQuery,
+  type StorageAdapter,
+  type StorageValue,
+} from "@/lib/common/storage";
 
-// Helper function to safely get the FMP API key
-function getFmpApiKey(): string {
-  const apiKey = process.env.FMP_API_KEY;
-  if (!apiKey) {
-    throw new Error("FMP_API_KEY environment variable is not set.");
-  }
-  return apiKey;
+// Page order when the request does not specify a sort
+const DEFAULT_PAGE_SORT: CollectionSort = { field: "symbol", ascending: true };
+// Rows per storage read of the paged reads (PostgREST max-rows)
+const READ_PAGE_SIZE = 1000;
+
+/**
+ * True for the error BySymbol reads throw when the provider has nothing for
+ * a symbol. For event datasets (splits, dividends) that just means "none".
+ */
+export function isNoDataError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("No data found");
 }
 
 /**
- * Creates a generic service for fetching FMP data, caching in Supabase (Postgres), and retrieving it.
+ * Creates a generic service for fetching provider data (FMP by default), caching it in storage (Supabase by default), and retrieving it.
  */
 export function createGenericSupabaseService<
   RawType,
@@ -39,6 +83,8 @@ export function createGenericSupabaseService<
     fmpPath,
     fmpSymbolLocation = "path", // Default symbol location to path segment
     fmpParams = {},
+    provider: configuredProvider, // Optional per-service provider override
+    storage: configuredStorage, // Optional per-service storage override
     cacheTtlMs,
     uniqueKeyColumns,
     mapRawToRow,
@@ -46,6 +92,12 @@ export function createGenericSupabaseService<
     apiFieldOrder, // Optional array for projection, ordering, filtering
     isSingleRecordPerSymbol = fetchMode === FetchMode.BySymbol,
     sortByFieldForLatest, // Should be keyof RowType
+    recordScope, // Optional column/value filter for shared tables
+    staleWhileRevalidate, // Optional: serve stale rows while refreshing
+    trackVersions = false, // Optional: write diffs of changed rows
+    unversionedFields = [], // Optional: fields left out of those diffs
+    rawSchema, // Optional: per-record validation, rejects are quarantined
+    asOfColumn, // Optional: date a row became public, for asOf reads
     validateRawData,
     processRawDataArray,
   } = config;
@@ -60,6 +112,11 @@ export function createGenericSupabaseService<
       `Config Error (${tableName}): sortByFieldForLatest must be provided when fetchMode='bySymbol' and !isSingleRecordPerSymbol.`
     );
   }
+  if (staleWhileRevalidate && staleWhileRevalidate.maxStaleMs <= cacheTtlMs) {
+    throw new Error(
+      `Config Error (${tableName}): staleWhileRevalidate.maxStaleMs must be greater than cacheTtlMs.`
+    );
+  }
   if (!uniqueKeyColumns || uniqueKeyColumns.length === 0) {
     throw new Error(
       `Config Error (${tableName}): uniqueKeyColumns array cannot be empty.`
@@ -67,70 +124,155 @@ export function createGenericSupabaseService<
   }
   // Migrations handle table/index creation
 
-  // --- Supabase Client ---
-  // Using Service Role Client to bypass RLS for service operations
-  const supabase: SupabaseClient = getSupabaseServerClient();
+  // --- Provider Endpoint ---
+  // Vendor-neutral description of the upstream dataset, built from the fmp* fields
+  const endpoint: ProviderEndpoint = {
+    basePath: fmpBasePath,
+    path: fmpPath,
+    symbolLocation: fmpSymbolLocation,
+    params: fmpParams,
+  };
+
+  // --- Storage ---
+  const storage: StorageAdapter = configuredStorage ?? getStorage();
+
+  // --- Internal Helper: Scoped Conditions ---
+  // Conditions limiting a read to the configured record scope, plus the
+  // given ones. All reads, cache checks and purges go through here.
+  function scoped(...conditions: Condition[]): Condition[] {
+    return recordScope
+      ? [
+          { column: recordScope.column, op: "in", value: recordScope.values },
+          ...conditions,
+        ]
+      : conditions;
+  }
+
+  const symbolIs = (symbol: string): Condition => ({
+    column: "symbol",
+    op: "eq",
+    value: symbol,
+  });
+
+  // --- Internal Helper: Paged Read ---
+  // Every row matching the query, read in pages past the storage row cap.
+  // The order must end with unique columns so pages do not overlap.
+  async function selectAllPages<T extends object>(
+    query: Omit<SelectQuery, "limit" | "offset">
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+      const page = await storage.select<T>(tableName, {
+        ...query,
+        limit: READ_PAGE_SIZE,
+        offset,
+      });
+      rows.push(...page);
+      if (page.length < READ_PAGE_SIZE) return rows;
+    }
+  }
+
+  // Single-flight key prefix. Scoped services sharing a table must not join
+  // each other's refreshes.
+  const flightKeyPrefix = recordScope
+    ? `${tableName}[${recordScope.column}=${recordScope.values.join("|")}]`
+    : tableName;
+
+  // --- Internal Helper: Resolve Requested Fields ---
+  // Field order for one read: the requested fields (validated against
+  // apiFieldOrder, in request order) or apiFieldOrder itself.
+  function resolveFieldOrder(
+    options?: ReadOptions
+  ): ReadonlyArray<keyof ApiType> | undefined {
+    if (!options?.fields) return apiFieldOrder;
+    if (!apiFieldOrder || apiFieldOrder.length === 0) {
+      throw new Error(
+        `Config Error (${tableName}): field selection requires apiFieldOrder.`
+      );
+    }
+    return resolveFields(
+      options.fields,
+      apiFieldOrder as ReadonlyArray<string>
+    ) as ReadonlyArray<keyof ApiType>;
+  }
 
   // --- Internal Helper to Apply Ordering & Filtering ---
   // Applies key ordering and filtering based on apiFieldOrder config
-  function applyOrderAndFilter(data: Partial<ApiType>): Partial<ApiType>;
-  function applyOrderAndFilter(data: Partial<ApiType>[]): Partial<ApiType>[];
-  function applyOrderAndFilter(data: null): null;
+  // (or the per-request field order)
+  function applyOrderAndFilter(
+    data: Partial<ApiType>,
+    order?: ReadonlyArray<keyof ApiType>
+  ): Partial<ApiType>;
   function applyOrderAndFilter(
-    data: Partial<ApiType> | Partial<ApiType>[] | null
+    data: Partial<ApiType>[],
+    order?: ReadonlyArray<keyof ApiType>
+  ): Partial<ApiType>[];
+  function applyOrderAndFilter(
+    data: null,
+    order?: ReadonlyArray<keyof ApiType>
+  ): null;
+  function applyOrderAndFilter(
+    data: Partial<ApiType> | Partial<ApiType>[] | null,
+    order?: ReadonlyArray<keyof ApiType>
+  ): Partial<ApiType> | Partial<ApiType>[] | null;
+  function applyOrderAndFilter(
+    data: Partial<ApiType> | Partial<ApiType>[] | null,
+    order: ReadonlyArray<keyof ApiType> | undefined = apiFieldOrder
   ): Partial<ApiType> | Partial<ApiType>[] | null {
-    if (!apiFieldOrder || !data) {
+    if (!order || !data) {
       // No order specified or no data
       return data;
     }
     if (Array.isArray(data)) {
       // Use the FILTERING helper on each item
-      return data.map((item) =>
-        reorderAndFilterObjectKeys(item, apiFieldOrder)
-      );
+      return data.map((item) => reorderAndFilterObjectKeys(item, order));
     } else {
       // Use the FILTERING helper on the single item
-      return reorderAndFilterObjectKeys(data, apiFieldOrder);
+      return reorderAndFilterObjectKeys(data, order);
     }
   }
 
-  // --- Internal Helper: Generate Supabase Select String ---
-  // Creates the select string for Supabase queries based on apiFieldOrder
-  function generateSelectString(order?: ReadonlyArray<keyof ApiType>): string {
+  // --- Internal Helper: Generate Column Projection ---
+  // Creates the column list for storage reads based on apiFieldOrder
+  function selectColumns(
+    order?: ReadonlyArray<keyof ApiType>
+  ): string[] | undefined {
     // Base fields potentially needed for mapping or caching logic, even if not in final API order
     const alwaysSelect: (keyof BaseRow)[] = ["id", "symbol", "modified_at"];
     if (!order || order.length === 0) {
-      return "*"; // Select all columns if no specific field list provided
+      return undefined; // Select all columns if no specific field list provided
     }
     // Filter out non-string keys (e.g., symbols if ApiType uses them)
     const apiKeys = order.filter((k) => typeof k === "string") as string[];
     // Combine base fields and requested API fields, ensuring uniqueness
     // Assumes ApiType keys largely map to RowType column names
-    const columnsToSelect = [...new Set([...alwaysSelect, ...apiKeys])];
-    return columnsToSelect.join(", ");
+    return [...new Set([...alwaysSelect, ...apiKeys])];
   }
 
   // --- Internal Helper: Map Row(s) to API Shape and Apply Order/Filter ---
   // Consistently applies mapping and shaping before returning from service methods
   function mapAndShape(
-    data: RowType | Partial<RowType> | null
+    data: RowType | Partial<RowType> | null,
+    order?: ReadonlyArray<keyof ApiType>
   ): Partial<ApiType> | null;
   function mapAndShape(
-    data: (RowType | Partial<RowType>)[]
+    data: (RowType | Partial<RowType>)[],
+    order?: ReadonlyArray<keyof ApiType>
   ): Partial<ApiType>[];
   function mapAndShape(
-    data: (RowType | Partial<RowType>) | (RowType | Partial<RowType>)[] | null
+    data: (RowType | Partial<RowType>) | (RowType | Partial<RowType>)[] | null,
+    order: ReadonlyArray<keyof ApiType> | undefined = apiFieldOrder
   ): Partial<ApiType> | Partial<ApiType>[] | null {
     if (!data) return null;
     if (Array.isArray(data)) {
       // Use the mapper function provided in the config (e.g., mapRowToPartialApi)
       const mapped = data.map((row) => mapRowToApi(row));
       // Apply ordering and filtering based on apiFieldOrder config
-      return applyOrderAndFilter(mapped);
+      return applyOrderAndFilter(mapped, order);
     } else {
       // Handle single object
       const mapped = mapRowToApi(data);
-      return applyOrderAndFilter(mapped);
+      return applyOrderAndFilter(mapped, order);
     }
   }
 
@@ -138,58 +280,30 @@ export function createGenericSupabaseService<
   async function internalFetchAndUpsert(
     symbol?: string
   ): Promise<Partial<ApiType> | Partial<ApiType>[]> {
-    // 1. Fetch from FMP API
-    const apiKey = getFmpApiKey();
-    const baseQueryParams = { ...fmpParams, apikey: apiKey };
-    let actualUrl: string;
-    let baseUrl: string;
-    // Use configured base path, handle 'stable' exception
-    if (fmpBasePath === "stable") {
-      baseUrl = `https://financialmodelingprep.com/${fmpBasePath}/${fmpPath}`;
-    } else {
-      baseUrl = `https://financialmodelingprep.com/api/${fmpBasePath}/${fmpPath}`;
-    }
-    // Construct URL using configured symbol location
+    // 1. Fetch from the configured data provider
+    const provider = configuredProvider ?? getDataProvider();
+    let rawJsonData: unknown;
     if (fetchMode === FetchMode.BySymbol) {
       if (!symbol)
         throw new Error(`Fetch Error (${tableName}): Symbol required.`);
-      if (fmpSymbolLocation === "param") {
-        const queryParams = new URLSearchParams({
-          ...baseQueryParams,
-          symbol,
-        }).toString();
-        actualUrl = `${baseUrl}?${queryParams}`;
-      } else {
-        const queryParams = new URLSearchParams(baseQueryParams).toString();
-        actualUrl = `${baseUrl}/${symbol}?${queryParams}`;
-      }
+      console.log(
+        `Fetching from ${
+          provider.name
+        } [${fetchMode}]: ${provider.describeEndpoint(endpoint, symbol)}`
+      );
+      rawJsonData = await provider.fetchBySymbol(endpoint, symbol);
     } else {
-      const queryParams = new URLSearchParams(baseQueryParams).toString();
-      actualUrl = `${baseUrl}?${queryParams}`;
-    }
-    console.log(
-      `Fetching from FMP [${fetchMode}]: ${actualUrl.replace(apiKey, "***")}`
-    );
-    const response = await fetch(actualUrl, { cache: "no-store" });
-    // Handle FMP Response / Errors
-    if (!response.ok) {
-      let eBody = `(Status ${response.status})`;
-      try {
-        eBody = await response.text();
-      } catch {}
-      console.error(
-        `FMP Error Body (${response.status}) for ${actualUrl.replace(
-          apiKey,
-          "***"
-        )}: ${eBody}`
+      console.log(
+        `Fetching from ${
+          provider.name
+        } [${fetchMode}]: ${provider.describeEndpoint(endpoint)}`
       );
-      throw new Error(`FMP request failed (${response.status}).`);
+      rawJsonData = await provider.fetchCollection(endpoint);
     }
-    const rawJsonData: unknown = await response.json();
     // Validate Raw Data
     if (validateRawData && !validateRawData(rawJsonData)) {
       console.error("Raw data validation failed:", rawJsonData);
-      throw new Error(`Invalid data from FMP.`);
+      throw new Error(`Invalid data from provider.`);
     }
     // Standardize to Array
     let rawArray: RawType[];
@@ -198,7 +312,16 @@ export function createGenericSupabaseService<
     } else if (rawJsonData && typeof rawJsonData === "object") {
       rawArray = [rawJsonData as RawType];
     } else {
-      throw new Error(`Unexpected raw data format from FMP.`);
+      throw new Error(`Unexpected raw data format from provider.`);
+    }
+    // Validate each record; bad ones go to quarantine, good ones continue
+    if (rawSchema) {
+      const { valid, rejected } = partitionRecords<RawType>(
+        rawArray,
+        rawSchema
+      );
+      await quarantineRecords(storage, tableName, rejected, symbol);
+      rawArray = valid;
     }
     // Process Array
     if (processRawDataArray) {
@@ -211,7 +334,7 @@ export function createGenericSupabaseService<
     }
     if (rawArray.length === 0) {
       console.warn(
-        `No data after processing from FMP for ${fetchMode}${
+        `No data after processing from provider for ${fetchMode}${
           symbol ? ` for ${symbol}` : ""
         }`
       );
@@ -235,35 +358,30 @@ export function createGenericSupabaseService<
       return [];
     }
 
-    // 3. Perform Supabase Upsert
-    const conflictColumns = uniqueKeyColumns.join(",");
-    const selectString = generateSelectString(apiFieldOrder); // Generate select based on config
-    console.log(
-      `Upserting ${rowsToUpsert.length} rows to ${tableName} on conflict (${conflictColumns}), selecting: ${selectString}`
-    );
-
-    // Apply explicit cast to the Supabase call result to fix type inference issues
-    const { data: upsertedData, error: upsertError } = (await supabase
-      .from(tableName)
-      .upsert(rowsToUpsert, { onConflict: conflictColumns })
-      .select(selectString)) as {
-      data: RowType[] | null;
-      error: PostgrestError | null;
-    }; // Explicit Cast
-
-    if (upsertError) {
-      console.error(
-        `Supabase upsert error on table ${tableName}:`,
-        upsertError
-      );
-      throw new Error(
-        `Database upsert failed: ${upsertError.message} (Code: ${upsertError.code})`
+    // 3. Record versions of rows about to change (throws -> no upsert)
+    if (trackVersions) {
+      await recordVersions(
+        storage,
+        tableName,
+        uniqueKeyColumns as ReadonlyArray<string>,
+        rowsToUpsert as Record<string, unknown>[],
+        symbol,
+        // Without asOfColumn, insert versions date the rows for asOf reads
+        { ignoredFields: unversionedFields, recordInserts: !asOfColumn }
       );
     }
-    if (!upsertedData) {
-      console.warn(`Supabase upsert to ${tableName} returned null data.`);
-      return [];
-    } // Return empty if upsert returned null
+
+    // 4. Perform Upsert
+    console.log(
+      `Upserting ${rowsToUpsert.length} rows to ${tableName} (${
+        storage.name
+      }) on conflict (${uniqueKeyColumns.join(",")})`
+    );
+    const upsertedData = await storage.upsert<RowType>(
+      tableName,
+      rowsToUpsert as Record<string, unknown>[],
+      uniqueKeyColumns as ReadonlyArray<string>
+    );
     if (
       upsertedData.length !== rowsToUpsert.length &&
       fetchMode === FetchMode.FullCollection
@@ -273,10 +391,10 @@ export function createGenericSupabaseService<
       );
     }
 
-    // 4. Map DB rows to API shape and apply final ordering/filtering
+    // 5. Map DB rows to API shape and apply final ordering/filtering
     const finalResult = mapAndShape(upsertedData); // Use helper, handles null/array
 
-    // 5. Return single or array based on fetch mode and config
+    // 6. Return single or array based on fetch mode and config
     if (fetchMode === FetchMode.BySymbol) {
       if (isSingleRecordPerSymbol) {
         return finalResult[0] ?? null; // Returns Partial<ApiType> | null
@@ -303,106 +421,239 @@ export function createGenericSupabaseService<
       return finalResult; // Returns Partial<ApiType>[]
     }
   } // End of internalFetchAndUpsert
+  // --- Coalesced Fetch & Upsert ---
+  // Concurrent cache misses for the same table+symbol share one upstream fetch
+  // and one upsert. Each caller gets its own copy of the shared result.
+  function sharedFetchAndUpsert(
+    symbol?: string
+  ): Promise<Partial<ApiType> | Partial<ApiType>[]> {
+    return singleFlight(singleFlightKey(flightKeyPrefix, symbol), () =>
+      internalFetchAndUpsert(symbol)
+    );
+  }
+
+  async function fetchAndUpsertOnce(
+    symbol?: string
+  ): Promise<Partial<ApiType> | Partial<ApiType>[]> {
+    return structuredClone(await sharedFetchAndUpsert(symbol));
+  }
+
+  // --- Internal Helper: Cache Freshness ---
+  // 'fresh': within cacheTtlMs. 'serve-stale': past the TTL but within the
+  // stale-while-revalidate window. 'refresh': missing or too old, must block.
+  function classifyCacheAge(
+    modifiedAt: string | null | undefined
+  ): "fresh" | "serve-stale" | "refresh" {
+    if (!modifiedAt) return "refresh";
+    const ageMs = Date.now() - new Date(modifiedAt).getTime();
+    if (ageMs < cacheTtlMs) return "fresh";
+    if (staleWhileRevalidate && ageMs < staleWhileRevalidate.maxStaleMs) {
+      return "serve-stale";
+    }
+    return "refresh";
+  }
+
+  // Starts a coalesced refresh without waiting for it. Failures are logged
+  // only; the next request past the TTL simply tries again.
+  function revalidateInBackground(symbol?: string): void {
+    console.log(
+      `Serving stale ${tableName}${
+        symbol ? ` for ${symbol}` : ""
+      }; refreshing in background.`
+    );
+    sharedFetchAndUpsert(symbol).catch((error) => {
+      console.error(
+        `Background refresh failed for ${tableName}${
+          symbol ? ` (${symbol})` : ""
+        }:`,
+        error
+      );
+    });
+  }
+
+  // --- Internal Helper: Point-in-Time Read (ReadOptions.asOf) ---
+  // Rows as publicly known at the end of `asOf`, newest first. With
+  // trackVersions, changes recorded after asOf are undone first, so the
+  // asOfColumn filter also sees the original (pre-restatement) values, and
+  // rows first stored after asOf (insert versions) are left out.
+  async function readAsOf(asOf: string, symbol?: string): Promise<RowType[]> {
+    const dayAfter = new Date(Date.parse(`${asOf}T00:00:00Z`) + 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+    if (!asOfColumn && !trackVersions) {
+      throw new QueryParamError(
+        `asOf is not supported for ${tableName} (no point-in-time data).`
+      );
+    }
+
+    const keyColumns = uniqueKeyColumns as string[];
+    const versions = trackVersions
+      ? await getRecordVersions(
+          tableName,
+          { symbol, recordedSince: dayAfter },
+          storage
+        )
+      : [];
+
+    const where = scoped(...(symbol ? [symbolIs(symbol)] : []));
+    let anyOf: Condition[][] | undefined;
+    if (asOfColumn) {
+      const inRange: Condition = {
+        column: asOfColumn,
+        op: "lt",
+        value: dayAfter,
+      };
+      // Rows whose asOfColumn changed after asOf may have been in range
+      // before: read them by key, the filter below checks the rewound value
+      const movedKeys = versions
+        .filter((version) => asOfColumn in version.changes)
+        .map((version) => version.record_key);
+      if (movedKeys.length === 0) {
+        where.push(inRange);
+      } else {
+        anyOf = [
+          [inRange],
+          ...movedKeys.map((key) =>
+            keyColumns.map(
+              (column): Condition => ({
+                column,
+                op: "eq",
+                value: key[column] as StorageValue,
+              })
+            )
+          ),
+        ];
+      }
+    }
+
+    let rows = await selectAllPages<RowType>({
+      where,
+      anyOf,
+      orderBy: [
+        {
+          column: (sortByFieldForLatest as string) ?? "modified_at",
+          ascending: false,
+        },
+        // Stable pages among rows sharing the sort value
+        ...keyColumns.map((column) => ({ column, ascending: true })),
+      ],
+    });
+
+    if (versions.length > 0) {
+      rows = rewindRows(rows, versions, keyColumns);
+    }
+    if (asOfColumn) {
+      rows = rows.filter((row) => {
+        const value = row[asOfColumn];
+        return typeof value === "string" && value.slice(0, 10) <= asOf;
+      });
+    }
+    return rows;
+  }
+
+  // Point-in-time read of one symbol. In bySymbol mode the current data is
+  // refreshed first, so changes published since the last fetch are recorded
+  // (and correctly excluded) before reading.
+  async function getAsOfWithStatus(
+    symbol: string,
+    asOf: string,
+    fieldOrder: ReadonlyArray<keyof ApiType> | undefined
+  ): Promise<WithCacheStatus<Partial<ApiType>[]>> {
+    const cache: CacheStatus =
+      fetchMode === FetchMode.BySymbol
+        ? (await getOneWithStatus(symbol)).cache
+        : { state: "unchecked", modifiedAt: null };
+    const rows = await readAsOf(asOf, symbol);
+    return { data: mapAndShape(rows, fieldOrder), cache };
+  }
 
   // --- Service Method: Get Single/Latest Record by Symbol ---
-  async function getOne(symbol: string): Promise<Partial<ApiType> | null> {
-    const filter = { symbol: symbol };
-    const selectString = generateSelectString(apiFieldOrder); // Generate select string
+  async function getOneWithStatus(
+    symbol: string,
+    options?: ReadOptions
+  ): Promise<WithCacheStatus<Partial<ApiType> | null>> {
+    const fieldOrder = resolveFieldOrder(options);
+    const columns = selectColumns(fieldOrder); // Generate column projection
+
+    if (options?.refresh) await refresh(symbol);
+
+    if (options?.asOf) {
+      const { data, cache } = await getAsOfWithStatus(
+        symbol,
+        options.asOf,
+        fieldOrder
+      );
+      return { data: data[0] ?? null, cache };
+    }
 
     if (fetchMode === FetchMode.FullCollection) {
       console.log(
         `getOne(${symbol}) reading table (${tableName}, fullCollection mode).`
       );
-      // Add explicit cast
-      const { data: doc, error } = (await supabase
-        .from(tableName)
-        .select(selectString)
-        .match(filter)
-        .maybeSingle()) as {
-        data: RowType | null;
-        error: PostgrestError | null;
+      const doc = await storage.selectFirst<RowType>(tableName, {
+        columns,
+        where: scoped(symbolIs(symbol)),
+      });
+      return {
+        data: mapAndShape(doc, fieldOrder), // mapAndShape handles null
+        cache: { state: "unchecked", modifiedAt: doc?.modified_at ?? null },
       };
-
-      if (error) {
-        console.error(
-          `Supabase error fetching single row [FullCollection]:`,
-          error
-        );
-        throw new Error(`Database fetch failed: ${error.message}`);
-      }
-      return mapAndShape(doc); // mapAndShape handles null
     } else {
       // FetchMode.BySymbol (Caching Logic)
       // Select minimal fields needed for cache check
-      const selectForCacheCheck = [
-        ...new Set(["id", "symbol", "modified_at"]),
-      ].join(",");
       const sortColumn = sortByFieldForLatest ?? "modified_at";
 
-      // Find the most recently modified document matching the symbol for cache check
-      // Add explicit cast
-      const { data: latestDocInDb, error: findError } = (await supabase
-        .from(tableName)
-        .select(selectForCacheCheck)
-        .match(filter)
-        .order(sortColumn as string, { ascending: false })
-        .limit(1)
-        .maybeSingle()) as {
-        data:
-          | (Pick<RowType, "id" | "symbol" | "modified_at"> & Partial<RowType>)
-          | null;
-        error: PostgrestError | null;
-      };
+      // Find the latest document matching the symbol for cache check
+      const latestDocInDb = await storage.selectLatest<
+        Pick<RowType, "id" | "symbol" | "modified_at">
+      >(tableName, symbol, sortColumn as string, {
+        columns: ["id", "symbol", "modified_at"],
+        where: scoped(),
+      });
 
-      if (findError) {
-        console.error(
-          `Supabase error finding latest in ${tableName}:`,
-          findError
-        );
-        throw new Error(`Database find failed: ${findError.message}`);
-      }
+      const freshness = classifyCacheAge(latestDocInDb?.modified_at);
 
-      const isFresh =
-        latestDocInDb &&
-        Date.now() - new Date(latestDocInDb.modified_at).getTime() < cacheTtlMs;
-
-      if (isFresh) {
-        console.log(`Cache hit for ${symbol} (${tableName})`);
+      if (latestDocInDb && freshness !== "refresh") {
+        if (freshness === "fresh") {
+          console.log(`Cache hit for ${symbol} (${tableName})`);
+        } else {
+          revalidateInBackground(symbol);
+        }
         if (!latestDocInDb?.id) {
           console.error(`Cache hit for ${symbol}, but ID missing!`);
           throw new Error(`Cache inconsistency for ${symbol}.`);
         }
 
-        // Fetch the specific fresh document again by ID using the full projection/selectString
-        // Add explicit cast
-        const { data: freshDoc, error: freshFindError } = (await supabase
-          .from(tableName)
-          .select(selectString)
-          .match({ id: latestDocInDb.id })
-          .single()) as { data: RowType | null; error: PostgrestError | null };
-
-        if (freshFindError) {
-          console.error(
-            `Error fetching fresh doc by ID ${latestDocInDb.id} after cache hit ${tableName}:`,
-            freshFindError
-          );
-          throw freshFindError;
-        }
-        return mapAndShape(freshDoc); // mapAndShape handles null
+        // Fetch the specific cached document again by ID using the full projection
+        const freshDoc = await storage.selectFirst<RowType>(tableName, {
+          columns,
+          where: [{ column: "id", op: "eq", value: latestDocInDb.id }],
+        });
+        return {
+          data: mapAndShape(freshDoc, fieldOrder), // mapAndShape handles null
+          cache: {
+            state: freshness === "fresh" ? "fresh" : "stale",
+            modifiedAt: latestDocInDb.modified_at,
+          },
+        };
       } else {
-        // Cache Miss or Stale
+        // Cache Miss or too stale to serve
         console.log(
           `Cache ${
             latestDocInDb ? "stale" : "miss"
           } for ${symbol} (${tableName}). Fetching...`
         );
         try {
-          const result = await internalFetchAndUpsert(symbol); // Already mapped/ordered/filtered
+          const result = await fetchAndUpsertOnce(symbol); // Already mapped/ordered/filtered
           if (Array.isArray(result))
             throw new Error(
               "Internal Error: Expected single result for BySymbol fetch."
             );
-          return result; // Return the single Partial<ApiType> | null result
+          return {
+            // The single Partial<ApiType> | null result, narrowed to the request
+            data: applyOrderAndFilter(result, fieldOrder),
+            cache: { state: "refreshed", modifiedAt: new Date().toISOString() },
+          };
         } catch (fetchError) {
           const errorMessage =
             fetchError instanceof Error
@@ -417,174 +668,497 @@ export function createGenericSupabaseService<
               `Returning stale data for ${symbol} (${tableName}) due to fetch error.`
             );
             // Fetch the specific stale doc by ID with the correct projection
-            // Add explicit cast
-            const { data: staleDoc, error: staleFindError } = (await supabase
-              .from(tableName)
-              .select(selectString)
-              .match({ id: latestDocInDb.id })
-              .single()) as {
-              data: RowType | null;
-              error: PostgrestError | null;
-            };
-            if (staleFindError) {
+            let staleDoc: RowType | null;
+            try {
+              staleDoc = await storage.selectFirst<RowType>(tableName, {
+                columns,
+                where: [{ column: "id", op: "eq", value: latestDocInDb.id }],
+              });
+            } catch (staleFindError) {
               console.error(
                 `Error fetching stale doc by ID ${latestDocInDb.id} for ${tableName}:`,
                 staleFindError
               );
-              return null;
+              return {
+                data: null,
+                cache: { state: "fallback", modifiedAt: null },
+              };
             }
-            return mapAndShape(staleDoc); // mapAndShape handles null
+            return {
+              data: mapAndShape(staleDoc, fieldOrder), // mapAndShape handles null
+              cache: {
+                state: "fallback",
+                modifiedAt: latestDocInDb.modified_at,
+              },
+            };
           }
           // If fetch failed and no stale data, return null
-          return null;
+          return { data: null, cache: { state: "fallback", modifiedAt: null } };
         }
       }
     }
-  } // End of getOne
+  } // End of getOneWithStatus
 
   // --- Service Method: Get All Records for a Specific Symbol (History) ---
-  async function getAllForSymbol(symbol: string): Promise<Partial<ApiType>[]> {
-    const filter = { symbol: symbol };
-    const selectString = generateSelectString(apiFieldOrder);
+  async function getAllForSymbolWithStatus(
+    symbol: string,
+    options?: ReadOptions
+  ): Promise<WithCacheStatus<Partial<ApiType>[]>> {
+    // Refresh once here; the reads below then find fresh rows
+    if (options?.refresh) {
+      await refresh(symbol);
+      options = { ...options, refresh: false };
+    }
+    const fieldOrder = resolveFieldOrder(options);
+    const columns = selectColumns(fieldOrder);
+
+    if (options?.asOf) {
+      return getAsOfWithStatus(symbol, options.asOf, fieldOrder);
+    }
 
     if (fetchMode === FetchMode.FullCollection) {
       console.warn(
         `getAllForSymbol called in fullCollection mode (${tableName}).`
       );
-      // Add explicit cast
-      const { data: doc, error } = (await supabase
-        .from(tableName)
-        .select(selectString)
-        .match(filter)
-        .maybeSingle()) as {
-        data: RowType | null;
-        error: PostgrestError | null;
-      };
-      if (error) {
+      let doc: RowType | null;
+      try {
+        doc = await storage.selectFirst<RowType>(tableName, {
+          columns,
+          where: scoped(symbolIs(symbol)),
+        });
+      } catch (error) {
         console.error(error);
-        return [];
+        return { data: [], cache: { state: "unchecked", modifiedAt: null } };
       }
-      const shapedDoc = mapAndShape(doc);
-      return shapedDoc ? [shapedDoc] : []; // Return single item array or empty
+      const shapedDoc = mapAndShape(doc, fieldOrder);
+      return {
+        data: shapedDoc ? [shapedDoc] : [], // Return single item array or empty
+        cache: { state: "unchecked", modifiedAt: doc?.modified_at ?? null },
+      };
     } else {
       // FetchMode.BySymbol
       if (isSingleRecordPerSymbol) {
-        const singleApiRecord = await getOne(symbol); // getOne already applies shaping
-        return singleApiRecord ? [singleApiRecord] : [];
+        const { data: singleApiRecord, cache } = await getOneWithStatus(
+          symbol,
+          options
+        ); // getOne already applies shaping
+        return { data: singleApiRecord ? [singleApiRecord] : [], cache };
       } else {
         // Fetch history
-        await getOne(symbol); // Ensure freshness of latest item
+        const { cache } = await getOneWithStatus(symbol); // Ensure freshness of latest item
         const sortColumn = sortByFieldForLatest ?? "modified_at";
         if (!sortByFieldForLatest)
           console.warn(
             `getAllForSymbol (${tableName}): No sortByFieldForLatest specified.`
           );
 
-        // Add explicit cast
-        const { data: docs, error } = (await supabase
-          .from(tableName)
-          .select(selectString)
-          .match(filter)
-          .order(sortColumn as string, { ascending: false })) as {
-          data: RowType[] | null;
-          error: PostgrestError | null;
-        };
-
-        if (error) {
-          console.error(error);
-          throw error;
-        } // Rethrow DB errors
-        // Map and shape the array, handle null case from cast
-        return mapAndShape(docs ?? []);
+        const docs = await storage.select<RowType>(tableName, {
+          columns,
+          where: scoped(symbolIs(symbol)),
+          orderBy: [{ column: sortColumn as string, ascending: false }],
+        });
+        return { data: mapAndShape(docs, fieldOrder), cache };
       }
     }
-  } // End of getAllForSymbol
+  } // End of getAllForSymbolWithStatus
+
+  // --- Internal Helper: Collection Cache Check (FullCollection mode) ---
+  // Finds the newest modified_at in the (scoped) table and classifies it
+  async function checkCollectionCache() {
+    const modifiedAt = await storage.latestTimestamp(tableName, scoped());
+    const latestDoc = modifiedAt ? { modified_at: modifiedAt } : null;
+    return { latestDoc, freshness: classifyCacheAge(modifiedAt) };
+  }
+
+  // --- Service Method: Ensure Collection Freshness (FullCollection mode) ---
+  /**
+   * Refreshes the collection following the same rules as getAll, without
+   * reading it back: for callers that read a slice of the table themselves.
+   * In bySymbol mode there is no collection to refresh ('unchecked').
+   */
+  async function ensureCollectionFresh(): Promise<CacheStatus> {
+    if (fetchMode !== FetchMode.FullCollection) {
+      return { state: "unchecked", modifiedAt: null };
+    }
+    const { latestDoc, freshness } = await checkCollectionCache();
+    if (latestDoc && freshness !== "refresh") {
+      if (freshness === "serve-stale") revalidateInBackground();
+      return {
+        state: freshness === "fresh" ? "fresh" : "stale",
+        modifiedAt: latestDoc.modified_at,
+      };
+    }
+    console.log(
+      `Collection cache ${
+        latestDoc ? "stale" : "miss"
+      } for ${tableName}. Fetching...`
+    );
+    try {
+      await sharedFetchAndUpsert();
+      return { state: "refreshed", modifiedAt: new Date().toISOString() };
+    } catch (fetchError) {
+      console.error(
+        `Error fetching full collection ${tableName}: ${fetchError}`
+      );
+      return { state: "fallback", modifiedAt: latestDoc?.modified_at ?? null };
+    }
+  }
 
   // --- Service Method: Get All Records (List View / Full Collection Refresh Trigger) ---
-  async function getAll(): Promise<Partial<ApiType>[]> {
+  async function getAllWithStatus(
+    options?: ReadOptions
+  ): Promise<WithCacheStatus<Partial<ApiType>[]>> {
+    const fieldOrder = resolveFieldOrder(options);
+    // bySymbol list views have no symbol to refresh
+    if (options?.refresh && fetchMode === FetchMode.FullCollection) {
+      await refresh();
+    }
+    if (options?.asOf) {
+      // Stored rows only; no per-symbol refresh for list views
+      return {
+        data: mapAndShape(await readAsOf(options.asOf), fieldOrder),
+        cache: { state: "unchecked", modifiedAt: null },
+      };
+    }
     if (fetchMode === FetchMode.FullCollection) {
-      // Add explicit cast for cache check
-      const { data: latestDoc, error: latestError } = (await supabase
-        .from(tableName)
-        .select("modified_at")
-        .order("modified_at", { ascending: false })
-        .limit(1)
-        .maybeSingle()) as {
-        data: { modified_at: string } | null;
-        error: PostgrestError | null;
+      const { latestDoc, freshness } = await checkCollectionCache();
+
+      // Reads the stored collection (used for fresh, stale and fallback cases)
+      const readStoredCollection = async (): Promise<Partial<ApiType>[]> => {
+        const docs = await storage.select<RowType>(tableName, {
+          columns: selectColumns(fieldOrder),
+          where: scoped(),
+        });
+        return mapAndShape(docs, fieldOrder);
       };
 
-      if (latestError && latestError.code !== "PGRST116") {
-        console.error(
-          `Error fetching latest modified_at from ${tableName}:`,
-          latestError
-        );
-        throw latestError;
+      if (latestDoc && freshness !== "refresh") {
+        if (freshness === "fresh") {
+          console.log(`Collection cache hit for ${tableName}.`);
+        } else {
+          revalidateInBackground();
+        }
+        return {
+          data: await readStoredCollection(),
+          cache: {
+            state: freshness === "fresh" ? "fresh" : "stale",
+            modifiedAt: latestDoc.modified_at,
+          },
+        };
       }
-      const isFresh =
-        latestDoc &&
-        Date.now() - new Date(latestDoc.modified_at).getTime() < cacheTtlMs;
 
-      if (!isFresh) {
-        console.log(
-          `Collection cache ${
-            latestDoc ? "stale" : "miss"
-          } for ${tableName}. Fetching...`
+      console.log(
+        `Collection cache ${
+          latestDoc ? "stale" : "miss"
+        } for ${tableName}. Fetching...`
+      );
+      try {
+        const freshData = await fetchAndUpsertOnce(); // Already ordered/filtered/mapped
+        if (!Array.isArray(freshData))
+          throw new Error("Expected array result for FullCollection fetch.");
+        return {
+          data: applyOrderAndFilter(freshData, fieldOrder),
+          cache: { state: "refreshed", modifiedAt: new Date().toISOString() },
+        };
+      } catch (fetchError) {
+        console.error(
+          `Error fetching full collection ${tableName}: ${fetchError}`
         );
-        try {
-          const freshData = await internalFetchAndUpsert(); // Already ordered/filtered/mapped
-          if (!Array.isArray(freshData))
-            throw new Error("Expected array result for FullCollection fetch.");
-          return freshData;
-        } catch (fetchError) {
-          console.error(
-            `Error fetching full collection ${tableName}: ${fetchError}`
-          );
-          return [];
-        }
-      } else {
-        console.log(`Collection cache hit for ${tableName}.`);
-        const selectString = generateSelectString(apiFieldOrder);
-        // Add explicit cast
-        const { data: docs, error } = (await supabase
-          .from(tableName)
-          .select(selectString)) as {
-          data: RowType[] | null;
-          error: PostgrestError | null;
+        // Fall back to whatever is stored, however old
+        return {
+          data: latestDoc ? await readStoredCollection() : [],
+          cache: {
+            state: "fallback",
+            modifiedAt: latestDoc?.modified_at ?? null,
+          },
         };
-        if (error) {
-          console.error(error);
-          throw error;
-        }
-        return mapAndShape(docs ?? []); // Handle null from cast
       }
     } else {
       // FetchMode.BySymbol
       console.log(
         `getAll reading list for ${tableName} (bySymbol mode). Using apiFieldOrder for projection.`
       );
-      const selectString = generateSelectString(apiFieldOrder);
-
-      // Add explicit cast
-      const { data: docs, error } = (await supabase
-        .from(tableName)
-        .select(selectString)
-        .limit(1000)
-        .order("symbol", { ascending: true })) as {
-        data: RowType[] | null;
-        error: PostgrestError | null;
+      // Paged: e.g. TTM lists need every quarter of every symbol
+      const docs = await selectAllPages<Partial<RowType>>({
+        columns: selectColumns(fieldOrder),
+        where: scoped(),
+        orderBy: [
+          { column: "symbol", ascending: true },
+          { column: "id", ascending: true },
+        ],
+      });
+
+      // Map rows and apply final ordering/filtering. Input might be partial if only some columns were read
+      return {
+        data: mapAndShape(docs, fieldOrder),
+        cache: { state: "unchecked", modifiedAt: null },
       };
+    }
+  } // End of getAllWithStatus
 
-      if (error) {
-        console.error(error);
-        throw error;
+  // --- Service Method: Get the Latest Record of Several Symbols ---
+  /**
+   * Batch variant of getOneWithStatus. The stored rows of all symbols are
+   * read in one query; only symbols that are missing or past the TTL are
+   * fetched from the provider (concurrently, coalesced per symbol).
+   * A symbol whose fetch fails falls back to its stored row, if any, and
+   * gets an error entry otherwise. One failing symbol never fails the batch.
+   * @returns Entries keyed by the (deduplicated) symbols, in request order.
+   */
+  async function getManyWithStatus(
+    symbols: ReadonlyArray<string>,
+    options?: ReadOptions
+  ): Promise<BatchResult<WithCacheStatus<Partial<ApiType>>>> {
+    if (options?.asOf) {
+      throw new QueryParamError("asOf is not supported for batch reads.");
+    }
+    const fieldOrder = resolveFieldOrder(options);
+    const requested = [...new Set(symbols)];
+    const results: BatchResult<WithCacheStatus<Partial<ApiType>>> = {};
+    if (requested.length === 0) return results;
+
+    if (options?.refresh && fetchMode === FetchMode.FullCollection) {
+      await refresh();
+    }
+    const collectionCache: CacheStatus | null =
+      fetchMode === FetchMode.FullCollection
+        ? await ensureCollectionFresh()
+        : null;
+
+    // One read for every symbol; newest first, so the first row seen per
+    // symbol is its latest one
+    const rows = await storage.select<RowType>(tableName, {
+      columns: selectColumns(fieldOrder),
+      where: scoped({ column: "symbol", op: "in", value: requested }),
+      orderBy: [
+        {
+          column: (sortByFieldForLatest as string) ?? "modified_at",
+          ascending: false,
+        },
+      ],
+    });
+    const latestBySymbol = new Map<string, RowType>();
+    for (const row of rows) {
+      if (!latestBySymbol.has(row.symbol)) latestBySymbol.set(row.symbol, row);
+    }
+
+    const toFetch: string[] = [];
+    for (const symbol of requested) {
+      const row = latestBySymbol.get(symbol);
+      if (collectionCache) {
+        // fullCollection: the collection was refreshed as a whole above
+        results[symbol] = row
+          ? {
+              data: applyOrderAndFilter(mapRowToApi(row), fieldOrder),
+              cache: collectionCache,
+            }
+          : { error: `No data found for symbol ${symbol}.` };
+        continue;
       }
-      // Map rows and apply final ordering/filtering. Input might be partial if selectString != '*'
-      return mapAndShape((docs as Partial<RowType>[]) ?? []); // Handle null, cast input for mapAndShape
+      const freshness = options?.refresh
+        ? "refresh"
+        : classifyCacheAge(row?.modified_at);
+      if (row && freshness !== "refresh") {
+        if (freshness === "serve-stale") revalidateInBackground(symbol);
+        results[symbol] = {
+          data: applyOrderAndFilter(mapRowToApi(row), fieldOrder),
+          cache: {
+            state: freshness === "fresh" ? "fresh" : "stale",
+            modifiedAt: row.modified_at,
+          },
+        };
+      } else {
+        toFetch.push(symbol);
+      }
+    }
+
+    if (toFetch.length > 0) {
+      console.log(
+        `Batch read of ${
+          requested.length
+        } symbol(s) from ${tableName}: fetching ${
+          toFetch.length
+        } missing/stale (${toFetch.join(",")}).`
+      );
+    }
+    await Promise.all(
+      toFetch.map(async (symbol) => {
+        const storedRow = latestBySymbol.get(symbol);
+        try {
+          const result = await fetchAndUpsertOnce(symbol);
+          if (Array.isArray(result))
+            throw new Error(
+              "Internal Error: Expected single result for BySymbol fetch."
+            );
+          if (!result) throw new Error(`No data found for symbol ${symbol}.`);
+          results[symbol] = {
+            data: applyOrderAndFilter(result, fieldOrder),
+            cache: { state: "refreshed", modifiedAt: new Date().toISOString() },
+          };
+        } catch (fetchError) {
+          const errorMessage =
+            fetchError instanceof Error
+              ? fetchError.message
+              : String(fetchError);
+          console.error(
+            `Error fetching ${symbol} for ${tableName}: ${errorMessage}`
+          );
+          results[symbol] = storedRow
+            ? {
+                data: applyOrderAndFilter(mapRowToApi(storedRow), fieldOrder),
+                cache: { state: "fallback", modifiedAt: storedRow.modified_at },
+              }
+            : { error: errorMessage };
+        }
+      })
+    );
+
+    // Fetches complete in any order; answer in request order
+    return Object.fromEntries(
+      requested.map((symbol) => [symbol, results[symbol]])
+    );
+  } // End of getManyWithStatus
+
+  // --- Service Method: Get One Page of Records ---
+  /**
+   * Returns one page of the (scoped) table, filtered and sorted as requested.
+   * Filter and sort fields must be listed in apiFieldOrder. In fullCollection
+   * mode the collection is refreshed first, following the same rules as getAll.
+   * @throws {QueryParamError} For unknown fields or an invalid cursor.
+   */
+  async function getPage(
+    query: CollectionQuery,
+    options?: ReadOptions
+  ): Promise<WithCacheStatus<Page<Partial<ApiType>>>> {
+    if (!apiFieldOrder || apiFieldOrder.length === 0) {
+      throw new Error(
+        `Config Error (${tableName}): getPage requires apiFieldOrder.`
+      );
     }
-  } // End of getAll
+    validateCollectionQuery(query, apiFieldOrder as ReadonlyArray<string>);
+    if (options?.asOf) {
+      throw new QueryParamError("asOf is not supported for paged reads.");
+    }
+    const fieldOrder = resolveFieldOrder(options);
+
+    const cache: CacheStatus =
+      fetchMode === FetchMode.FullCollection
+        ? await ensureCollectionFresh()
+        : { state: "unchecked", modifiedAt: null };
+
+    // The sort column is selected even when not requested; the cursor needs it
+    const sortField = (query.sort ?? DEFAULT_PAGE_SORT).field as keyof ApiType;
+    const select = toCollectionSelect(query, DEFAULT_PAGE_SORT);
+    const rows = await storage.select<RowType>(tableName, {
+      ...select,
+      columns: selectColumns(
+        fieldOrder && [...new Set([...fieldOrder, sortField])]
+      ),
+      where: scoped(...(select.where ?? [])),
+    });
+    const page = slicePage(rows, query, DEFAULT_PAGE_SORT);
+    return {
+      data: {
+        data: mapAndShape(page.rows, fieldOrder),
+        nextCursor: page.nextCursor,
+      },
+      cache,
+    };
+  } // End of getPage
+
+  // --- Service Method: Version History (trackVersions) ---
+  /**
+   * Version records of this service's rows for a symbol, newest first.
+   * @param keyMatch Unique-key values to match, e.g. { date: '2023-09-30' }.
+   *   Limited to the record scope unless the scope column is given.
+   */
+  async function getVersions(
+    symbol: string,
+    keyMatch: Record<string, string> = {}
+  ): Promise<RecordVersion[]> {
+    if (!trackVersions) {
+      throw new Error(
+        `Config Error (${tableName}): getVersions requires trackVersions.`
+      );
+    }
+    const match: Record<string, string | ReadonlyArray<string>> = {
+      ...keyMatch,
+    };
+    if (recordScope && !(recordScope.column in match)) {
+      match[recordScope.column] = recordScope.values;
+    }
+    return getRecordVersions(tableName, { symbol, keyMatch: match }, storage);
+  }
+
+  // --- Service Method: Forced Refresh ---
+  /**
+   * Fetches from the provider and upserts regardless of cacheTtlMs, e.g. to
+   * replace a bad cached response. Joins a refresh already in flight.
+   * @param symbol Required in bySymbol mode, ignored in fullCollection mode.
+   */
+  async function refresh(symbol?: string): Promise<void> {
+    console.log(
+      `Forced refresh of ${tableName}${symbol ? ` for ${symbol}` : ""}.`
+    );
+    await sharedFetchAndUpsert(
+      fetchMode === FetchMode.BySymbol ? symbol : undefined
+    );
+  }
+
+  // --- Service Method: Purge ---
+  /**
+   * Deletes stored rows within the record scope; the next read refetches.
+   * Beware of cascades: other tables reference profiles(symbol).
+   * @param symbol Limit to one symbol. Omitted = every row of the scope.
+   * @returns Number of rows deleted.
+   */
+  async function purge(symbol?: string): Promise<number> {
+    const count = await storage.delete(
+      tableName,
+      scoped(...(symbol ? [symbolIs(symbol)] : []))
+    );
+    console.log(
+      `Purged ${count} row(s) from ${tableName}${
+        symbol ? ` for ${symbol}` : ""
+      }.`
+    );
+    return count;
+  }
+
+  // --- Data-only Variants ---
+  // Most callers only need the rows; the *WithStatus variants also report
+  // how the rows relate to the cache (e.g. for staleness indicators).
+  async function getOne(
+    symbol: string,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType> | null> {
+    return (await getOneWithStatus(symbol, options)).data;
+  }
+
+  async function getAllForSymbol(
+    symbol: string,
+    options?: ReadOptions
+  ): Promise<Partial<ApiType>[]> {
+    return (await getAllForSymbolWithStatus(symbol, options)).data;
+  }
+
+  async function getAll(options?: ReadOptions): Promise<Partial<ApiType>[]> {
+    return (await getAllWithStatus(options)).data;
+  }
 
   // --- Return Public Service API ---
-  // Exclude getCollection as it's MongoDB specific
-  return { getAll, getOne, getAllForSymbol };
+  return {
+    getAll,
+    getOne,
+    getAllForSymbol,
+    getAllWithStatus,
+    getOneWithStatus,
+    getAllForSymbolWithStatus,
+    getManyWithStatus,
+    getPage,
+    getVersions,
+    ensureCollectionFresh,
+    refresh,
+    purge,
+  };
 } // End of createGenericSupabaseService
@@ -6,3 +6,8 @@
 export * from "./types"; // Re-exports BaseDoc, FetchMode, GenericServiceConfig etc.
 export * from "./genericService"; // Re-exports createGenericService
 export * from "./mappers";
+export * from "./singleFlight";
+export * from "./cacheStatus";
+export * from "./query";
+export * from "./versioning";
+export * from "./quarantine";
@@ -0,0 +1,104 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/supabase/quarantine.ts
+ * Quarantine for raw provider records that fail their dataset's schema.
+ * Rejected records are stored with the failure reason and the untouched
+ * payload, so they can be inspected and replayed; valid records of the
+ * same fetch are ingested as usual.
+ * ---------------------------------------------------------------------*/
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
+
+/** Table holding quarantined records of all datasets. */
+export const QUARANTINE_TABLE = "quarantined_records";
+
+/** One quarantined record (API shape, snake_case like the table). */
+export interface QuarantinedRecord {
+  id: string;
+  table_name: string;
+  symbol: string | null;
+  reason: string;
+  payload: unknown;
+  quarantined_at: string;
+}
+
+/** A raw record rejected by schema validation. */
+export interface RejectedRecord {
+  record: unknown;
+  errors: string[];
+}
+
+// Symbol of a raw record, falling back to the symbol that was fetched
+function recordSymbol(record: unknown, fallback?: string): string | null {
+  if (record && typeof record === "object" && "symbol" in record) {
+    const { symbol } = record as { symbol: unknown };
+    if (typeof symbol === "string" && symbol) return symbol;
+  }
+  return fallback ?? null;
+}
+
+/**
+ * Stores rejected records. Failures are logged only: quarantine is a
+ * diagnostic aid and must not block ingestion of the valid records.
+ */
+export async function quarantineRecords(
+  storage: StorageAdapter,
+  tableName: string,
+  rejected: ReadonlyArray<RejectedRecord>,
+  symbol?: string
+): Promise<void> {
+  if (rejected.length === 0) return;
+  console.warn(
+    `[Quarantine] ${rejected.length} record(s) for ${tableName}${
+      symbol ? ` (${symbol})` : ""
+    } failed validation: ${rejected[0].errors.join("; ")}${
+      rejected.length > 1 ? " ..." : ""
+    }`
+  );
+
+  const now = new Date().toISOString();
+  try {
+    await storage.insert(
+      QUARANTINE_TABLE,
+      rejected.map(({ record, errors }) => ({
+        table_name: tableName,
+        symbol: recordSymbol(record, symbol),
+        reason: errors.join("; "),
+        payload: record ?? null,
+        quarantined_at: now,
+      }))
+    );
+  } catch (error) {
+    console.error(
+      `[Quarantine] Could not store rejected records for ${tableName}:`,
+      error
+    );
+  }
+}
+
+export interface QuarantineQuery {
+  tableName?: string;
+  symbol?: string;
+  limit: number;
+}
+
+/** Lists quarantined records, newest first. */
+export async function getQuarantinedRecords(
+  query: QuarantineQuery,
+  storage: StorageAdapter = getStorage()
+): Promise<QuarantinedRecord[]> {
+  const where: Condition[] = [];
+  if (query.tableName) {
+    where.push({ column: "table_name", op: "eq", value: query.tableName });
+  }
+  if (query.symbol) {
+    where.push({ column: "symbol", op: "eq", value: query.symbol });
+  }
+  return storage.select<QuarantinedRecord>(QUARANTINE_TABLE, {
+    where,
+    orderBy: [{ column: "quarantined_at", ascending: false }],
+    limit: query.limit,
+  });
+}
@@ -0,0 +1,489 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/supabase/query.ts
+ * Cursor pagination, column filters and sorting for collection endpoints.
+ * - parseCollectionQuery: URL query params -> CollectionQuery (syntax only).
+ * - validateCollectionQuery: checks fields against a config's apiFieldOrder.
+ * - parseFieldsParam / resolveFields: `fields` projection for any read.
+ * - parseAsOfParam: `asOf` date for point-in-time reads.
+ * - parseDateRangeParams: `from` / `to` window of date-range reads.
+ * - parseCurrencyParam: `currency` to convert amounts to.
+ * - toCollectionSelect / slicePage: translate a query into a storage select
+ *   and cut the result into a page plus the cursor for the next one.
+ * Pagination is keyset-based: the cursor holds the sort value and id of the
+ * last row served, so pages stay stable while rows are inserted.
+ * ---------------------------------------------------------------------*/
+import type { Condition, SelectQuery, SortOrder } from "@/lib/common/storage";
+import { isValidSymbol, normalizeSymbol } from "@/lib/common/symbols";
+
+/** Thrown for invalid query parameters. API routes map it to HTTP 400. */
+export class QueryParamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryParamError";
+  }
+}
+
+export const DEFAULT_PAGE_LIMIT = 100;
+// A page reads one extra row (see toCollectionSelect), which must still fit
+// under the storage row cap (PostgREST max-rows = 1000)
+export const MAX_PAGE_LIMIT = 999;
+/** Most symbols a batch read (`?symbols=`) may request at once. */
+export const MAX_BATCH_SYMBOLS = 100;
+
+export type FilterOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "ilike";
+
+const FILTER_OPERATORS: ReadonlyArray<FilterOperator> = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "ilike",
+];
+
+export type FilterValue = string | number | boolean | null;
+
+/** One column filter, e.g. `marketCap.gte=1e10` -> market_cap gte 1e10. */
+export interface CollectionFilter {
+  field: string;
+  operator: FilterOperator;
+  value: FilterValue | FilterValue[]; // Array only for 'in'
+}
+
+export interface CollectionSort {
+  field: string;
+  ascending: boolean;
+}
+
+export interface CollectionQuery {
+  limit: number;
+  cursor: string | null;
+  filters: CollectionFilter[];
+  sort: CollectionSort | null; // null = endpoint default
+}
+
+/** One page of a collection. nextCursor is null on the last page. */
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+// Query params that are never treated as filters
+const RESERVED_PARAMS = [
+  "limit",
+  "cursor",
+  "sort",
+  "fields",
+  "asOf",
+  "symbols",
+  "currency",
+];
+
+/** Converts camelCase field names to the snake_case column names. */
+export function toColumnName(field: string): string {
+  return field.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+}
+
+// "null", booleans and numbers (incl. 1e10) are typed, anything else is text
+function parseScalar(raw: string): FilterValue {
+  if (raw === "null") return null;
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  const num = Number(raw);
+  if (raw.trim() !== "" && Number.isFinite(num)) return num;
+  return raw;
+}
+
+/**
+ * Parses paging, sort and filter query params.
+ * - `limit`: page size, 1..MAX_PAGE_LIMIT (default DEFAULT_PAGE_LIMIT).
+ * - `cursor`: opaque value from the previous page's nextCursor.
+ * - `sort`: a field name, prefixed with '-' for descending.
+ * - `fields`: not a filter; see parseFieldsParam.
+ * - anything else: `field=value` or `field.op=value` filters, where op is
+ *   one of eq, neq, gt, gte, lt, lte, in (comma separated), ilike (* wildcard).
+ * Field names may be snake_case or camelCase. They are checked against the
+ * dataset's fields later, by validateCollectionQuery.
+ *
+ * @param ignoreParams Params the endpoint handles itself (e.g. 'period').
+ * @throws {QueryParamError} On malformed values.
+ */
+export function parseCollectionQuery(
+  searchParams: URLSearchParams,
+  ignoreParams: ReadonlyArray<string> = []
+): CollectionQuery {
+  const limitParam = searchParams.get("limit");
+  let limit = DEFAULT_PAGE_LIMIT;
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      throw new QueryParamError(
+        `Invalid limit '${limitParam}'. Expected an integer between 1 and ${MAX_PAGE_LIMIT}.`
+      );
+    }
+  }
+
+  let sort: CollectionSort | null = null;
+  const sortParam = searchParams.get("sort");
+  if (sortParam) {
+    if (sortParam.includes(",")) {
+      throw new QueryParamError(
+        `Invalid sort '${sortParam}'. Only one sort field is supported.`
+      );
+    }
+    const descending = sortParam.startsWith("-");
+    sort = {
+      field: toColumnName(descending ? sortParam.slice(1) : sortParam),
+      ascending: !descending,
+    };
+  }
+
+  const filters: CollectionFilter[] = [];
+  for (const [key, raw] of searchParams.entries()) {
+    if (RESERVED_PARAMS.includes(key) || ignoreParams.includes(key)) continue;
+
+    const dot = key.lastIndexOf(".");
+    const suffix = dot > 0 ? key.slice(dot + 1) : "";
+    const operator = FILTER_OPERATORS.find((op) => op === suffix);
+    if (dot > 0 && !operator) {
+      throw new QueryParamError(
+        `Unknown filter operator '${suffix}' in '${key}'. Expected one of: ${FILTER_OPERATORS.join(
+          ", "
+        )}.`
+      );
+    }
+    const field = toColumnName(operator ? key.slice(0, dot) : key);
+
+    if (operator === "in") {
+      filters.push({ field, operator, value: raw.split(",").map(parseScalar) });
+    } else if (operator === "ilike") {
+      filters.push({ field, operator, value: raw.replace(/\*/g, "%") });
+    } else {
+      filters.push({
+        field,
+        operator: operator ?? "eq",
+        value: parseScalar(raw),
+      });
+    }
+  }
+
+  return { limit, cursor: searchParams.get("cursor"), filters, sort };
+}
+
+/**
+ * Checks every filter and sort field against the allowed fields (normally
+ * the config's apiFieldOrder).
+ * @throws {QueryParamError} Naming the unknown field and the allowed ones.
+ */
+export function validateCollectionQuery(
+  query: CollectionQuery,
+  allowedFields: ReadonlyArray<string>
+): void {
+  const check = (field: string, usage: "filter" | "sort") => {
+    if (!allowedFields.includes(field)) {
+      throw new QueryParamError(
+        `Unknown ${usage} field '${field}'. Allowed fields: ${allowedFields.join(
+          ", "
+        )}.`
+      );
+    }
+  };
+  query.filters.forEach((f) => check(f.field, "filter"));
+  if (query.sort) check(query.sort.field, "sort");
+}
+
+/**
+ * Parses the `fields` query param (comma separated, snake_case or camelCase).
+ * Returns undefined when the param is absent, so services return every field.
+ * Fields are checked against the dataset later, by resolveFields.
+ * @throws {QueryParamError} When the param is present but lists no fields.
+ */
+export function parseFieldsParam(
+  searchParams: URLSearchParams
+): string[] | undefined {
+  const fieldsParam = searchParams.get("fields");
+  if (fieldsParam === null) return undefined;
+  const fields = fieldsParam
+    .split(",")
+    .map((f) => f.trim())
+    .filter((f) => f !== "")
+    .map(toColumnName);
+  if (fields.length === 0) {
+    throw new QueryParamError(
+      `Invalid fields '${fieldsParam}'. Expected a comma separated list of field names.`
+    );
+  }
+  return [...new Set(fields)];
+}
+
+/**
+ * Checks requested fields against the allowed fields (normally the config's
+ * apiFieldOrder) and returns them in the requested order.
+ * @throws {QueryParamError} Naming the unknown field and the allowed ones.
+ */
+export function resolveFields(
+  requested: ReadonlyArray<string>,
+  allowedFields: ReadonlyArray<string>
+): string[] {
+  for (const field of requested) {
+    if (!allowedFields.includes(field)) {
+      throw new QueryParamError(
+        `Unknown field '${field}'. Allowed fields: ${allowedFields.join(", ")}.`
+      );
+    }
+  }
+  return [...requested];
+}
+
+// A YYYY-MM-DD query param, undefined when absent
+function parseDateParam(
+  searchParams: URLSearchParams,
+  name: string
+): string | undefined {
+  const value = searchParams.get(name);
+  if (value === null) return undefined;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    isNaN(parsed.getTime()) ||
+    parsed.toISOString().slice(0, 10) !== value
+  ) {
+    throw new QueryParamError(
+      `Invalid ${name} '${value}'. Expected YYYY-MM-DD.`
+    );
+  }
+  return value;
+}
+
+/**
+ * Parses the `asOf` query param (YYYY-MM-DD). Returns undefined when absent.
+ * @throws {QueryParamError} On anything but a valid calendar date.
+ */
+export function parseAsOfParam(
+  searchParams: URLSearchParams
+): string | undefined {
+  return parseDateParam(searchParams, "asOf");
+}
+
+/** A date window; both ends inclusive, either may be open. */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Parses the `from` / `to` query params (YYYY-MM-DD, both inclusive) of
+ * date-range reads. Either may be absent.
+ * @throws {QueryParamError} On a malformed date or `from` after `to`.
+ */
+export function parseDateRangeParams(searchParams: URLSearchParams): DateRange {
+  const from = parseDateParam(searchParams, "from");
+  const to = parseDateParam(searchParams, "to");
+  if (from && to && from > to) {
+    throw new QueryParamError(`from (${from}) is after to (${to}).`);
+  }
+  return { from, to };
+}
+
+/**
+ * Parses the `currency` query param: an ISO 4217 code such as USD,
+ * upper-cased. Returns undefined when absent.
+ * @throws {QueryParamError} On anything but three letters.
+ */
+export function parseCurrencyParam(
+  searchParams: URLSearchParams
+): string | undefined {
+  const currency = searchParams.get("currency");
+  if (currency === null) return undefined;
+  if (!/^[A-Za-z]{3}$/.test(currency)) {
+    throw new QueryParamError(
+      `Invalid currency '${currency}'. Expected a three-letter ISO 4217 code, e.g. USD.`
+    );
+  }
+  return currency.toUpperCase();
+}
+
+/**
+ * Parses the `symbols` query param of batch reads (comma separated,
+ * e.g. `AAPL,MSFT,NVDA`). Symbols are normalized (see normalizeSymbol) and
+ * deduplicated, in request order; aliases are resolved by the caller.
+ * Returns undefined when the param is absent.
+ * @throws {QueryParamError} On an empty list, a malformed symbol or more
+ *   than MAX_BATCH_SYMBOLS symbols.
+ */
+export function parseSymbolsParam(
+  searchParams: URLSearchParams
+): string[] | undefined {
+  const symbolsParam = searchParams.get("symbols");
+  if (symbolsParam === null) return undefined;
+  const symbols = [
+    ...new Set(
+      symbolsParam
+        .split(",")
+        .map(normalizeSymbol)
+        .filter((s) => s !== "")
+    ),
+  ];
+  if (symbols.length === 0) {
+    throw new QueryParamError(
+      `Invalid symbols '${symbolsParam}'. Expected a comma separated list of symbols.`
+    );
+  }
+  const invalid = symbols.find((s) => !isValidSymbol(s));
+  if (invalid) {
+    throw new QueryParamError(`Invalid symbol '${invalid}'.`);
+  }
+  if (symbols.length > MAX_BATCH_SYMBOLS) {
+    throw new QueryParamError(
+      `Too many symbols (${symbols.length}). At most ${MAX_BATCH_SYMBOLS} per request.`
+    );
+  }
+  return symbols;
+}
+
+// --- Cursor Encoding ---
+
+interface CursorPayload {
+  f: string; // Sort the cursor belongs to, e.g. '-market_cap'
+  v: FilterValue; // Sort value of the last row served
+  id: string; // Id of the last row served (tiebreaker)
+}
+
+// Sort in query-param form ('-field' for descending), stored in cursors
+const sortKey = (sort: CollectionSort) =>
+  `${sort.ascending ? "" : "-"}${sort.field}`;
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: CollectionSort): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new QueryParamError("Invalid cursor.");
+  }
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    typeof payload.id !== "string" ||
+    typeof payload.f !== "string"
+  ) {
+    throw new QueryParamError("Invalid cursor.");
+  }
+  if (payload.f !== sortKey(sort)) {
+    throw new QueryParamError(
+      "Cursor does not match the requested sort. Restart from the first page."
+    );
+  }
+  return payload;
+}
+
+/**
+ * Builds the conditions selecting rows after the cursor (any group may hold).
+ * Rows are ordered by (sort field with nulls last, id ascending).
+ */
+function keysetConditions(
+  sort: CollectionSort,
+  cursor: CursorPayload,
+  idColumn: string
+): Condition[][] {
+  const { field } = sort;
+  const afterId: Condition = { column: idColumn, op: "gt", value: cursor.id };
+  if (field === idColumn) {
+    return [
+      [
+        sort.ascending
+          ? afterId
+          : { column: idColumn, op: "lt", value: cursor.id },
+      ],
+    ];
+  }
+  if (cursor.v === null) {
+    // Already inside the trailing block of nulls
+    return [[{ column: field, op: "eq", value: null }, afterId]];
+  }
+  return [
+    [{ column: field, op: sort.ascending ? "gt" : "lt", value: cursor.v }],
+    [{ column: field, op: "eq", value: cursor.v }, afterId],
+    [{ column: field, op: "eq", value: null }],
+  ];
+}
+
+// Maps a filter to a storage condition
+function toCondition(filter: CollectionFilter): Condition {
+  const { field: column, operator, value } = filter;
+  if (operator === "in") {
+    return { column, op: "in", value: Array.isArray(value) ? value : [value] };
+  }
+  const scalar = Array.isArray(value) ? value[0] : value;
+  if (operator === "ilike") {
+    return { column, op: "ilike", value: String(scalar) };
+  }
+  return { column, op: operator, value: scalar };
+}
+
+/**
+ * Translates filters, keyset cursor, ordering and limit into a storage
+ * select. Fetches one extra row so slicePage can tell whether a next page
+ * exists.
+ *
+ * @param defaultSort Sort used when the query has none.
+ * @param idColumn Unique column used as tiebreaker (default 'id').
+ */
+export function toCollectionSelect(
+  query: CollectionQuery,
+  defaultSort: CollectionSort,
+  idColumn = "id"
+): SelectQuery {
+  const sort = query.sort ?? defaultSort;
+  const orderBy: SortOrder[] = [
+    { column: sort.field, ascending: sort.ascending },
+  ];
+  if (sort.field !== idColumn) {
+    orderBy.push({ column: idColumn, ascending: true });
+  }
+  return {
+    where: query.filters.map(toCondition),
+    anyOf: query.cursor
+      ? keysetConditions(sort, decodeCursor(query.cursor, sort), idColumn)
+      : undefined,
+    orderBy,
+    limit: query.limit + 1,
+  };
+}
+
+/**
+ * Cuts rows read with toCollectionSelect into a page and computes the
+ * cursor for the next page. Rows must still contain the sort and id columns.
+ */
+export function slicePage<TRow extends object>(
+  rows: TRow[],
+  query: CollectionQuery,
+  defaultSort: CollectionSort,
+  idColumn = "id"
+): { rows: TRow[]; nextCursor: string | null } {
+  if (rows.length <= query.limit) {
+    return { rows, nextCursor: null };
+  }
+  const sort = query.sort ?? defaultSort;
+  const pageRows = rows.slice(0, query.limit);
+  const last = pageRows[pageRows.length - 1] as Record<string, unknown>;
+  const nextCursor = encodeCursor({
+    f: sortKey(sort),
+    v: (last[sort.field] ?? null) as FilterValue,
+    id: String(last[idColumn]),
+  });
+  return { rows: pageRows, nextCursor };
+}
@@ -0,0 +1,45 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/supabase/singleFlight.ts
+ * In-flight request coalescing ("single flight") for cache refreshes.
+ * Concurrent callers asking for the same key share one pending promise,
+ * so a burst of cache misses results in one upstream fetch and one upsert.
+ * Scope is the current server instance.
+ * ---------------------------------------------------------------------*/
+
+// Pending work keyed by caller-defined keys (e.g. "income_statements:AAPL")
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `work` for `key` unless a run for the same key is already pending,
+ * in which case the pending promise is returned instead.
+ * The key is released as soon as the work settles (success or failure),
+ * so later calls start a new run.
+ *
+ * @param key Identifies the shared unit of work (include the table name).
+ * @param work Function performing the fetch/upsert.
+ */
+export function singleFlight<T>(
+  key: string,
+  work: () => Promise<T>
+): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    console.log(`[SingleFlight] Joining in-flight request for ${key}.`);
+    return pending as Promise<T>;
+  }
+
+  const promise = (async () => {
+    try {
+      return await work();
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/** Builds the single-flight key for a table and optional symbol. */
+export function singleFlightKey(tableName: string, symbol?: string): string {
+  return `${tableName}:${symbol ?? "*"}`;
+}
@@ -3,6 +3,10 @@
  * Common type definitions for the generic Supabase service.
  * ---------------------------------------------------------------------*/
 
+import type { DataProvider } from "@/lib/common/providers";
+import type { RecordSchema } from "@/lib/common/validation";
+import type { StorageAdapter } from "@/lib/common/storage";
+
 // FetchMode enum remains the same
 export enum FetchMode {
   BySymbol = "bySymbol",
@@ -24,6 +28,73 @@ export type PartialApiRepresentation<TRow extends BaseRow> = Partial<
   id?: string;
 };
 
+/** Settings for serving stale rows while refreshing in the background. */
+export interface StaleWhileRevalidateConfig {
+  /** Hard maximum age (ms, by modified_at). Must exceed cacheTtlMs. */
+  maxStaleMs: number;
+}
+
+/**
+ * How data returned by a service call relates to the cache:
+ * - 'fresh': stored rows within cacheTtlMs.
+ * - 'stale': stored rows past cacheTtlMs, served while a background refresh runs.
+ * - 'refreshed': fetched from the provider during this call.
+ * - 'fallback': the provider fetch failed; stored rows (if any) were served.
+ * - 'unchecked': read from the table without a freshness check.
+ */
+export type CacheState =
+  | "fresh"
+  | "stale"
+  | "refreshed"
+  | "fallback"
+  | "unchecked";
+
+export interface CacheStatus {
+  state: CacheState;
+  /** modified_at of the stored rows served (null if unknown/none). */
+  modifiedAt: string | null;
+}
+
+/** Service result paired with its cache status. */
+export interface WithCacheStatus<T> {
+  data: T;
+  cache: CacheStatus;
+}
+
+/** Outcome of a batch read for one symbol: its result, or why there is none. */
+export type BatchEntry<T> = T | { error: string };
+
+/** Batch read results keyed by symbol, in request order. */
+export type BatchResult<T> = Record<string, BatchEntry<T>>;
+
+/** Per-request read options accepted by the service read methods. */
+export interface ReadOptions {
+  /**
+   * Fields to return, in response order (snake_case, from apiFieldOrder).
+   * Narrows both the Postgres projection and the response shape.
+   * Omitted = every field in apiFieldOrder.
+   */
+  fields?: ReadonlyArray<string>;
+  /**
+   * Point-in-time read (YYYY-MM-DD): only data publicly known at the end of
+   * that day. Rows are filtered on the config's asOfColumn and, with
+   * trackVersions, changes recorded later are undone. Read from the table
+   * only; the current data is refreshed first as usual.
+   */
+  asOf?: string;
+  /**
+   * Fetch from the provider before reading, ignoring cacheTtlMs. Costs an
+   * upstream call per read, so routes only allow it for admins.
+   */
+  refresh?: boolean;
+}
+
+/** Column/value filter that limits a service to a subset of its table. */
+export interface RecordScope<TRow extends BaseRow> {
+  column: keyof TRow & string;
+  values: ReadonlyArray<string>;
+}
+
 /**
  * Configuration object for the generic Supabase caching service.
  *
@@ -39,7 +110,9 @@ export interface GenericSupabaseServiceConfig<
   // --- Core Identification & Storage ---
   tableName: string;
 
-  // --- FMP API Fetching ---
+  // --- Upstream Data Fetching ---
+  // The fmp* fields describe the upstream endpoint. FMP is the default vendor,
+  // other providers interpret the same description (see ProviderEndpoint).
   fetchMode: FetchMode;
   fmpBasePath?: "v3" | "stable" | string; // Default: 'v3' used in service if omitted
   fmpPath: string;
@@ -56,9 +129,28 @@ export interface GenericSupabaseServiceConfig<
 
   fmpParams?: Record<string, string | number | boolean>;
 
+  /**
+   * Optional provider override for this service. When omitted, the
+   * process-wide provider from getDataProvider() (DATA_PROVIDER env) is used.
+   */
+  provider?: DataProvider;
+
+  /**
+   * Optional storage override for this service. When omitted, the
+   * process-wide backend from getStorage() (STORAGE_BACKEND env) is used.
+   */
+  storage?: StorageAdapter;
+
   // --- Caching ---
   cacheTtlMs: number;
 
+  /**
+   * Opt-in stale-while-revalidate. Rows older than cacheTtlMs but younger
+   * than maxStaleMs are returned immediately (cache state 'stale') while a
+   * refresh runs in the background. Older rows block on a refresh as usual.
+   */
+  staleWhileRevalidate?: StaleWhileRevalidateConfig;
+
   // --- Data Structure, Uniqueness & Mapping ---
   uniqueKeyColumns: ReadonlyArray<keyof RowType>;
   mapRawToRow: (
@@ -71,7 +163,43 @@ export interface GenericSupabaseServiceConfig<
   isSingleRecordPerSymbol?: boolean;
   sortByFieldForLatest?: keyof RowType;
 
+  /**
+   * Restricts every read and cache check of this service to rows whose
+   * `column` holds one of `values`. Lets several services share one table,
+   * e.g. annual and quarterly statements discriminated by 'period'.
+   */
+  recordScope?: RecordScope<RowType>;
+
+  /**
+   * Keep a version history. Before an upsert overwrites stored rows, every
+   * changed row gets a record_versions entry with a field-level diff
+   * (see versioning.ts). Meant for data that gets revised upstream, e.g.
+   * restated financial statements.
+   */
+  trackVersions?: boolean;
+
+  /**
+   * Fields whose changes are not versioned (trackVersions), e.g. market
+   * data refreshed with every fetch. asOf reads return their current value.
+   */
+  unversionedFields?: ReadonlyArray<keyof RowType & string>;
+
+  /**
+   * Column holding the date a row became public (e.g. 'accepted_date' for
+   * statements, the snapshot 'date' for consensus data). Used by
+   * ReadOptions.asOf; without it asOf relies on trackVersions alone.
+   */
+  asOfColumn?: keyof RowType & string;
+
+  /**
+   * Per-record schema for raw provider data. Records that fail it are
+   * written to the quarantine table (see quarantine.ts) and skipped; the
+   * remaining records are ingested. Runs before processRawDataArray.
+   */
+  rawSchema?: RecordSchema<RawType>;
+
   // --- Optional Callbacks ---
+  // Whole-payload guard; a failure rejects the entire fetch
   validateRawData?: (data: unknown) => data is RawType[] | RawType;
   processRawDataArray?: (rawData: RawType[]) => RawType[];
 }
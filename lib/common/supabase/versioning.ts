@@ -0,0 +1,303 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/supabase/versioning.ts
+ * Version records for services with trackVersions enabled.
+ * Before an upsert overwrites stored rows, the incoming rows are compared
+ * with the stored ones and every changed row gets a record_versions entry
+ * holding the field-level diff (old/new values). Optionally new rows get
+ * an 'insert' entry, dating their first storage.
+ * rewindRows uses those records to restore rows as they were on a past
+ * date (point-in-time reads).
+ * ---------------------------------------------------------------------*/
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
+
+/** Table holding the version records of all tracked tables. */
+export const RECORD_VERSIONS_TABLE = "record_versions";
+
+// Columns maintained by the database, never part of a diff
+const UNTRACKED_COLUMNS = ["id", "created_at", "modified_at"];
+
+/** Old and new value of one changed field. */
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+/** One stored version record (API shape, snake_case like the table). */
+export interface RecordVersion {
+  id: string;
+  table_name: string;
+  symbol: string | null;
+  record_key: Record<string, unknown>;
+  /** 'insert' records have no changes. Absent on records written before. */
+  operation?: "insert" | "update";
+  changes: Record<string, FieldChange>;
+  previous_modified_at: string | null;
+  recorded_at: string;
+}
+
+type StoredRow = Record<string, unknown> & { modified_at?: string };
+
+// Date-like strings from Postgres and from providers differ in format
+// ('2023-11-03 18:04:43' vs '2023-11-03T18:04:43'), so compare them as times
+const DATE_LIKE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?/;
+
+function sameValue(stored: unknown, incoming: unknown): boolean {
+  if (stored === incoming) return true;
+  if (stored == null || incoming == null) return stored == incoming;
+  if (typeof stored === "number" || typeof incoming === "number") {
+    const a = Number(stored);
+    const b = Number(incoming);
+    return Number.isFinite(a) && Number.isFinite(b) && a === b;
+  }
+  if (
+    typeof stored === "string" &&
+    typeof incoming === "string" &&
+    DATE_LIKE.test(stored) &&
+    DATE_LIKE.test(incoming)
+  ) {
+    const a = Date.parse(stored.replace(" ", "T"));
+    const b = Date.parse(incoming.replace(" ", "T"));
+    return !isNaN(a) && a === b;
+  }
+  return JSON.stringify(stored) === JSON.stringify(incoming);
+}
+
+/**
+ * Field-level diff between a stored row and the incoming row that replaces
+ * it. Only fields present on the incoming row are compared.
+ * @param ignoredFields Fields left out of the diff (see
+ *   GenericSupabaseServiceConfig.unversionedFields).
+ * Returns null when nothing changed.
+ */
+export function diffRecord(
+  stored: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  ignoredFields: ReadonlyArray<string> = []
+): Record<string, FieldChange> | null {
+  const changes: Record<string, FieldChange> = {};
+  for (const [field, value] of Object.entries(incoming)) {
+    if (UNTRACKED_COLUMNS.includes(field) || ignoredFields.includes(field)) {
+      continue;
+    }
+    if (!sameValue(stored[field], value)) {
+      changes[field] = { old: stored[field] ?? null, new: value ?? null };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Identity of a row by its unique key columns
+const rowKey = (row: Record<string, unknown>, keyColumns: string[]) =>
+  JSON.stringify(keyColumns.map((c) => String(row[c] ?? "")));
+
+/** Options of recordVersions. */
+export interface RecordVersionsOptions {
+  /** Fields whose changes are not recorded (see diffRecord). */
+  ignoredFields?: ReadonlyArray<string>;
+  /**
+   * Also write an 'insert' record for each new row. For tables without a
+   * column dating their rows: asOf reads then drop rows stored later.
+   */
+  recordInserts?: boolean;
+}
+
+// Rows per read; stored and version rows are read in pages (PostgREST max-rows)
+const VERSION_READ_PAGE_SIZE = 1000;
+
+/**
+ * Compares rows about to be upserted with the stored rows sharing their
+ * unique keys and writes one version record per changed row. Rows whose
+ * only changes are in ignored fields get none.
+ * New rows (no stored counterpart) are only versioned with recordInserts.
+ * Throws when the version records cannot be written, so the caller can skip
+ * the upsert and keep the stored values instead of losing the old ones.
+ *
+ * @returns Number of version records written.
+ */
+export async function recordVersions(
+  storage: StorageAdapter,
+  tableName: string,
+  keyColumns: ReadonlyArray<string>,
+  incomingRows: ReadonlyArray<Record<string, unknown>>,
+  symbol?: string,
+  { ignoredFields = [], recordInserts = false }: RecordVersionsOptions = {}
+): Promise<number> {
+  if (incomingRows.length === 0) return 0;
+  const columns = [...keyColumns];
+
+  // Stored rows that the upsert may overwrite
+  // A row missed here would be recorded as new: read them all
+  const storedRows: StoredRow[] = [];
+  try {
+    for (let offset = 0; ; offset += VERSION_READ_PAGE_SIZE) {
+      const page = await storage.select<StoredRow>(tableName, {
+        where: symbol ? [{ column: "symbol", op: "eq", value: symbol }] : [],
+        orderBy: columns.map((column) => ({ column, ascending: true })),
+        limit: VERSION_READ_PAGE_SIZE,
+        offset,
+      });
+      storedRows.push(...page);
+      if (page.length < VERSION_READ_PAGE_SIZE) break;
+    }
+  } catch (readError) {
+    throw new Error(
+      `Version check failed for ${tableName}: ${
+        readError instanceof Error ? readError.message : String(readError)
+      }`
+    );
+  }
+  if (storedRows.length === 0 && !recordInserts) return 0;
+
+  const storedByKey = new Map(storedRows.map((r) => [rowKey(r, columns), r]));
+  const now = new Date().toISOString();
+  const versions = [];
+  for (const incoming of incomingRows) {
+    const stored = storedByKey.get(rowKey(incoming, columns));
+    const version = {
+      table_name: tableName,
+      symbol: (incoming.symbol as string | undefined) ?? null,
+      record_key: Object.fromEntries(columns.map((c) => [c, incoming[c]])),
+      recorded_at: now,
+    };
+    if (!stored) {
+      if (recordInserts) {
+        versions.push({
+          ...version,
+          operation: "insert",
+          changes: {},
+          previous_modified_at: null,
+        });
+      }
+      continue;
+    }
+    const changes = diffRecord(stored, incoming, ignoredFields);
+    if (!changes) continue;
+    versions.push({
+      ...version,
+      operation: "update",
+      changes,
+      previous_modified_at: stored.modified_at ?? null,
+    });
+  }
+  if (versions.length === 0) return 0;
+
+  try {
+    await storage.insert(RECORD_VERSIONS_TABLE, versions);
+  } catch (insertError) {
+    throw new Error(
+      `Writing version records failed for ${tableName}: ${
+        insertError instanceof Error ? insertError.message : String(insertError)
+      }`
+    );
+  }
+  console.log(
+    `[Versioning] Recorded ${
+      versions.length
+    } new or changed row(s) in ${tableName}${symbol ? ` for ${symbol}` : ""}.`
+  );
+  return versions.length;
+}
+
+export interface RecordVersionQuery {
+  /** Limit to one symbol. Omitted = every symbol of the table. */
+  symbol?: string;
+  /**
+   * Filters on record_key entries, e.g. { date: '2023-09-30' }.
+   * Array values match any of the listed values.
+   */
+  keyMatch?: Record<string, string | ReadonlyArray<string>>;
+  /** Only versions recorded at or after this ISO date/time. */
+  recordedSince?: string;
+}
+
+/**
+ * Reads version records of one table, newest first.
+ * record_key matching happens here rather than in the query, since the
+ * backends store the key object differently (JSONB, document, object).
+ */
+export async function getRecordVersions(
+  tableName: string,
+  { symbol, keyMatch = {}, recordedSince }: RecordVersionQuery = {},
+  storage: StorageAdapter = getStorage()
+): Promise<RecordVersion[]> {
+  const where: Condition[] = [
+    { column: "table_name", op: "eq", value: tableName },
+  ];
+  if (symbol) where.push({ column: "symbol", op: "eq", value: symbol });
+  if (recordedSince) {
+    where.push({ column: "recorded_at", op: "gte", value: recordedSince });
+  }
+  const versions: RecordVersion[] = [];
+  for (let offset = 0; ; offset += VERSION_READ_PAGE_SIZE) {
+    const page = await storage.select<RecordVersion>(RECORD_VERSIONS_TABLE, {
+      where,
+      orderBy: [
+        { column: "recorded_at", ascending: false },
+        { column: "id", ascending: true },
+      ],
+      limit: VERSION_READ_PAGE_SIZE,
+      offset,
+    });
+    versions.push(...page);
+    if (page.length < VERSION_READ_PAGE_SIZE) break;
+  }
+
+  const matchers = Object.entries(keyMatch);
+  if (matchers.length === 0) return versions;
+  return versions.filter(({ record_key }) =>
+    matchers.every(([key, value]) => {
+      const stored = String(record_key?.[key] ?? "");
+      return typeof value === "string"
+        ? stored === value
+        : value.includes(stored);
+    })
+  );
+}
+
+/**
+ * Undoes the given changes on copies of the rows, restoring the values the
+ * rows held before the oldest of those versions was recorded. Rows with an
+ * 'insert' version among them did not exist yet and are left out.
+ * @param versions Version records of the rows' table, newest first (as
+ *   returned by getRecordVersions), typically those recorded after a date.
+ */
+export function rewindRows<TRow extends object>(
+  rows: ReadonlyArray<TRow>,
+  versions: ReadonlyArray<RecordVersion>,
+  keyColumns: ReadonlyArray<string>
+): TRow[] {
+  const columns = [...keyColumns];
+  const versionsByKey = new Map<string, RecordVersion[]>();
+  for (const version of versions) {
+    const key = rowKey(version.record_key, columns);
+    const list = versionsByKey.get(key) ?? [];
+    list.push(version);
+    versionsByKey.set(key, list);
+  }
+  const rewoundRows: TRow[] = [];
+  for (const row of rows) {
+    const rowVersions = versionsByKey.get(
+      rowKey(row as Record<string, unknown>, columns)
+    );
+    if (!rowVersions) {
+      rewoundRows.push(row);
+      continue;
+    }
+    if (rowVersions.some((version) => version.operation === "insert")) {
+      continue;
+    }
+    const rewound: Record<string, unknown> = { ...(row as object) };
+    // Newest first: each step restores the values before that change
+    for (const version of rowVersions) {
+      for (const [field, change] of Object.entries(version.changes)) {
+        rewound[field] = change.old;
+      }
+    }
+    rewoundRows.push(rewound as TRow);
+  }
+  return rewoundRows;
+}
@@ -0,0 +1,177 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/symbols/aliases.ts
+ * Alias resolution: maps historical tickers, share class and vendor
+ * spellings to the symbol the data is stored under.
+ * Aliases come from the symbol_aliases table plus a few built-in ones;
+ * stored aliases take precedence. Chains (an old ticker pointing to a
+ * ticker that was renamed later) are followed to the current symbol.
+ * ---------------------------------------------------------------------*/
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+
+import { normalizeSymbol } from "./normalize";
+
+/** Table holding the stored aliases. */
+export const SYMBOL_ALIASES_TABLE = "symbol_aliases";
+
+/**
+ * Why an alias exists:
+ * - 'historical': a former ticker of the company (e.g. after a rename).
+ * - 'share_class': another spelling of a share class ticker.
+ * - 'vendor': how another data vendor writes the ticker.
+ */
+export type SymbolAliasType = "historical" | "share_class" | "vendor";
+
+export const SYMBOL_ALIAS_TYPES: ReadonlyArray<SymbolAliasType> = [
+  "historical",
+  "share_class",
+  "vendor",
+];
+
+/** One alias (API shape, snake_case like the table). */
+export interface SymbolAlias {
+  alias: string;
+  symbol: string;
+  alias_type: SymbolAliasType;
+  note: string | null;
+}
+
+/** Aliases known without a database, e.g. for the memory backend. */
+export const BUILT_IN_ALIASES: ReadonlyArray<SymbolAlias> = [
+  { alias: "BRK.A", symbol: "BRK-A", alias_type: "share_class", note: null },
+  { alias: "BRK.B", symbol: "BRK-B", alias_type: "share_class", note: null },
+  { alias: "BF.A", symbol: "BF-A", alias_type: "share_class", note: null },
+  { alias: "BF.B", symbol: "BF-B", alias_type: "share_class", note: null },
+  {
+    alias: "FB",
+    symbol: "META",
+    alias_type: "historical",
+    note: "Renamed 2022-06-09",
+  },
+  {
+    alias: "ANTM",
+    symbol: "ELV",
+    alias_type: "historical",
+    note: "Renamed 2022-06-28",
+  },
+  {
+    alias: "FISV",
+    symbol: "FI",
+    alias_type: "historical",
+    note: "Renamed 2023-06-07",
+  },
+];
+
+// Longest alias chain followed; longer ones are assumed to be a cycle
+const MAX_ALIAS_DEPTH = 5;
+
+// Aliases change rarely (admin renames), so the table is read at most
+// once per storage backend and TTL
+const ALIAS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const aliasCache = new WeakMap<
+  StorageAdapter,
+  { loadedAt: number; symbolByAlias: Map<string, string> }
+>();
+
+/** Forgets the cached aliases, e.g. after a rename or a new alias. */
+export function clearSymbolAliasCache(storage?: StorageAdapter): void {
+  aliasCache.delete(storage ?? getStorage());
+}
+
+/** Lists the stored aliases, ordered by alias. */
+export async function getSymbolAliases(
+  storage: StorageAdapter = getStorage()
+): Promise<SymbolAlias[]> {
+  return storage.select<SymbolAlias>(SYMBOL_ALIASES_TABLE, {
+    columns: ["alias", "symbol", "alias_type", "note"],
+    orderBy: [{ column: "alias", ascending: true }],
+  });
+}
+
+// Alias -> symbol map of the built-in and stored aliases. A failed read
+// is logged and falls back to the built-in aliases, without caching.
+async function loadAliases(
+  storage: StorageAdapter
+): Promise<Map<string, string>> {
+  const cached = aliasCache.get(storage);
+  if (cached && Date.now() - cached.loadedAt < ALIAS_CACHE_TTL_MS) {
+    return cached.symbolByAlias;
+  }
+
+  const symbolByAlias = new Map(
+    BUILT_IN_ALIASES.map(({ alias, symbol }) => [alias, symbol])
+  );
+  try {
+    for (const { alias, symbol } of await getSymbolAliases(storage)) {
+      symbolByAlias.set(alias, symbol);
+    }
+  } catch (error) {
+    console.error(
+      `[Symbols] Could not read ${SYMBOL_ALIASES_TABLE}, using built-in aliases only:`,
+      error
+    );
+    return symbolByAlias;
+  }
+  aliasCache.set(storage, { loadedAt: Date.now(), symbolByAlias });
+  return symbolByAlias;
+}
+
+/**
+ * Resolves user or vendor input to the symbol its data is stored under:
+ * normalized (see normalizeSymbol), then mapped through the aliases.
+ * Never throws; unknown symbols are returned normalized.
+ */
+export async function resolveSymbol(
+  input: string,
+  storage: StorageAdapter = getStorage()
+): Promise<string> {
+  const symbolByAlias = await loadAliases(storage);
+  let symbol = normalizeSymbol(input);
+  for (let depth = 0; depth < MAX_ALIAS_DEPTH; depth++) {
+    const target = symbolByAlias.get(symbol);
+    if (!target || target === symbol) break;
+    symbol = target;
+  }
+  return symbol;
+}
+
+/** resolveSymbol for several inputs; duplicates after resolution are dropped. */
+export async function resolveSymbols(
+  inputs: ReadonlyArray<string>,
+  storage: StorageAdapter = getStorage()
+): Promise<string[]> {
+  const resolved = await Promise.all(
+    inputs.map((input) => resolveSymbol(input, storage))
+  );
+  return [...new Set(resolved)];
+}
+
+/**
+ * Stores an alias (replacing one with the same alias) and clears the cache.
+ * @throws {Error} When alias and symbol are the same after normalization.
+ */
+export async function addSymbolAlias(
+  alias: string,
+  symbol: string,
+  aliasType: SymbolAliasType,
+  note: string | null = null,
+  storage: StorageAdapter = getStorage()
+): Promise<SymbolAlias> {
+  const row: SymbolAlias = {
+    alias: normalizeSymbol(alias),
+    symbol: normalizeSymbol(symbol),
+    alias_type: aliasType,
+    note,
+  };
+  if (row.alias === row.symbol) {
+    throw new Error(`Alias ${row.alias} cannot point to itself.`);
+  }
+  await storage.upsert(SYMBOL_ALIASES_TABLE, [{ ...row }], ["alias"], {
+    returning: false,
+  });
+  clearSymbolAliasCache(storage);
+  console.log(
+    `[Symbols] Alias ${row.alias} -> ${row.symbol} (${aliasType}) stored.`
+  );
+  return row;
+}
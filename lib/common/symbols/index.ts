@@ -0,0 +1,6 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/symbols/index.ts
+ * Exports ticker normalization and alias resolution.
+ * ---------------------------------------------------------------------*/
+export * from "./normalize";
+export * from "./aliases";
@@ -0,0 +1,25 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/symbols/normalize.ts
+ * Canonical spelling of ticker symbols as typed by users and vendors.
+ * ---------------------------------------------------------------------*/
+
+// Tickers as the provider writes them, e.g. BRK-B, VOD.L, ^GSPC, EURUSD=X
+const SYMBOL_PATTERN = /^[A-Z0-9.\-^=]{1,15}$/;
+
+/**
+ * Canonical spelling of a ticker: trimmed, upper-cased, and share class
+ * separators other than '-' replaced by it ('BRK/B', 'BRK B' -> 'BRK-B').
+ * A '.' is kept, since it also separates exchange suffixes ('VOD.L');
+ * vendor spellings like 'BRK.B' are resolved through the alias table.
+ */
+export function normalizeSymbol(input: string): string {
+  return input
+    .trim()
+    .toUpperCase()
+    .replace(/^([A-Z]+)(?:\/|\s+)([A-Z])$/, "$1-$2");
+}
+
+/** Whether a normalized symbol has the shape of a ticker. */
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol);
+}
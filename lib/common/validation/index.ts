@@ -0,0 +1,5 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/validation/index.ts
+ * Exports the declarative raw-record schemas and validator.
+ * ---------------------------------------------------------------------*/
+export * from "./schema";
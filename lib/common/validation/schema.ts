@@ -0,0 +1,134 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/common/validation/schema.ts
+ * Declarative per-record schemas for raw provider data.
+ * A schema lists the fields a dataset relies on and the rules each value
+ * must satisfy. validateRecord returns every failed rule, so a rejected
+ * record can be quarantined with a complete reason.
+ * ---------------------------------------------------------------------*/
+
+/**
+ * Value types understood by the validator:
+ * - 'date': 'YYYY-MM-DD' (a time part is allowed).
+ * - 'timestamp': any date-time string Date.parse accepts.
+ */
+export type FieldType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "date"
+  | "timestamp";
+
+export interface FieldRule {
+  type: FieldType;
+  /** Value must be present and non-null. Default: false (null/absent ok). */
+  required?: boolean;
+  /** Strings only: the value must match. */
+  pattern?: RegExp;
+  /** Strings only: maximum length (e.g. VARCHAR columns). */
+  maxLength?: number;
+  /** Numbers only: inclusive bounds. */
+  min?: number;
+  max?: number;
+}
+
+/** Rules per raw field. Fields not listed are not checked. */
+export type RecordSchema<T> = { [K in keyof T]?: FieldRule };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T].*)?$/;
+
+// Returns why the value breaks the rule, or null if it conforms
+function checkValue(value: unknown, rule: FieldRule): string | null {
+  switch (rule.type) {
+    case "string":
+      if (typeof value !== "string") return "expected a string";
+      if (rule.pattern && !rule.pattern.test(value)) {
+        return `does not match ${rule.pattern}`;
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return `longer than ${rule.maxLength} characters`;
+      }
+      return null;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "expected a finite number";
+      }
+      if (rule.type === "integer" && !Number.isInteger(value)) {
+        return "expected an integer";
+      }
+      if (rule.min !== undefined && value < rule.min) {
+        return `below minimum ${rule.min}`;
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return `above maximum ${rule.max}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : "expected a boolean";
+    case "date":
+      return typeof value === "string" &&
+        DATE_PATTERN.test(value) &&
+        !isNaN(Date.parse(value.slice(0, 10)))
+        ? null
+        : "expected a YYYY-MM-DD date";
+    case "timestamp":
+      return typeof value === "string" &&
+        !isNaN(Date.parse(value.replace(" ", "T")))
+        ? null
+        : "expected a date-time string";
+  }
+}
+
+/**
+ * Validates one raw record against a schema.
+ * @returns One message per failed field (empty when the record is valid),
+ *   e.g. "date: expected a YYYY-MM-DD date (got null)".
+ */
+export function validateRecord<T>(
+  record: unknown,
+  schema: RecordSchema<T>
+): string[] {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return ["record: expected an object"];
+  }
+  const values = record as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const [field, rule] of Object.entries(schema) as [
+    string,
+    FieldRule | undefined
+  ][]) {
+    if (!rule) continue;
+    const value = values[field];
+    if (value === undefined || value === null) {
+      if (rule.required) errors.push(`${field}: required (got ${value})`);
+      continue;
+    }
+    const problem = checkValue(value, rule);
+    if (problem) {
+      errors.push(`${field}: ${problem} (got ${JSON.stringify(value)})`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Splits raw records into valid ones and rejects (with their reasons).
+ * Order of the valid records is preserved.
+ */
+export function partitionRecords<T>(
+  records: ReadonlyArray<unknown>,
+  schema: RecordSchema<T>
+): { valid: T[]; rejected: { record: unknown; errors: string[] }[] } {
+  const valid: T[] = [];
+  const rejected: { record: unknown; errors: string[] }[] = [];
+  for (const record of records) {
+    const errors = validateRecord(record, schema);
+    if (errors.length === 0) {
+      valid.push(record as T);
+    } else {
+      rejected.push({ record, errors });
+    }
+  }
+  return { valid, rejected };
+}
@@ -1,9 +1,15 @@
-import type { Collection, Document, IndexSpecification } from "mongodb";
+import type {
+  Collection,
+  CreateIndexesOptions,
+  Document,
+  IndexSpecification,
+} from "mongodb";
 import { getDb } from "@/lib/mongodb/db";
 
 export async function ensureCollection<T extends Document>(
   name: string,
-  index?: IndexSpecification
+  index?: IndexSpecification,
+  indexOptions?: CreateIndexesOptions
 ): Promise<Collection<T>> {
   const db = await getDb();
 
@@ -16,7 +22,7 @@ export async function ensureCollection<T extends Document>(
 
   if (index) {
     // no-op when the index already exists
-    await col.createIndex(index);
+    await col.createIndex(index, indexOptions ?? {});
   }
 
   return col;
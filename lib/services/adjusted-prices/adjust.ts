@@ -0,0 +1,89 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/adjusted-prices/adjust.ts
+ * Backward adjustment of a traded price series for splits and dividends.
+ * The newest bar is never changed; every earlier bar is restated so the
+ * series is continuous across corporate actions.
+ * ---------------------------------------------------------------------*/
+import type {
+  AdjustedPriceBar,
+  DividendEvent,
+  PriceAdjustment,
+  RawPriceBar,
+  SplitEvent,
+} from "./types";
+
+const byDateDesc = (a: { date: string }, b: { date: string }) =>
+  b.date.localeCompare(a.date);
+
+const scale = (value: number | null, factor: number): number | null =>
+  value === null ? null : value * factor;
+
+/**
+ * Adjusts bars for the splits and (with 'total_return') dividends.
+ *
+ * A bar is multiplied by denominator / numerator of every split after its
+ * date. For total return it is further multiplied by 1 - D / P for every
+ * later ex-date, with D the split-adjusted dividend and P the split-adjusted
+ * close of the last bar before the ex-date. Volumes are scaled by the
+ * inverse split factor only.
+ *
+ * @param bars Bars in any order; returned newest first.
+ */
+export function adjustPriceBars(
+  bars: ReadonlyArray<RawPriceBar>,
+  splits: ReadonlyArray<SplitEvent>,
+  dividends: ReadonlyArray<DividendEvent>,
+  adjustment: PriceAdjustment
+): AdjustedPriceBar[] {
+  const sortedBars = [...bars].sort(byDateDesc);
+  if (adjustment === "raw" || sortedBars.length === 0) {
+    return sortedBars.map((bar) => ({ ...bar, adjustment_factor: 1 }));
+  }
+
+  const newestDate = sortedBars[0].date;
+  const effective = <T extends { date: string }>(events: ReadonlyArray<T>) =>
+    events.filter((event) => event.date <= newestDate).sort(byDateDesc);
+  const sortedSplits = effective(splits);
+  const sortedDividends =
+    adjustment === "total_return" ? effective(dividends) : [];
+
+  let splitFactor = 1;
+  let dividendFactor = 1;
+  let splitIndex = 0;
+  let dividendIndex = 0;
+
+  return sortedBars.map((bar) => {
+    // Splits effective after this bar restate it on today's share basis
+    while (
+      splitIndex < sortedSplits.length &&
+      sortedSplits[splitIndex].date > bar.date
+    ) {
+      const { numerator, denominator } = sortedSplits[splitIndex];
+      splitFactor *= denominator / numerator;
+      splitIndex++;
+    }
+    // This is the last bar before each later ex-date not yet applied
+    while (
+      dividendIndex < sortedDividends.length &&
+      sortedDividends[dividendIndex].date > bar.date
+    ) {
+      const dividend = sortedDividends[dividendIndex].adj_dividend;
+      const close = bar.close === null ? null : bar.close * splitFactor;
+      if (dividend && close && dividend < close) {
+        dividendFactor *= 1 - dividend / close;
+      }
+      dividendIndex++;
+    }
+
+    const factor = splitFactor * dividendFactor;
+    return {
+      date: bar.date,
+      open: scale(bar.open, factor),
+      high: scale(bar.high, factor),
+      low: scale(bar.low, factor),
+      close: scale(bar.close, factor),
+      volume: bar.volume === null ? null : Math.round(bar.volume / splitFactor),
+      adjustment_factor: factor,
+    };
+  });
+}
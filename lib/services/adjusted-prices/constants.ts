@@ -0,0 +1,33 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/adjusted-prices/constants.ts
+ * Constants for the adjusted price series.
+ * ---------------------------------------------------------------------*/
+import { RESAMPLE_PERIODS } from "@/lib/services/historical-prices/constants";
+import { INTRADAY_INTERVALS } from "@/lib/services/intraday-prices/constants";
+
+import type { PriceAdjustment, SignalPriceInterval } from "./types";
+
+export const PRICE_ADJUSTMENTS: ReadonlyArray<PriceAdjustment> = [
+  "raw",
+  "split",
+  "total_return",
+];
+
+/**
+ * Environment variable choosing the prices the technical signals (SMA, EMA,
+ * RSI, MACD) are computed on. Defaults to DEFAULT_SIGNAL_PRICE_ADJUSTMENT.
+ */
+export const SIGNAL_PRICE_ADJUSTMENT_ENV = "SIGNAL_PRICE_ADJUSTMENT";
+
+// Split-adjusted: a split on raw closes looks like a crash and fires
+// false crossovers, dividends are too small to matter for the indicators
+export const DEFAULT_SIGNAL_PRICE_ADJUSTMENT: PriceAdjustment = "split";
+
+/** Intervals accepted by the signal routes' `?interval=`. */
+export const SIGNAL_PRICE_INTERVALS: ReadonlyArray<SignalPriceInterval> = [
+  ...INTRADAY_INTERVALS,
+  ...RESAMPLE_PERIODS,
+];
+
+/** Rows per page of the daily bar reads (PostgREST max-rows). */
+export const DAILY_READ_PAGE_SIZE = 1000;
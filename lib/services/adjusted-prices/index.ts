@@ -0,0 +1,19 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/adjusted-prices/index.ts
+ * Exports the split-adjusted and total-return price series.
+ * ---------------------------------------------------------------------*/
+export { adjustPriceBars } from "./adjust";
+export {
+  getAdjustedPriceSeries,
+  getSignalPriceAdjustment,
+  parsePriceAdjustment,
+  parseSignalPriceInterval,
+  selectSignalPrices,
+} from "./service";
+export { PRICE_ADJUSTMENTS, SIGNAL_PRICE_INTERVALS } from "./constants";
+export type {
+  AdjustedPriceBar,
+  AdjustedPriceSeries,
+  PriceAdjustment,
+  SignalPriceInterval,
+} from "./types";
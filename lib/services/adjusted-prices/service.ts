@@ -0,0 +1,270 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/adjusted-prices/service.ts
+ * Split-adjusted and total-return price series, computed on demand from
+ * the stored prices, splits and dividends (see adjust.ts).
+ * ---------------------------------------------------------------------*/
+import type { Condition, StorageAdapter } from "@/lib/common/storage";
+import { isNoDataError, type DateRange } from "@/lib/common/supabase";
+import { dividendConfig } from "@/lib/services/dividends/config";
+import { getDividendsForSymbol } from "@/lib/services/dividends";
+import {
+  getHistoricalPricesForSymbol,
+  MAX_TRADING_DAYS_PER_PERIOD,
+  parseResamplePeriod,
+  resamplePriceBars,
+} from "@/lib/services/historical-prices";
+import {
+  INTRADAY_PRICES_TABLE_NAME,
+  type IntradayInterval,
+  type IntradayPriceRow,
+} from "@/lib/services/intraday-prices";
+import { stockSplitConfig } from "@/lib/services/stock-splits/config";
+import { getStockSplitsForSymbol } from "@/lib/services/stock-splits";
+
+import { adjustPriceBars } from "./adjust";
+import {
+  DAILY_READ_PAGE_SIZE,
+  DEFAULT_SIGNAL_PRICE_ADJUSTMENT,
+  PRICE_ADJUSTMENTS,
+  SIGNAL_PRICE_ADJUSTMENT_ENV,
+  SIGNAL_PRICE_INTERVALS,
+} from "./constants";
+import type {
+  AdjustedPriceBar,
+  AdjustedPriceSeries,
+  DividendEvent,
+  PriceAdjustment,
+  RawPriceBar,
+  SignalPriceInterval,
+  SplitEvent,
+} from "./types";
+
+const HISTORICAL_PRICES_TABLE_NAME = "historical_prices";
+
+/** Parses an adjustment name; null for anything else. */
+export function parsePriceAdjustment(
+  value: string | null | undefined
+): PriceAdjustment | null {
+  return PRICE_ADJUSTMENTS.includes(value as PriceAdjustment)
+    ? (value as PriceAdjustment)
+    : null;
+}
+
+/** Parses a signal interval name (intraday or resampled); null otherwise. */
+export function parseSignalPriceInterval(
+  value: string | null | undefined
+): SignalPriceInterval | null {
+  return SIGNAL_PRICE_INTERVALS.includes(value as SignalPriceInterval)
+    ? (value as SignalPriceInterval)
+    : null;
+}
+
+/**
+ * The adjustment the technical signals run on, from the
+ * SIGNAL_PRICE_ADJUSTMENT environment variable. Unknown values are logged
+ * and fall back to the default.
+ */
+export function getSignalPriceAdjustment(): PriceAdjustment {
+  const raw = process.env[SIGNAL_PRICE_ADJUSTMENT_ENV];
+  if (!raw) return DEFAULT_SIGNAL_PRICE_ADJUSTMENT;
+  const adjustment = parsePriceAdjustment(raw.toLowerCase());
+  if (!adjustment) {
+    console.warn(
+      `[AdjustedPrices] Invalid ${SIGNAL_PRICE_ADJUSTMENT_ENV}: '${raw}'. Using ${DEFAULT_SIGNAL_PRICE_ADJUSTMENT}.`
+    );
+    return DEFAULT_SIGNAL_PRICE_ADJUSTMENT;
+  }
+  return adjustment;
+}
+
+// A symbol that never split or paid a dividend has no rows
+async function emptyIfNone<T>(read: Promise<T[]>): Promise<T[]> {
+  try {
+    return await read;
+  } catch (error) {
+    if (isNoDataError(error)) return [];
+    throw error;
+  }
+}
+
+// Stored splits and (for total return) dividends of a symbol
+async function readStoredEvents(
+  storage: StorageAdapter,
+  symbol: string,
+  adjustment: PriceAdjustment
+): Promise<{ splits: SplitEvent[]; dividends: DividendEvent[] }> {
+  const where: Condition[] = [{ column: "symbol", op: "eq", value: symbol }];
+  const [splits, dividends] = await Promise.all([
+    storage.select<SplitEvent>(stockSplitConfig.tableName, {
+      columns: ["date", "numerator", "denominator"],
+      where,
+    }),
+    adjustment === "total_return"
+      ? storage.select<DividendEvent>(dividendConfig.tableName, {
+          columns: ["date", "adj_dividend"],
+          where,
+        })
+      : Promise.resolve([]),
+  ]);
+  return { splits, dividends };
+}
+
+// Newest `limit` stored daily bars, in pages: resampled reads need more
+// bars than the storage row cap
+async function selectDailyBars(
+  storage: StorageAdapter,
+  symbol: string,
+  limit: number,
+  upTo?: string
+): Promise<RawPriceBar[]> {
+  const where: Condition[] = [{ column: "symbol", op: "eq", value: symbol }];
+  if (upTo) where.push({ column: "date", op: "lte", value: upTo });
+  const bars: RawPriceBar[] = [];
+  while (bars.length < limit) {
+    const pageSize = Math.min(DAILY_READ_PAGE_SIZE, limit - bars.length);
+    const page = await storage.select<RawPriceBar>(
+      HISTORICAL_PRICES_TABLE_NAME,
+      {
+        columns: ["date", "open", "high", "low", "close", "volume"],
+        where,
+        orderBy: [{ column: "date", ascending: false }],
+        limit: pageSize,
+        offset: bars.length,
+      }
+    );
+    bars.push(...page);
+    if (page.length < pageSize) break;
+  }
+  return bars;
+}
+
+// Newest stored intraday bars of one interval, shaped like daily bars
+// (bar time as date). Split dates compare before every bar of their day.
+async function selectIntradayBars(
+  storage: StorageAdapter,
+  symbol: string,
+  interval: IntradayInterval,
+  limit: number,
+  upTo?: string
+): Promise<RawPriceBar[]> {
+  const where: Condition[] = [
+    { column: "symbol", op: "eq", value: symbol },
+    { column: "interval", op: "eq", value: interval },
+  ];
+  if (upTo) where.push({ column: "timestamp", op: "lte", value: upTo });
+  const bars = await storage.select<
+    Pick<
+      IntradayPriceRow,
+      "timestamp" | "open" | "high" | "low" | "close" | "volume"
+    >
+  >(INTRADAY_PRICES_TABLE_NAME, {
+    columns: ["timestamp", "open", "high", "low", "close", "volume"],
+    where,
+    orderBy: [{ column: "timestamp", ascending: false }],
+    limit,
+  });
+  return bars.map(({ timestamp, ...bar }) => ({ date: timestamp, ...bar }));
+}
+
+/**
+ * Reads a symbol's newest stored closes, adjusted, for the technical
+ * signals. Storage only: nothing is fetched from the provider.
+ *
+ * @param options.limit Number of bars (newest first).
+ * @param options.upTo Last bar date (inclusive), e.g. a signal's target
+ *   date; a bar time (YYYY-MM-DDTHH:mm:ss) with `interval`.
+ * @param options.adjustment Defaults to getSignalPriceAdjustment().
+ * @param options.interval Reads intraday bars of this interval instead of
+ *   daily bars (the returned date is then the bar time), or daily bars
+ *   resampled to this period (the date is then the period start; the
+ *   newest period may be in progress).
+ */
+export async function selectSignalPrices(
+  storage: StorageAdapter,
+  symbol: string,
+  options: {
+    limit: number;
+    upTo?: string;
+    adjustment?: PriceAdjustment;
+    interval?: SignalPriceInterval;
+  }
+): Promise<Array<Pick<AdjustedPriceBar, "date" | "close">>> {
+  const period = parseResamplePeriod(options.interval);
+  if (period) {
+    // Enough daily bars for `limit` periods even if the oldest one read is
+    // cut short. Signals only read closes, so only closes are resampled.
+    const daily = await selectSignalPrices(storage, symbol, {
+      ...options,
+      interval: undefined,
+      limit: (options.limit + 1) * MAX_TRADING_DAYS_PER_PERIOD[period],
+    });
+    return resamplePriceBars(
+      daily.map((bar) => ({
+        ...bar,
+        open: null,
+        high: null,
+        low: null,
+        volume: null,
+      })),
+      period
+    )
+      .slice(0, options.limit)
+      .map(({ date, close }) => ({ date, close }));
+  }
+  const adjustment = options.adjustment ?? getSignalPriceAdjustment();
+  const [bars, events] = await Promise.all([
+    options.interval
+      ? selectIntradayBars(
+          storage,
+          symbol,
+          options.interval as IntradayInterval,
+          options.limit,
+          options.upTo
+        )
+      : selectDailyBars(storage, symbol, options.limit, options.upTo),
+    adjustment === "raw"
+      ? Promise.resolve({ splits: [], dividends: [] })
+      : readStoredEvents(storage, symbol, adjustment),
+  ]);
+  return adjustPriceBars(bars, events.splits, events.dividends, adjustment).map(
+    ({ date, close }) => ({ date, close })
+  );
+}
+
+/**
+ * Produces a symbol's adjusted price series, refreshing the prices, splits
+ * and dividends from the provider when stale. The whole series is adjusted
+ * (relative to the newest bar) and then cut to `range`.
+ */
+export async function getAdjustedPriceSeries(
+  symbol: string,
+  adjustment: PriceAdjustment,
+  range: DateRange = {}
+): Promise<AdjustedPriceSeries> {
+  const symbolUpper = symbol.toUpperCase();
+  const [prices, splits, dividends] = await Promise.all([
+    getHistoricalPricesForSymbol(symbolUpper),
+    adjustment === "raw"
+      ? Promise.resolve([])
+      : emptyIfNone(getStockSplitsForSymbol(symbolUpper)),
+    adjustment === "total_return"
+      ? emptyIfNone(getDividendsForSymbol(symbolUpper))
+      : Promise.resolve([]),
+  ]);
+
+  const bars = adjustPriceBars(
+    prices,
+    splits.filter(
+      (split): split is SplitEvent =>
+        !!split.date && !!split.numerator && !!split.denominator
+    ),
+    dividends.filter((dividend): dividend is DividendEvent => !!dividend.date),
+    adjustment
+  ).filter(
+    (bar) =>
+      (!range.from || bar.date >= range.from) &&
+      (!range.to || bar.date <= range.to)
+  );
+
+  return { symbol: symbolUpper, adjustment, prices: bars };
+}
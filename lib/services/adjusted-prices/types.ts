@@ -0,0 +1,54 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/adjusted-prices/types.ts
+ * Types of the split-adjusted and total-return price series.
+ * ---------------------------------------------------------------------*/
+import type { DividendRow } from "@/lib/services/dividends";
+import type {
+  HistoricalPriceRow,
+  ResamplePeriod,
+} from "@/lib/services/historical-prices";
+import type { IntradayInterval } from "@/lib/services/intraday-prices";
+import type { StockSplitRow } from "@/lib/services/stock-splits";
+
+/**
+ * How prices are adjusted:
+ * - 'raw': as traded, no adjustment.
+ * - 'split': earlier prices restated on today's share basis, so a split
+ *   does not show as a price drop.
+ * - 'total_return': split-adjusted and dividends reinvested on the
+ *   ex-date, so a dividend does not show as a price drop either.
+ */
+export type PriceAdjustment = "raw" | "split" | "total_return";
+
+/**
+ * Bars the technical signals can run on besides daily ones: stored
+ * intraday bars, or daily bars resampled to a coarser period.
+ */
+export type SignalPriceInterval = IntradayInterval | ResamplePeriod;
+
+/** Stored bar fields the adjustment reads. */
+export type RawPriceBar = Pick<
+  HistoricalPriceRow,
+  "date" | "open" | "high" | "low" | "close" | "volume"
+>;
+
+export type SplitEvent = Pick<
+  StockSplitRow,
+  "date" | "numerator" | "denominator"
+>;
+
+export type DividendEvent = Pick<DividendRow, "date" | "adj_dividend">;
+
+/** One bar of an adjusted series. */
+export interface AdjustedPriceBar extends RawPriceBar {
+  /** Factor the traded prices were multiplied by (1 = unadjusted). */
+  adjustment_factor: number;
+}
+
+/** An adjusted series with the adjustment it was computed with. */
+export interface AdjustedPriceSeries {
+  symbol: string;
+  adjustment: PriceAdjustment;
+  /** Bars newest first. */
+  prices: AdjustedPriceBar[];
+}
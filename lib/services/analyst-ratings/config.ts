@@ -0,0 +1,56 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/analyst-ratings/config.ts
+ * Configuration for the analyst rating actions service using Supabase.
+ * ---------------------------------------------------------------------*/
+import {
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  mapRowToPartialApi,
+} from "@/lib/common/supabase";
+
+import {
+  analystRatingActionKeyOrder,
+  analystRatingActionRawSchema,
+  CACHE_TTL_MS,
+} from "./constants";
+import {
+  AnalystRatingActionApiItem,
+  AnalystRatingActionRow,
+  RawAnalystRatingAction,
+  mapRawAnalystRatingActionToRow,
+} from "./types";
+
+/**
+ * Configuration object passed to `createGenericSupabaseService`.
+ */
+export const analystRatingActionConfig: GenericSupabaseServiceConfig<
+  RawAnalystRatingAction,
+  AnalystRatingActionRow,
+  AnalystRatingActionApiItem
+> = {
+  // --- Core Identification & Storage ---
+  tableName: "analyst_rating_actions",
+
+  // --- FMP API Fetching ---
+  fetchMode: FetchMode.BySymbol,
+  fmpBasePath: "stable",
+  fmpPath: "grades",
+  fmpSymbolLocation: "param", // ?symbol=NVDA
+  fmpParams: {},
+
+  // --- Caching ---
+  cacheTtlMs: CACHE_TTL_MS,
+
+  // --- Data Structure, Uniqueness & Mapping ---
+  // One action per firm and day
+  uniqueKeyColumns: ["symbol", "date", "grading_company"],
+  mapRawToRow: mapRawAnalystRatingActionToRow,
+  mapRowToApi: mapRowToPartialApi,
+  apiFieldOrder: analystRatingActionKeyOrder,
+  rawSchema: analystRatingActionRawSchema, // Per-record checks; failing records are quarantined
+
+  // --- Behavior Modifiers ---
+  isSingleRecordPerSymbol: false, // Full action history per symbol
+  sortByFieldForLatest: "date",
+  asOfColumn: "date", // Actions are public on their date
+};
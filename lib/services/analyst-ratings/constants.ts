@@ -0,0 +1,37 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/analyst-ratings/constants.ts
+ * Constants for the analyst rating actions service.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+import type {
+  AnalystRatingActionApiItem,
+  RawAnalystRatingAction,
+} from "./types";
+
+/** Cache Time-To-Live: rating actions are published during the day. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 12;
+
+/** Order of the keys in API responses. */
+export const analystRatingActionKeyOrder: ReadonlyArray<
+  keyof AnalystRatingActionApiItem
+> = [
+  "id",
+  "symbol",
+  "date",
+  "grading_company",
+  "action",
+  "previous_grade",
+  "new_grade",
+];
+
+/** Per-record schema for raw rating actions; the firm is part of the key. */
+export const analystRatingActionRawSchema: RecordSchema<RawAnalystRatingAction> =
+  {
+    symbol: { type: "string", required: true, pattern: /\S/ },
+    date: { type: "date", required: true },
+    gradingCompany: { type: "string", required: true, pattern: /\S/ },
+    previousGrade: { type: "string" },
+    newGrade: { type: "string" },
+    action: { type: "string" },
+  };
@@ -0,0 +1,38 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Individual analyst rating actions (upgrades, downgrades...) per symbol
+CREATE TABLE IF NOT EXISTS public.analyst_rating_actions (
+    -- Primary Key (Standard UUID)
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol              TEXT NOT NULL,
+    date                DATE NOT NULL,          -- Date of the action
+    grading_company     TEXT NOT NULL,          -- Firm, e.g. 'Morgan Stanley'
+
+    -- Action
+    action              TEXT NULL,              -- 'upgrade', 'downgrade', 'maintain', 'initiate'...
+    previous_grade      TEXT NULL,
+    new_grade           TEXT NULL,
+
+    -- Timestamps
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, date, grading_company),
+    CONSTRAINT fk_analyst_rating_actions_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.analyst_rating_actions IS 'Individual analyst rating actions per symbol fetched from FMP API.';
+
+-- Index for reading a symbol's actions by date
+CREATE INDEX IF NOT EXISTS idx_analyst_rating_actions_symbol_date ON public.analyst_rating_actions(symbol, date DESC);
+-- Index for cache checks
+CREATE INDEX IF NOT EXISTS idx_analyst_rating_actions_modified_at ON public.analyst_rating_actions(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_analyst_rating_actions_updated_at
+BEFORE UPDATE ON public.analyst_rating_actions
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
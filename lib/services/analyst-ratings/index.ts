@@ -0,0 +1,38 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/analyst-ratings/index.ts
+ * Instantiates and exports the analyst rating actions service methods.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { analystRatingActionConfig } from "./config";
+import type {
+  AnalystRatingActionApiItem,
+  AnalystRatingActionRow,
+  RawAnalystRatingAction,
+} from "./types";
+
+const analystRatingActionService = createGenericSupabaseService<
+  RawAnalystRatingAction,
+  AnalystRatingActionRow,
+  AnalystRatingActionApiItem
+>(analystRatingActionConfig);
+
+/**
+ * Fetches the rating actions of a symbol (newest first), refreshing them
+ * from FMP when stale. A symbol no firm covers has no rows; the generic
+ * service reports that as "No data found".
+ * Returns Promise<Partial<AnalystRatingActionApiItem>[]>
+ */
+export const getAnalystRatingActionsForSymbol =
+  analystRatingActionService.getAllForSymbol;
+export const getAnalystRatingActionsForSymbolWithStatus =
+  analystRatingActionService.getAllForSymbolWithStatus;
+
+/**
+ * Admin cache control: forced refresh of a symbol's rating actions from
+ * FMP, and deletion of stored actions (one symbol, or all).
+ */
+export const refreshAnalystRatingActions = analystRatingActionService.refresh;
+export const purgeAnalystRatingActions = analystRatingActionService.purge;
+
+export type { AnalystRatingActionApiItem, AnalystRatingActionRow };
@@ -0,0 +1,40 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/analyst-ratings/types.ts
+ * Type definitions and mappers for individual analyst rating actions
+ * (upgrades, downgrades...) using Supabase.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+export type AnalystRatingActionRow =
+  Database["public"]["Tables"]["analyst_rating_actions"]["Row"];
+
+// 1. Interface for Raw Data from FMP API (camelCase)
+export interface RawAnalystRatingAction {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  gradingCompany: string; // e.g. "Morgan Stanley"
+  previousGrade: string | null;
+  newGrade: string | null;
+  action: string | null; // e.g. "upgrade", "downgrade", "maintain", "initiate"
+}
+
+// 2. Interface for API Response Shape
+export interface AnalystRatingActionApiItem
+  extends Omit<AnalystRatingActionRow, "id" | "modified_at"> {
+  id: string;
+}
+
+/**
+ * Maps a raw FMP rating action to the structure needed for DB storage.
+ * Actions are lower-cased: FMP mixes "upgrade" and "Upgrade".
+ */
+export const mapRawAnalystRatingActionToRow = (
+  raw: RawAnalystRatingAction
+): Omit<AnalystRatingActionRow, "id" | "modified_at"> => ({
+  symbol: raw.symbol,
+  date: raw.date.slice(0, 10),
+  grading_company: raw.gradingCompany.trim(),
+  previous_grade: raw.previousGrade || null,
+  new_grade: raw.newGrade || null,
+  action: raw.action ? raw.action.toLowerCase() : null,
+});
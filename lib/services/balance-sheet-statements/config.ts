@@ -8,7 +8,15 @@ import {
   FetchMode,
 } from "@/lib/common/supabase"; // Adjust path for common Supabase types
 import { mapRowToPartialApi } from "@/lib/common/supabase"; // Import common Supabase mapper
-import { balanceSheetKeyOrder, CACHE_TTL_MS } from "./constants"; // Import constants (ensure balanceSheetKeyOrder uses snake_case)
+import {
+  ANNUAL_PERIOD_VALUES,
+  QUARTER_PERIOD_VALUES,
+} from "@/lib/common/statements";
+import {
+  balanceSheetKeyOrder,
+  CACHE_TTL_MS,
+  balanceSheetRawSchema,
+} from "./constants"; // Import constants (ensure balanceSheetKeyOrder uses snake_case)
 
 // Import specific types and mappers for Balance Sheets (Supabase version)
 import {
@@ -40,6 +48,7 @@ export const balanceSheetStatementConfig: GenericSupabaseServiceConfig<
   fmpPath: "balance-sheet-statement", // FMP specific endpoint path
   fmpSymbolLocation: "path", // Explicitly state symbol goes in path for this endpoint
   fmpParams: { period: "annual" }, // Static query parameters for FMP API
+  recordScope: { column: "period", values: ANNUAL_PERIOD_VALUES }, // Annual (FY) rows only
 
   // --- Caching ---
   cacheTtlMs: CACHE_TTL_MS, // How long data is considered fresh
@@ -50,13 +59,32 @@ export const balanceSheetStatementConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawBalanceSheetToRow, // Use Supabase-specific Raw -> Row mapper
   mapRowToApi: mapRowToPartialApi, // Use common Supabase Row -> API mapper
   apiFieldOrder: balanceSheetKeyOrder, // Use defined key order (snake_case)
+  rawSchema: balanceSheetRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers for 'bySymbol' mode ---
   isSingleRecordPerSymbol: false, // FMP returns multiple historical records
   // Use the 'date' column (which exists in BaseRow/BalanceSheetStatementRow)
   sortByFieldForLatest: "date",
+  // Restatements overwrite rows in place; keep a diff of every change
+  trackVersions: true,
+  // Filing timestamp: asOf reads only see statements filed by then
+  asOfColumn: "accepted_date",
 
   // --- Optional Callbacks ---
   // validateRawData: (data: unknown): data is RawBalanceSheetStatement | RawBalanceSheetStatement[] => {/*...*/ return true;},
   // processRawDataArray: (rawData: RawBalanceSheetStatement[]) => { /*...*/ return rawData; },
 };
+
+/**
+ * Configuration for quarterly balance sheets. Shares the table with the
+ * annual service; the 'period' column (Q1-Q4 vs FY) keeps them apart.
+ */
+export const balanceSheetStatementQuarterlyConfig: GenericSupabaseServiceConfig<
+  RawBalanceSheetStatement,
+  BalanceSheetStatementRow,
+  BalanceSheetStatement
+> = {
+  ...balanceSheetStatementConfig,
+  fmpParams: { period: "quarter" }, // Quarterly statements from FMP
+  recordScope: { column: "period", values: QUARTER_PERIOD_VALUES },
+};
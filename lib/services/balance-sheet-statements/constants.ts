@@ -4,7 +4,13 @@
  * ---------------------------------------------------------------------*/
 
 // Import the BalanceSheetStatement API type definition (Supabase version)
-import type { BalanceSheetStatement } from "./types";
+import type { BalanceSheetStatement, RawBalanceSheetStatement } from "./types";
+import {
+  STATEMENT_METADATA_FIELDS,
+  statementHeaderSchema,
+  type TtmOptions,
+} from "@/lib/common/statements";
+import type { RecordSchema } from "@/lib/common/validation";
 
 /** Cache Time-To-Live: How long fetched data is considered fresh before re-fetching. */
 // Example: 1 week (adjust as needed)
@@ -74,3 +80,36 @@ export const balanceSheetKeyOrder: ReadonlyArray<keyof BalanceSheetStatement> =
     "final_link", // snake_case
     // created_at and modified_at are excluded by the mapper
   ];
+
+/**
+ * Roll-up rules for trailing-twelve-month balance sheets.
+ * A balance sheet is a point-in-time snapshot, so nothing is summed: the TTM
+ * balance sheet is the latest quarter's, labelled 'TTM'.
+ */
+export const balanceSheetTtmOptions: TtmOptions<BalanceSheetStatement> = {
+  sumFields: [],
+};
+
+/** Fields converted by `?currency=`: every line item of the balance sheet. */
+export const balanceSheetMonetaryFields: ReadonlyArray<
+  keyof BalanceSheetStatement
+> = balanceSheetKeyOrder.filter(
+  (field) => !STATEMENT_METADATA_FIELDS.includes(field)
+);
+
+/**
+ * Per-record schema for raw balance sheets from FMP. Records failing it are
+ * quarantined instead of ingested. Line items are checked for type only.
+ */
+export const balanceSheetRawSchema: RecordSchema<RawBalanceSheetStatement> = {
+  ...statementHeaderSchema,
+  cashAndCashEquivalents: { type: "number" },
+  totalCurrentAssets: { type: "number" },
+  totalAssets: { type: "number" },
+  totalCurrentLiabilities: { type: "number" },
+  totalLiabilities: { type: "number" },
+  totalStockholdersEquity: { type: "number" },
+  totalEquity: { type: "number" },
+  totalDebt: { type: "number" },
+  netDebt: { type: "number" },
+};
@@ -5,9 +5,17 @@
 
 // 1. Import the generic service creator function for SUPABASE
 import { createGenericSupabaseService } from "@/lib/common/supabase"; // Adjust path as needed
+import {
+  createPeriodStatementService,
+  type StatementPeriod,
+} from "@/lib/common/statements";
 
 // 2. Import the specific configuration for balance sheets (Supabase version)
-import { balanceSheetStatementConfig } from "./config";
+import {
+  balanceSheetStatementConfig,
+  balanceSheetStatementQuarterlyConfig,
+} from "./config";
+import { balanceSheetKeyOrder, balanceSheetTtmOptions } from "./constants";
 
 // 3. Import specific types for Supabase (Raw, Row, and API types)
 import type {
@@ -24,29 +32,80 @@ const balanceSheetService = createGenericSupabaseService<
   BalanceSheetStatement // Conceptual API type (service returns Partial<BalanceSheetStatement>)
 >(balanceSheetStatementConfig);
 
+// Quarterly rows live in the same table, scoped by the 'period' column
+const balanceSheetQuarterlyService = createGenericSupabaseService<
+  RawBalanceSheetStatement,
+  BalanceSheetStatementRow,
+  BalanceSheetStatement
+>(balanceSheetStatementQuarterlyConfig);
+
+// Period-aware facade: annual (default), quarter, or TTM derived from quarters
+const balanceSheetPeriodService =
+  createPeriodStatementService<BalanceSheetStatement>({
+    annual: balanceSheetService,
+    quarterly: balanceSheetQuarterlyService,
+    ttm: balanceSheetTtmOptions,
+    fieldOrder: balanceSheetKeyOrder,
+  });
+
 // --- Export Domain-Specific Service Methods ---
 
 /**
  * Fetches the latest balance sheet statement for a specific symbol based on config.sortByFieldForLatest.
+ * `period` selects annual (default), quarter or ttm.
  * Returns Promise<Partial<BalanceSheetStatement> | null>
  */
-export const getLatestBalanceSheetStatement = balanceSheetService.getOne;
+export const getLatestBalanceSheetStatement = balanceSheetPeriodService.getOne;
 
 /**
  * Fetches all historical balance sheet statements for a specific symbol.
+ * `period` selects annual (default), quarter or ttm (rolling TTM series).
  * Returns Promise<Partial<BalanceSheetStatement>[]>
  */
 export const getBalanceSheetStatementsForSymbol =
-  balanceSheetService.getAllForSymbol;
+  balanceSheetPeriodService.getAllForSymbol;
 
 /**
  * Fetches a list view of balance sheet statements (behavior depends on service config/fetch mode).
+ * `period` selects annual (default), quarter or ttm (latest TTM per symbol).
+ * Returns Promise<Partial<BalanceSheetStatement>[]>
+ */
+export const getAllBalanceSheetStatements = balanceSheetPeriodService.getAll;
+
+/**
+ * Fetches the restatement history of the balance sheet statement reported on `date`:
+ * the current values plus one version record per change, newest first.
+ * `period` selects annual (default) or quarter.
+ * Returns Promise<StatementHistory<BalanceSheetStatement>>
+ */
+export const getBalanceSheetStatementHistory =
+  balanceSheetPeriodService.getHistory;
+
+/**
+ * Point-in-time read: the balance sheet statements for a symbol as publicly known at the
+ * end of `asOf` (YYYY-MM-DD). Statements filed later are left out and later
+ * restatements are undone. `period` selects annual (default), quarter or ttm.
  * Returns Promise<Partial<BalanceSheetStatement>[]>
  */
-export const getAllBalanceSheetStatements = balanceSheetService.getAll;
+export const getBalanceSheetStatementsAsOf = (
+  symbol: string,
+  asOf: string,
+  period: StatementPeriod = "annual"
+) => balanceSheetPeriodService.getAllForSymbol(symbol, period, { asOf });
+
+/**
+ * Admin cache control: forced refresh of a symbol's annual and quarterly
+ * balance sheet statements, and deletion of stored ones (one symbol, or all) so the
+ * next read refetches.
+ */
+export const refreshBalanceSheetStatements = balanceSheetPeriodService.refresh;
+export const purgeBalanceSheetStatements = balanceSheetPeriodService.purge;
 
 // Note: getBalanceSheetStatementCollection (MongoDB specific) is removed.
 
+/** Amount fields, converted when a response is requested in another currency. */
+export { balanceSheetMonetaryFields } from "./constants";
+
 // --- Re-export Types ---
 // Export types relevant for consumers using this service with Supabase
 export type { BalanceSheetStatement, BalanceSheetStatementRow }; // Export Row type instead of Doc type
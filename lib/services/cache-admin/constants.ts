@@ -0,0 +1,196 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-admin/constants.ts
+ * Datasets that admins can refresh or purge, and request limits.
+ * ---------------------------------------------------------------------*/
+import {
+  purgeAnalystRatingActions,
+  refreshAnalystRatingActions,
+} from "@/lib/services/analyst-ratings";
+import {
+  purgeBalanceSheetStatements,
+  refreshBalanceSheetStatements,
+} from "@/lib/services/balance-sheet-statements";
+import {
+  purgeCashFlowStatements,
+  refreshCashFlowStatements,
+} from "@/lib/services/cash-flow-statements";
+import { purgeDividends, refreshDividends } from "@/lib/services/dividends";
+import {
+  purgeEarningsCalendar,
+  refreshEarningsCalendar,
+} from "@/lib/services/earnings-calendar";
+import { purgeFxRates, refreshFxRates } from "@/lib/services/fx-rates";
+import {
+  purgeGradesConsensus,
+  refreshGradesConsensus,
+} from "@/lib/services/grades-consensus";
+import {
+  purgeHistoricalPrices,
+  refreshHistoricalPricesForSymbol,
+} from "@/lib/services/historical-prices";
+import {
+  purgeIncomeStatements,
+  refreshIncomeStatements,
+} from "@/lib/services/income-statements";
+import {
+  purgeInsiderTrades,
+  refreshInsiderTrades,
+} from "@/lib/services/insider-trades";
+import {
+  purgeIntradayPrices,
+  refreshIntradayPrices,
+} from "@/lib/services/intraday-prices";
+import {
+  purgePriceTargets,
+  refreshPriceTargets,
+} from "@/lib/services/price-targets";
+import { purgeProfiles, refreshProfile } from "@/lib/services/profiles";
+import { generateSignalsForSymbol, purgeSignals } from "@/lib/services/signals";
+import {
+  purgeStockSplits,
+  refreshStockSplits,
+} from "@/lib/services/stock-splits";
+import {
+  purgeStockScreener,
+  refreshStockScreener,
+} from "@/lib/services/stocker-screener";
+
+import type { CacheAction, CacheControlDataset } from "./types";
+
+export const CACHE_ACTIONS: ReadonlyArray<CacheAction> = ["refresh", "purge"];
+
+// Each refreshed symbol costs provider calls, so requests are capped
+export const MAX_CACHE_CONTROL_SYMBOLS = 25;
+
+// Collection refreshes ignore the symbol argument
+const refreshCollection = (refresh: () => Promise<void>) => () => refresh();
+
+// Per-symbol refreshes need one; the route checks symbols are given
+const bySymbol =
+  (refresh: (symbol: string) => Promise<void>) => (symbol?: string) => {
+    if (!symbol) throw new Error("Symbol required for this dataset.");
+    return refresh(symbol);
+  };
+
+export const CACHE_CONTROL_DATASETS: ReadonlyArray<CacheControlDataset> = [
+  {
+    dataset: "profiles",
+    collection: false,
+    refresh: bySymbol(refreshProfile),
+    purge: purgeProfiles, // Cascades to every table referencing profiles
+    feedsSignals: false,
+  },
+  {
+    dataset: "income-statements",
+    collection: false,
+    refresh: bySymbol(refreshIncomeStatements),
+    purge: purgeIncomeStatements,
+    feedsSignals: false,
+  },
+  {
+    dataset: "balance-sheet-statements",
+    collection: false,
+    refresh: bySymbol(refreshBalanceSheetStatements),
+    purge: purgeBalanceSheetStatements,
+    feedsSignals: false,
+  },
+  {
+    dataset: "cash-flow-statements",
+    collection: false,
+    refresh: bySymbol(refreshCashFlowStatements),
+    purge: purgeCashFlowStatements,
+    feedsSignals: false,
+  },
+  {
+    dataset: "historical-prices",
+    collection: false,
+    refresh: bySymbol(refreshHistoricalPricesForSymbol),
+    purge: purgeHistoricalPrices,
+    feedsSignals: true, // SMA, EMA, MACD, RSI, price target crosses
+  },
+  {
+    // Refreshes every interval already stored for the symbol
+    dataset: "intraday-prices",
+    collection: false,
+    refresh: bySymbol((symbol) => refreshIntradayPrices(symbol)),
+    purge: purgeIntradayPrices,
+    feedsSignals: false, // Interval signals are computed per request
+  },
+  {
+    dataset: "grades-consensus",
+    collection: false,
+    refresh: bySymbol(refreshGradesConsensus),
+    purge: purgeGradesConsensus,
+    feedsSignals: true, // Analyst consensus
+  },
+  {
+    dataset: "analyst-ratings",
+    collection: false,
+    refresh: bySymbol(refreshAnalystRatingActions),
+    purge: purgeAnalystRatingActions,
+    feedsSignals: false,
+  },
+  {
+    dataset: "price-targets",
+    collection: false,
+    refresh: bySymbol(refreshPriceTargets),
+    purge: purgePriceTargets,
+    feedsSignals: true, // Target raises/cuts and crosses (analyst service)
+  },
+  {
+    dataset: "insider-trades",
+    collection: false,
+    refresh: bySymbol(refreshInsiderTrades),
+    purge: purgeInsiderTrades,
+    feedsSignals: true, // Insider activity
+  },
+  {
+    dataset: "stock-splits",
+    collection: false,
+    refresh: bySymbol(refreshStockSplits),
+    purge: purgeStockSplits,
+    feedsSignals: true, // Split-adjusted SMA, EMA, MACD, RSI
+  },
+  {
+    dataset: "dividends",
+    collection: false,
+    refresh: bySymbol(refreshDividends),
+    purge: purgeDividends,
+    feedsSignals: true, // Total-return SMA, EMA, MACD, RSI
+  },
+  {
+    dataset: "earnings-calendar",
+    collection: true,
+    refresh: refreshCollection(refreshEarningsCalendar),
+    purge: purgeEarningsCalendar,
+    feedsSignals: true, // Earnings
+  },
+  {
+    dataset: "stock-screener",
+    collection: true,
+    refresh: refreshCollection(refreshStockScreener),
+    purge: purgeStockScreener,
+    feedsSignals: false,
+  },
+  {
+    // Symbols are currency pairs, e.g. EURUSD
+    dataset: "fx-rates",
+    collection: false,
+    refresh: bySymbol(refreshFxRates),
+    purge: purgeFxRates,
+    feedsSignals: false,
+  },
+  {
+    // Refreshing signals recomputes them from the stored data
+    dataset: "signals",
+    collection: false,
+    refresh: bySymbol(async (symbol) => {
+      const failures = await generateSignalsForSymbol(symbol, undefined, true);
+      if (failures.length > 0) {
+        throw new Error(`Signal generation failed: ${failures.join("; ")}`);
+      }
+    }),
+    purge: purgeSignals,
+    feedsSignals: false,
+  },
+];
@@ -0,0 +1,22 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-admin/index.ts
+ * Exports admin cache control (forced refresh and purge).
+ * ---------------------------------------------------------------------*/
+
+export {
+  findCacheControlDataset,
+  recomputeDependentSignals,
+  runCacheControl,
+} from "./runCacheControl";
+export {
+  CACHE_ACTIONS,
+  CACHE_CONTROL_DATASETS,
+  MAX_CACHE_CONTROL_SYMBOLS,
+} from "./constants";
+
+export type {
+  CacheAction,
+  CacheControlDataset,
+  CacheControlItemResult,
+  CacheControlResult,
+} from "./types";
@@ -0,0 +1,113 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-admin/runCacheControl.ts
+ * Runs a forced refresh or purge for a dataset and recomputes the signals
+ * that depend on refreshed data.
+ * Symbols are processed one after another and fail independently.
+ * ---------------------------------------------------------------------*/
+import { generateSignalsForSymbol } from "@/lib/services/signals";
+
+import { CACHE_CONTROL_DATASETS } from "./constants";
+import type {
+  CacheAction,
+  CacheControlDataset,
+  CacheControlItemResult,
+  CacheControlResult,
+} from "./types";
+
+/** Looks up a dataset by its request name, undefined if unknown. */
+export function findCacheControlDataset(
+  dataset: string
+): CacheControlDataset | undefined {
+  return CACHE_CONTROL_DATASETS.find((d) => d.dataset === dataset);
+}
+
+// Runs one refresh/purge, turning failures into an 'error' result
+async function runOne(
+  definition: CacheControlDataset,
+  action: CacheAction,
+  symbol: string | null
+): Promise<CacheControlItemResult> {
+  try {
+    if (action === "purge") {
+      const deleted = await definition.purge(symbol ?? undefined);
+      return { symbol, status: "purged", deleted };
+    }
+    await definition.refresh(symbol ?? undefined);
+    return { symbol, status: "refreshed" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(
+      `[CacheAdmin] ${action} of ${definition.dataset}${
+        symbol ? ` for ${symbol}` : ""
+      } failed: ${message}`
+    );
+    return { symbol, status: "error", error: message };
+  }
+}
+
+/**
+ * Recomputes all signals of the given symbols, regardless of their TTL, if
+ * the dataset feeds signals. Returns the symbols recomputed.
+ */
+export async function recomputeDependentSignals(
+  dataset: string,
+  symbols: ReadonlyArray<string>
+): Promise<string[]> {
+  if (!findCacheControlDataset(dataset)?.feedsSignals) return [];
+  for (const symbol of symbols) {
+    await generateSignalsForSymbol(symbol, undefined, true);
+  }
+  return [...symbols];
+}
+
+/**
+ * Refreshes or purges a dataset.
+ * - Per-symbol datasets: one operation per symbol. Purging without symbols
+ *   clears the whole dataset; refreshing requires symbols.
+ * - Collection datasets: one refresh covers everything; symbols limit purges.
+ * After a refresh, signals of the given symbols are recomputed when the
+ * dataset feeds them (a collection-wide refresh without symbols leaves
+ * signals to their TTL). Purges recompute nothing.
+ */
+export async function runCacheControl(
+  definition: CacheControlDataset,
+  action: CacheAction,
+  symbols: ReadonlyArray<string>
+): Promise<CacheControlResult> {
+  console.log(
+    `[CacheAdmin] ${action} ${definition.dataset} (symbols: ${
+      symbols.join(",") || "*"
+    })`
+  );
+  const results: CacheControlItemResult[] = [];
+  const perSymbol =
+    symbols.length > 0 && (action === "purge" || !definition.collection);
+  if (perSymbol) {
+    for (const symbol of symbols) {
+      results.push(await runOne(definition, action, symbol));
+    }
+  } else {
+    results.push(await runOne(definition, action, null));
+  }
+
+  let signalsRecomputed: string[] = [];
+  if (action === "refresh") {
+    const refreshed = results.filter((r) => r.status === "refreshed");
+    // A collection refresh has a single result covering every symbol
+    const refreshedSymbols = definition.collection
+      ? refreshed.length > 0
+        ? symbols
+        : []
+      : refreshed.map((r) => r.symbol as string);
+    signalsRecomputed = await recomputeDependentSignals(
+      definition.dataset,
+      refreshedSymbols
+    );
+  }
+  return {
+    dataset: definition.dataset,
+    action,
+    results,
+    signalsRecomputed,
+  };
+}
@@ -0,0 +1,40 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-admin/types.ts
+ * Type definitions for admin cache control (forced refresh and purge).
+ * ---------------------------------------------------------------------*/
+
+/** 'refresh': fetch from the provider now. 'purge': delete stored rows. */
+export type CacheAction = "refresh" | "purge";
+
+/** A dataset that can be refreshed or purged on demand. */
+export interface CacheControlDataset {
+  /** Name used in requests, e.g. 'income-statements'. */
+  dataset: string;
+  /**
+   * One provider fetch covers every symbol (earnings calendar, screener).
+   * Symbols then only limit purges and the signal recompute.
+   */
+  collection: boolean;
+  refresh(symbol?: string): Promise<void>;
+  /** Deletes stored rows (one symbol, or all); returns the count. */
+  purge(symbol?: string): Promise<number>;
+  /** Signals are computed from this dataset and recomputed after a refresh. */
+  feedsSignals: boolean;
+}
+
+export interface CacheControlItemResult {
+  /** null for a collection-wide refresh or purge. */
+  symbol: string | null;
+  status: "refreshed" | "purged" | "error";
+  /** Purge only: rows deleted. */
+  deleted?: number;
+  error?: string;
+}
+
+export interface CacheControlResult {
+  dataset: string;
+  action: CacheAction;
+  results: CacheControlItemResult[];
+  /** Symbols whose signals were recomputed after the refresh. */
+  signalsRecomputed: string[];
+}
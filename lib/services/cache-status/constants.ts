@@ -0,0 +1,79 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-status/constants.ts
+ * The cached tables covered by the cache freshness report.
+ * Table names and TTLs come from the services' own configs/constants, so
+ * the report follows them when they change.
+ * ---------------------------------------------------------------------*/
+import { analystRatingActionConfig } from "@/lib/services/analyst-ratings/config";
+import { balanceSheetStatementConfig } from "@/lib/services/balance-sheet-statements/config";
+import { cashFlowStatementConfig } from "@/lib/services/cash-flow-statements/config";
+import { dividendConfig } from "@/lib/services/dividends/config";
+import { earningsCalendarConfig } from "@/lib/services/earnings-calendar/config";
+import { fxRatesConfig } from "@/lib/services/fx-rates/config";
+import { gradesConsensusConfig } from "@/lib/services/grades-consensus/config";
+import { CACHE_TTL_MS as HISTORICAL_PRICES_TTL_MS } from "@/lib/services/historical-prices/constants";
+import { INTRADAY_CACHE_TTL_MS } from "@/lib/services/intraday-prices/constants";
+import { incomeStatementConfig } from "@/lib/services/income-statements/config";
+import { insiderTradeConfig } from "@/lib/services/insider-trades/config";
+import { priceTargetConfig } from "@/lib/services/price-targets/config";
+import { profileConfig } from "@/lib/services/profiles/config";
+import { SMA_SIGNALS_TTL_MS } from "@/lib/services/signal-sma/service";
+import { stockSplitConfig } from "@/lib/services/stock-splits/config";
+import { stockScreenerConfig } from "@/lib/services/stocker-screener/config";
+
+import type { CacheDatasetDefinition } from "./types";
+
+// Generic service configs differ in their type parameters, only the
+// table name and TTL are needed here
+const fromConfig = (
+  dataset: string,
+  config: { tableName: string; cacheTtlMs: number }
+): CacheDatasetDefinition => ({
+  dataset,
+  tableName: config.tableName,
+  cacheTtlMs: config.cacheTtlMs,
+  timestampColumn: "modified_at",
+});
+
+/** Datasets in report order. */
+export const CACHE_DATASETS: ReadonlyArray<CacheDatasetDefinition> = [
+  fromConfig("profiles", profileConfig),
+  // Annual and quarterly statements share a table and TTL
+  fromConfig("income-statements", incomeStatementConfig),
+  fromConfig("balance-sheet-statements", balanceSheetStatementConfig),
+  fromConfig("cash-flow-statements", cashFlowStatementConfig),
+  {
+    dataset: "historical-prices",
+    tableName: "historical_prices",
+    cacheTtlMs: HISTORICAL_PRICES_TTL_MS,
+    timestampColumn: "modified_at",
+  },
+  {
+    dataset: "intraday-prices",
+    tableName: "intraday_prices",
+    // TTLs follow the interval; symbols are reported stale past the longest
+    cacheTtlMs: INTRADAY_CACHE_TTL_MS["1h"],
+    timestampColumn: "modified_at",
+  },
+  fromConfig("grades-consensus", gradesConsensusConfig),
+  fromConfig("analyst-ratings", analystRatingActionConfig),
+  fromConfig("price-targets", priceTargetConfig),
+  fromConfig("insider-trades", insiderTradeConfig),
+  fromConfig("stock-splits", stockSplitConfig),
+  fromConfig("dividends", dividendConfig),
+  fromConfig("earnings-calendar", earningsCalendarConfig),
+  fromConfig("stock-screener", stockScreenerConfig),
+  // Per currency pair rather than per company
+  fromConfig("fx-rates", fxRatesConfig),
+  {
+    dataset: "signals",
+    tableName: "signals",
+    // All signal services regenerate on the same 23h TTL
+    cacheTtlMs: SMA_SIGNALS_TTL_MS,
+    timestampColumn: "created_at",
+  },
+];
+
+// PostgREST caps result sets (max-rows, 1000 by default), so per-symbol
+// aggregates are read in pages of this size
+export const FRESHNESS_PAGE_SIZE = 1000;
@@ -0,0 +1,148 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-status/getCacheStatus.ts
+ * Builds the cache freshness report: per cached table the row count,
+ * oldest/newest write and the symbols past their TTL.
+ * On Supabase, aggregation runs in the database (cache_freshness function,
+ * see lib/supabase/DDLs/cache_freshness.sql); other storage backends are
+ * aggregated here from the symbol and timestamp columns.
+ * ---------------------------------------------------------------------*/
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import type { Database } from "@/lib/supabase/database.types";
+
+import { CACHE_DATASETS, FRESHNESS_PAGE_SIZE } from "./constants";
+import type {
+  CacheDatasetDefinition,
+  CacheStatusReport,
+  DatasetCacheStatus,
+} from "./types";
+
+type FreshnessRow =
+  Database["public"]["Functions"]["cache_freshness"]["Returns"][number];
+
+// Reads every per-symbol aggregate of one table, page by page
+async function readFreshness(
+  definition: CacheDatasetDefinition
+): Promise<FreshnessRow[]> {
+  const supabase = getSupabaseServerClient();
+  const rows: FreshnessRow[] = [];
+  for (let from = 0; ; from += FRESHNESS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc("cache_freshness", {
+        p_table_name: definition.tableName,
+        p_timestamp_column: definition.timestampColumn,
+      })
+      .order("symbol")
+      .range(from, from + FRESHNESS_PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(
+        `Freshness check failed for ${definition.tableName}: ${error.message}`
+      );
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < FRESHNESS_PAGE_SIZE) return rows;
+  }
+}
+
+// Same aggregates as cache_freshness, computed from the stored rows
+async function aggregateFreshness(
+  storage: StorageAdapter,
+  definition: CacheDatasetDefinition
+): Promise<FreshnessRow[]> {
+  const { tableName, timestampColumn } = definition;
+  const rows = await storage.select<Record<string, unknown>>(tableName, {
+    columns: ["symbol", timestampColumn],
+    where: [{ column: timestampColumn, op: "neq", value: null }],
+  });
+  const bySymbol = new Map<string, FreshnessRow>();
+  for (const row of rows) {
+    const symbol = String(row.symbol);
+    const timestamp = String(row[timestampColumn]);
+    const entry = bySymbol.get(symbol);
+    if (!entry) {
+      bySymbol.set(symbol, {
+        symbol,
+        row_count: 1,
+        oldest: timestamp,
+        newest: timestamp,
+      });
+      continue;
+    }
+    entry.row_count += 1;
+    entry.oldest = pickTimestamp(entry.oldest, timestamp, true);
+    entry.newest = pickTimestamp(entry.newest, timestamp, false);
+  }
+  return [...bySymbol.values()].sort((a, b) =>
+    a.symbol.localeCompare(b.symbol)
+  );
+}
+
+// Later of two ISO timestamps (null-safe); earlier when `pickEarlier`
+function pickTimestamp(
+  current: string | null,
+  candidate: string,
+  pickEarlier: boolean
+): string {
+  if (current === null) return candidate;
+  const isEarlier = Date.parse(candidate) < Date.parse(current);
+  return isEarlier === pickEarlier ? candidate : current;
+}
+
+async function inspectDataset(
+  storage: StorageAdapter,
+  definition: CacheDatasetDefinition,
+  now: number
+): Promise<DatasetCacheStatus> {
+  const status: DatasetCacheStatus = {
+    dataset: definition.dataset,
+    tableName: definition.tableName,
+    timestampColumn: definition.timestampColumn,
+    cacheTtlMs: definition.cacheTtlMs,
+    rowCount: 0,
+    symbolCount: 0,
+    oldestModifiedAt: null,
+    newestModifiedAt: null,
+    staleSymbols: [],
+  };
+  try {
+    const rows =
+      storage.name === "supabase"
+        ? await readFreshness(definition)
+        : await aggregateFreshness(storage, definition);
+    for (const row of rows) {
+      status.rowCount += row.row_count;
+      status.symbolCount += 1;
+      status.oldestModifiedAt = pickTimestamp(
+        status.oldestModifiedAt,
+        row.oldest,
+        true
+      );
+      status.newestModifiedAt = pickTimestamp(
+        status.newestModifiedAt,
+        row.newest,
+        false
+      );
+      // A refresh rewrites a symbol's rows, so its newest row decides
+      if (now - Date.parse(row.newest) >= definition.cacheTtlMs) {
+        status.staleSymbols.push(row.symbol);
+      }
+    }
+  } catch (error) {
+    status.error = error instanceof Error ? error.message : String(error);
+    console.error(`[CacheStatus] ${status.error}`);
+  }
+  return status;
+}
+
+/**
+ * Inspects every dataset in CACHE_DATASETS. A table that cannot be read is
+ * reported with `error` instead of failing the whole report.
+ */
+export async function getCacheStatusReport(): Promise<CacheStatusReport> {
+  const storage = getStorage();
+  const now = Date.now();
+  const datasets = await Promise.all(
+    CACHE_DATASETS.map((definition) => inspectDataset(storage, definition, now))
+  );
+  return { generatedAt: new Date(now).toISOString(), datasets };
+}
@@ -0,0 +1,13 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-status/index.ts
+ * Exports the cache freshness report.
+ * ---------------------------------------------------------------------*/
+
+export { getCacheStatusReport } from "./getCacheStatus";
+export { CACHE_DATASETS } from "./constants";
+
+export type {
+  CacheDatasetDefinition,
+  CacheStatusReport,
+  DatasetCacheStatus,
+} from "./types";
@@ -0,0 +1,42 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/cache-status/types.ts
+ * Type definitions for the cache freshness report.
+ * ---------------------------------------------------------------------*/
+
+/** A cached table and the TTL its service refreshes it with. */
+export interface CacheDatasetDefinition {
+  /** Display name, e.g. 'income-statements'. */
+  dataset: string;
+  tableName: string;
+  cacheTtlMs: number;
+  /**
+   * Column that tells when a row was last written. 'modified_at' for
+   * provider data, 'created_at' for signals (rows are never updated).
+   */
+  timestampColumn: "modified_at" | "created_at";
+}
+
+/** Freshness of one cached table. */
+export interface DatasetCacheStatus {
+  dataset: string;
+  tableName: string;
+  timestampColumn: string;
+  cacheTtlMs: number;
+  rowCount: number;
+  symbolCount: number;
+  /** Oldest/newest timestamp of any row (ISO), null for an empty table. */
+  oldestModifiedAt: string | null;
+  newestModifiedAt: string | null;
+  /**
+   * Symbols whose newest row is older than cacheTtlMs, i.e. the next read
+   * refreshes them from the provider. Sorted alphabetically.
+   */
+  staleSymbols: string[];
+  /** Set when the table could not be inspected; the counts are then 0. */
+  error?: string;
+}
+
+export interface CacheStatusReport {
+  generatedAt: string;
+  datasets: DatasetCacheStatus[];
+}
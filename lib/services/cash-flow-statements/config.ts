@@ -8,7 +8,11 @@ import {
   FetchMode,
 } from "@/lib/common/supabase"; // Adjust path for common Supabase types
 import { mapRowToPartialApi } from "@/lib/common/supabase"; // Import common Supabase mapper
-import { cashFlowKeyOrder, CACHE_TTL_MS } from "./constants"; // Import constants (ensure cashFlowKeyOrder uses snake_case)
+import {
+  ANNUAL_PERIOD_VALUES,
+  QUARTER_PERIOD_VALUES,
+} from "@/lib/common/statements";
+import { cashFlowKeyOrder, CACHE_TTL_MS, cashFlowRawSchema } from "./constants"; // Import constants (ensure cashFlowKeyOrder uses snake_case)
 
 // Import specific types and mappers for Cash Flow Statements (Supabase version)
 import {
@@ -40,6 +44,7 @@ export const cashFlowStatementConfig: GenericSupabaseServiceConfig<
   fmpPath: "cash-flow-statement", // FMP specific endpoint path
   fmpSymbolLocation: "path", // Explicitly state symbol goes in path for this endpoint
   fmpParams: { period: "annual" }, // Static query parameters for FMP API (fetch annual data)
+  recordScope: { column: "period", values: ANNUAL_PERIOD_VALUES }, // Annual (FY) rows only
 
   // --- Caching ---
   cacheTtlMs: CACHE_TTL_MS, // How long data is considered fresh
@@ -50,13 +55,32 @@ export const cashFlowStatementConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawCashFlowStatementToRow, // Use Supabase-specific Raw -> Row mapper
   mapRowToApi: mapRowToPartialApi, // Use common Supabase Row -> API mapper
   apiFieldOrder: cashFlowKeyOrder, // Use defined key order (snake_case) from constants
+  rawSchema: cashFlowRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers for 'bySymbol' mode ---
   isSingleRecordPerSymbol: false, // FMP returns multiple historical records
   // Use the 'date' column (exists in CashFlowStatementRow) to find the latest
   sortByFieldForLatest: "date",
+  // Restatements overwrite rows in place; keep a diff of every change
+  trackVersions: true,
+  // Filing timestamp: asOf reads only see statements filed by then
+  asOfColumn: "accepted_date",
 
   // --- Optional Callbacks ---
   // validateRawData: (data: unknown): data is RawCashFlowStatement | RawCashFlowStatement[] => {/*...*/ return true;},
   // processRawDataArray: (rawData: RawCashFlowStatement[]) => { /*...*/ return rawData; },
 };
+
+/**
+ * Configuration for quarterly cash flow statements. Shares the table with the
+ * annual service; the 'period' column (Q1-Q4 vs FY) keeps them apart.
+ */
+export const cashFlowStatementQuarterlyConfig: GenericSupabaseServiceConfig<
+  RawCashFlowStatement,
+  CashFlowStatementRow,
+  CashFlowStatement
+> = {
+  ...cashFlowStatementConfig,
+  fmpParams: { period: "quarter" }, // Quarterly statements from FMP
+  recordScope: { column: "period", values: QUARTER_PERIOD_VALUES },
+};
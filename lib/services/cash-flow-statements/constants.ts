@@ -4,7 +4,13 @@
  * ---------------------------------------------------------------------*/
 
 // Import the CashFlowStatement API type definition (Supabase version)
-import type { CashFlowStatement } from "./types";
+import type { CashFlowStatement, RawCashFlowStatement } from "./types";
+import {
+  STATEMENT_METADATA_FIELDS,
+  statementHeaderSchema,
+  type TtmOptions,
+} from "@/lib/common/statements";
+import type { RecordSchema } from "@/lib/common/validation";
 
 /** Cache Time-To-Live: How long fetched data is considered fresh before re-fetching. */
 // Using 1 week like the previous example
@@ -59,3 +65,63 @@ export const cashFlowKeyOrder: ReadonlyArray<keyof CashFlowStatement> = [
   "final_link", // snake_case
   // created_at and modified_at are excluded by the mapper
 ];
+
+/**
+ * Roll-up rules for trailing-twelve-month cash flow statements.
+ * All flows are summed over four quarters. Closing cash comes from the latest
+ * quarter, opening cash from the oldest.
+ */
+export const cashFlowTtmOptions: TtmOptions<CashFlowStatement> = {
+  sumFields: [
+    "net_income",
+    "depreciation_and_amortization",
+    "deferred_income_tax",
+    "stock_based_compensation",
+    "change_in_working_capital",
+    "accounts_receivables",
+    "inventory",
+    "accounts_payables",
+    "other_working_capital",
+    "other_non_cash_items",
+    "net_cash_provided_by_operating_activities",
+    "investments_in_property_plant_and_equipment",
+    "acquisitions_net",
+    "purchases_of_investments",
+    "sales_maturities_of_investments",
+    "other_investing_activites",
+    "net_cash_used_for_investing_activites",
+    "debt_repayment",
+    "common_stock_issued",
+    "common_stock_repurchased",
+    "dividends_paid",
+    "other_financing_activites",
+    "net_cash_used_provided_by_financing_activities",
+    "effect_of_forex_changes_on_cash",
+    "net_change_in_cash",
+    "operating_cash_flow",
+    "capital_expenditure",
+    "free_cash_flow",
+  ],
+  earliestFields: ["cash_at_beginning_of_period"],
+};
+
+/** Fields converted by `?currency=`: every line item of the cash flow statement. */
+export const cashFlowMonetaryFields: ReadonlyArray<keyof CashFlowStatement> =
+  cashFlowKeyOrder.filter(
+    (field) => !STATEMENT_METADATA_FIELDS.includes(field)
+  );
+
+/**
+ * Per-record schema for raw cash flow statements from FMP. Records failing it are
+ * quarantined instead of ingested. Line items are checked for type only.
+ */
+export const cashFlowRawSchema: RecordSchema<RawCashFlowStatement> = {
+  ...statementHeaderSchema,
+  netIncome: { type: "number" },
+  operatingCashFlow: { type: "number" },
+  capitalExpenditure: { type: "number" },
+  freeCashFlow: { type: "number" },
+  cashAtBeginningOfPeriod: { type: "number" },
+  cashAtEndOfPeriod: { type: "number" },
+  netChangeInCash: { type: "number" },
+};
@@ -5,9 +5,17 @@
 
 // 1. Import the generic service creator function for SUPABASE
 import { createGenericSupabaseService } from "@/lib/common/supabase"; // Adjust path as needed
+import {
+  createPeriodStatementService,
+  type StatementPeriod,
+} from "@/lib/common/statements";
 
 // 2. Import the specific configuration for cash flow statements (Supabase version)
-import { cashFlowStatementConfig } from "./config";
+import {
+  cashFlowStatementConfig,
+  cashFlowStatementQuarterlyConfig,
+} from "./config";
+import { cashFlowKeyOrder, cashFlowTtmOptions } from "./constants";
 
 // 3. Import specific types for Supabase (Raw, Row, and API types)
 import type {
@@ -24,32 +32,83 @@ const cashFlowStatementService = createGenericSupabaseService<
   CashFlowStatement // Conceptual API type (service returns Partial<CashFlowStatement>)
 >(cashFlowStatementConfig);
 
+// Quarterly rows live in the same table, scoped by the 'period' column
+const cashFlowStatementQuarterlyService = createGenericSupabaseService<
+  RawCashFlowStatement,
+  CashFlowStatementRow,
+  CashFlowStatement
+>(cashFlowStatementQuarterlyConfig);
+
+// Period-aware facade: annual (default), quarter, or TTM derived from quarters
+const cashFlowStatementPeriodService =
+  createPeriodStatementService<CashFlowStatement>({
+    annual: cashFlowStatementService,
+    quarterly: cashFlowStatementQuarterlyService,
+    ttm: cashFlowTtmOptions,
+    fieldOrder: cashFlowKeyOrder,
+  });
+
 // --- Export Domain-Specific Service Methods ---
 
 /**
  * Fetches the latest cash flow statement for a specific symbol based on config.sortByFieldForLatest.
  * Handles caching and fetching from FMP if data is stale or missing.
+ * `period` selects annual (default), quarter or ttm.
  * Returns Promise<Partial<CashFlowStatement> | null>
  */
-export const getLatestCashFlowStatement = cashFlowStatementService.getOne;
+export const getLatestCashFlowStatement = cashFlowStatementPeriodService.getOne;
 
 /**
  * Fetches all historical cash flow statements for a specific symbol, sorted newest first (based on service config).
  * Ensures the latest data is fresh before returning history.
+ * `period` selects annual (default), quarter or ttm (rolling TTM series).
  * Returns Promise<Partial<CashFlowStatement>[]>
  */
 export const getCashFlowStatementsForSymbol =
-  cashFlowStatementService.getAllForSymbol;
+  cashFlowStatementPeriodService.getAllForSymbol;
 
 /**
  * Retrieves a list view of cash flow statements across all symbols.
  * Behavior depends on service config (e.g., uses projection from apiFieldOrder).
+ * `period` selects annual (default), quarter or ttm (latest TTM per symbol).
+ * Returns Promise<Partial<CashFlowStatement>[]>
+ */
+export const getAllCashFlowStatements = cashFlowStatementPeriodService.getAll;
+
+/**
+ * Fetches the restatement history of the cash flow statement reported on `date`:
+ * the current values plus one version record per change, newest first.
+ * `period` selects annual (default) or quarter.
+ * Returns Promise<StatementHistory<CashFlowStatement>>
+ */
+export const getCashFlowStatementHistory =
+  cashFlowStatementPeriodService.getHistory;
+
+/**
+ * Point-in-time read: the cash flow statements for a symbol as publicly known at the
+ * end of `asOf` (YYYY-MM-DD). Statements filed later are left out and later
+ * restatements are undone. `period` selects annual (default), quarter or ttm.
  * Returns Promise<Partial<CashFlowStatement>[]>
  */
-export const getAllCashFlowStatements = cashFlowStatementService.getAll;
+export const getCashFlowStatementsAsOf = (
+  symbol: string,
+  asOf: string,
+  period: StatementPeriod = "annual"
+) => cashFlowStatementPeriodService.getAllForSymbol(symbol, period, { asOf });
+
+/**
+ * Admin cache control: forced refresh of a symbol's annual and quarterly
+ * cash flow statements, and deletion of stored ones (one symbol, or all) so the
+ * next read refetches.
+ */
+export const refreshCashFlowStatements = cashFlowStatementPeriodService.refresh;
+export const purgeCashFlowStatements = cashFlowStatementPeriodService.purge;
 
 // Note: getCashFlowStatementCollection (MongoDB specific) is removed.
 
+/** Amount fields, converted when a response is requested in another currency. */
+export { cashFlowMonetaryFields } from "./constants";
+
 // --- Re-export Types ---
 // Export types relevant for consumers using this service with Supabase
 export type { CashFlowStatement, CashFlowStatementRow }; // Export Row type instead of Doc type
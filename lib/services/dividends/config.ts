@@ -0,0 +1,50 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/dividends/config.ts
+ * Configuration for the dividends service using Supabase.
+ * ---------------------------------------------------------------------*/
+import {
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  mapRowToPartialApi,
+} from "@/lib/common/supabase";
+
+import { CACHE_TTL_MS, dividendKeyOrder, dividendRawSchema } from "./constants";
+import {
+  DividendApiItem,
+  DividendRow,
+  RawDividend,
+  mapRawDividendToRow,
+} from "./types";
+
+/**
+ * Configuration object passed to `createGenericSupabaseService`.
+ */
+export const dividendConfig: GenericSupabaseServiceConfig<
+  RawDividend,
+  DividendRow,
+  DividendApiItem
+> = {
+  // --- Core Identification & Storage ---
+  tableName: "dividends",
+
+  // --- FMP API Fetching ---
+  fetchMode: FetchMode.BySymbol,
+  fmpBasePath: "stable",
+  fmpPath: "dividends",
+  fmpSymbolLocation: "param", // ?symbol=AAPL
+  fmpParams: {},
+
+  // --- Caching ---
+  cacheTtlMs: CACHE_TTL_MS,
+
+  // --- Data Structure, Uniqueness & Mapping ---
+  uniqueKeyColumns: ["symbol", "date"], // One dividend per ex-date
+  mapRawToRow: mapRawDividendToRow,
+  mapRowToApi: mapRowToPartialApi,
+  apiFieldOrder: dividendKeyOrder,
+  rawSchema: dividendRawSchema, // Per-record checks; failing records are quarantined
+
+  // --- Behavior Modifiers ---
+  isSingleRecordPerSymbol: false, // Full dividend history per symbol
+  sortByFieldForLatest: "date",
+};
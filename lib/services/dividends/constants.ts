@@ -0,0 +1,38 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/dividends/constants.ts
+ * Constants for the dividends service.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+import type { DividendApiItem, RawDividend } from "./types";
+
+/** Cache Time-To-Live: dividends are declared weeks ahead of the ex-date. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+
+/** Order of the keys in API responses. */
+export const dividendKeyOrder: ReadonlyArray<keyof DividendApiItem> = [
+  "id",
+  "symbol",
+  "date",
+  "record_date",
+  "payment_date",
+  "declaration_date",
+  "dividend",
+  "adj_dividend",
+  "yield",
+  "frequency",
+];
+
+/**
+ * Per-record schema for raw dividends. Amounts may not be negative; the
+ * record, payment and declaration dates are often unknown ("") and are
+ * not checked.
+ */
+export const dividendRawSchema: RecordSchema<RawDividend> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  date: { type: "date", required: true },
+  adjDividend: { type: "number", min: 0 },
+  dividend: { type: "number", min: 0 },
+  yield: { type: "number", min: 0 },
+  frequency: { type: "string" },
+};
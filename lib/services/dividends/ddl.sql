@@ -0,0 +1,41 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Cash dividends per symbol, used for total-return price series
+CREATE TABLE IF NOT EXISTS public.dividends (
+    -- Primary Key (Standard UUID)
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol              TEXT NOT NULL,
+    date                DATE NOT NULL,          -- Ex-dividend date
+
+    record_date         DATE NULL,
+    payment_date        DATE NULL,
+    declaration_date    DATE NULL,
+    dividend            NUMERIC NULL,           -- Per share, as declared
+    adj_dividend        NUMERIC NULL,           -- Per share, adjusted for later splits
+    yield               NUMERIC NULL,
+    frequency           TEXT NULL,              -- e.g. 'Quarterly'
+
+    -- Timestamps
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, date),
+    CONSTRAINT fk_dividends_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.dividends IS 'Cash dividends per symbol fetched from FMP API.';
+COMMENT ON COLUMN public.dividends.adj_dividend IS 'Dividend per share on the current share basis (adjusted for splits after the ex-date).';
+
+-- Index for reading a symbol's dividends by date
+CREATE INDEX IF NOT EXISTS idx_dividends_symbol_date ON public.dividends(symbol, date DESC);
+-- Index for cache checks
+CREATE INDEX IF NOT EXISTS idx_dividends_modified_at ON public.dividends(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_dividends_updated_at
+BEFORE UPDATE ON public.dividends
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
@@ -0,0 +1,32 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/dividends/index.ts
+ * Instantiates and exports the dividends service methods.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { dividendConfig } from "./config";
+import type { DividendApiItem, DividendRow, RawDividend } from "./types";
+
+const dividendService = createGenericSupabaseService<
+  RawDividend,
+  DividendRow,
+  DividendApiItem
+>(dividendConfig);
+
+/**
+ * Fetches the dividend history of a symbol, refreshing it from FMP when
+ * stale. A symbol that never paid one has no rows ("No data found").
+ * Returns Promise<Partial<DividendApiItem>[]>
+ */
+export const getDividendsForSymbol = dividendService.getAllForSymbol;
+export const getDividendsForSymbolWithStatus =
+  dividendService.getAllForSymbolWithStatus;
+
+/**
+ * Admin cache control: forced refresh of a symbol's dividends from FMP, and
+ * deletion of stored dividends (one symbol, or all) so the next read refetches.
+ */
+export const refreshDividends = dividendService.refresh;
+export const purgeDividends = dividendService.purge;
+
+export type { DividendApiItem, DividendRow };
@@ -0,0 +1,47 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/dividends/types.ts
+ * Type definitions and mappers for cash dividends using Supabase.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+export type DividendRow = Database["public"]["Tables"]["dividends"]["Row"];
+
+// 1. Interface for Raw Data from FMP API (camelCase)
+export interface RawDividend {
+  symbol: string;
+  date: string; // Ex-dividend date, YYYY-MM-DD
+  recordDate: string | null;
+  paymentDate: string | null;
+  declarationDate: string | null;
+  adjDividend: number | null; // Per share, adjusted for later splits
+  dividend: number | null; // Per share, as declared
+  yield: number | null;
+  frequency: string | null; // e.g. "Quarterly"
+}
+
+// 2. Interface for API Response Shape
+export interface DividendApiItem
+  extends Omit<DividendRow, "id" | "modified_at"> {
+  id: string;
+}
+
+// FMP sends "" for unknown dates
+const dateOrNull = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+/**
+ * Maps a raw FMP dividend to the structure needed for DB storage.
+ */
+export const mapRawDividendToRow = (
+  raw: RawDividend
+): Omit<DividendRow, "id" | "modified_at"> => ({
+  symbol: raw.symbol,
+  date: raw.date.slice(0, 10),
+  record_date: dateOrNull(raw.recordDate),
+  payment_date: dateOrNull(raw.paymentDate),
+  declaration_date: dateOrNull(raw.declarationDate),
+  adj_dividend: raw.adjDividend ?? null,
+  dividend: raw.dividend ?? null,
+  yield: raw.yield ?? null,
+  frequency: raw.frequency || null,
+});
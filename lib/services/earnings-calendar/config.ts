@@ -7,7 +7,11 @@ import {
   FetchMode,
   mapRowToPartialApi, // Assuming this is the correct path for the generic mapper
 } from "@/lib/common/supabase";
-import { earningsCalendarKeyOrder, CACHE_TTL_MS } from "./constants";
+import {
+  earningsCalendarKeyOrder,
+  CACHE_TTL_MS,
+  earningsCalendarRawSchema,
+} from "./constants";
 import {
   RawEarningsCalendarItem,
   EarningsCalendarRow,
@@ -140,7 +144,9 @@ export const earningsCalendarConfig: GenericSupabaseServiceConfig<
   tableName: "earnings_calendar",
 
   // --- FMP API Fetching ---
-  fetchMode: FetchMode.FullCollection, // Fetches the entire calendar snapshot
+  // Fetches the entire calendar snapshot. Snapshots are upserted: entries a
+  // newer snapshot no longer lists (past quarters) stay stored (see history.ts)
+  fetchMode: FetchMode.FullCollection,
   fmpBasePath: "stable", // Uses stable path
   fmpPath: "earnings-calendar", // Endpoint path
   // fmpSymbolLocation: not needed for FullCollection
@@ -155,6 +161,7 @@ export const earningsCalendarConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawEarningsCalendarToRow,
   mapRowToApi: mapRowToPartialApi, // Use common mapper
   apiFieldOrder: earningsCalendarKeyOrder,
+  rawSchema: earningsCalendarRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers ---
   // Not directly applicable for FullCollection cache checks in the same way
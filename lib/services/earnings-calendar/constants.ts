@@ -2,12 +2,26 @@
  * src/api/earnings-calendar/service/constants.ts
  * Constants for the Earnings Calendar service.
  * ---------------------------------------------------------------------*/
-import type { EarningsCalendarApiItem } from "./types"; // Import API type
+import type { EarningsCalendarApiItem, RawEarningsCalendarItem } from "./types";
+import type { RecordSchema } from "@/lib/common/validation"; // Import API type
 
 /** Cache Time-To-Live: How long fetched data is considered fresh. */
 // Example: 4 hours for earnings calendar (often updated intraday)
 export const CACHE_TTL_MS = 1000 * 60 * 60 * 4;
 
+/** Widest from/to window of the all-symbols calendar query, in days. */
+export const MAX_EARNINGS_RANGE_DAYS = 92;
+
+/** Rows per read when a query may exceed the storage row cap. */
+export const EARNINGS_READ_PAGE_SIZE = 1000;
+
+/**
+ * Rows written within this window of the newest write belong to the latest
+ * snapshot. An upcoming date older than that was dropped (rescheduled) by
+ * the provider.
+ */
+export const SNAPSHOT_WRITE_WINDOW_MS = 1000 * 60 * 10;
+
 /**
  * Defines the desired order and selection of keys for the API response.
  * Uses snake_case keys from EarningsCalendarApiItem.
@@ -25,3 +39,18 @@ export const earningsCalendarKeyOrder: ReadonlyArray<
   "last_updated",
   // modified_at is excluded by mapper
 ];
+
+/**
+ * Per-record schema for raw earnings calendar entries. Entries failing it
+ * are quarantined; the rest of the calendar is still ingested.
+ */
+export const earningsCalendarRawSchema: RecordSchema<RawEarningsCalendarItem> =
+  {
+    symbol: { type: "string", required: true, pattern: /\S/ },
+    date: { type: "date", required: true },
+    epsActual: { type: "number" },
+    epsEstimated: { type: "number" },
+    revenueActual: { type: "number" },
+    revenueEstimated: { type: "number" },
+    lastUpdated: { type: "date" },
+  };
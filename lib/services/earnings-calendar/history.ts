@@ -0,0 +1,141 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/earnings-calendar/history.ts
+ * Reads of the stored earnings calendar beyond the latest snapshot: all
+ * symbols within a date range, and the reported quarters of one symbol.
+ * Snapshots are upserted and never replace the table, so quarters a newer
+ * snapshot no longer lists stay stored and make up the history.
+ * ---------------------------------------------------------------------*/
+import { getStorage, type Condition } from "@/lib/common/storage";
+import type { DateRange } from "@/lib/common/supabase";
+
+import {
+  EARNINGS_READ_PAGE_SIZE,
+  earningsCalendarKeyOrder,
+  SNAPSHOT_WRITE_WINDOW_MS,
+} from "./constants";
+import { earningsCalendarService } from "./service";
+import type {
+  EarningsCalendarApiItem,
+  EarningsCalendarRow,
+  EarningsHistory,
+  EarningsQuarter,
+} from "./types";
+
+const TABLE_NAME = "earnings_calendar";
+
+// Rows matching the conditions, past the storage row cap
+async function selectAllRows(
+  where: Condition[],
+  orderBy: Array<{ column: string; ascending: boolean }>
+): Promise<EarningsCalendarRow[]> {
+  const storage = getStorage();
+  const rows: EarningsCalendarRow[] = [];
+  for (let offset = 0; ; offset += EARNINGS_READ_PAGE_SIZE) {
+    const page = await storage.select<EarningsCalendarRow>(TABLE_NAME, {
+      where,
+      orderBy,
+      limit: EARNINGS_READ_PAGE_SIZE,
+      offset,
+    });
+    rows.push(...page);
+    if (page.length < EARNINGS_READ_PAGE_SIZE) return rows;
+  }
+}
+
+// (actual - estimated) / |estimated| in percent, 2 decimals
+function surprisePercent(
+  actual: number | null,
+  estimated: number | null
+): number | null {
+  if (actual === null || estimated === null || estimated === 0) return null;
+  return Math.round(((actual - estimated) / Math.abs(estimated)) * 1e4) / 100;
+}
+
+/**
+ * Calendar entries of every symbol between `range.from` and `range.to`
+ * (inclusive), ordered by date, then symbol. The snapshot is refreshed
+ * first when stale. Callers bound the range; see MAX_EARNINGS_RANGE_DAYS.
+ */
+export async function getEarningsCalendarInRange(
+  range: DateRange
+): Promise<Partial<EarningsCalendarApiItem>[]> {
+  await earningsCalendarService.ensureCollectionFresh();
+  const where: Condition[] = [];
+  if (range.from) where.push({ column: "date", op: "gte", value: range.from });
+  if (range.to) where.push({ column: "date", op: "lte", value: range.to });
+  const rows = await selectAllRows(where, [
+    { column: "date", ascending: true },
+    { column: "symbol", ascending: true },
+  ]);
+  // Same shape as the full calendar: API fields only, in their order
+  return rows.map((row) =>
+    Object.fromEntries(
+      earningsCalendarKeyOrder.map((key) => [key, row[key] ?? null])
+    )
+  );
+}
+
+/**
+ * Every reported quarter of a symbol (newest first) with its EPS and
+ * revenue surprises, and the next scheduled release. The snapshot is
+ * refreshed first when stale.
+ *
+ * An upcoming date counts only if the latest snapshot still lists it;
+ * older upcoming rows are releases the provider has since rescheduled.
+ */
+export async function getEarningsHistoryForSymbol(
+  symbol: string,
+  today: string = new Date().toISOString().slice(0, 10)
+): Promise<EarningsHistory> {
+  const symbolUpper = symbol.toUpperCase();
+  const cache = await earningsCalendarService.ensureCollectionFresh();
+  const rows = await selectAllRows(
+    [{ column: "symbol", op: "eq", value: symbolUpper }],
+    [{ column: "date", ascending: false }]
+  );
+
+  const quarters: EarningsQuarter[] = rows
+    .filter(
+      (row) =>
+        row.date <= today &&
+        (row.eps_actual !== null || row.revenue_actual !== null)
+    )
+    .map((row) => ({
+      date: row.date,
+      eps_actual: row.eps_actual,
+      eps_estimated: row.eps_estimated,
+      eps_surprise_pct: surprisePercent(row.eps_actual, row.eps_estimated),
+      revenue_actual: row.revenue_actual,
+      revenue_estimated: row.revenue_estimated,
+      revenue_surprise_pct: surprisePercent(
+        row.revenue_actual,
+        row.revenue_estimated
+      ),
+      last_updated: row.last_updated,
+    }));
+
+  const snapshotTime = cache.modifiedAt ? Date.parse(cache.modifiedAt) : NaN;
+  const upcoming = rows
+    .filter(
+      (row) =>
+        row.date >= today &&
+        row.eps_actual === null &&
+        row.revenue_actual === null &&
+        (isNaN(snapshotTime) ||
+          Date.parse(row.modified_at) >=
+            snapshotTime - SNAPSHOT_WRITE_WINDOW_MS)
+    )
+    .pop(); // Rows are newest first: the last one is the earliest
+
+  return {
+    symbol: symbolUpper,
+    next: upcoming
+      ? {
+          date: upcoming.date,
+          eps_estimated: upcoming.eps_estimated,
+          revenue_estimated: upcoming.revenue_estimated,
+        }
+      : null,
+    quarters,
+  };
+}
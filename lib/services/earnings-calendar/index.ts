@@ -1,28 +1,17 @@
 /* ──────────────────────────────────────────────────────────────────────
  * src/api/earnings-calendar/service/index.ts (Supabase Version)
- * Instantiates and exports the Supabase-based earnings calendar service methods.
+ * Exports the Supabase-based earnings calendar service methods.
  * ---------------------------------------------------------------------*/
 
-// 1. Import the generic service creator function for SUPABASE
-import { createGenericSupabaseService } from "@/lib/common/supabase"; // Adjusted path
-
-// 2. Import the specific configuration
-import { earningsCalendarConfig } from "./config";
-
-// 3. Import specific types for Supabase
+import { earningsCalendarService } from "./service";
 import type {
   EarningsCalendarApiItem,
   EarningsCalendarRow,
-  RawEarningsCalendarItem,
+  EarningsHistory,
+  EarningsQuarter,
+  UpcomingEarnings,
 } from "./types";
 
-// --- Create the Service Instance ---
-const earningsCalendarService = createGenericSupabaseService<
-  RawEarningsCalendarItem,
-  EarningsCalendarRow,
-  EarningsCalendarApiItem
->(earningsCalendarConfig);
-
 // --- Export Domain-Specific Service Methods ---
 
 /**
@@ -32,8 +21,28 @@ const earningsCalendarService = createGenericSupabaseService<
  */
 export const getEarningsCalendar = earningsCalendarService.getAll;
 
-// getOne and getAllForSymbol are less relevant for a full calendar snapshot
-// but could be added if specific use cases arise.
+/**
+ * Admin cache control: forced refresh of the whole calendar snapshot, and
+ * deletion of stored rows (one symbol, or all) so the next read refetches.
+ */
+export const refreshEarningsCalendar = earningsCalendarService.refresh;
+export const purgeEarningsCalendar = earningsCalendarService.purge;
+
+/**
+ * Date-range reads across symbols and per-symbol history, including past
+ * quarters the latest snapshot no longer lists.
+ */
+export {
+  getEarningsCalendarInRange,
+  getEarningsHistoryForSymbol,
+} from "./history";
+export { MAX_EARNINGS_RANGE_DAYS } from "./constants";
 
 // --- Re-export Types ---
-export type { EarningsCalendarApiItem, EarningsCalendarRow };
+export type {
+  EarningsCalendarApiItem,
+  EarningsCalendarRow,
+  EarningsHistory,
+  EarningsQuarter,
+  UpcomingEarnings,
+};
@@ -0,0 +1,19 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/earnings-calendar/service.ts
+ * The generic service instance for the earnings calendar, shared by the
+ * exported methods and the range/history reads.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { earningsCalendarConfig } from "./config";
+import type {
+  EarningsCalendarApiItem,
+  EarningsCalendarRow,
+  RawEarningsCalendarItem,
+} from "./types";
+
+export const earningsCalendarService = createGenericSupabaseService<
+  RawEarningsCalendarItem,
+  EarningsCalendarRow,
+  EarningsCalendarApiItem
+>(earningsCalendarConfig);
@@ -28,6 +28,35 @@ export interface EarningsCalendarApiItem
 }
 // Note: The generic service actually returns Partial<EarningsCalendarApiItem>
 
+/**
+ * One reported quarter. Surprises are (actual - estimated) / |estimated|
+ * in percent, null without both values or for a zero estimate.
+ */
+export interface EarningsQuarter {
+  date: string;
+  eps_actual: number | null;
+  eps_estimated: number | null;
+  eps_surprise_pct: number | null;
+  revenue_actual: number | null;
+  revenue_estimated: number | null;
+  revenue_surprise_pct: number | null;
+  last_updated: string | null;
+}
+
+/** The next scheduled release of a symbol, with the consensus estimates. */
+export interface UpcomingEarnings {
+  date: string;
+  eps_estimated: number | null;
+  revenue_estimated: number | null;
+}
+
+/** Earnings history of a symbol: reported quarters newest first. */
+export interface EarningsHistory {
+  symbol: string;
+  next: UpcomingEarnings | null;
+  quarters: EarningsQuarter[];
+}
+
 // --- Mapping Function (Raw -> Row Structure for DB) ---
 
 // Helper for numeric fields (DOUBLE PRECISION), defaulting to null
@@ -0,0 +1,57 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/fx-rates/config.ts
+ * Configuration for the FX rates service using Supabase.
+ * ---------------------------------------------------------------------*/
+import {
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  mapRowToPartialApi,
+} from "@/lib/common/supabase";
+
+import {
+  CACHE_TTL_MS,
+  FX_HISTORY_START,
+  fxRateKeyOrder,
+  fxRateRawSchema,
+} from "./constants";
+import {
+  FxRateApiItem,
+  FxRateRow,
+  RawFxRate,
+  mapRawFxRateToRow,
+} from "./types";
+
+/**
+ * Configuration object passed to `createGenericSupabaseService`.
+ * The "symbol" of this dataset is a currency pair such as EURUSD.
+ */
+export const fxRatesConfig: GenericSupabaseServiceConfig<
+  RawFxRate,
+  FxRateRow,
+  FxRateApiItem
+> = {
+  // --- Core Identification & Storage ---
+  tableName: "fx_rates",
+
+  // --- FMP API Fetching ---
+  fetchMode: FetchMode.BySymbol, // One pair per request
+  fmpBasePath: "stable",
+  fmpPath: "historical-price-eod/light",
+  fmpSymbolLocation: "param", // ?symbol=EURUSD
+  fmpParams: { from: FX_HISTORY_START },
+
+  // --- Caching ---
+  cacheTtlMs: CACHE_TTL_MS,
+
+  // --- Data Structure, Uniqueness & Mapping ---
+  uniqueKeyColumns: ["symbol", "date"],
+  mapRawToRow: mapRawFxRateToRow,
+  mapRowToApi: mapRowToPartialApi,
+  apiFieldOrder: fxRateKeyOrder,
+  rawSchema: fxRateRawSchema, // Per-record checks; failing records are quarantined
+
+  // --- Behavior Modifiers ---
+  isSingleRecordPerSymbol: false, // A daily series per pair
+  sortByFieldForLatest: "date",
+  asOfColumn: "date", // asOf reads return the rates up to then
+};
@@ -0,0 +1,57 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/fx-rates/constants.ts
+ * Constants for the FX rates service.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+import type { FxRateApiItem, RawFxRate } from "./types";
+
+/** Cache Time-To-Live: daily closes, refreshed once a day. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+
+/** First date fetched for a pair; older statements have no rate. */
+export const FX_HISTORY_START = "1995-01-01";
+
+/** Rows per read of a pair's series (PostgREST max-rows). */
+export const FX_READ_PAGE_SIZE = 1000;
+
+/** Order of the keys in API responses. */
+export const fxRateKeyOrder: ReadonlyArray<keyof FxRateApiItem> = [
+  "id",
+  "symbol",
+  "date",
+  "rate",
+];
+
+/**
+ * Per-record schema for raw FX quotes. A rate must be positive: it is
+ * used as a multiplier and, for inverted pairs, as a divisor.
+ */
+export const fxRateRawSchema: RecordSchema<RawFxRate> = {
+  symbol: { type: "string", required: true, pattern: /^[A-Za-z]{6}$/ },
+  date: { type: "date", required: true },
+  price: { type: "number", required: true, min: Number.MIN_VALUE },
+};
+
+/**
+ * Currencies some exchanges quote in minor units, with the major currency
+ * and the divisor. LSE prices are in pence (GBp/GBX), TASE in agorot (ILA)
+ * and JSE in cents (ZAc).
+ */
+export const MINOR_CURRENCY_UNITS: Readonly<
+  Record<string, { currency: string; divisor: number }>
+> = {
+  GBp: { currency: "GBP", divisor: 100 },
+  GBX: { currency: "GBP", divisor: 100 },
+  ILA: { currency: "ILS", divisor: 100 },
+  ZAc: { currency: "ZAR", divisor: 100 },
+};
+
+/**
+ * Currency of the statement tables, which compare many companies: amounts
+ * reported in other currencies are converted to it.
+ */
+export const TABLE_CURRENCY = "USD";
+
+/** Currency rates are bridged through when no direct pair is quoted. */
+export const FX_BRIDGE_CURRENCY = "USD";
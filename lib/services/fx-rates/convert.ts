@@ -0,0 +1,305 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/fx-rates/convert.ts
+ * Converts amounts between currencies with the daily FX rates, using the
+ * rate of each row's own date (e.g. a statement's period end).
+ * Pairs are read as quoted (EURUSD), inverted (USDEUR) or bridged through
+ * USD. Nothing is converted silently: a row without a currency, or without
+ * a rate on or before its date, fails the whole conversion, or for tables
+ * mixing many companies, has its amounts blanked.
+ * ---------------------------------------------------------------------*/
+import { getStorage } from "@/lib/common/storage";
+
+import { fxRatesConfig } from "./config";
+import {
+  CACHE_TTL_MS,
+  FX_BRIDGE_CURRENCY,
+  FX_READ_PAGE_SIZE,
+  MINOR_CURRENCY_UNITS,
+} from "./constants";
+import { fxRatesService } from "./service";
+import type { FxRateRow } from "./types";
+
+/** Thrown when values cannot be converted. API routes map it to HTTP 422. */
+export class CurrencyConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CurrencyConversionError";
+  }
+}
+
+/** Rate to multiply an amount by on a date (YYYY-MM-DD), or null if unknown. */
+export type FxRateLookup = (date: string) => number | null;
+
+interface RatePoint {
+  date: string;
+  rate: number;
+}
+
+// Minor units (pence, agorot, cents) as their major currency and a factor
+function toMajorCurrency(currency: string): {
+  currency: string;
+  factor: number;
+} {
+  const minor = MINOR_CURRENCY_UNITS[currency];
+  return minor
+    ? { currency: minor.currency, factor: 1 / minor.divisor }
+    : { currency: currency.toUpperCase(), factor: 1 };
+}
+
+// Pairs FMP returned nothing for (nothing stored either), with the time
+// they were found missing: not requested again within the cache TTL
+const missingPairs = new Map<string, number>();
+
+// A pair's rates in ascending date order, or null if FMP does not quote it.
+// The pair is refreshed when stale, then read in pages: a single read stops
+// at FX_READ_PAGE_SIZE rows, about four years of daily rates.
+async function loadPairSeries(pair: string): Promise<RatePoint[] | null> {
+  const missingSince = missingPairs.get(pair);
+  if (missingSince !== undefined && Date.now() - missingSince < CACHE_TTL_MS) {
+    return null;
+  }
+  // Fetch failures resolve to the stored rate, or null without one
+  if (!(await fxRatesService.getOne(pair))) {
+    missingPairs.set(pair, Date.now());
+    return null;
+  }
+  missingPairs.delete(pair);
+
+  const storage = getStorage();
+  const series: RatePoint[] = [];
+  for (let offset = 0; ; offset += FX_READ_PAGE_SIZE) {
+    const page = await storage.select<Pick<FxRateRow, "date" | "rate">>(
+      fxRatesConfig.tableName,
+      {
+        columns: ["date", "rate"],
+        where: [{ column: "symbol", op: "eq", value: pair.toUpperCase() }],
+        orderBy: [{ column: "date", ascending: true }],
+        limit: FX_READ_PAGE_SIZE,
+        offset,
+      }
+    );
+    for (const { date, rate } of page) {
+      if (typeof date === "string" && typeof rate === "number") {
+        series.push({ date, rate });
+      }
+    }
+    if (page.length < FX_READ_PAGE_SIZE) return series;
+  }
+}
+
+// The latest rate on or before the date (markets close on weekends and
+// holidays, and a fiscal period may end on one)
+function rateOn(series: ReadonlyArray<RatePoint>, date: string): number | null {
+  const day = date.slice(0, 10);
+  let low = 0;
+  let high = series.length - 1;
+  let found: number | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (series[mid].date <= day) {
+      found = series[mid].rate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Direct or inverted pair between two major currencies, or null
+async function pairLookup(
+  from: string,
+  to: string
+): Promise<FxRateLookup | null> {
+  const direct = await loadPairSeries(`${from}${to}`);
+  if (direct && direct.length > 0) return (date) => rateOn(direct, date);
+  const inverse = await loadPairSeries(`${to}${from}`);
+  if (inverse && inverse.length > 0) {
+    return (date) => {
+      const rate = rateOn(inverse, date);
+      return rate === null ? null : 1 / rate;
+    };
+  }
+  return null;
+}
+
+/**
+ * Resolves how amounts in `from` convert to `to` over time. Minor units
+ * (GBp, ILA, ZAc) are scaled to their major currency first.
+ * @throws {CurrencyConversionError} When no rates exist for the currencies.
+ */
+export async function getFxRateLookup(
+  from: string,
+  to: string
+): Promise<FxRateLookup> {
+  const source = toMajorCurrency(from);
+  const target = toMajorCurrency(to);
+  const factor = source.factor / target.factor;
+  if (source.currency === target.currency) return () => factor;
+
+  let lookup = await pairLookup(source.currency, target.currency);
+  if (
+    !lookup &&
+    source.currency !== FX_BRIDGE_CURRENCY &&
+    target.currency !== FX_BRIDGE_CURRENCY
+  ) {
+    const [toBridge, fromBridge] = await Promise.all([
+      pairLookup(source.currency, FX_BRIDGE_CURRENCY),
+      pairLookup(FX_BRIDGE_CURRENCY, target.currency),
+    ]);
+    if (toBridge && fromBridge) {
+      lookup = (date) => {
+        const first = toBridge(date);
+        const second = fromBridge(date);
+        return first === null || second === null ? null : first * second;
+      };
+    }
+  }
+  if (!lookup) {
+    throw new CurrencyConversionError(
+      `No FX rates available to convert ${from} to ${to}.`
+    );
+  }
+  const rates = lookup;
+  return (date) => {
+    const rate = rates(date);
+    return rate === null ? null : rate * factor;
+  };
+}
+
+export interface ConvertRowsOptions<T> {
+  /** ISO 4217 code to convert to, e.g. 'USD'. */
+  targetCurrency: string;
+  /** Fields holding amounts; absent or null ones are left as they are. */
+  fields: ReadonlyArray<keyof T>;
+  /** The currency a row's amounts are in. */
+  currencyOf: (row: T) => string | null | undefined;
+  /** The date whose rate applies to a row. */
+  dateOf: (row: T) => string | null | undefined;
+  /** Field naming the row's currency; set to the target when converted. */
+  currencyField?: keyof T;
+  /**
+   * What happens to a row that cannot be converted: 'throw' (default) fails
+   * the conversion, 'blank' nulls its amounts and fx_rate but keeps the row.
+   */
+  unconvertible?: "throw" | "blank";
+}
+
+/**
+ * Converts rows to `targetCurrency`, each with the rate of its own date.
+ * Every returned row carries the `fx_rate` it was multiplied by (1 for rows
+ * already in the target currency; null for rows blanked, see unconvertible).
+ * @throws {CurrencyConversionError} When a row has no currency or date, or
+ *   no rate exists on or before its date (unless unconvertible is 'blank').
+ */
+export async function convertRowsToCurrency<T extends object>(
+  rows: ReadonlyArray<T>,
+  options: ConvertRowsOptions<T>
+): Promise<Array<T & { fx_rate: number | null }>> {
+  const {
+    targetCurrency,
+    fields,
+    currencyOf,
+    dateOf,
+    currencyField,
+    unconvertible = "throw",
+  } = options;
+  // One lookup (and series read) per source currency
+  const lookups = new Map<string, Promise<FxRateLookup>>();
+
+  const rateFor = async (row: T): Promise<number> => {
+    const currency = currencyOf(row);
+    const date = dateOf(row);
+    if (!currency) {
+      throw new CurrencyConversionError(
+        `Cannot convert to ${targetCurrency}: a record has no currency.`
+      );
+    }
+    if (!date) {
+      throw new CurrencyConversionError(
+        `Cannot convert ${currency} to ${targetCurrency}: a record has no date.`
+      );
+    }
+    let lookup = lookups.get(currency);
+    if (!lookup) {
+      lookup = getFxRateLookup(currency, targetCurrency);
+      lookups.set(currency, lookup);
+    }
+    const rate = (await lookup)(date);
+    if (rate === null) {
+      throw new CurrencyConversionError(
+        `No ${currency} to ${targetCurrency} rate on or before ${date.slice(
+          0,
+          10
+        )}.`
+      );
+    }
+    return rate;
+  };
+
+  return Promise.all(
+    rows.map(async (row) => {
+      let rate: number | null;
+      try {
+        rate = await rateFor(row);
+      } catch (error) {
+        if (
+          unconvertible === "throw" ||
+          !(error instanceof CurrencyConversionError)
+        ) {
+          throw error;
+        }
+        rate = null;
+      }
+
+      const converted = { ...row } as Record<string, unknown>;
+      for (const field of fields) {
+        const value = converted[field as string];
+        if (typeof value === "number") {
+          converted[field as string] = rate === null ? null : value * rate;
+        }
+      }
+      if (rate !== null && currencyField && currencyField in row) {
+        converted[currencyField as string] = targetCurrency;
+      }
+      converted.fx_rate = rate;
+      return converted as T & { fx_rate: number | null };
+    })
+  );
+}
+
+// What converting a statement reads besides its amounts
+const STATEMENT_CURRENCY_FIELDS = ["date", "reported_currency"];
+
+/**
+ * A `fields` projection extended by the fields statement conversion reads.
+ * Undefined (every field) stays undefined.
+ */
+export function withStatementCurrencyFields(
+  fields: string[] | undefined
+): string[] | undefined {
+  return fields && [...new Set([...fields, ...STATEMENT_CURRENCY_FIELDS])];
+}
+
+/**
+ * Converts statements from their reported currency to `targetCurrency`,
+ * at the rate of each statement's date (the period end).
+ * @throws {CurrencyConversionError} See convertRowsToCurrency.
+ */
+export function convertStatementsToCurrency<
+  T extends { date?: string | null; reported_currency?: string | null }
+>(
+  statements: ReadonlyArray<T>,
+  targetCurrency: string,
+  monetaryFields: ReadonlyArray<keyof T>,
+  unconvertible: ConvertRowsOptions<T>["unconvertible"] = "throw"
+): Promise<Array<T & { fx_rate: number | null }>> {
+  return convertRowsToCurrency(statements, {
+    targetCurrency,
+    fields: monetaryFields,
+    currencyOf: (statement) => statement.reported_currency,
+    dateOf: (statement) => statement.date,
+    currencyField: "reported_currency",
+    unconvertible,
+  });
+}
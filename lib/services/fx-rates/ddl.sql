@@ -0,0 +1,36 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Daily FX closes per currency pair, used to convert statements and prices
+-- reported in other currencies (e.g. TWD for TSM) on request.
+-- No foreign key to profiles: a pair such as EURUSD is not a company.
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+    -- Primary Key (Standard UUID)
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol              TEXT NOT NULL,          -- Pair, base then quote currency, e.g. EURUSD
+    date                DATE NOT NULL,
+
+    rate                NUMERIC NOT NULL CHECK (rate > 0), -- Quote currency units per base currency unit
+
+    -- Timestamps
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, date)
+);
+
+COMMENT ON TABLE public.fx_rates IS 'Daily FX closes per currency pair fetched from FMP API.';
+COMMENT ON COLUMN public.fx_rates.symbol IS 'Currency pair, e.g. EURUSD: the rate is the USD price of one EUR.';
+
+-- Loading a pair's series in date order
+CREATE INDEX IF NOT EXISTS idx_fx_rates_symbol_date ON public.fx_rates(symbol, date DESC);
+-- Cache checks
+CREATE INDEX IF NOT EXISTS idx_fx_rates_modified_at ON public.fx_rates(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_fx_rates_updated_at
+BEFORE UPDATE ON public.fx_rates
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
@@ -0,0 +1,39 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/fx-rates/index.ts
+ * Exports the FX rates service methods, plus the helpers
+ * converting statements and prices to another currency.
+ * ---------------------------------------------------------------------*/
+import { fxRatesService } from "./service";
+import type { FxRateApiItem, FxRateRow } from "./types";
+
+/**
+ * Fetches the daily rates of a currency pair (e.g. EURUSD), refreshing them
+ * from FMP when stale or missing.
+ * Returns Promise<Partial<FxRateApiItem>[]>
+ */
+export const getFxRatesForPair = fxRatesService.getAllForSymbol;
+export const getFxRatesForPairWithStatus =
+  fxRatesService.getAllForSymbolWithStatus;
+
+/** The latest stored rate of a pair. */
+export const getLatestFxRate = fxRatesService.getOne;
+
+/**
+ * Admin cache control: forced refresh of a pair's rates from FMP, and
+ * deletion of stored rates (one pair, or all) so the next read refetches.
+ */
+export const refreshFxRates = fxRatesService.refresh;
+export const purgeFxRates = fxRatesService.purge;
+
+export {
+  CurrencyConversionError,
+  convertRowsToCurrency,
+  convertStatementsToCurrency,
+  getFxRateLookup,
+  withStatementCurrencyFields,
+  type ConvertRowsOptions,
+  type FxRateLookup,
+} from "./convert";
+export { MINOR_CURRENCY_UNITS, TABLE_CURRENCY } from "./constants";
+
+export type { FxRateApiItem, FxRateRow };
@@ -0,0 +1,15 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/fx-rates/service.ts
+ * The generic service instance for FX rates, shared by the exported
+ * methods and the conversion helpers.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { fxRatesConfig } from "./config";
+import type { FxRateApiItem, FxRateRow, RawFxRate } from "./types";
+
+export const fxRatesService = createGenericSupabaseService<
+  RawFxRate,
+  FxRateRow,
+  FxRateApiItem
+>(fxRatesConfig);
@@ -0,0 +1,33 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/fx-rates/types.ts
+ * Type definitions and mappers for daily FX rates using Supabase.
+ * One row per currency pair (e.g. EURUSD) and day.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+export type FxRateRow = Database["public"]["Tables"]["fx_rates"]["Row"];
+
+// 1. Interface for Raw Data from FMP API (light end-of-day series)
+export interface RawFxRate {
+  symbol: string; // Pair, e.g. "EURUSD"
+  date: string; // YYYY-MM-DD
+  price: number; // Units of the quote currency per unit of the base currency
+  volume: number | null;
+}
+
+// 2. Interface for API Response Shape
+export interface FxRateApiItem extends Omit<FxRateRow, "id" | "modified_at"> {
+  id: string;
+}
+
+/**
+ * Maps a raw FMP FX quote to the structure needed for DB storage.
+ * The symbol is upper-cased so pairs match however they were requested.
+ */
+export const mapRawFxRateToRow = (
+  raw: RawFxRate
+): Omit<FxRateRow, "id" | "modified_at"> => ({
+  symbol: raw.symbol.toUpperCase(),
+  date: raw.date.slice(0, 10),
+  rate: raw.price,
+});
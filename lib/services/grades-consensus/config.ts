@@ -7,7 +7,11 @@ import {
   FetchMode,
   mapRowToPartialApi,
 } from "@/lib/common/supabase";
-import { gradesConsensusKeyOrder, CACHE_TTL_MS } from "./constants";
+import {
+  gradesConsensusKeyOrder,
+  CACHE_TTL_MS,
+  gradesConsensusRawSchema,
+} from "./constants";
 
 // Import specific types and mappers (Supabase version)
 import {
@@ -44,11 +48,13 @@ export const gradesConsensusConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawGradesConsensusToRow,
   mapRowToApi: mapRowToPartialApi, // Use common mapper
   apiFieldOrder: gradesConsensusKeyOrder,
+  rawSchema: gradesConsensusRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers ---
   // Although FMP returns one object, we store daily snapshots, so multiple records per symbol exist.
   isSingleRecordPerSymbol: false, // UPDATED - We store history now
   sortByFieldForLatest: "date", // UPDATED - Use 'date' to find the latest snapshot
+  asOfColumn: "date", // Snapshot date: asOf reads return snapshots up to then
 
   // --- Optional Callbacks ---
   // Extract the single object from the array FMP returns
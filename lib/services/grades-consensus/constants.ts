@@ -2,7 +2,8 @@
  * src/api/grades-consensus/service/constants.ts
  * Constants for the Grades Consensus service.
  * ---------------------------------------------------------------------*/
-import type { GradesConsensusApiItem } from "./types"; // Import API type
+import type { GradesConsensusApiItem, RawGradesConsensus } from "./types";
+import type { RecordSchema } from "@/lib/common/validation"; // Import API type
 
 /** Cache Time-To-Live: How long fetched data is considered fresh. */
 // Example: 1 day for consensus data
@@ -25,3 +26,32 @@ export const gradesConsensusKeyOrder: ReadonlyArray<
   "sell",
   "strong_sell",
 ];
+
+/** Look-back windows (days) of the trend's changes. */
+export const TREND_CHANGE_WINDOWS_DAYS: ReadonlyArray<number> = [30, 90];
+
+/** Consensus labels by rank, for upgrade/downgrade transitions. */
+export const CONSENSUS_RANKS: Readonly<Record<string, number>> = {
+  "Strong Buy": 5,
+  Buy: 4,
+  Hold: 3,
+  Sell: 2,
+  "Strong Sell": 1,
+};
+
+/** Snapshots per read; the storage caps unbounded selects. */
+export const HISTORY_READ_PAGE_SIZE = 1000;
+
+/**
+ * Per-record schema for raw grades consensus. Analyst counts must be
+ * non-negative integers.
+ */
+export const gradesConsensusRawSchema: RecordSchema<RawGradesConsensus> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  strongBuy: { type: "integer", min: 0 },
+  buy: { type: "integer", min: 0 },
+  hold: { type: "integer", min: 0 },
+  sell: { type: "integer", min: 0 },
+  strongSell: { type: "integer", min: 0 },
+  consensus: { type: "string" },
+};
@@ -2,8 +2,7 @@
  * src/api/grades-consensus/service/fetchByDate.ts
  * Dedicated function to fetch grades consensus for a specific symbol and date.
  * ---------------------------------------------------------------------*/
-import { SupabaseClient, PostgrestError } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient"; // Adjust path
+import { getStorage } from "@/lib/common/storage";
 import {
   mapRowToPartialApi,
   reorderAndFilterObjectKeys,
@@ -13,17 +12,16 @@ import { gradesConsensusKeyOrder } from "./constants"; // Import key order
 
 const TABLE_NAME = "grades_consensus";
 
-// Helper to generate select string
-function generateSelectString(
+// Helper to generate the column projection (undefined = all columns)
+function selectColumns(
   order?: ReadonlyArray<keyof GradesConsensusApiItem>
-): string {
+): string[] | undefined {
   const alwaysSelect = ["id", "symbol", "date", "modified_at"]; // Include date
   if (!order || order.length === 0) {
-    return "*";
+    return undefined;
   }
   const apiKeys = order.filter((k) => typeof k === "string") as string[];
-  const columnsToSelect = [...new Set([...alwaysSelect, ...apiKeys])];
-  return columnsToSelect.join(", ");
+  return [...new Set([...alwaysSelect, ...apiKeys])];
 }
 
 /**
@@ -38,28 +36,27 @@ export async function getGradesConsensusForDateAndSymbol(
   symbol: string,
   date: string
 ): Promise<Partial<GradesConsensusApiItem> | null> {
-  const supabase: SupabaseClient = getSupabaseServerClient();
-  const selectString = generateSelectString(gradesConsensusKeyOrder);
-  const filter = { symbol: symbol, date: date };
+  const columns = selectColumns(gradesConsensusKeyOrder);
 
   console.log(
-    `[Grades Service] Fetching from DB for ${symbol} on ${date} with select: ${selectString}`
+    `[Grades Service] Fetching from DB for ${symbol} on ${date} with select: ${
+      columns?.join(", ") ?? "*"
+    }`
   );
 
   // Fetch the specific record for the symbol and date
-  // Renamed 'doc' to 'row'
-  const { data: row, error } = (await supabase
-    .from(TABLE_NAME)
-    .select(selectString)
-    .match(filter)
-    .maybeSingle()) as {
-    data: GradesConsensusRow | null;
-    error: PostgrestError | null;
-  }; // Cast result
-
-  if (error) {
+  let row: GradesConsensusRow | null;
+  try {
+    row = await getStorage().selectFirst<GradesConsensusRow>(TABLE_NAME, {
+      columns,
+      where: [
+        { column: "symbol", op: "eq", value: symbol },
+        { column: "date", op: "eq", value: date },
+      ],
+    });
+  } catch (error) {
     console.error(
-      `[Grades Service] Supabase error fetching by date for ${symbol} on ${date}:`,
+      `[Grades Service] Error fetching by date for ${symbol} on ${date}:`,
       error
     );
     return null; // Return null on error
@@ -0,0 +1,156 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/grades-consensus/history.ts
+ * The daily grades consensus series of a symbol, with derived metrics:
+ * net sentiment per snapshot, changes over TREND_CHANGE_WINDOWS_DAYS and
+ * the consensus transitions. Reads stored snapshots only; callers refresh
+ * the latest one first (see getLatestGradesConsensus).
+ * ---------------------------------------------------------------------*/
+import { format, parseISO, subDays } from "date-fns";
+
+import { getStorage, type Condition } from "@/lib/common/storage";
+import type { DateRange } from "@/lib/common/supabase";
+
+import {
+  CONSENSUS_RANKS,
+  HISTORY_READ_PAGE_SIZE,
+  TREND_CHANGE_WINDOWS_DAYS,
+} from "./constants";
+import type {
+  GradeCounts,
+  GradesConsensusChange,
+  GradesConsensusRow,
+  GradesConsensusTransition,
+  GradesConsensusTrend,
+  GradesConsensusTrendPoint,
+} from "./types";
+
+const TABLE_NAME = "grades_consensus";
+
+const GRADE_WEIGHTS: Readonly<Record<keyof GradeCounts, number>> = {
+  strong_buy: 1,
+  buy: 0.5,
+  hold: 0,
+  sell: -0.5,
+  strong_sell: -1,
+};
+const GRADES = Object.keys(GRADE_WEIGHTS) as Array<keyof GradeCounts>;
+
+const round4 = (value: number): number => Math.round(value * 1e4) / 1e4;
+
+function toTrendPoint(row: GradesConsensusRow): GradesConsensusTrendPoint {
+  let analysts = 0;
+  let weighted = 0;
+  for (const grade of GRADES) {
+    analysts += row[grade] ?? 0;
+    weighted += (row[grade] ?? 0) * GRADE_WEIGHTS[grade];
+  }
+  return {
+    date: row.date,
+    consensus: row.consensus,
+    strong_buy: row.strong_buy,
+    buy: row.buy,
+    hold: row.hold,
+    sell: row.sell,
+    strong_sell: row.strong_sell,
+    analysts,
+    net_sentiment: analysts > 0 ? round4(weighted / analysts) : null,
+  };
+}
+
+// Latest against the last point on or before latest.date - days
+function changeOver(
+  series: ReadonlyArray<GradesConsensusTrendPoint>,
+  latest: GradesConsensusTrendPoint,
+  days: number
+): GradesConsensusChange | null {
+  const cutoff = format(subDays(parseISO(latest.date), days), "yyyy-MM-dd");
+  const base = series.filter((point) => point.date <= cutoff).pop();
+  if (!base) return null;
+  const counts_change = Object.fromEntries(
+    GRADES.map((grade) => [grade, (latest[grade] ?? 0) - (base[grade] ?? 0)])
+  ) as GradesConsensusChange["counts_change"];
+  return {
+    days,
+    base_date: base.date,
+    net_sentiment_change:
+      latest.net_sentiment === null || base.net_sentiment === null
+        ? null
+        : round4(latest.net_sentiment - base.net_sentiment),
+    analysts_change: latest.analysts - base.analysts,
+    counts_change,
+  };
+}
+
+function findTransitions(
+  series: ReadonlyArray<GradesConsensusTrendPoint>
+): GradesConsensusTransition[] {
+  const transitions: GradesConsensusTransition[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const from = series[i - 1].consensus;
+    const to = series[i].consensus;
+    if (from === to) continue;
+    const fromRank = from ? CONSENSUS_RANKS[from] : undefined;
+    const toRank = to ? CONSENSUS_RANKS[to] : undefined;
+    transitions.push({
+      date: series[i].date,
+      from,
+      to,
+      direction:
+        fromRank === undefined || toRank === undefined
+          ? "unranked"
+          : toRank > fromRank
+          ? "upgrade"
+          : "downgrade",
+    });
+  }
+  return transitions;
+}
+
+/**
+ * Builds the grades consensus trend of a symbol from its stored snapshots.
+ * With a range, the series, transitions and latest point are limited to
+ * it; the changes may still compare against snapshots before `from`.
+ */
+export async function getGradesConsensusTrend(
+  symbol: string,
+  range: DateRange = {}
+): Promise<GradesConsensusTrend> {
+  const symbolUpper = symbol.toUpperCase();
+  const where: Condition[] = [
+    { column: "symbol", op: "eq", value: symbolUpper },
+  ];
+  if (range.to) where.push({ column: "date", op: "lte", value: range.to });
+
+  const storage = getStorage();
+  const rows: GradesConsensusRow[] = [];
+  for (let offset = 0; ; offset += HISTORY_READ_PAGE_SIZE) {
+    const page = await storage.select<GradesConsensusRow>(TABLE_NAME, {
+      where,
+      orderBy: [{ column: "date", ascending: true }],
+      limit: HISTORY_READ_PAGE_SIZE,
+      offset,
+    });
+    rows.push(...page);
+    if (page.length < HISTORY_READ_PAGE_SIZE) break;
+  }
+
+  const fullSeries = rows.map(toTrendPoint);
+  const latest = fullSeries[fullSeries.length - 1] ?? null;
+  const inRange = (point: { date: string }) =>
+    !range.from || point.date >= range.from;
+  const series = fullSeries.filter(inRange);
+
+  return {
+    symbol: symbolUpper,
+    latest: latest && inRange(latest) ? latest : null,
+    changes: Object.fromEntries(
+      TREND_CHANGE_WINDOWS_DAYS.map((days) => [
+        `${days}d`,
+        latest && inRange(latest) ? changeOver(fullSeries, latest, days) : null,
+      ])
+    ),
+    // The first point in range may differ from the last one before it
+    transitions: findTransitions(fullSeries).filter(inRange),
+    series,
+  };
+}
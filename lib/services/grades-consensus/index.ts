@@ -49,6 +49,21 @@ export const getGradesConsensusHistoryForSymbol =
  */
 export const getAllLatestGradesConsensus = gradesConsensusService.getAll;
 
+/**
+ * Point-in-time read: the latest grades consensus snapshot taken on or
+ * before `asOf` (YYYY-MM-DD).
+ * Returns Promise<Partial<GradesConsensusApiItem> | null>
+ */
+export const getGradesConsensusAsOf = (symbol: string, asOf: string) =>
+  gradesConsensusService.getOne(symbol, { asOf });
+
+/**
+ * Admin cache control: forced refresh of a symbol's snapshot from FMP, and
+ * deletion of stored snapshots (one symbol, or all) so the next read refetches.
+ */
+export const refreshGradesConsensus = gradesConsensusService.refresh;
+export const purgeGradesConsensus = gradesConsensusService.purge;
+
 // --- Export NEW Dedicated Function ---
 /**
  * Fetches the grades consensus snapshot for a specific symbol AND specific date.
@@ -57,5 +72,18 @@ export const getAllLatestGradesConsensus = gradesConsensusService.getAll;
  */
 export { getGradesConsensusForDateAndSymbol } from "./fetchByDate"; // <-- EXPORT NEW FUNCTION
 
+/**
+ * The daily series of a symbol with net sentiment, 30/90-day changes and
+ * consensus transitions. Reads stored snapshots only.
+ * Returns Promise<GradesConsensusTrend>
+ */
+export { getGradesConsensusTrend } from "./history";
+
 // --- Re-export Types ---
 export type { GradesConsensusApiItem, GradesConsensusRow };
+export type {
+  GradesConsensusChange,
+  GradesConsensusTransition,
+  GradesConsensusTrend,
+  GradesConsensusTrendPoint,
+} from "./types";
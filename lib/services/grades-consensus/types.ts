@@ -31,6 +31,52 @@ export interface GradesConsensusApiItem
 }
 // Note: The generic service actually returns Partial<GradesConsensusApiItem>
 
+// --- Trend Types (history endpoint) ---
+
+/** Analyst counts by grade, as stored per snapshot. */
+export type GradeCounts = Pick<
+  GradesConsensusRow,
+  "strong_buy" | "buy" | "hold" | "sell" | "strong_sell"
+>;
+
+/**
+ * One daily snapshot of the trend. net_sentiment weighs strong buy +1,
+ * buy +0.5, hold 0, sell -0.5 and strong sell -1 per analyst, so it ranges
+ * from -1 (all strong sell) to 1 (all strong buy); null without analysts.
+ */
+export interface GradesConsensusTrendPoint extends GradeCounts {
+  date: string;
+  consensus: string | null;
+  analysts: number;
+  net_sentiment: number | null;
+}
+
+/** Change of the latest snapshot against the one `days` earlier. */
+export interface GradesConsensusChange {
+  days: number;
+  base_date: string; // Latest snapshot on or before latest date - days
+  net_sentiment_change: number | null;
+  analysts_change: number;
+  counts_change: { [K in keyof GradeCounts]: number };
+}
+
+/** A change of the consensus label between consecutive snapshots. */
+export interface GradesConsensusTransition {
+  date: string;
+  from: string | null;
+  to: string | null;
+  direction: "upgrade" | "downgrade" | "unranked";
+}
+
+/** Response of the grades consensus history endpoint. */
+export interface GradesConsensusTrend {
+  symbol: string;
+  latest: GradesConsensusTrendPoint | null;
+  changes: { [days: string]: GradesConsensusChange | null }; // "30d", "90d"
+  transitions: GradesConsensusTransition[]; // Oldest first
+  series: GradesConsensusTrendPoint[]; // Oldest first
+}
+
 // --- Mapping Function (Raw -> Row Structure for DB) ---
 
 // Helper function for integer fields, defaulting to null
@@ -2,12 +2,40 @@
  * lib/services/historical-prices/constants.ts
  * Constants for the Historical Price service.
  * ---------------------------------------------------------------------*/
-import type { HistoricalPriceApiItem } from "./types"; // Import API type if defining order
+import type { HistoricalPriceApiItem, ResamplePeriod } from "./types"; // Import API type if defining order
 
 /** Cache Time-To-Live: How long fetched data is considered fresh before re-fetching. */
 // Example: 1 day for historical prices
 export const CACHE_TTL_MS = 1000 * 60 * 60 * 24;
 
+/**
+ * Stale-while-revalidate limit: series younger than this are served
+ * immediately while the provider refresh runs in the background.
+ */
+export const MAX_STALE_MS = 1000 * 60 * 60 * 24 * 7; // 1 week
+
+/**
+ * Refreshes fetch only the bars after the latest stored date, except once
+ * per this interval: then the full series is refetched, so adjusted closes
+ * rewritten by later splits and dividends are reconciled.
+ */
+export const FULL_RECONCILE_INTERVAL_MS = 1000 * 60 * 60 * 24 * 7; // 1 week
+
+/**
+ * Stored days an incremental fetch requests again: the provider revises
+ * the latest bars (late prints, vwap) after first publishing them.
+ */
+export const INCREMENTAL_OVERLAP_DAYS = 5;
+
+/** Widest window (in days) of an all-symbols date-range read. */
+export const MAX_ALL_SYMBOLS_RANGE_DAYS = 31;
+
+/** Rows per page of the all-symbols reads (PostgREST max-rows). */
+export const ALL_SYMBOLS_READ_PAGE_SIZE = 1000;
+
+/** Rows per page of a symbol's stored series reads (PostgREST max-rows). */
+export const SERIES_READ_PAGE_SIZE = 1000;
+
 /**
  * Optional: Defines the desired order/selection of keys for the API response.
  * If used, the dedicated service function would need to implement reordering.
@@ -33,3 +61,30 @@ export const historicalPriceKeyOrder: ReadonlyArray<
   "change_over_time",
   // created_at and modified_at are typically excluded
 ];
+
+/**
+ * Price fields converted by `?currency=`. Volumes and percentages are
+ * currency-free.
+ */
+export const historicalPriceMonetaryFields: ReadonlyArray<
+  keyof HistoricalPriceApiItem
+> = ["open", "high", "low", "close", "adj_close", "change", "vwap"];
+
+/** Periods accepted by `?interval=` besides the daily default ('1d'). */
+export const RESAMPLE_PERIODS: ReadonlyArray<ResamplePeriod> = [
+  "1w",
+  "1mo",
+  "1q",
+  "1y",
+];
+
+/**
+ * Upper bound of the trading days in one period, to size the daily read
+ * behind a given number of resampled bars.
+ */
+export const MAX_TRADING_DAYS_PER_PERIOD: Record<ResamplePeriod, number> = {
+  "1w": 5,
+  "1mo": 23,
+  "1q": 66,
+  "1y": 262,
+};
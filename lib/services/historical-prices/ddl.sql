@@ -64,3 +64,15 @@ EXECUTE FUNCTION moddatetime('modified_at');
 -- GRANT SELECT ON public.historical_prices TO authenticated;
 -- GRANT ALL ON public.historical_prices TO service_role;
 
+
+-- Time of the last full refetch of each symbol's series. Incremental
+-- refreshes only rewrite recent rows, and rows the provider no longer
+-- returns are never rewritten, so row timestamps cannot date it.
+CREATE TABLE IF NOT EXISTS public.historical_price_reconciles (
+    symbol                      TEXT PRIMARY KEY,
+    reconciled_at               TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT fk_historical_price_reconciles_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.historical_price_reconciles IS 'Last full refetch of the daily price series per symbol.';
@@ -2,28 +2,74 @@
  * lib/services/historical-prices/fetchHistoricalPrices.ts
  * Dedicated service function for fetching/caching historical price data.
  * (Profile dependency check moved to the API route handler)
+ * Refreshes are incremental: only bars after the latest stored date are
+ * fetched, with a full refetch every FULL_RECONCILE_INTERVAL_MS.
  * ---------------------------------------------------------------------*/
-import { SupabaseClient, PostgrestError } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
 import {
   RawHistoricalPriceResponse,
   RawHistoricalPriceItem,
   HistoricalPriceRow,
   HistoricalPriceInsertData,
 } from "./types";
-import { CACHE_TTL_MS } from "./constants";
+import {
+  CACHE_TTL_MS,
+  FULL_RECONCILE_INTERVAL_MS,
+  INCREMENTAL_OVERLAP_DAYS,
+  MAX_STALE_MS,
+  SERIES_READ_PAGE_SIZE,
+} from "./constants";
+import { format, parseISO, subDays } from "date-fns";
+import { getDataProvider, ProviderEndpoint } from "@/lib/common/providers";
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
+import {
+  singleFlight,
+  singleFlightKey,
+  type CacheStatus,
+  type DateRange,
+  type WithCacheStatus,
+} from "@/lib/common/supabase";
 
 const TABLE_NAME = "historical_prices";
-const FMP_PATH = "historical-price-full";
-const FMP_BASE_PATH = "v3";
-
-// Helper function to safely get the FMP API key
-function getFmpApiKey(): string {
-  const apiKey = process.env.FMP_API_KEY;
-  if (!apiKey) {
-    throw new Error("FMP_API_KEY environment variable is not set.");
+// One row per symbol: when its full series was last refetched
+const RECONCILES_TABLE_NAME = "historical_price_reconciles";
+
+// Upstream endpoint for the full daily price series (symbol in path)
+const HISTORICAL_PRICES_ENDPOINT: ProviderEndpoint = {
+  basePath: "v3",
+  path: "historical-price-full",
+  symbolLocation: "path",
+};
+
+// Unique constraint the upserts conflict on
+const UNIQUE_KEY_COLUMNS = ["symbol", "date"];
+
+// Stored series of a symbol (within the range, if any), newest first.
+// Read in pages: a full series is longer than the storage row cap
+async function readStoredSeries(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  range: DateRange = {}
+): Promise<HistoricalPriceRow[]> {
+  const where: Condition[] = [
+    { column: "symbol", op: "eq", value: symbolUpper },
+  ];
+  if (range.from) where.push({ column: "date", op: "gte", value: range.from });
+  if (range.to) where.push({ column: "date", op: "lte", value: range.to });
+  const rows: HistoricalPriceRow[] = [];
+  for (let offset = 0; ; offset += SERIES_READ_PAGE_SIZE) {
+    const page = await storage.select<HistoricalPriceRow>(TABLE_NAME, {
+      where,
+      orderBy: [{ column: "date", ascending: false }],
+      limit: SERIES_READ_PAGE_SIZE,
+      offset,
+    });
+    rows.push(...page);
+    if (page.length < SERIES_READ_PAGE_SIZE) return rows;
   }
-  return apiKey;
 }
 
 /**
@@ -59,117 +105,224 @@ function mapRawItemToInsertData(
 }
 
 /**
- * Fetches historical price data for a symbol, utilizing caching via Supabase.
+ * Fetches historical price data for a symbol, utilizing caching in storage.
  * Assumes the related profile already exists (checked by the caller/route).
  *
  * @param symbol The stock symbol.
- * @returns Promise<HistoricalPriceRow[]> An array of historical price rows (unsorted/unfiltered).
+ * @param range Optional date window (inclusive) of the rows returned.
+ * @returns Promise<HistoricalPriceRow[]> The historical price rows, newest first.
  */
 export async function getHistoricalPricesForSymbol(
-  symbol: string
+  symbol: string,
+  range?: DateRange
 ): Promise<HistoricalPriceRow[]> {
-  const supabase: SupabaseClient = getSupabaseServerClient();
+  return (await getHistoricalPricesForSymbolWithStatus(symbol, range)).data;
+}
+
+/**
+ * Same as getHistoricalPricesForSymbol, plus the cache status of the series.
+ * Stale-while-revalidate: a series older than CACHE_TTL_MS but younger than
+ * MAX_STALE_MS is returned immediately ('stale') and refreshed in the
+ * background; older series block on the refresh.
+ * `options.refresh` skips the cache check (forced refresh, admin only).
+ * `options.from` / `options.to` narrow the rows returned (not the refresh).
+ */
+export async function getHistoricalPricesForSymbolWithStatus(
+  symbol: string,
+  options?: { refresh?: boolean } & DateRange
+): Promise<WithCacheStatus<HistoricalPriceRow[]>> {
+  const storage = getStorage();
   const symbolUpper = symbol.toUpperCase();
+  const range: DateRange = { from: options?.from, to: options?.to };
+
+  if (options?.refresh) {
+    const cache = await forceRefresh(storage, symbolUpper);
+    return { data: await readStoredSeries(storage, symbolUpper, range), cache };
+  }
 
   console.log(`[HistPrice] Checking cache/fetching for ${symbolUpper}...`);
 
   // --- Step 1: Check Cache (Find latest entry for the symbol) ---
   // Check latest date, not modified_at, as historical data is keyed by date
-  const { data: latestEntry, error: findError } = (await supabase
-    .from(TABLE_NAME)
-    .select("date, modified_at") // Select date and modified_at for cache check
-    .eq("symbol", symbolUpper)
-    .order("date", { ascending: false })
-    .limit(1)
-    .maybeSingle()) as {
-    data: Pick<HistoricalPriceRow, "date" | "modified_at"> | null;
-    error: PostgrestError | null;
-  };
+  const latestEntry = await storage.selectLatest<
+    Pick<HistoricalPriceRow, "date" | "modified_at">
+  >(TABLE_NAME, symbolUpper, "date", {
+    columns: ["date", "modified_at"], // Select date and modified_at for cache check
+  });
 
-  if (findError && findError.code !== "PGRST116") {
-    // Ignore error if table is empty for symbol
-    console.error(
-      `[HistPrice] Error checking cache for ${symbolUpper}:`,
-      findError
-    );
-    throw findError;
-  }
-
-  // Cache logic: Check if latest entry exists and if its modified_at is recent
-  const isFresh =
-    latestEntry &&
-    Date.now() - new Date(latestEntry.modified_at).getTime() < CACHE_TTL_MS;
-
-  if (isFresh) {
-    console.log(`[HistPrice] Cache hit for ${symbolUpper}. Fetching from DB.`);
-    // Fetch all data for the symbol from DB if cache is fresh
-    const { data: cachedData, error: fetchError } = (await supabase
-      .from(TABLE_NAME)
-      .select("*") // Select all columns
-      .eq("symbol", symbolUpper)
-      .order("date", { ascending: false })) as {
-      data: HistoricalPriceRow[] | null;
-      error: PostgrestError | null;
-    };
+  // Cache logic: Check if latest entry exists and how old its modified_at is
+  const ageMs = latestEntry
+    ? Date.now() - new Date(latestEntry.modified_at).getTime()
+    : Infinity;
+  const isFresh = ageMs < CACHE_TTL_MS;
+  const canServeStale = !isFresh && ageMs < MAX_STALE_MS;
 
-    if (fetchError) {
-      console.error(
-        `[HistPrice] Error fetching cached data for ${symbolUpper}:`,
-        fetchError
+  if (latestEntry && (isFresh || canServeStale)) {
+    if (isFresh) {
+      console.log(
+        `[HistPrice] Cache hit for ${symbolUpper}. Fetching from DB.`
+      );
+    } else {
+      console.log(
+        `[HistPrice] Serving stale data for ${symbolUpper}; refreshing in background.`
+      );
+      refreshOnce(storage, symbolUpper, latestEntry.modified_at).catch(
+        (error) => {
+          console.error(
+            `[HistPrice] Background refresh failed for ${symbolUpper}:`,
+            error
+          );
+        }
       );
-      throw fetchError;
     }
-    return cachedData ?? []; // Return DB data or empty array
+    // Fetch the (requested window of the) series from DB
+    return {
+      data: await readStoredSeries(storage, symbolUpper, range),
+      cache: {
+        state: isFresh ? "fresh" : "stale",
+        modifiedAt: latestEntry.modified_at,
+      },
+    };
   }
 
-  // --- Step 2: Fetch from FMP API (Cache Miss or Stale) ---
+  // --- Steps 2-4 run once per symbol, shared by concurrent callers ---
+  const cache = await refreshOnce(
+    storage,
+    symbolUpper,
+    latestEntry?.modified_at ?? null
+  );
+  // --- Step 5: Read back this caller's window of the stored series ---
+  return { data: await readStoredSeries(storage, symbolUpper, range), cache };
+}
+
+/**
+ * Forced refresh of a symbol's full series, regardless of CACHE_TTL_MS (e.g.
+ * to replace a bad cached response). Throws if the provider fetch fails.
+ */
+export async function refreshHistoricalPricesForSymbol(
+  symbol: string
+): Promise<void> {
+  await forceRefresh(getStorage(), symbol.toUpperCase());
+}
+
+/**
+ * Refetches the bars of one date window (inclusive) and upserts them, e.g.
+ * to fill the gaps found by the gap detection. Unlike a refresh, this
+ * bypasses the cache and single flight; throws if the provider fetch fails.
+ * @returns Number of bars the provider returned for the window.
+ */
+export async function refetchHistoricalPriceRange(
+  symbol: string,
+  from: string,
+  to: string
+): Promise<number> {
+  const storage = getStorage();
+  const symbolUpper = symbol.toUpperCase();
+  const provider = getDataProvider();
+  const endpoint: ProviderEndpoint = {
+    ...HISTORICAL_PRICES_ENDPOINT,
+    params: { from, to },
+  };
   console.log(
-    `[HistPrice] Cache miss/stale for ${symbolUpper}. Fetching from FMP...`
+    `[HistPrice] Refetching ${symbolUpper} from ${from} to ${to}: ${provider.describeEndpoint(
+      endpoint,
+      symbolUpper
+    )}`
   );
-  const apiKey = getFmpApiKey();
-  // Construct URL (assuming v3 and symbol in path for this specific endpoint)
-  const actualUrl = `https://financialmodelingprep.com/api/${FMP_BASE_PATH}/${FMP_PATH}/${symbolUpper}?apikey=${apiKey}`;
-  console.log(`Fetching from FMP: ${actualUrl.replace(apiKey, "***")}`);
-
-  const response = await fetch(actualUrl, { cache: "no-store" });
-  if (!response.ok) {
-    let eBody = `(Status ${response.status})`;
-    try {
-      eBody = await response.text();
-    } catch {}
-    console.error(
-      `[HistPrice] FMP Error Body (${response.status}) for ${symbolUpper}: ${eBody}`
-    );
-    // If stale data exists, return it, otherwise throw
-    if (latestEntry) {
-      console.warn(
-        `[HistPrice] FMP fetch failed for ${symbolUpper}, returning potentially stale data.`
-      );
-      const { data: staleData, error: staleFetchError } = (await supabase
-        .from(TABLE_NAME)
-        .select("*")
-        .eq("symbol", symbolUpper)
-        .order("date", { ascending: false })) as {
-        data: HistoricalPriceRow[] | null;
-        error: PostgrestError | null;
-      };
-      if (staleFetchError) {
-        console.error(
-          `[HistPrice] Error fetching stale data for ${symbolUpper}:`,
-          staleFetchError
-        );
-        throw staleFetchError;
-      }
-      return staleData ?? [];
-    }
-    throw new Error(
-      `FMP request failed (${response.status}) for historical prices.`
-    );
+  const rawResponse = await provider.fetchBySymbol(endpoint, symbolUpper);
+  if (isEmptyResponse(rawResponse)) return 0;
+
+  const now = new Date().toISOString();
+  const rowsToUpsert = toHistoricalItems(rawResponse, symbolUpper)
+    .filter((item) => item.date >= from && item.date <= to)
+    .map((item) => ({
+      ...mapRawItemToInsertData(item, symbolUpper),
+      modified_at: now,
+    }));
+  if (rowsToUpsert.length > 0) {
+    await storage.upsert(TABLE_NAME, rowsToUpsert, UNIQUE_KEY_COLUMNS, {
+      returning: false,
+    });
   }
+  return rowsToUpsert.length;
+}
+
+/**
+ * Deletes stored prices (of one symbol, or all) so the next read refetches.
+ * @returns Number of rows deleted.
+ */
+export async function purgeHistoricalPrices(symbol?: string): Promise<number> {
+  const storage = getStorage();
+  const where: Condition[] = symbol
+    ? [{ column: "symbol", op: "eq", value: symbol.toUpperCase() }]
+    : [];
+  const count = await storage.delete(TABLE_NAME, where);
+  await storage.delete(RECONCILES_TABLE_NAME, where);
+  console.log(
+    `[HistPrice] Purged ${count} row(s)${
+      symbol ? ` for ${symbol.toUpperCase()}` : ""
+    }.`
+  );
+  return count;
+}
+
+// A forced refresh has no stored rows to fall back on (storedModifiedAt
+// null), so a failed fetch surfaces instead of returning the old series.
+// It always refetches the full series.
+function forceRefresh(
+  storage: StorageAdapter,
+  symbolUpper: string
+): Promise<CacheStatus> {
+  console.log(`[HistPrice] Forced refresh for ${symbolUpper}.`);
+  return refreshOnce(storage, symbolUpper, null, true);
+}
+
+// Coalesces concurrent refreshes of the same symbol (see refreshHistoricalPrices).
+// Callers read their own window of the series afterwards.
+function refreshOnce(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  storedModifiedAt: string | null,
+  full = false
+): Promise<CacheStatus> {
+  return singleFlight(singleFlightKey(TABLE_NAME, symbolUpper), () =>
+    refreshHistoricalPrices(storage, symbolUpper, storedModifiedAt, full)
+  );
+}
 
-  const rawResponse: unknown = await response.json();
+// Start date of an incremental fetch, or null when a full fetch is due:
+// nothing stored yet, or the last full fetch (recorded in
+// RECONCILES_TABLE_NAME) is missing or older than FULL_RECONCILE_INTERVAL_MS.
+async function incrementalFetchStart(
+  storage: StorageAdapter,
+  symbolUpper: string
+): Promise<string | null> {
+  const [latest, reconcile] = await Promise.all([
+    storage.selectLatest<Pick<HistoricalPriceRow, "date">>(
+      TABLE_NAME,
+      symbolUpper,
+      "date",
+      { columns: ["date"] }
+    ),
+    storage.selectFirst<{ reconciled_at: string }>(RECONCILES_TABLE_NAME, {
+      columns: ["reconciled_at"],
+      where: [{ column: "symbol", op: "eq", value: symbolUpper }],
+    }),
+  ]);
+  if (!latest || !reconcile) return null;
+  const sinceFullMs = Date.now() - new Date(reconcile.reconciled_at).getTime();
+  if (sinceFullMs >= FULL_RECONCILE_INTERVAL_MS) return null;
+  return format(
+    subDays(parseISO(latest.date), INCREMENTAL_OVERLAP_DAYS),
+    "yyyy-MM-dd"
+  );
+}
 
-  // Validate the expected structure
+// The bars of a (non-empty) provider response; throws on other shapes
+function toHistoricalItems(
+  rawResponse: unknown,
+  symbolUpper: string
+): RawHistoricalPriceItem[] {
   if (
     typeof rawResponse !== "object" ||
     rawResponse === null ||
@@ -177,73 +330,127 @@ export async function getHistoricalPricesForSymbol(
     !Array.isArray(rawResponse.historical)
   ) {
     console.error(
-      "[HistPrice] Invalid data structure received from FMP:",
+      "[HistPrice] Invalid data structure received from provider:",
       rawResponse
     );
     throw new Error(
-      `Invalid historical price data structure received from FMP for ${symbolUpper}.`
+      `Invalid historical price data structure received from provider for ${symbolUpper}.`
     );
   }
+  return (rawResponse as RawHistoricalPriceResponse).historical;
+}
+
+// True for the provider's "nothing in this window" answers
+function isEmptyResponse(rawResponse: unknown): boolean {
+  if (Array.isArray(rawResponse)) return rawResponse.length === 0;
+  return (
+    typeof rawResponse === "object" &&
+    rawResponse !== null &&
+    (Object.keys(rawResponse).length === 0 ||
+      ("historical" in rawResponse &&
+        Array.isArray(rawResponse.historical) &&
+        rawResponse.historical.length === 0))
+  );
+}
+
+/**
+ * Fetches the series from the data provider and upserts it: only the bars
+ * since the latest stored date, or the full series when no rows are stored,
+ * `full` is set or a reconcile is due (see incrementalFetchStart).
+ * Falls back to the stored rows if the fetch fails and any exist.
+ *
+ * @param storedModifiedAt modified_at of the latest stored row (null if none).
+ * @returns The cache status of the stored series after the refresh.
+ */
+async function refreshHistoricalPrices(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  storedModifiedAt: string | null,
+  full: boolean
+): Promise<CacheStatus> {
+  // --- Step 2: Fetch from the data provider (Cache Miss or Stale) ---
+  const provider = getDataProvider();
+  const fetchFrom = full
+    ? null
+    : await incrementalFetchStart(storage, symbolUpper);
+  const endpoint: ProviderEndpoint = fetchFrom
+    ? { ...HISTORICAL_PRICES_ENDPOINT, params: { from: fetchFrom } }
+    : HISTORICAL_PRICES_ENDPOINT;
+  console.log(
+    `[HistPrice] Cache miss/stale for ${symbolUpper}. Fetching ${
+      fetchFrom ? `bars since ${fetchFrom}` : "full series"
+    } from ${provider.name}: ${provider.describeEndpoint(
+      endpoint,
+      symbolUpper
+    )}`
+  );
+
+  let rawResponse: unknown;
+  try {
+    rawResponse = await provider.fetchBySymbol(endpoint, symbolUpper);
+  } catch (fetchError) {
+    // If stale data exists, return it, otherwise rethrow
+    if (storedModifiedAt) {
+      console.warn(
+        `[HistPrice] Provider fetch failed for ${symbolUpper}, returning potentially stale data.`,
+        fetchError
+      );
+      return { state: "fallback", modifiedAt: storedModifiedAt };
+    }
+    throw fetchError;
+  }
 
-  const historicalData = (rawResponse as RawHistoricalPriceResponse).historical;
-  if (historicalData.length === 0) {
+  const now = new Date().toISOString();
+  if (isEmptyResponse(rawResponse)) {
+    if (fetchFrom) {
+      // No bars since the last fetch (weekend, holiday): the stored series
+      // is current, so its recent rows are marked as checked
+      console.log(`[HistPrice] No new bars for ${symbolUpper}.`);
+      await storage.update(TABLE_NAME, { modified_at: now }, [
+        { column: "symbol", op: "eq", value: symbolUpper },
+        { column: "date", op: "gte", value: fetchFrom },
+      ]);
+      return { state: "refreshed", modifiedAt: now };
+    }
     console.warn(
-      `[HistPrice] FMP returned no historical data for ${symbolUpper}.`
+      `[HistPrice] Provider returned no historical data for ${symbolUpper}.`
     );
-    return []; // Return empty if no data from FMP
+    return { state: "refreshed", modifiedAt: null };
   }
+  const historicalData = toHistoricalItems(rawResponse, symbolUpper);
 
   // --- Step 3: Map and Prepare for Upsert ---
-  const now = new Date().toISOString();
   const rowsToUpsert = historicalData.map((item) => ({
     ...mapRawItemToInsertData(item, symbolUpper),
     modified_at: now, // Add timestamp for cache tracking
   }));
 
-  // --- Step 4: Upsert into Supabase ---
-  const conflictColumns = "symbol,date"; // Unique constraint
+  // --- Step 4: Upsert into storage ---
   console.log(
-    `[HistPrice] Upserting ${rowsToUpsert.length} rows for ${symbolUpper} to ${TABLE_NAME} on conflict (${conflictColumns}).`
+    `[HistPrice] Upserting ${
+      rowsToUpsert.length
+    } rows for ${symbolUpper} to ${TABLE_NAME} on conflict (${UNIQUE_KEY_COLUMNS.join(
+      ","
+    )}).`
   );
 
   // Upsert all rows. We don't strictly need to select them back here.
-  const { error: upsertError } = await supabase
-    .from(TABLE_NAME)
-    .upsert(rowsToUpsert, { onConflict: conflictColumns });
-
-  if (upsertError) {
-    console.error(
-      `[HistPrice] Supabase upsert error for ${symbolUpper}:`,
-      upsertError
-    );
-    throw new Error(
-      `Database upsert failed: ${upsertError.message} (Code: ${upsertError.code})`
-    );
-  }
-
-  // --- Step 5: Fetch the newly upserted/updated data from DB ---
-  console.log(`[HistPrice] Fetching updated data from DB for ${symbolUpper}.`);
-  const { data: finalData, error: finalFetchError } = (await supabase
-    .from(TABLE_NAME)
-    .select("*") // Select all for now
-    .eq("symbol", symbolUpper)
-    .order("date", { ascending: false })) as {
-    data: HistoricalPriceRow[] | null;
-    error: PostgrestError | null;
-  };
-
-  if (finalFetchError) {
-    console.error(
-      `[HistPrice] Error fetching final data for ${symbolUpper} after upsert:`,
-      finalFetchError
+  await storage.upsert(TABLE_NAME, rowsToUpsert, UNIQUE_KEY_COLUMNS, {
+    returning: false,
+  });
+  if (!fetchFrom) {
+    await storage.upsert(
+      RECONCILES_TABLE_NAME,
+      [{ symbol: symbolUpper, reconciled_at: now }],
+      ["symbol"],
+      { returning: false }
     );
-    throw finalFetchError;
   }
 
   console.log(
-    `[HistPrice] Successfully fetched/updated ${
-      finalData?.length ?? 0
+    `[HistPrice] Successfully ${fetchFrom ? "updated" : "reconciled"} ${
+      rowsToUpsert.length
     } records for ${symbolUpper}.`
   );
-  return finalData ?? []; // Return the data just stored/updated
+  return { state: "refreshed", modifiedAt: now };
 }
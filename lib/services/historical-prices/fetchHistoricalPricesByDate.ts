@@ -1,54 +1,74 @@
 /* ──────────────────────────────────────────────────────────────────────
  * lib/services/historical-prices/fetchHistoricalPricesByDate.ts
- * Service function to fetch historical price data for ALL symbols
- * for a specific date directly from the Supabase database.
+ * Service functions to fetch historical price data for ALL symbols
+ * for a specific date, or a date range, directly from storage.
  * ---------------------------------------------------------------------*/
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type Condition } from "@/lib/common/storage";
+import type { DateRange } from "@/lib/common/supabase";
+import { ALL_SYMBOLS_READ_PAGE_SIZE } from "./constants";
 import type { HistoricalPriceRow } from "./types"; // Uses the existing types.ts
 
 const TABLE_NAME = "historical_prices"; // Ensure this matches your actual table name
 
+// Rows matching the conditions, past the storage row cap. The order must
+// be total (date, symbol) for the pages to line up.
+async function selectAllRows(
+  where: Condition[]
+): Promise<HistoricalPriceRow[]> {
+  const storage = getStorage();
+  const rows: HistoricalPriceRow[] = [];
+  for (let offset = 0; ; offset += ALL_SYMBOLS_READ_PAGE_SIZE) {
+    const page = await storage.select<HistoricalPriceRow>(TABLE_NAME, {
+      where,
+      orderBy: [
+        { column: "date", ascending: true },
+        { column: "symbol", ascending: true },
+      ],
+      limit: ALL_SYMBOLS_READ_PAGE_SIZE,
+      offset,
+    });
+    rows.push(...page);
+    if (page.length < ALL_SYMBOLS_READ_PAGE_SIZE) return rows;
+  }
+}
+
 /**
  * Fetches historical price data for ALL symbols for a specific date
- * directly from the Supabase database. Does NOT call FMP.
+ * directly from storage. Does NOT call FMP.
  *
  * @param targetDate The target date in 'YYYY-MM-DD' format.
- * @returns Promise<HistoricalPriceRow[]> An array of historical price rows for that date.
+ * @returns Promise<HistoricalPriceRow[]> An array of historical price rows for that date, by symbol.
  */
 export async function getHistoricalPricesForAllSymbolsByDate(
   targetDate: string
 ): Promise<HistoricalPriceRow[]> {
-  const supabase: SupabaseClient = getSupabaseServerClient();
+  const storage = getStorage();
 
   console.log(
-    `[HistPriceSvcByDate] Fetching all symbols from Supabase for date: ${targetDate}`
+    `[HistPriceSvcByDate] Fetching all symbols from ${storage.name} for date: ${targetDate}`
   );
 
-  // Since HistoricalPriceRow is derived from the DB schema,
-  // select('*') will fetch all columns defined for that row type.
-  const { data, error } = await supabase
-    .from(TABLE_NAME)
-    .select("*") // Fetches all columns corresponding to HistoricalPriceRow
-    .eq("date", targetDate);
-
-  if (error) {
+  let data: HistoricalPriceRow[];
+  try {
+    data = await selectAllRows([
+      { column: "date", op: "eq", value: targetDate },
+    ]);
+  } catch (error) {
     console.error(
-      `[HistPriceSvcByDate] Supabase query error for date ${targetDate}:`,
+      `[HistPriceSvcByDate] Query error for date ${targetDate}:`,
       error
     );
     // Propagate the error to be handled by the API route
     throw new Error(
-      `Database query failed while fetching historical prices for date ${targetDate}: ${error.message}`
+      `Database query failed while fetching historical prices for date ${targetDate}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
     );
   }
 
-  // Supabase returns `null` for `data` if the query runs but finds no matching rows,
-  // or an empty array depending on version/context.
-  // We'll ensure an empty array is returned if no data.
-  if (!data || data.length === 0) {
+  if (data.length === 0) {
     console.log(
-      `[HistPriceSvcByDate] No data found in Supabase for any symbol on ${targetDate}`
+      `[HistPriceSvcByDate] No data found for any symbol on ${targetDate}`
     );
     return [];
   }
@@ -56,7 +76,45 @@ export async function getHistoricalPricesForAllSymbolsByDate(
   console.log(
     `[HistPriceSvcByDate] Fetched ${data.length} records for date ${targetDate}.`
   );
-  // The data should already conform to HistoricalPriceRow[] due to select('*')
-  // and the table type association, but casting can be explicit if desired.
-  return data as HistoricalPriceRow[];
+  return data;
+}
+
+/**
+ * Fetches historical price data for ALL symbols within a date range (both
+ * ends inclusive) directly from storage. Does NOT call FMP.
+ * Callers bound the range; see MAX_ALL_SYMBOLS_RANGE_DAYS.
+ *
+ * @returns Promise<HistoricalPriceRow[]> Rows ordered by date, then symbol.
+ */
+export async function getHistoricalPricesForAllSymbolsInRange(
+  range: DateRange
+): Promise<HistoricalPriceRow[]> {
+  const storage = getStorage();
+  const label = `${range.from ?? "start"}..${range.to ?? "end"}`;
+
+  console.log(
+    `[HistPriceSvcByDate] Fetching all symbols from ${storage.name} for range: ${label}`
+  );
+
+  const where: Condition[] = [];
+  if (range.from) where.push({ column: "date", op: "gte", value: range.from });
+  if (range.to) where.push({ column: "date", op: "lte", value: range.to });
+
+  try {
+    const data = await selectAllRows(where);
+    console.log(
+      `[HistPriceSvcByDate] Fetched ${data.length} records for range ${label}.`
+    );
+    return data;
+  } catch (error) {
+    console.error(
+      `[HistPriceSvcByDate] Query error for range ${label}:`,
+      error
+    );
+    throw new Error(
+      `Database query failed while fetching historical prices for range ${label}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
 }
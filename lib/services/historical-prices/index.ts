@@ -3,9 +3,35 @@
  * Exports the dedicated service functions for historical prices.
  * ---------------------------------------------------------------------*/
 
-export { getHistoricalPricesForSymbol } from "./fetchHistoricalPrices";
+export {
+  getHistoricalPricesForSymbol,
+  getHistoricalPricesForSymbolWithStatus,
+  refreshHistoricalPricesForSymbol,
+  refetchHistoricalPriceRange,
+  purgeHistoricalPrices,
+} from "./fetchHistoricalPrices";
 // Export the new function from its new file
-export { getHistoricalPricesForAllSymbolsByDate } from "./fetchHistoricalPricesByDate";
+export {
+  getHistoricalPricesForAllSymbolsByDate,
+  getHistoricalPricesForAllSymbolsInRange,
+} from "./fetchHistoricalPricesByDate";
+export {
+  parseResamplePeriod,
+  periodStart,
+  resamplePriceBars,
+} from "./resample";
+export {
+  historicalPriceMonetaryFields,
+  MAX_ALL_SYMBOLS_RANGE_DAYS,
+  MAX_TRADING_DAYS_PER_PERIOD,
+  RESAMPLE_PERIODS,
+} from "./constants";
 
 // Re-export relevant types for consumers
-export type { HistoricalPriceApiItem, HistoricalPriceRow } from "./types";
+export type {
+  HistoricalPriceApiItem,
+  HistoricalPriceRow,
+  OhlcvBar,
+  ResampledPriceBar,
+  ResamplePeriod,
+} from "./types";
@@ -0,0 +1,102 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/historical-prices/resample.ts
+ * Aggregation of daily bars into weekly, monthly, quarterly and yearly
+ * bars: first open, highest high, lowest low, last close, summed volume.
+ * Used by the historical prices route (?interval=) and by the technical
+ * signals for multi-timeframe analysis.
+ * ---------------------------------------------------------------------*/
+import {
+  format,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from "date-fns";
+
+import { RESAMPLE_PERIODS } from "./constants";
+import type { OhlcvBar, ResamplePeriod, ResampledPriceBar } from "./types";
+
+const PERIOD_START: Record<ResamplePeriod, (date: Date) => Date> = {
+  "1w": startOfISOWeek,
+  "1mo": startOfMonth,
+  "1q": startOfQuarter,
+  "1y": startOfYear,
+};
+
+/** Parses a resample period name; null for anything else. */
+export function parseResamplePeriod(
+  value: string | null | undefined
+): ResamplePeriod | null {
+  return RESAMPLE_PERIODS.includes(value as ResamplePeriod)
+    ? (value as ResamplePeriod)
+    : null;
+}
+
+/** First calendar day (YYYY-MM-DD) of the period containing `date`. */
+export function periodStart(date: string, period: ResamplePeriod): string {
+  return format(PERIOD_START[period](parseISO(date)), "yyyy-MM-dd");
+}
+
+// Null-skipping min/max; null when every value is null
+const extreme = (
+  values: ReadonlyArray<number | null>,
+  pick: (...values: number[]) => number
+): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? pick(...present) : null;
+};
+
+/**
+ * Resamples daily bars into bars of `period`. Open and close come from the
+ * first and last daily bar with a value; a period with no volume reported
+ * has null volume. The newest period may still be in progress.
+ *
+ * @param bars Daily bars in any order.
+ * @returns Resampled bars, newest first (like the daily series).
+ */
+export function resamplePriceBars(
+  bars: ReadonlyArray<OhlcvBar>,
+  period: ResamplePeriod
+): ResampledPriceBar[] {
+  const groups = new Map<string, OhlcvBar[]>();
+  for (const bar of [...bars].sort((a, b) => a.date.localeCompare(b.date))) {
+    const key = periodStart(bar.date, period);
+    const group = groups.get(key);
+    if (group) group.push(bar);
+    else groups.set(key, [bar]);
+  }
+
+  const resampled: ResampledPriceBar[] = [];
+  for (const [date, group] of groups) {
+    const first = <K extends keyof OhlcvBar>(key: K) =>
+      group.find((bar) => bar[key] != null)?.[key] ?? null;
+    const last = <K extends keyof OhlcvBar>(key: K) =>
+      [...group].reverse().find((bar) => bar[key] != null)?.[key] ?? null;
+    const volumes = group
+      .map((bar) => bar.volume)
+      .filter((volume): volume is number => volume !== null);
+    resampled.push({
+      period,
+      date,
+      end_date: group[group.length - 1].date,
+      open: first("open") as number | null,
+      high: extreme(
+        group.map((bar) => bar.high),
+        Math.max
+      ),
+      low: extreme(
+        group.map((bar) => bar.low),
+        Math.min
+      ),
+      close: last("close") as number | null,
+      adj_close: last("adj_close") as number | null,
+      volume:
+        volumes.length > 0
+          ? volumes.reduce((sum, volume) => sum + volume, 0)
+          : null,
+      trading_days: group.length,
+    });
+  }
+  return resampled.reverse();
+}
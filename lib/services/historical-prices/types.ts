@@ -46,3 +46,30 @@ export interface HistoricalPriceApiItem
   id: string; // API id is string
   // Inherits snake_case keys like adj_close, change_percent, etc.
 }
+
+/**
+ * Bar periods coarser than a day: ISO week (Monday to Sunday), calendar
+ * month, calendar quarter and calendar year.
+ */
+export type ResamplePeriod = "1w" | "1mo" | "1q" | "1y";
+
+/** Daily bar fields the resampling reads (adj_close is optional). */
+export type OhlcvBar = Pick<
+  HistoricalPriceRow,
+  "date" | "open" | "high" | "low" | "close" | "volume"
+> &
+  Partial<Pick<HistoricalPriceRow, "adj_close">>;
+
+/** One resampled bar, built from the daily bars of its period. */
+export interface ResampledPriceBar {
+  period: ResamplePeriod;
+  date: string; // First calendar day of the period (YYYY-MM-DD)
+  end_date: string; // Last daily bar in the period
+  open: number | null; // First open
+  high: number | null; // Highest high
+  low: number | null; // Lowest low
+  close: number | null; // Last close
+  adj_close: number | null; // Last adjusted close
+  volume: number | null; // Summed volume
+  trading_days: number; // Daily bars aggregated
+}
@@ -8,7 +8,15 @@ import {
   FetchMode,
 } from "@/lib/common/supabase"; // Adjust path for common Supabase types
 import { mapRowToPartialApi } from "@/lib/common/supabase"; // Import common Supabase mapper
-import { incomeStatementKeyOrder, CACHE_TTL_MS } from "./constants"; // Import constants
+import {
+  ANNUAL_PERIOD_VALUES,
+  QUARTER_PERIOD_VALUES,
+} from "@/lib/common/statements";
+import {
+  incomeStatementKeyOrder,
+  CACHE_TTL_MS,
+  incomeStatementRawSchema,
+} from "./constants"; // Import constants
 
 // Import specific types and mappers for Income Statements (Supabase version)
 import {
@@ -40,6 +48,7 @@ export const incomeStatementConfig: GenericSupabaseServiceConfig<
   fmpPath: "income-statement", // FMP specific endpoint path
   fmpSymbolLocation: "path", // Explicitly state symbol goes in path
   fmpParams: { period: "annual" }, // Static query parameters for FMP API
+  recordScope: { column: "period", values: ANNUAL_PERIOD_VALUES }, // Annual (FY) rows only
 
   // --- Caching ---
   cacheTtlMs: CACHE_TTL_MS, // How long data is considered fresh
@@ -50,13 +59,32 @@ export const incomeStatementConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawIncomeStatementToRow, // Use Supabase-specific Raw -> Row mapper
   mapRowToApi: mapRowToPartialApi, // Use common Supabase Row -> API mapper
   apiFieldOrder: incomeStatementKeyOrder, // Use defined key order for selection/ordering
+  rawSchema: incomeStatementRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers for 'bySymbol' mode ---
   isSingleRecordPerSymbol: false, // FMP returns multiple historical records per symbol
   // Use the 'date' column (snake_case) to determine the latest record
   sortByFieldForLatest: "date",
+  // Restatements overwrite rows in place; keep a diff of every change
+  trackVersions: true,
+  // Filing timestamp: asOf reads only see statements filed by then
+  asOfColumn: "accepted_date",
 
   // --- Optional Callbacks ---
   // validateRawData: (data: unknown): data is RawIncomeStatement | RawIncomeStatement[] => {/*...*/ return true;},
   // processRawDataArray: (rawData: RawIncomeStatement[]) => { /*...*/ return rawData; },
 };
+
+/**
+ * Configuration for quarterly income statements. Shares the table with the
+ * annual service; the 'period' column (Q1-Q4 vs FY) keeps them apart.
+ */
+export const incomeStatementQuarterlyConfig: GenericSupabaseServiceConfig<
+  RawIncomeStatement,
+  IncomeStatementRow,
+  IncomeStatement
+> = {
+  ...incomeStatementConfig,
+  fmpParams: { period: "quarter" }, // Quarterly statements from FMP
+  recordScope: { column: "period", values: QUARTER_PERIOD_VALUES },
+};
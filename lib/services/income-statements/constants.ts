@@ -4,7 +4,12 @@
  * ---------------------------------------------------------------------*/
 
 // Import the IncomeStatement API type definition (Supabase version)
-import type { IncomeStatement } from "./types";
+import type { IncomeStatement, RawIncomeStatement } from "./types";
+import {
+  statementHeaderSchema,
+  type TtmOptions,
+} from "@/lib/common/statements";
+import type { RecordSchema } from "@/lib/common/validation";
 
 /** Cache Time-To-Live: How long fetched data is considered fresh before re-fetching. */
 // Using 1 week like the previous example
@@ -57,3 +62,66 @@ export const incomeStatementKeyOrder: ReadonlyArray<keyof IncomeStatement> = [
   "final_link",
   // created_at and modified_at are omitted by the mapper
 ];
+
+/**
+ * Roll-up rules for trailing-twelve-month income statements.
+ * Flows (and per-share EPS) are summed over four quarters, margins are
+ * recomputed from the sums. Share counts come from the latest quarter.
+ */
+export const incomeStatementTtmOptions: TtmOptions<IncomeStatement> = {
+  sumFields: [
+    "revenue",
+    "cost_of_revenue",
+    "gross_profit",
+    "research_and_development_expenses",
+    "general_and_administrative_expenses",
+    "selling_and_marketing_expenses",
+    "selling_general_and_administrative_expenses",
+    "other_expenses",
+    "operating_expenses",
+    "cost_and_expenses",
+    "interest_income",
+    "interest_expense",
+    "depreciation_and_amortization",
+    "ebitda",
+    "operating_income",
+    "total_other_income_expenses_net",
+    "income_before_tax",
+    "income_tax_expense",
+    "net_income",
+    "eps",
+    "epsdiluted",
+  ],
+  ratioFields: {
+    gross_profit_ratio: ["gross_profit", "revenue"],
+    ebitdaratio: ["ebitda", "revenue"],
+    operating_income_ratio: ["operating_income", "revenue"],
+    income_before_tax_ratio: ["income_before_tax", "revenue"],
+    net_income_ratio: ["net_income", "revenue"],
+  },
+};
+
+/**
+ * Fields converted by `?currency=`: the TTM sum fields, i.e. every amount
+ * and per-share figure. Margins and share counts are currency-free.
+ */
+export const incomeStatementMonetaryFields: ReadonlyArray<
+  keyof IncomeStatement
+> = incomeStatementTtmOptions.sumFields;
+
+/**
+ * Per-record schema for raw income statements from FMP. Records failing it are
+ * quarantined instead of ingested. Line items are checked for type only.
+ */
+export const incomeStatementRawSchema: RecordSchema<RawIncomeStatement> = {
+  ...statementHeaderSchema,
+  revenue: { type: "number" },
+  costOfRevenue: { type: "number" },
+  grossProfit: { type: "number" },
+  operatingIncome: { type: "number" },
+  netIncome: { type: "number" },
+  eps: { type: "number" },
+  epsdiluted: { type: "number" },
+  weightedAverageShsOut: { type: "number" },
+  weightedAverageShsOutDil: { type: "number" },
+};
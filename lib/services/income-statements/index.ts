@@ -5,9 +5,20 @@
 
 // 1. Import the generic service creator function for SUPABASE
 import { createGenericSupabaseService } from "@/lib/common/supabase"; // Adjust path as needed
+import {
+  createPeriodStatementService,
+  type StatementPeriod,
+} from "@/lib/common/statements";
 
 // 2. Import the specific configuration for income statements (Supabase version)
-import { incomeStatementConfig } from "./config";
+import {
+  incomeStatementConfig,
+  incomeStatementQuarterlyConfig,
+} from "./config";
+import {
+  incomeStatementKeyOrder,
+  incomeStatementTtmOptions,
+} from "./constants";
 
 // 3. Import specific types for Supabase (Raw, Row, and API types)
 import type {
@@ -24,29 +35,80 @@ const incomeStatementService = createGenericSupabaseService<
   IncomeStatement // Conceptual API type (service returns Partial<IncomeStatement>)
 >(incomeStatementConfig);
 
+// Quarterly rows live in the same table, scoped by the 'period' column
+const incomeStatementQuarterlyService = createGenericSupabaseService<
+  RawIncomeStatement,
+  IncomeStatementRow,
+  IncomeStatement
+>(incomeStatementQuarterlyConfig);
+
+// Period-aware facade: annual (default), quarter, or TTM derived from quarters
+const incomeStatementPeriodService =
+  createPeriodStatementService<IncomeStatement>({
+    annual: incomeStatementService,
+    quarterly: incomeStatementQuarterlyService,
+    ttm: incomeStatementTtmOptions,
+    fieldOrder: incomeStatementKeyOrder,
+  });
+
 // --- Export Domain-Specific Service Methods ---
 
 /**
  * Fetches the latest income statement for a specific symbol based on config.sortByFieldForLatest.
+ * `period` selects annual (default), quarter or ttm.
  * Returns Promise<Partial<IncomeStatement> | null>
  */
-export const getLatestIncomeStatement = incomeStatementService.getOne;
+export const getLatestIncomeStatement = incomeStatementPeriodService.getOne;
 
 /**
  * Fetches all historical income statements for a specific symbol.
+ * `period` selects annual (default), quarter or ttm (rolling TTM series).
  * Returns Promise<Partial<IncomeStatement>[]>
  */
 export const getIncomeStatementsForSymbol =
-  incomeStatementService.getAllForSymbol;
+  incomeStatementPeriodService.getAllForSymbol;
 
 /**
  * Fetches a list view of income statements (behavior depends on service config/fetch mode).
+ * `period` selects annual (default), quarter or ttm (latest TTM per symbol).
  * Returns Promise<Partial<IncomeStatement>[]>
  */
-export const getAllIncomeStatements = incomeStatementService.getAll;
+export const getAllIncomeStatements = incomeStatementPeriodService.getAll;
+
+/**
+ * Fetches the restatement history of the income statement reported on `date`:
+ * the current values plus one version record per change, newest first.
+ * `period` selects annual (default) or quarter.
+ * Returns Promise<StatementHistory<IncomeStatement>>
+ */
+export const getIncomeStatementHistory =
+  incomeStatementPeriodService.getHistory;
+
+/**
+ * Point-in-time read: the income statements for a symbol as publicly known at the
+ * end of `asOf` (YYYY-MM-DD). Statements filed later are left out and later
+ * restatements are undone. `period` selects annual (default), quarter or ttm.
+ * Returns Promise<Partial<IncomeStatement>[]>
+ */
+export const getIncomeStatementsAsOf = (
+  symbol: string,
+  asOf: string,
+  period: StatementPeriod = "annual"
+) => incomeStatementPeriodService.getAllForSymbol(symbol, period, { asOf });
+
+/**
+ * Admin cache control: forced refresh of a symbol's annual and quarterly
+ * income statements, and deletion of stored ones (one symbol, or all) so the
+ * next read refetches.
+ */
+export const refreshIncomeStatements = incomeStatementPeriodService.refresh;
+export const purgeIncomeStatements = incomeStatementPeriodService.purge;
 
 // Note: getCollection (MongoDB specific) is removed.
 
+/** Amount fields, converted when a response is requested in another currency. */
+export { incomeStatementMonetaryFields } from "./constants";
+
 // --- Re-export Types ---
 // Export types relevant for consumers using this service with Supabase
 export type { IncomeStatement, IncomeStatementRow };
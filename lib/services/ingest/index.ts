@@ -10,6 +10,7 @@
 // in 'lib/services/ingest/service.ts' or a similarly named file within this module.
 export {
   processSymbolData,
+  processSymbolsData,
   fetchAllSymbols,
   type SymbolProcessingResult, // Exporting type used by the route
   type SymbolResultDetails, // Exporting type used within SymbolProcessingResult
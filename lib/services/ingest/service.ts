@@ -1,14 +1,19 @@
 // lib/services/fetch-all-data/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
 
 // Import individual data fetching functions
-import { getProfile } from "@/lib/services/profiles";
+import { getProfile, getProfilesForSymbols } from "@/lib/services/profiles";
 import { getIncomeStatementsForSymbol } from "@/lib/services/income-statements";
 import { getBalanceSheetStatementsForSymbol } from "@/lib/services/balance-sheet-statements";
 import { getCashFlowStatementsForSymbol } from "@/lib/services/cash-flow-statements";
 import { getHistoricalPricesForSymbol } from "@/lib/services/historical-prices";
 import { getLatestGradesConsensus } from "@/lib/services/grades-consensus";
+import { getStockSplitsForSymbol } from "@/lib/services/stock-splits";
+import { getDividendsForSymbol } from "@/lib/services/dividends";
+import { getAnalystRatingActionsForSymbol } from "@/lib/services/analyst-ratings";
+import { getLatestPriceTarget } from "@/lib/services/price-targets";
+import { getInsiderTradesForSymbol } from "@/lib/services/insider-trades";
+import { isNoDataError } from "@/lib/common/supabase";
 // getEarningsCalendar is a global fetch, not per-symbol, so it's handled separately
 
 // --- Types ---
@@ -19,6 +24,11 @@ export interface SymbolResultDetails {
   cashflow: string;
   historicalprice: string;
   gradesconsensus: string;
+  splits: string;
+  dividends: string;
+  analystratings: string;
+  pricetargets: string;
+  insidertrades: string;
 }
 
 export interface SymbolProcessingResult {
@@ -34,10 +44,22 @@ const STATEMENT_TYPES_ORDERED = [
   "cashflow",
   "historicalprice",
   "gradesconsensus",
+  "splits",
+  "dividends",
+  "analystratings",
+  "pricetargets",
+  "insidertrades",
 ] as const;
 
 // --- Helper Functions ---
 
+// Event datasets (splits, dividends, ratings, insider trades) without any
+// event read as empty
+function noneIsEmpty(error: unknown): never[] {
+  if (isNoDataError(error)) return [];
+  throw error;
+}
+
 /**
  * Processes a PromiseSettledResult and returns a status string.
  * @param result The PromiseSettledResult to process.
@@ -68,39 +90,40 @@ function processSettledResult(
 }
 
 /**
- * Fetches all unique symbols from the 'profile_symbols' view.
- * @param supabase Optional Supabase client instance.
+ * Fetches all unique symbols of the stored profiles, in symbol order (so
+ * batches stay stable between calls).
+ * @param storageInstance Optional storage backend (default: getStorage()).
  * @returns A promise that resolves to an array of symbol strings.
  */
 export async function fetchAllSymbols(
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter
 ): Promise<string[]> {
-  const supabase = supabaseInstance || getSupabaseServerClient();
-  const { data, error } = await supabase
-    .from("profile_symbols")
-    .select("symbol");
-
-  if (error) {
+  const storage = storageInstance || getStorage();
+  let data: { symbol: string | null }[];
+  try {
+    data = await storage.select<{ symbol: string | null }>("profiles", {
+      columns: ["symbol"],
+      orderBy: [{ column: "symbol", ascending: true }],
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
     console.error(
       "[FetchAllDataSvc][fetchAllSymbols] Error fetching symbols:",
-      error.message
+      message
     );
-    throw new Error(`Failed to fetch symbols: ${error.message}`);
+    throw new Error(`Failed to fetch symbols: ${message}`);
   }
 
-  if (!data) {
-    console.warn(
-      "[FetchAllDataSvc][fetchAllSymbols] No data returned when fetching symbols."
-    );
-    return [];
-  }
-
-  return data
-    .map((item: { symbol: string | null }) => item.symbol)
-    .filter(
-      (symbol): symbol is string =>
-        typeof symbol === "string" && symbol.trim().length > 0
-    );
+  return Array.from(
+    new Set(
+      data
+        .map((item) => item.symbol)
+        .filter(
+          (symbol): symbol is string =>
+            typeof symbol === "string" && symbol.trim().length > 0
+        )
+    )
+  );
 }
 
 // --- Core Service Function for a Single Symbol ---
@@ -108,26 +131,15 @@ export async function fetchAllSymbols(
 /**
  * Fetches all relevant data (profile, statements, prices, consensus) for a single symbol.
  * @param symbol The stock symbol to process.
- * @param supabaseInstance Optional Supabase client instance.
  * @returns A promise that resolves to a SymbolProcessingResult.
  */
 export async function processSymbolData(
   symbol: string
 ): Promise<SymbolProcessingResult> {
   const symbolUpper = symbol.toUpperCase();
-  // Individual services (getProfile, etc.) will create their own Supabase clients if not passed.
-  // This is acceptable as this function is per-symbol.
+  // Individual services (getProfile, etc.) use the process-wide storage backend.
 
-  const results: SymbolResultDetails = {
-    profile: "Skipped",
-    income: "Skipped",
-    balance: "Skipped",
-    cashflow: "Skipped",
-    historicalprice: "Skipped",
-    gradesconsensus: "Skipped",
-  };
-  let overallStatus: "Success" | "Failed" | "Profile_Fetch_Failed" = "Failed"; // Default to Failed
-  let overallError: string | undefined = undefined;
+  const results = skippedDetails();
 
   console.log(
     `[FetchAllDataSvc][processSymbolData] Processing ${symbolUpper}...`
@@ -135,7 +147,7 @@ export async function processSymbolData(
 
   // 1. Fetch Profile (critical path)
   try {
-    await getProfile(symbolUpper); // Assumes getProfile handles its own Supabase client & upsert
+    await getProfile(symbolUpper); // getProfile handles its own storage & upsert
     results.profile = "Success";
     console.log(
       `[FetchAllDataSvc][processSymbolData] Profile fetch complete for ${symbolUpper}.`
@@ -145,21 +157,116 @@ export async function processSymbolData(
       profileError instanceof Error
         ? profileError.message
         : String(profileError);
-    results.profile = `Failed: ${errorMsg}`;
-    overallError = `Profile fetch failed: ${errorMsg}. Subsequent data fetches skipped.`;
     console.error(
       `[FetchAllDataSvc][processSymbolData] Profile fetch for ${symbolUpper} failed, skipping other data. Error:`,
       profileError
     );
-    return {
-      symbol: symbolUpper,
-      status: "Profile_Fetch_Failed",
-      details: results,
-      error: overallError,
-    };
+    return profileFailedResult(symbolUpper, results, errorMsg);
   }
 
   // 2. Fetch other data types in parallel if profile fetch was successful
+  return fetchDependentData(symbolUpper, results);
+}
+
+// --- Core Service Function for Several Symbols ---
+
+/**
+ * Batch variant of processSymbolData. The profiles of all symbols are read
+ * in one storage query (fetching only missing or stale ones); the other
+ * data is then fetched per symbol whose profile is available.
+ * @param symbols The stock symbols to process.
+ * @returns Processing results keyed by symbol, in request order.
+ */
+export async function processSymbolsData(
+  symbols: ReadonlyArray<string>
+): Promise<Record<string, SymbolProcessingResult>> {
+  const symbolsUpper = [...new Set(symbols.map((s) => s.toUpperCase()))];
+  console.log(
+    `[FetchAllDataSvc][processSymbolsData] Processing ${symbolsUpper.length} symbol(s)...`
+  );
+
+  // 1. Fetch Profiles (critical path, one read for all symbols)
+  let profiles: Awaited<ReturnType<typeof getProfilesForSymbols>>;
+  try {
+    profiles = await getProfilesForSymbols(symbolsUpper);
+  } catch (profileError: unknown) {
+    const errorMsg =
+      profileError instanceof Error
+        ? profileError.message
+        : String(profileError);
+    console.error(
+      `[FetchAllDataSvc][processSymbolsData] Profile batch read failed, skipping other data. Error:`,
+      profileError
+    );
+    return Object.fromEntries(
+      symbolsUpper.map((symbol) => [
+        symbol,
+        profileFailedResult(symbol, skippedDetails(), errorMsg),
+      ])
+    );
+  }
+
+  // 2. Fetch other data types per symbol whose profile is available
+  const processed = await Promise.all(
+    symbolsUpper.map((symbol) => {
+      const results = skippedDetails();
+      const profile = profiles[symbol];
+      if (!profile || "error" in profile) {
+        const errorMsg = profile?.error ?? `No profile for ${symbol}.`;
+        return profileFailedResult(symbol, results, errorMsg);
+      }
+      results.profile = "Success";
+      return fetchDependentData(symbol, results);
+    })
+  );
+  return Object.fromEntries(processed.map((r) => [r.symbol, r]));
+}
+
+// Details of a symbol before any data was fetched
+function skippedDetails(): SymbolResultDetails {
+  return {
+    profile: "Skipped",
+    income: "Skipped",
+    balance: "Skipped",
+    cashflow: "Skipped",
+    historicalprice: "Skipped",
+    gradesconsensus: "Skipped",
+    splits: "Skipped",
+    dividends: "Skipped",
+    analystratings: "Skipped",
+    pricetargets: "Skipped",
+    insidertrades: "Skipped",
+  };
+}
+
+// Result of a symbol whose profile could not be fetched
+function profileFailedResult(
+  symbolUpper: string,
+  results: SymbolResultDetails,
+  errorMsg: string
+): SymbolProcessingResult {
+  results.profile = `Failed: ${errorMsg}`;
+  return {
+    symbol: symbolUpper,
+    status: "Profile_Fetch_Failed",
+    details: results,
+    error: `Profile fetch failed: ${errorMsg}. Subsequent data fetches skipped.`,
+  };
+}
+
+/**
+ * Fetches the data that depends on a stored profile (statements, prices,
+ * consensus) in parallel and completes the processing result.
+ * @param symbolUpper The stock symbol, upper-cased.
+ * @param results Details so far, with the profile step already recorded.
+ */
+async function fetchDependentData(
+  symbolUpper: string,
+  results: SymbolResultDetails
+): Promise<SymbolProcessingResult> {
+  let overallStatus: "Success" | "Failed" = "Failed";
+  let overallError: string | undefined = undefined;
+
   try {
     console.log(
       `[FetchAllDataSvc][processSymbolData] Fetching other data for ${symbolUpper}...`
@@ -170,6 +277,14 @@ export async function processSymbolData(
       getCashFlowStatementsForSymbol(symbolUpper),
       getHistoricalPricesForSymbol(symbolUpper),
       getLatestGradesConsensus(symbolUpper),
+      // Most symbols have no split, many no dividend: not a failure
+      getStockSplitsForSymbol(symbolUpper).catch(noneIsEmpty),
+      getDividendsForSymbol(symbolUpper).catch(noneIsEmpty),
+      // Symbols no analyst covers have neither actions nor targets
+      getAnalystRatingActionsForSymbol(symbolUpper).catch(noneIsEmpty),
+      getLatestPriceTarget(symbolUpper).catch(noneIsEmpty),
+      // Many symbols have no recent insider filing
+      getInsiderTradesForSymbol(symbolUpper).catch(noneIsEmpty),
     ];
 
     const settledResults = await Promise.allSettled(dataFetchPromises);
@@ -194,6 +309,26 @@ export async function processSymbolData(
       settledResults[4],
       "Grades Consensus fetch failed"
     );
+    results.splits = processSettledResult(
+      settledResults[5],
+      "Splits fetch failed"
+    );
+    results.dividends = processSettledResult(
+      settledResults[6],
+      "Dividends fetch failed"
+    );
+    results.analystratings = processSettledResult(
+      settledResults[7],
+      "Analyst ratings fetch failed"
+    );
+    results.pricetargets = processSettledResult(
+      settledResults[8],
+      "Price targets fetch failed"
+    );
+    results.insidertrades = processSettledResult(
+      settledResults[9],
+      "Insider trades fetch failed"
+    );
 
     const allDataSucceeded = settledResults.every(
       (r) => r.status === "fulfilled"
@@ -0,0 +1,90 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/insider-trades/config.ts
+ * Configuration for the insider transactions service using Supabase.
+ * ---------------------------------------------------------------------*/
+import {
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  mapRowToPartialApi,
+} from "@/lib/common/supabase";
+
+import {
+  CACHE_TTL_MS,
+  INSIDER_TRADES_FETCH_LIMIT,
+  insiderTradeKeyOrder,
+  insiderTradeRawSchema,
+} from "./constants";
+import {
+  InsiderTradeApiItem,
+  InsiderTradeRow,
+  RawInsiderTrade,
+  mapRawInsiderTradeToRow,
+} from "./types";
+
+// Key of a transaction, matching uniqueKeyColumns
+const tradeKey = (raw: RawInsiderTrade): string =>
+  [
+    raw.transactionDate.slice(0, 10),
+    raw.reportingName.trim(),
+    raw.transactionType.trim(),
+    raw.securitiesTransacted,
+    raw.securitiesOwned,
+  ].join("|");
+
+// An amended filing (4/A) repeats the transactions of the original; the
+// newest filing, listed first, is kept so one upsert never hits a key twice
+const dedupeInsiderTrades = (rawData: RawInsiderTrade[]): RawInsiderTrade[] => {
+  const seen = new Set<string>();
+  return rawData.filter((raw) => {
+    const key = tradeKey(raw);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Configuration object passed to `createGenericSupabaseService`.
+ */
+export const insiderTradeConfig: GenericSupabaseServiceConfig<
+  RawInsiderTrade,
+  InsiderTradeRow,
+  InsiderTradeApiItem
+> = {
+  // --- Core Identification & Storage ---
+  tableName: "insider_trades",
+
+  // --- FMP API Fetching ---
+  fetchMode: FetchMode.BySymbol,
+  fmpBasePath: "stable",
+  fmpPath: "insider-trading/search",
+  fmpSymbolLocation: "param", // ?symbol=AAPL
+  fmpParams: { page: 0, limit: INSIDER_TRADES_FETCH_LIMIT }, // Older trades stay stored
+
+  // --- Caching ---
+  cacheTtlMs: CACHE_TTL_MS,
+
+  // --- Data Structure, Uniqueness & Mapping ---
+  // A filer may report several lots of one type on a day; the holdings
+  // after each lot tell them apart
+  uniqueKeyColumns: [
+    "symbol",
+    "transaction_date",
+    "filer",
+    "transaction_type",
+    "shares",
+    "shares_owned_after",
+  ],
+  mapRawToRow: mapRawInsiderTradeToRow,
+  mapRowToApi: mapRowToPartialApi,
+  apiFieldOrder: insiderTradeKeyOrder,
+  rawSchema: insiderTradeRawSchema, // Per-record checks; failing records are quarantined
+
+  // --- Behavior Modifiers ---
+  isSingleRecordPerSymbol: false, // Transaction history per symbol
+  sortByFieldForLatest: "transaction_date",
+  asOfColumn: "filing_date", // Transactions are public once filed
+
+  // --- Optional Callbacks ---
+  processRawDataArray: dedupeInsiderTrades,
+};
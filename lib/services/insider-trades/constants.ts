@@ -0,0 +1,49 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/insider-trades/constants.ts
+ * Constants for the insider transactions service.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+import type { InsiderTradeApiItem, RawInsiderTrade } from "./types";
+
+/** Cache Time-To-Live: Form 4 filings are due within two business days. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 12;
+
+/** Transactions requested per fetch (FMP returns the newest filings first). */
+export const INSIDER_TRADES_FETCH_LIMIT = 100;
+
+/** Order of the keys in API responses. */
+export const insiderTradeKeyOrder: ReadonlyArray<keyof InsiderTradeApiItem> = [
+  "id",
+  "symbol",
+  "transaction_date",
+  "filing_date",
+  "filer",
+  "reporting_cik",
+  "role",
+  "transaction_type",
+  "acquisition_or_disposition",
+  "shares",
+  "price",
+  "value",
+  "shares_owned_after",
+  "form_type",
+  "url",
+];
+
+/**
+ * Per-record schema for raw insider transactions. Filer, type, shares
+ * and holdings after the transaction are part of the key.
+ */
+export const insiderTradeRawSchema: RecordSchema<RawInsiderTrade> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  filingDate: { type: "date", required: true },
+  transactionDate: { type: "date", required: true },
+  reportingName: { type: "string", required: true, pattern: /\S/ },
+  typeOfOwner: { type: "string" },
+  transactionType: { type: "string", required: true, pattern: /\S/ },
+  acquisitionOrDisposition: { type: "string" },
+  securitiesTransacted: { type: "number", required: true, min: 0 },
+  price: { type: "number", min: 0 },
+  securitiesOwned: { type: "number", required: true, min: 0 },
+};
@@ -0,0 +1,46 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Insider transactions (SEC Form 4) per symbol
+CREATE TABLE IF NOT EXISTS public.insider_trades (
+    -- Primary Key (Standard UUID)
+    id                          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol                      TEXT NOT NULL,
+    transaction_date            DATE NOT NULL,
+    filing_date                 DATE NOT NULL,          -- Date the transaction became public
+    filer                       TEXT NOT NULL,          -- Reporting person, e.g. 'COOK TIMOTHY D'
+    reporting_cik               TEXT NULL,
+    role                        TEXT NULL,              -- e.g. 'director', 'officer: Chief Executive Officer'
+
+    -- Transaction
+    transaction_type            TEXT NOT NULL,          -- SEC code and label, e.g. 'P-Purchase', 'S-Sale'
+    acquisition_or_disposition  TEXT NULL,              -- 'A' or 'D'
+    shares                      NUMERIC NOT NULL,
+    price                       NUMERIC NULL,           -- Per share; 0 for awards and gifts
+    value                       NUMERIC NULL,           -- shares * price, priced transactions only
+    shares_owned_after          NUMERIC NOT NULL,
+    form_type                   TEXT NULL,              -- '4', '4/A'...
+    url                         TEXT NULL,              -- Filing on sec.gov
+
+    -- Timestamps
+    modified_at                 TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, transaction_date, filer, transaction_type, shares, shares_owned_after),
+    CONSTRAINT fk_insider_trades_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.insider_trades IS 'Insider transactions (SEC Form 4) per symbol fetched from FMP API.';
+
+-- Index for reading a symbol's transactions by date
+CREATE INDEX IF NOT EXISTS idx_insider_trades_symbol_transaction_date ON public.insider_trades(symbol, transaction_date DESC);
+-- Index for cache checks
+CREATE INDEX IF NOT EXISTS idx_insider_trades_modified_at ON public.insider_trades(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_insider_trades_updated_at
+BEFORE UPDATE ON public.insider_trades
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
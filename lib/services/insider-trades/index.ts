@@ -0,0 +1,37 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/insider-trades/index.ts
+ * Instantiates and exports the insider transactions service methods.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { insiderTradeConfig } from "./config";
+import type {
+  InsiderTradeApiItem,
+  InsiderTradeRow,
+  RawInsiderTrade,
+} from "./types";
+
+const insiderTradeService = createGenericSupabaseService<
+  RawInsiderTrade,
+  InsiderTradeRow,
+  InsiderTradeApiItem
+>(insiderTradeConfig);
+
+/**
+ * Fetches the insider transactions of a symbol (newest first), refreshing
+ * them from FMP when stale. A symbol without filings has no rows; the
+ * generic service reports that as "No data found".
+ * Returns Promise<Partial<InsiderTradeApiItem>[]>
+ */
+export const getInsiderTradesForSymbol = insiderTradeService.getAllForSymbol;
+export const getInsiderTradesForSymbolWithStatus =
+  insiderTradeService.getAllForSymbolWithStatus;
+
+/**
+ * Admin cache control: forced refresh of a symbol's insider transactions
+ * from FMP, and deletion of stored transactions (one symbol, or all).
+ */
+export const refreshInsiderTrades = insiderTradeService.refresh;
+export const purgeInsiderTrades = insiderTradeService.purge;
+
+export type { InsiderTradeApiItem, InsiderTradeRow };
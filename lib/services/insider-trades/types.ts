@@ -0,0 +1,58 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/insider-trades/types.ts
+ * Type definitions and mappers for insider transactions (SEC Form 4
+ * filings of officers, directors and 10% owners) using Supabase.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+export type InsiderTradeRow =
+  Database["public"]["Tables"]["insider_trades"]["Row"];
+
+// 1. Interface for Raw Data from FMP API (camelCase)
+export interface RawInsiderTrade {
+  symbol: string;
+  filingDate: string; // YYYY-MM-DD (may carry a time)
+  transactionDate: string; // YYYY-MM-DD
+  reportingCik: string | null;
+  reportingName: string; // Filer, e.g. "COOK TIMOTHY D"
+  typeOfOwner: string | null; // e.g. "director", "officer: Chief Executive Officer"
+  transactionType: string; // SEC code and label, e.g. "P-Purchase", "S-Sale"
+  acquisitionOrDisposition: string | null; // "A" or "D"
+  securitiesTransacted: number;
+  price: number | null; // Per share; 0 for awards and gifts
+  securitiesOwned: number; // Held after the transaction
+  formType: string | null; // "4", "4/A"...
+  url: string | null; // Filing on sec.gov
+}
+
+// 2. Interface for API Response Shape
+export interface InsiderTradeApiItem
+  extends Omit<InsiderTradeRow, "id" | "modified_at"> {
+  id: string;
+}
+
+/**
+ * Maps a raw FMP insider transaction to the structure needed for DB
+ * storage. The value is only set for priced transactions.
+ */
+export const mapRawInsiderTradeToRow = (
+  raw: RawInsiderTrade
+): Omit<InsiderTradeRow, "id" | "modified_at"> => ({
+  symbol: raw.symbol,
+  filing_date: raw.filingDate.slice(0, 10),
+  transaction_date: raw.transactionDate.slice(0, 10),
+  filer: raw.reportingName.trim(),
+  reporting_cik: raw.reportingCik || null,
+  role: raw.typeOfOwner?.trim() || null,
+  transaction_type: raw.transactionType.trim(),
+  acquisition_or_disposition: raw.acquisitionOrDisposition || null,
+  shares: raw.securitiesTransacted,
+  price: raw.price ?? null,
+  value:
+    raw.price != null && raw.price > 0
+      ? Math.round(raw.securitiesTransacted * raw.price * 100) / 100
+      : null,
+  shares_owned_after: raw.securitiesOwned,
+  form_type: raw.formType || null,
+  url: raw.url || null,
+});
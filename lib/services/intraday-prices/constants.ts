@@ -0,0 +1,46 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/intraday-prices/constants.ts
+ * Constants for the intraday price service: supported intervals, their
+ * provider paths, cache TTLs and retention windows.
+ * ---------------------------------------------------------------------*/
+import type { IntradayInterval, IntradayPriceApiItem } from "./types";
+
+export const INTRADAY_INTERVALS: ReadonlyArray<IntradayInterval> = [
+  "1m",
+  "5m",
+  "15m",
+  "1h",
+];
+
+/** FMP stable historical-chart path of each interval. */
+export const INTRADAY_PROVIDER_PATHS: Record<IntradayInterval, string> = {
+  "1m": "historical-chart/1min",
+  "5m": "historical-chart/5min",
+  "15m": "historical-chart/15min",
+  "1h": "historical-chart/1hour",
+};
+
+/** Bars are fresh until the next one is due. */
+export const INTRADAY_CACHE_TTL_MS: Record<IntradayInterval, number> = {
+  "1m": 1000 * 60,
+  "5m": 1000 * 60 * 5,
+  "15m": 1000 * 60 * 15,
+  "1h": 1000 * 60 * 60,
+};
+
+/**
+ * Days of bars kept per interval. Older bars are deleted when the series
+ * is refreshed; short intervals produce far more rows per day.
+ */
+export const INTRADAY_RETENTION_DAYS: Record<IntradayInterval, number> = {
+  "1m": 7,
+  "5m": 30,
+  "15m": 60,
+  "1h": 180,
+};
+
+/** Bars per read of a stored series (PostgREST max-rows). */
+export const INTRADAY_READ_PAGE_SIZE = 1000;
+
+export const intradayPriceKeyOrder: ReadonlyArray<keyof IntradayPriceApiItem> =
+  ["symbol", "interval", "timestamp", "open", "high", "low", "close", "volume"];
@@ -0,0 +1,42 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Intraday price bars per symbol and interval. Rows older than the
+-- interval's retention window (INTRADAY_RETENTION_DAYS) are deleted when
+-- the series is refreshed.
+CREATE TABLE IF NOT EXISTS public.intraday_prices (
+    -- Primary Key (Standard UUID)
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol              TEXT NOT NULL,
+    interval            TEXT NOT NULL CHECK (interval IN ('1m', '5m', '15m', '1h')),
+    timestamp           TIMESTAMP NOT NULL,     -- Bar start, exchange local time
+
+    -- Price Data
+    open                DOUBLE PRECISION NULL,
+    high                DOUBLE PRECISION NULL,
+    low                 DOUBLE PRECISION NULL,
+    close               DOUBLE PRECISION NULL,
+    volume              BIGINT NULL,
+
+    -- Timestamps
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, interval, timestamp),
+    CONSTRAINT fk_intraday_price_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.intraday_prices IS 'Intraday price bars (1m, 5m, 15m, 1h) fetched from FMP API, kept for a per-interval retention window.';
+
+-- Index for reading a symbol's bars of one interval, newest first
+CREATE INDEX IF NOT EXISTS idx_intraday_prices_symbol_interval_timestamp ON public.intraday_prices(symbol, interval, timestamp DESC);
+-- Index for cache checks
+CREATE INDEX IF NOT EXISTS idx_intraday_prices_modified_at ON public.intraday_prices(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_intraday_prices_updated_at
+BEFORE UPDATE ON public.intraday_prices
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
@@ -0,0 +1,25 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/intraday-prices/index.ts
+ * Exports the intraday price service functions.
+ * ---------------------------------------------------------------------*/
+export {
+  getIntradayPricesForSymbol,
+  getIntradayPricesForSymbolWithStatus,
+  INTRADAY_PRICES_TABLE_NAME,
+  parseIntradayInterval,
+  pruneExpiredIntradayPrices,
+  purgeIntradayPrices,
+  refreshIntradayPrices,
+} from "./service";
+export {
+  INTRADAY_CACHE_TTL_MS,
+  INTRADAY_INTERVALS,
+  INTRADAY_RETENTION_DAYS,
+  intradayPriceKeyOrder,
+} from "./constants";
+
+export type {
+  IntradayInterval,
+  IntradayPriceApiItem,
+  IntradayPriceRow,
+} from "./types";
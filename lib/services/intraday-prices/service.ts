@@ -0,0 +1,374 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/intraday-prices/service.ts
+ * Fetching/caching of intraday bars, one series per symbol and interval.
+ * Bars are fresh for one interval length (INTRADAY_CACHE_TTL_MS); each
+ * refresh fetches the days since the latest stored bar and deletes bars
+ * older than the interval's retention window (INTRADAY_RETENTION_DAYS).
+ * (Profile dependency check is left to the API route handler)
+ * ---------------------------------------------------------------------*/
+import { addDays, format, parseISO, subDays } from "date-fns";
+
+import { getDataProvider, type ProviderEndpoint } from "@/lib/common/providers";
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
+import {
+  singleFlight,
+  singleFlightKey,
+  type CacheStatus,
+  type DateRange,
+  type WithCacheStatus,
+} from "@/lib/common/supabase";
+
+import {
+  INTRADAY_CACHE_TTL_MS,
+  INTRADAY_INTERVALS,
+  INTRADAY_PROVIDER_PATHS,
+  INTRADAY_READ_PAGE_SIZE,
+  INTRADAY_RETENTION_DAYS,
+} from "./constants";
+import type {
+  IntradayInterval,
+  IntradayPriceInsertData,
+  IntradayPriceRow,
+  RawIntradayBar,
+} from "./types";
+
+export const INTRADAY_PRICES_TABLE_NAME = "intraday_prices";
+
+// Unique constraint the upserts conflict on
+const UNIQUE_KEY_COLUMNS = ["symbol", "interval", "timestamp"];
+
+/** Parses an interval name; null for anything else. */
+export function parseIntradayInterval(
+  value: string | null | undefined
+): IntradayInterval | null {
+  return INTRADAY_INTERVALS.includes(value as IntradayInterval)
+    ? (value as IntradayInterval)
+    : null;
+}
+
+// Oldest day (YYYY-MM-DD) kept for an interval
+function retentionStart(interval: IntradayInterval): string {
+  return format(
+    subDays(new Date(), INTRADAY_RETENTION_DAYS[interval]),
+    "yyyy-MM-dd"
+  );
+}
+
+// FMP writes 'YYYY-MM-DD HH:mm:ss'; stored as ISO local time, the way
+// Postgres returns TIMESTAMP columns
+function toTimestamp(fmpDate: string): string {
+  return fmpDate.trim().replace(" ", "T");
+}
+
+function mapRawBarToInsertData(
+  bar: RawIntradayBar,
+  symbol: string,
+  interval: IntradayInterval
+): IntradayPriceInsertData {
+  return {
+    symbol,
+    interval,
+    timestamp: toTimestamp(bar.date),
+    open: bar.open ?? null,
+    high: bar.high ?? null,
+    low: bar.low ?? null,
+    close: bar.close ?? null,
+    volume: bar.volume == null ? null : Math.round(bar.volume),
+  };
+}
+
+const seriesConditions = (
+  symbolUpper: string,
+  interval: IntradayInterval
+): Condition[] => [
+  { column: "symbol", op: "eq", value: symbolUpper },
+  { column: "interval", op: "eq", value: interval },
+];
+
+// Stored bars of a series (within the range of days, if any), newest first.
+// Read in pages: the short intervals keep several thousand bars.
+async function readStoredSeries(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  interval: IntradayInterval,
+  range: DateRange = {}
+): Promise<IntradayPriceRow[]> {
+  const where = seriesConditions(symbolUpper, interval);
+  if (range.from) {
+    where.push({ column: "timestamp", op: "gte", value: range.from });
+  }
+  if (range.to) {
+    // Bars of the 'to' day itself are included
+    const dayAfter = format(addDays(parseISO(range.to), 1), "yyyy-MM-dd");
+    where.push({ column: "timestamp", op: "lt", value: dayAfter });
+  }
+  const bars: IntradayPriceRow[] = [];
+  for (let offset = 0; ; offset += INTRADAY_READ_PAGE_SIZE) {
+    const page = await storage.select<IntradayPriceRow>(
+      INTRADAY_PRICES_TABLE_NAME,
+      {
+        where,
+        orderBy: [{ column: "timestamp", ascending: false }],
+        limit: INTRADAY_READ_PAGE_SIZE,
+        offset,
+      }
+    );
+    bars.push(...page);
+    if (page.length < INTRADAY_READ_PAGE_SIZE) return bars;
+  }
+}
+
+// Latest stored bar of a series (by bar time), or null
+function selectLatestBar(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  interval: IntradayInterval
+): Promise<Pick<IntradayPriceRow, "timestamp" | "modified_at"> | null> {
+  return storage.selectLatest<
+    Pick<IntradayPriceRow, "timestamp" | "modified_at">
+  >(INTRADAY_PRICES_TABLE_NAME, symbolUpper, "timestamp", {
+    columns: ["timestamp", "modified_at"],
+    where: [{ column: "interval", op: "eq", value: interval }],
+  });
+}
+
+/**
+ * Fetches a symbol's intraday bars of one interval, refreshing them from
+ * the provider when the latest write is older than the interval.
+ * Assumes the related profile already exists (checked by the caller/route).
+ *
+ * @param range Optional window of days (inclusive) of the bars returned.
+ * @returns The bars, newest first.
+ */
+export async function getIntradayPricesForSymbol(
+  symbol: string,
+  interval: IntradayInterval,
+  range?: DateRange
+): Promise<IntradayPriceRow[]> {
+  return (await getIntradayPricesForSymbolWithStatus(symbol, interval, range))
+    .data;
+}
+
+/**
+ * Same as getIntradayPricesForSymbol, plus the cache status of the series.
+ * `options.refresh` skips the cache check (forced refresh, admin only).
+ * `options.from` / `options.to` narrow the bars returned (not the refresh).
+ */
+export async function getIntradayPricesForSymbolWithStatus(
+  symbol: string,
+  interval: IntradayInterval,
+  options?: { refresh?: boolean } & DateRange
+): Promise<WithCacheStatus<IntradayPriceRow[]>> {
+  const storage = getStorage();
+  const symbolUpper = symbol.toUpperCase();
+  const range: DateRange = { from: options?.from, to: options?.to };
+
+  const latestBar = options?.refresh
+    ? null
+    : await selectLatestBar(storage, symbolUpper, interval);
+  const ageMs = latestBar
+    ? Date.now() - new Date(latestBar.modified_at).getTime()
+    : Infinity;
+
+  if (latestBar && ageMs < INTRADAY_CACHE_TTL_MS[interval]) {
+    console.log(`[Intraday] Cache hit for ${symbolUpper} (${interval}).`);
+    return {
+      data: await readStoredSeries(storage, symbolUpper, interval, range),
+      cache: { state: "fresh", modifiedAt: latestBar.modified_at },
+    };
+  }
+
+  const cache = await refreshOnce(
+    storage,
+    symbolUpper,
+    interval,
+    latestBar,
+    !!options?.refresh
+  );
+  return {
+    data: await readStoredSeries(storage, symbolUpper, interval, range),
+    cache,
+  };
+}
+
+/**
+ * Forced refresh of a symbol's intraday bars regardless of the TTL: the
+ * given interval, or every interval already stored for the symbol.
+ * Throws if a provider fetch fails.
+ */
+export async function refreshIntradayPrices(
+  symbol: string,
+  interval?: IntradayInterval
+): Promise<void> {
+  const storage = getStorage();
+  const symbolUpper = symbol.toUpperCase();
+  const intervals = interval
+    ? [interval]
+    : (
+        await Promise.all(
+          INTRADAY_INTERVALS.map(async (candidate) =>
+            (await selectLatestBar(storage, symbolUpper, candidate))
+              ? candidate
+              : null
+          )
+        )
+      ).filter((candidate): candidate is IntradayInterval => !!candidate);
+  for (const each of intervals) {
+    await refreshOnce(storage, symbolUpper, each, null, true);
+  }
+}
+
+/**
+ * Deletes stored bars (of one symbol, or all) so the next read refetches.
+ * @returns Number of rows deleted.
+ */
+export async function purgeIntradayPrices(symbol?: string): Promise<number> {
+  const count = await getStorage().delete(
+    INTRADAY_PRICES_TABLE_NAME,
+    symbol ? [{ column: "symbol", op: "eq", value: symbol.toUpperCase() }] : []
+  );
+  console.log(
+    `[Intraday] Purged ${count} row(s)${
+      symbol ? ` for ${symbol.toUpperCase()}` : ""
+    }.`
+  );
+  return count;
+}
+
+/**
+ * Applies the retention windows to every stored series, including those
+ * no longer read (reads only prune the series they refresh).
+ * @returns Number of rows deleted per interval.
+ */
+export async function pruneExpiredIntradayPrices(
+  storage: StorageAdapter = getStorage()
+): Promise<Record<IntradayInterval, number>> {
+  const deleted = {} as Record<IntradayInterval, number>;
+  for (const interval of INTRADAY_INTERVALS) {
+    deleted[interval] = await storage.delete(INTRADAY_PRICES_TABLE_NAME, [
+      { column: "interval", op: "eq", value: interval },
+      { column: "timestamp", op: "lt", value: retentionStart(interval) },
+    ]);
+  }
+  console.log(
+    `[Intraday] Pruned expired bars: ${Object.entries(deleted)
+      .map(([interval, count]) => `${interval}=${count}`)
+      .join(", ")}.`
+  );
+  return deleted;
+}
+
+// Coalesces concurrent refreshes of the same series
+function refreshOnce(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  interval: IntradayInterval,
+  latestBar: Pick<IntradayPriceRow, "timestamp" | "modified_at"> | null,
+  forced: boolean
+): Promise<CacheStatus> {
+  return singleFlight(
+    singleFlightKey(INTRADAY_PRICES_TABLE_NAME, `${symbolUpper}:${interval}`),
+    () =>
+      refreshIntradaySeries(storage, symbolUpper, interval, latestBar, forced)
+  );
+}
+
+/**
+ * Fetches the bars since the latest stored day (or the whole retention
+ * window), upserts them and deletes the bars past retention.
+ * Falls back to the stored bars if the fetch fails and any exist, unless
+ * the refresh was forced.
+ */
+async function refreshIntradaySeries(
+  storage: StorageAdapter,
+  symbolUpper: string,
+  interval: IntradayInterval,
+  latestBar: Pick<IntradayPriceRow, "timestamp" | "modified_at"> | null,
+  forced: boolean
+): Promise<CacheStatus> {
+  const provider = getDataProvider();
+  const oldestKept = retentionStart(interval);
+  // The latest stored day is fetched again: its last bars may have changed
+  const latestDay = latestBar?.timestamp.slice(0, 10);
+  const from = latestDay && latestDay > oldestKept ? latestDay : oldestKept;
+  const endpoint: ProviderEndpoint = {
+    basePath: "stable",
+    path: INTRADAY_PROVIDER_PATHS[interval],
+    symbolLocation: "param",
+    params: { from, to: format(new Date(), "yyyy-MM-dd") },
+  };
+  console.log(
+    `[Intraday] Fetching ${interval} bars since ${from} for ${symbolUpper} from ${
+      provider.name
+    }: ${provider.describeEndpoint(endpoint, symbolUpper)}`
+  );
+
+  let rawResponse: unknown;
+  try {
+    rawResponse = await provider.fetchBySymbol(endpoint, symbolUpper);
+  } catch (fetchError) {
+    if (latestBar && !forced) {
+      console.warn(
+        `[Intraday] Provider fetch failed for ${symbolUpper} (${interval}), returning stored bars.`,
+        fetchError
+      );
+      return { state: "fallback", modifiedAt: latestBar.modified_at };
+    }
+    throw fetchError;
+  }
+  if (!Array.isArray(rawResponse)) {
+    console.error(
+      "[Intraday] Invalid data structure received from provider:",
+      rawResponse
+    );
+    throw new Error(
+      `Invalid intraday price data structure received from provider for ${symbolUpper}.`
+    );
+  }
+
+  const now = new Date().toISOString();
+  const rowsToUpsert = (rawResponse as RawIntradayBar[])
+    .filter((bar) => typeof bar.date === "string")
+    .map((bar) => ({
+      ...mapRawBarToInsertData(bar, symbolUpper, interval),
+      modified_at: now,
+    }))
+    .filter((row) => row.timestamp >= oldestKept);
+
+  if (rowsToUpsert.length > 0) {
+    await storage.upsert(
+      INTRADAY_PRICES_TABLE_NAME,
+      rowsToUpsert,
+      UNIQUE_KEY_COLUMNS,
+      { returning: false }
+    );
+  } else if (latestBar) {
+    // Market closed since the last fetch: the stored series is current
+    await storage.update(INTRADAY_PRICES_TABLE_NAME, { modified_at: now }, [
+      ...seriesConditions(symbolUpper, interval),
+      { column: "timestamp", op: "eq", value: latestBar.timestamp },
+    ]);
+  } else {
+    console.warn(
+      `[Intraday] Provider returned no ${interval} bars for ${symbolUpper}.`
+    );
+    return { state: "refreshed", modifiedAt: null };
+  }
+
+  const pruned = await storage.delete(INTRADAY_PRICES_TABLE_NAME, [
+    ...seriesConditions(symbolUpper, interval),
+    { column: "timestamp", op: "lt", value: oldestKept },
+  ]);
+  console.log(
+    `[Intraday] Stored ${
+      rowsToUpsert.length
+    } ${interval} bars for ${symbolUpper}${
+      pruned > 0 ? `, pruned ${pruned} past retention` : ""
+    }.`
+  );
+  return { state: "refreshed", modifiedAt: now };
+}
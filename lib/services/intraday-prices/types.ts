@@ -0,0 +1,29 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/intraday-prices/types.ts
+ * Type definitions for intraday price bars.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+/** Supported bar lengths. */
+export type IntradayInterval = "1m" | "5m" | "15m" | "1h";
+
+export type IntradayPriceRow =
+  Database["public"]["Tables"]["intraday_prices"]["Row"];
+
+/** A bar as returned by the API (no id or modified_at). */
+export type IntradayPriceApiItem = Omit<IntradayPriceRow, "id" | "modified_at">;
+
+/** One bar of the FMP historical-chart endpoints. */
+export interface RawIntradayBar {
+  date: string; // 'YYYY-MM-DD HH:mm:ss', exchange local time
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+}
+
+export type IntradayPriceInsertData = Omit<
+  IntradayPriceRow,
+  "id" | "modified_at"
+>;
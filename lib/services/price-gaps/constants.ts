@@ -0,0 +1,17 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-gaps/constants.ts
+ * Constants for the historical price gap detection.
+ * ---------------------------------------------------------------------*/
+import type { SignalGapPolicy } from "./types";
+
+/** Environment variable choosing the SignalGapPolicy ('flag' or 'skip'). */
+export const SIGNAL_GAP_POLICY_ENV = "SIGNAL_GAP_POLICY";
+
+// Indicators stay usable over a gap, so they are flagged rather than lost
+export const DEFAULT_SIGNAL_GAP_POLICY: SignalGapPolicy = "flag";
+
+// Stored dates are read in pages of this size (PostgREST caps result sets)
+export const GAP_SCAN_PAGE_SIZE = 1000;
+
+/** Most runs of missing sessions refetched per request (provider calls). */
+export const MAX_GAP_REFETCH_RANGES = 10;
@@ -0,0 +1,19 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-gaps/index.ts
+ * Exports the historical price gap detection.
+ * ---------------------------------------------------------------------*/
+export {
+  checkLookbackGaps,
+  detectPriceGaps,
+  findMissingSessions,
+  flagLookbackGaps,
+  getSignalGapPolicy,
+  refetchPriceGaps,
+} from "./service";
+export { MAX_GAP_REFETCH_RANGES } from "./constants";
+
+export type {
+  PriceGapRefetchResult,
+  PriceGapReport,
+  SignalGapPolicy,
+} from "./types";
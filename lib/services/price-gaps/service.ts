@@ -0,0 +1,251 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-gaps/service.ts
+ * Checks stored daily prices against the exchange trading calendar:
+ * missing sessions, duplicate bars and bars on closed days. Missing
+ * sessions can be refetched from the provider run by run, and the
+ * technical signals check their lookback before computing.
+ * Only exchanges with a known calendar (see hasTradingCalendar) are checked.
+ * ---------------------------------------------------------------------*/
+import {
+  getTradingSessions,
+  hasTradingCalendar,
+  isTradingDay,
+} from "@/lib/common/calendar";
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
+import type { DateRange } from "@/lib/common/supabase";
+import { refetchHistoricalPriceRange } from "@/lib/services/historical-prices";
+import type { Json } from "@/lib/supabase/database.types";
+
+import {
+  DEFAULT_SIGNAL_GAP_POLICY,
+  GAP_SCAN_PAGE_SIZE,
+  MAX_GAP_REFETCH_RANGES,
+  SIGNAL_GAP_POLICY_ENV,
+} from "./constants";
+import type {
+  PriceGapRefetchResult,
+  PriceGapReport,
+  SignalGapPolicy,
+} from "./types";
+
+const HISTORICAL_PRICES_TABLE_NAME = "historical_prices";
+const PROFILES_TABLE_NAME = "profiles";
+
+// Exchange of a stored profile, or null
+async function readExchange(
+  storage: StorageAdapter,
+  symbol: string
+): Promise<string | null> {
+  const profile = await storage.selectFirst<{ exchange: string | null }>(
+    PROFILES_TABLE_NAME,
+    {
+      columns: ["exchange"],
+      where: [{ column: "symbol", op: "eq", value: symbol }],
+    }
+  );
+  return profile?.exchange ?? null;
+}
+
+// Every stored bar date of a symbol within the range, oldest first
+async function readStoredDates(
+  storage: StorageAdapter,
+  symbol: string,
+  range: DateRange
+): Promise<string[]> {
+  const where: Condition[] = [{ column: "symbol", op: "eq", value: symbol }];
+  if (range.from) where.push({ column: "date", op: "gte", value: range.from });
+  if (range.to) where.push({ column: "date", op: "lte", value: range.to });
+  const dates: string[] = [];
+  for (let offset = 0; ; offset += GAP_SCAN_PAGE_SIZE) {
+    const page = await storage.select<{ date: string }>(
+      HISTORICAL_PRICES_TABLE_NAME,
+      {
+        columns: ["date"],
+        where,
+        orderBy: [{ column: "date", ascending: true }],
+        limit: GAP_SCAN_PAGE_SIZE,
+        offset,
+      }
+    );
+    dates.push(...page.map(({ date }) => date));
+    if (page.length < GAP_SCAN_PAGE_SIZE) return dates;
+  }
+}
+
+/**
+ * Trading sessions between the oldest and newest of `dates` that have no
+ * date in the list, oldest first. Sessions after the newest date are not
+ * gaps but freshness (see the price cache TTL).
+ */
+export function findMissingSessions(dates: ReadonlyArray<string>): string[] {
+  if (dates.length === 0) return [];
+  const stored = new Set(dates);
+  const sorted = [...stored].sort();
+  return getTradingSessions(sorted[0], sorted[sorted.length - 1])
+    .map(({ date }) => date)
+    .filter((date) => !stored.has(date));
+}
+
+/**
+ * Lists the missing, duplicate and non-session bars of a symbol's stored
+ * daily series (optionally within a range of dates).
+ */
+export async function detectPriceGaps(
+  symbol: string,
+  range: DateRange = {},
+  storage: StorageAdapter = getStorage()
+): Promise<PriceGapReport> {
+  const symbolUpper = symbol.toUpperCase();
+  const [exchange, dates] = await Promise.all([
+    readExchange(storage, symbolUpper),
+    readStoredDates(storage, symbolUpper, range),
+  ]);
+  const report: PriceGapReport = {
+    symbol: symbolUpper,
+    exchange,
+    calendarSupported: hasTradingCalendar(exchange),
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+    expectedSessions: 0,
+    storedSessions: 0,
+    missing: [],
+    duplicates: [],
+    nonSessions: [],
+  };
+  if (!report.calendarSupported || !report.from || !report.to) return report;
+
+  const counts = new Map<string, number>();
+  for (const date of dates) counts.set(date, (counts.get(date) ?? 0) + 1);
+  const uniqueDates = [...counts.keys()];
+
+  report.expectedSessions = getTradingSessions(report.from, report.to).length;
+  report.missing = findMissingSessions(uniqueDates);
+  report.duplicates = uniqueDates.filter((date) => counts.get(date)! > 1);
+  report.nonSessions = uniqueDates.filter((date) => !isTradingDay(date));
+  report.storedSessions = uniqueDates.length - report.nonSessions.length;
+
+  if (report.missing.length > 0 || report.duplicates.length > 0) {
+    console.log(
+      `[PriceGaps] ${symbolUpper}: ${report.missing.length} missing, ${report.duplicates.length} duplicate session(s) between ${report.from} and ${report.to}.`
+    );
+  }
+  return report;
+}
+
+// Groups missing sessions into runs with no stored session in between
+function toRuns(missing: ReadonlyArray<string>): Array<[string, string]> {
+  if (missing.length === 0) return [];
+  const sessions = getTradingSessions(missing[0], missing[missing.length - 1]);
+  const indexOf = new Map(sessions.map(({ date }, index) => [date, index]));
+  const runs: Array<[string, string]> = [];
+  for (const date of missing) {
+    const last = runs[runs.length - 1];
+    if (last && indexOf.get(date) === indexOf.get(last[1])! + 1) {
+      last[1] = date;
+    } else {
+      runs.push([date, date]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Refetches the missing sessions of a symbol, one provider request per run
+ * of consecutive missing sessions (at most MAX_GAP_REFETCH_RANGES, newest
+ * first), and reports the gaps left afterwards.
+ * Throws if a provider fetch fails.
+ */
+export async function refetchPriceGaps(
+  symbol: string,
+  range: DateRange = {}
+): Promise<PriceGapRefetchResult> {
+  const storage = getStorage();
+  const before = await detectPriceGaps(symbol, range, storage);
+  const runs = toRuns(before.missing)
+    .reverse()
+    .slice(0, MAX_GAP_REFETCH_RANGES);
+
+  const refetched: PriceGapRefetchResult["refetched"] = [];
+  for (const [from, to] of runs) {
+    const barsReturned = await refetchHistoricalPriceRange(
+      before.symbol,
+      from,
+      to
+    );
+    refetched.push({ from, to, barsReturned });
+  }
+  if (refetched.length === 0) {
+    return { symbol: before.symbol, refetched, report: before };
+  }
+  console.log(
+    `[PriceGaps] Refetched ${refetched.length} gap(s) of ${before.symbol}.`
+  );
+  return {
+    symbol: before.symbol,
+    refetched,
+    report: await detectPriceGaps(symbol, range, storage),
+  };
+}
+
+/**
+ * The SignalGapPolicy, from the SIGNAL_GAP_POLICY environment variable.
+ * Unknown values are logged and fall back to the default.
+ */
+export function getSignalGapPolicy(): SignalGapPolicy {
+  const raw = process.env[SIGNAL_GAP_POLICY_ENV];
+  if (!raw) return DEFAULT_SIGNAL_GAP_POLICY;
+  const policy = raw.toLowerCase();
+  if (policy !== "flag" && policy !== "skip") {
+    console.warn(
+      `[PriceGaps] Invalid ${SIGNAL_GAP_POLICY_ENV}: '${raw}'. Using ${DEFAULT_SIGNAL_GAP_POLICY}.`
+    );
+    return DEFAULT_SIGNAL_GAP_POLICY;
+  }
+  return policy;
+}
+
+/**
+ * Checks the daily bars a signal is computed from for missing sessions.
+ * Intraday and resampled bars (`interval` set) are not checked.
+ * @returns The missing sessions, and with the 'skip' policy the reason to
+ *   skip generation (undefined when there are no gaps or they are flagged).
+ */
+export async function checkLookbackGaps(
+  storage: StorageAdapter,
+  symbol: string,
+  prices: ReadonlyArray<{ date: string }>,
+  interval?: string
+): Promise<{ gaps: string[]; skipReason?: string }> {
+  if (interval || prices.length < 2) return { gaps: [] };
+  const exchange = await readExchange(storage, symbol);
+  if (!hasTradingCalendar(exchange)) return { gaps: [] };
+  const gaps = findMissingSessions(prices.map(({ date }) => date));
+  if (gaps.length === 0 || getSignalGapPolicy() === "flag") return { gaps };
+  return {
+    gaps,
+    skipReason: `${
+      gaps.length
+    } missing session(s) in the lookback of ${symbol} (${gaps
+      .slice(0, 5)
+      .join(", ")}${gaps.length > 5 ? ", ..." : ""}).`,
+  };
+}
+
+/** Adds the missing sessions to each signal's details (as data_gaps). */
+export function flagLookbackGaps<S extends { details?: Json | null }>(
+  signals: S[],
+  gaps: ReadonlyArray<string>
+): S[] {
+  if (gaps.length === 0) return signals;
+  return signals.map((signal) => ({
+    ...signal,
+    details: {
+      ...(signal.details as { [key: string]: Json | undefined } | null),
+      data_gaps: [...gaps],
+    },
+  }));
+}
@@ -0,0 +1,39 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-gaps/types.ts
+ * Type definitions for the historical price gap detection.
+ * ---------------------------------------------------------------------*/
+
+/**
+ * What the technical signals do when their lookback misses sessions:
+ * - 'flag': generate them, listing the missing sessions in details.data_gaps.
+ * - 'skip': generate nothing; the symbol is reported as skipped, with the gaps
+ *   as the reason.
+ */
+export type SignalGapPolicy = "flag" | "skip";
+
+/** Gaps of a symbol's stored daily series against its trading calendar. */
+export interface PriceGapReport {
+  symbol: string;
+  exchange: string | null;
+  /** False when the exchange's calendar is unknown; nothing is checked. */
+  calendarSupported: boolean;
+  /** Checked window: the stored series, narrowed by the requested range. */
+  from: string | null;
+  to: string | null;
+  expectedSessions: number;
+  storedSessions: number;
+  /** Trading sessions without a bar. */
+  missing: string[];
+  /** Sessions with more than one bar. */
+  duplicates: string[];
+  /** Bars on days the exchange was closed (weekends, holidays). */
+  nonSessions: string[];
+}
+
+/** Missing sessions refetched from the provider, one request per run. */
+export interface PriceGapRefetchResult {
+  symbol: string;
+  refetched: Array<{ from: string; to: string; barsReturned: number }>;
+  /** The report after the refetch; sessions the provider has no bar for stay missing. */
+  report: PriceGapReport;
+}
@@ -0,0 +1,59 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-targets/config.ts
+ * Configuration for the price target consensus service using Supabase.
+ * ---------------------------------------------------------------------*/
+import {
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  mapRowToPartialApi,
+} from "@/lib/common/supabase";
+
+import {
+  CACHE_TTL_MS,
+  priceTargetKeyOrder,
+  priceTargetRawSchema,
+} from "./constants";
+import {
+  PriceTargetApiItem,
+  PriceTargetRow,
+  RawPriceTarget,
+  mapRawPriceTargetToRow,
+} from "./types";
+
+/**
+ * Configuration object passed to `createGenericSupabaseService`.
+ */
+export const priceTargetConfig: GenericSupabaseServiceConfig<
+  RawPriceTarget,
+  PriceTargetRow,
+  PriceTargetApiItem
+> = {
+  // --- Core Identification & Storage ---
+  tableName: "price_targets",
+
+  // --- FMP API Fetching ---
+  fetchMode: FetchMode.BySymbol,
+  fmpBasePath: "stable",
+  fmpPath: "price-target-consensus",
+  fmpSymbolLocation: "param", // ?symbol=NVDA
+  fmpParams: {},
+
+  // --- Caching ---
+  cacheTtlMs: CACHE_TTL_MS,
+
+  // --- Data Structure, Uniqueness & Mapping ---
+  uniqueKeyColumns: ["symbol", "date"], // Daily snapshot
+  mapRawToRow: mapRawPriceTargetToRow,
+  mapRowToApi: mapRowToPartialApi,
+  apiFieldOrder: priceTargetKeyOrder,
+  rawSchema: priceTargetRawSchema, // Per-record checks; failing records are quarantined
+
+  // --- Behavior Modifiers ---
+  isSingleRecordPerSymbol: false, // Daily snapshots
+  sortByFieldForLatest: "date",
+  asOfColumn: "date", // Snapshot date
+
+  // --- Optional Callbacks ---
+  // FMP answers with a one-element array
+  processRawDataArray: (rawData: RawPriceTarget[]) => rawData.slice(0, 1),
+};
@@ -0,0 +1,30 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-targets/constants.ts
+ * Constants for the price target consensus service.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+import type { PriceTargetApiItem, RawPriceTarget } from "./types";
+
+/** Cache Time-To-Live: one snapshot per day. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+
+/** Order of the keys in API responses. */
+export const priceTargetKeyOrder: ReadonlyArray<keyof PriceTargetApiItem> = [
+  "id",
+  "symbol",
+  "date",
+  "target_consensus",
+  "target_median",
+  "target_high",
+  "target_low",
+];
+
+/** Per-record schema for raw price targets; targets must be positive. */
+export const priceTargetRawSchema: RecordSchema<RawPriceTarget> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  targetHigh: { type: "number", min: 0 },
+  targetLow: { type: "number", min: 0 },
+  targetConsensus: { type: "number", min: 0 },
+  targetMedian: { type: "number", min: 0 },
+};
@@ -0,0 +1,38 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Daily snapshots of the analyst price target consensus per symbol
+CREATE TABLE IF NOT EXISTS public.price_targets (
+    -- Primary Key (Standard UUID)
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol              TEXT NOT NULL,
+    date                DATE NOT NULL,          -- Snapshot date
+
+    -- Targets (listing currency)
+    target_consensus    DOUBLE PRECISION NULL,
+    target_median       DOUBLE PRECISION NULL,
+    target_high         DOUBLE PRECISION NULL,
+    target_low          DOUBLE PRECISION NULL,
+
+    -- Timestamps
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, date),
+    CONSTRAINT fk_price_targets_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.price_targets IS 'Daily analyst price target consensus snapshots fetched from FMP API.';
+
+-- Index for reading a symbol's snapshots by date
+CREATE INDEX IF NOT EXISTS idx_price_targets_symbol_date ON public.price_targets(symbol, date DESC);
+-- Index for cache checks
+CREATE INDEX IF NOT EXISTS idx_price_targets_modified_at ON public.price_targets(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_price_targets_updated_at
+BEFORE UPDATE ON public.price_targets
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
@@ -0,0 +1,43 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-targets/index.ts
+ * Instantiates and exports the price target consensus service methods.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { priceTargetConfig } from "./config";
+import type {
+  PriceTargetApiItem,
+  PriceTargetRow,
+  RawPriceTarget,
+} from "./types";
+
+const priceTargetService = createGenericSupabaseService<
+  RawPriceTarget,
+  PriceTargetRow,
+  PriceTargetApiItem
+>(priceTargetConfig);
+
+/**
+ * Fetches the latest price target snapshot of a symbol (high, low, median
+ * and consensus), refreshing it from FMP when stale.
+ * Returns Promise<Partial<PriceTargetApiItem> | null>
+ */
+export const getLatestPriceTarget = priceTargetService.getOne;
+export const getLatestPriceTargetWithStatus =
+  priceTargetService.getOneWithStatus;
+
+/**
+ * Fetches every stored daily snapshot of a symbol, newest first.
+ * Returns Promise<Partial<PriceTargetApiItem>[]>
+ */
+export const getPriceTargetHistoryForSymbol =
+  priceTargetService.getAllForSymbol;
+
+/**
+ * Admin cache control: forced refresh of a symbol's snapshot from FMP, and
+ * deletion of stored snapshots (one symbol, or all).
+ */
+export const refreshPriceTargets = priceTargetService.refresh;
+export const purgePriceTargets = priceTargetService.purge;
+
+export type { PriceTargetApiItem, PriceTargetRow };
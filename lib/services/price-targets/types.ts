@@ -0,0 +1,41 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/price-targets/types.ts
+ * Type definitions and mappers for analyst price target consensus using
+ * Supabase. One snapshot is stored per symbol and day, so target raises
+ * and cuts can be detected.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+export type PriceTargetRow =
+  Database["public"]["Tables"]["price_targets"]["Row"];
+
+// 1. Interface for Raw Data from FMP API (camelCase)
+// FMP returns an array with one object per symbol.
+export interface RawPriceTarget {
+  symbol: string;
+  targetHigh: number | null;
+  targetLow: number | null;
+  targetConsensus: number | null;
+  targetMedian: number | null;
+}
+
+// 2. Interface for API Response Shape
+export interface PriceTargetApiItem
+  extends Omit<PriceTargetRow, "id" | "modified_at"> {
+  id: string;
+}
+
+/**
+ * Maps the raw FMP price target consensus to the structure needed for DB
+ * storage, dated today (the snapshot date).
+ */
+export const mapRawPriceTargetToRow = (
+  raw: RawPriceTarget
+): Omit<PriceTargetRow, "id" | "modified_at"> => ({
+  symbol: raw.symbol,
+  date: new Date().toISOString().split("T")[0],
+  target_high: raw.targetHigh ?? null,
+  target_low: raw.targetLow ?? null,
+  target_median: raw.targetMedian ?? null,
+  target_consensus: raw.targetConsensus ?? null,
+});
@@ -7,7 +7,12 @@ import {
   FetchMode,
 } from "@/lib/common/supabase"; // Adjust path for common Supabase types
 import { mapRowToPartialApi } from "@/lib/common/supabase"; // Import common Supabase mapper
-import { profileKeyOrder, CACHE_TTL_MS } from "./constants"; // Import constants
+import {
+  profileKeyOrder,
+  profileUnversionedFields,
+  CACHE_TTL_MS,
+  profileRawSchema,
+} from "./constants"; // Import constants
 
 // Import specific types and mappers for Profiles (Supabase version)
 import {
@@ -48,10 +53,14 @@ export const profileConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawProfileToRow,
   mapRowToApi: mapRowToPartialApi, // Uses common Supabase mapper
   apiFieldOrder: profileKeyOrder,
+  rawSchema: profileRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers for 'bySymbol' mode ---
   isSingleRecordPerSymbol: true,
   // sortByFieldForLatest: undefined, // Not needed
+  // Profiles are overwritten in place; versions allow asOf reads
+  trackVersions: true,
+  unversionedFields: profileUnversionedFields, // Daily market data
 
   // --- Optional Callbacks ---
   // validateRawData: ...
@@ -4,7 +4,8 @@
  * ---------------------------------------------------------------------*/
 
 // Import the Profile API type definition (Supabase version)
-import type { Profile } from "./types";
+import type { Profile, ProfileRow, RawProfile } from "./types";
+import type { RecordSchema } from "@/lib/common/validation";
 
 /** Cache Time-To-Live: How long fetched data is considered fresh before re-fetching. */
 // Example: 24 hours (adjust as needed)
@@ -66,3 +67,37 @@ export const profileKeyOrder: ReadonlyArray<keyof Profile> = [
 
   // 'created_at' and 'modified_at' from BaseRow are typically excluded by the mapper.
 ];
+
+/**
+ * Market fields refreshed with every fetch. Left out of the version history,
+ * which keeps the changes to the company itself (name, sector, CEO...).
+ */
+export const profileUnversionedFields: ReadonlyArray<keyof ProfileRow> = [
+  "price",
+  "change",
+  "change_percentage",
+  "market_cap",
+  "volume",
+  "average_volume",
+  "beta",
+  "range",
+];
+
+/**
+ * Per-record schema for raw FMP profiles. Records failing it are
+ * quarantined instead of ingested.
+ */
+export const profileRawSchema: RecordSchema<RawProfile> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  price: { type: "number", min: 0 },
+  marketCap: { type: "number", min: 0 },
+  beta: { type: "number" },
+  volume: { type: "number", min: 0 },
+  averageVolume: { type: "number", min: 0 },
+  companyName: { type: "string" },
+  currency: { type: "string" },
+  ipoDate: { type: "date" },
+  isEtf: { type: "boolean" },
+  isFund: { type: "boolean" },
+  isActivelyTrading: { type: "boolean" },
+};
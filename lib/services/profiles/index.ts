@@ -26,10 +26,32 @@ const profileService = createGenericSupabaseService<
 // Returns Promise<Partial<Profile> | null>
 export const getProfile = profileService.getOne;
 
+// Point-in-time read: the profile as stored at the end of `asOf`
+// (YYYY-MM-DD), with later changes undone from the version records.
+// Returns Promise<Partial<Profile> | null>
+export const getProfileAsOf = (symbol: string, asOf: string) =>
+  profileService.getOne(symbol, { asOf });
+
+// Export 'getManyWithStatus' as 'getProfilesForSymbols' (batch read: one
+// storage query, provider fetches only for missing/stale symbols)
+// Returns Promise<BatchResult<WithCacheStatus<Partial<Profile>>>>
+export const getProfilesForSymbols = profileService.getManyWithStatus;
+
 // Export 'getAll' as 'getAllProfiles' (fetches list of profiles)
 // Returns Promise<Partial<Profile>[]>
 export const getAllProfiles = profileService.getAll;
 
+// Export 'getPage' as 'getProfilesPage' (one page of cached profiles,
+// filtered/sorted on profileKeyOrder fields; no upstream fetches)
+// Returns Promise<WithCacheStatus<Page<Partial<Profile>>>>
+export const getProfilesPage = profileService.getPage;
+
+// Export 'refresh'/'purge' for admin cache control (forced provider fetch,
+// or deletion so the next read refetches). Purging cascades to every table
+// referencing profiles(symbol).
+export const refreshProfile = profileService.refresh;
+export const purgeProfiles = profileService.purge;
+
 // Note: getCollection (MongoDB specific) is removed. Direct DB access uses the Supabase client directly if needed.
 
 // --- Re-export Types ---
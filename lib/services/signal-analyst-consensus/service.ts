@@ -1,11 +1,15 @@
 // lib/services/signal-analyst-consensus/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient"; // For default client
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
 import type { Database } from "@/lib/supabase/database.types";
 
 // --- Types specific to this service ---
 type GradesConsensusRow =
   Database["public"]["Tables"]["grades_consensus"]["Row"];
+type PriceTargetRow = Database["public"]["Tables"]["price_targets"]["Row"];
 
 export type AnalystSignalInsert = Omit<
   Database["public"]["Tables"]["signals"]["Insert"],
@@ -25,12 +29,21 @@ export interface AnalystProcessingResult {
 // --- Configuration & Constants ---
 const SIGNALS_TABLE_NAME = "signals";
 const GRADES_CONSENSUS_TABLE_NAME = "grades_consensus";
+const PRICE_TARGETS_TABLE_NAME = "price_targets";
+const HISTORICAL_PRICES_TABLE_NAME = "historical_prices";
+
+// Consensus target moves below this (percent) between snapshots are noise
+const TARGET_CHANGE_MIN_PCT = 1;
 
 // Signal codes generated by this service (used for staleness check)
 const ANALYST_SIGNAL_CODES: string[] = [
   "ANALYST_CONSENSUS_RANK_%", // Pattern for rank signals
   "ANALYST_CONSENSUS_UPGRADE",
   "ANALYST_CONSENSUS_DOWNGRADE",
+  "ANALYST_TARGET_RAISED",
+  "ANALYST_TARGET_CUT",
+  "PRICE_CROSS_ABOVE_TARGET",
+  "PRICE_CROSS_BELOW_TARGET",
 ];
 
 // Time-to-live for these signals: 23 hours (to refresh daily)
@@ -51,30 +64,103 @@ function getConsensusRank(consensus?: string | null): number | null {
   return consensusRankMap[consensus] ?? null;
 }
 
+// --- Internal Logic: Price Target Signals ---
+// Raises/cuts between the latest two target snapshots, and the latest close
+// crossing the consensus target. Errors propagate to generateSignalsLogic.
+async function generateTargetSignals(
+  storage: StorageAdapter,
+  symbol: string
+): Promise<AnalystSignalInsert[]> {
+  const signals: AnalystSignalInsert[] = [];
+  const targets = await storage.select<PriceTargetRow>(
+    PRICE_TARGETS_TABLE_NAME,
+    {
+      where: [{ column: "symbol", op: "eq", value: symbol }],
+      orderBy: [{ column: "date", ascending: false }],
+      limit: 2,
+    }
+  );
+  const [current, previous] = targets;
+  const target = current?.target_consensus ?? null;
+  if (target === null) return signals;
+
+  const previousTarget = previous?.target_consensus ?? null;
+  if (previousTarget !== null && previousTarget > 0) {
+    const changePct = ((target - previousTarget) / previousTarget) * 100;
+    if (Math.abs(changePct) >= TARGET_CHANGE_MIN_PCT) {
+      signals.push({
+        signal_date: current.date,
+        symbol: symbol,
+        signal_category: "sentiment",
+        signal_type: "event",
+        signal_code:
+          changePct > 0 ? "ANALYST_TARGET_RAISED" : "ANALYST_TARGET_CUT",
+        details: {
+          target_consensus: target,
+          previous_target_consensus: previousTarget,
+          change_pct: Math.round(changePct * 100) / 100,
+          target_high: current.target_high,
+          target_low: current.target_low,
+          previous_date: previous.date,
+        },
+      });
+    }
+  }
+
+  const closes = await storage.select<{ date: string; close: number | null }>(
+    HISTORICAL_PRICES_TABLE_NAME,
+    {
+      columns: ["date", "close"],
+      where: [{ column: "symbol", op: "eq", value: symbol }],
+      orderBy: [{ column: "date", ascending: false }],
+      limit: 2,
+    }
+  );
+  const [latest, prior] = closes;
+  if (latest?.close == null || prior?.close == null) return signals;
+  const crossedAbove = prior.close <= target && latest.close > target;
+  const crossedBelow = prior.close >= target && latest.close < target;
+  if (crossedAbove || crossedBelow) {
+    signals.push({
+      signal_date: latest.date,
+      symbol: symbol,
+      signal_category: "sentiment",
+      signal_type: "event",
+      signal_code: crossedAbove
+        ? "PRICE_CROSS_ABOVE_TARGET"
+        : "PRICE_CROSS_BELOW_TARGET",
+      details: {
+        close: latest.close,
+        prev_close: prior.close,
+        target_consensus: target,
+        target_date: current.date,
+      },
+    });
+  }
+  return signals;
+}
+
 // --- Internal Logic: Generate Signals for a Symbol ---
 async function generateSignalsLogic(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<{ signals: AnalystSignalInsert[]; error?: string }> {
   const signalsToInsert: AnalystSignalInsert[] = [];
 
   try {
-    const { data: consensusHistory, error: dbError } = await supabase
-      .from(GRADES_CONSENSUS_TABLE_NAME)
-      .select("*")
-      .eq("symbol", symbol)
-      .order("date", { ascending: false })
-      .limit(2);
-
-    if (dbError) {
-      return {
-        signals: [],
-        error: `Supabase fetch error for ${symbol} from ${GRADES_CONSENSUS_TABLE_NAME}: ${dbError.message}`,
-      };
-    }
+    // Storage errors are reported by the catch below
+    const consensusHistory = await storage.select<GradesConsensusRow>(
+      GRADES_CONSENSUS_TABLE_NAME,
+      {
+        where: [{ column: "symbol", op: "eq", value: symbol }],
+        orderBy: [{ column: "date", ascending: false }],
+        limit: 2,
+      }
+    );
 
     if (!consensusHistory || consensusHistory.length < 1) {
-      return { signals: [] }; // No data, not an error for generation itself
+      // No consensus, not an error for generation itself; targets may exist
+      return { signals: await generateTargetSignals(storage, symbol) };
     }
 
     const currentData = consensusHistory[0] as GradesConsensusRow;
@@ -139,6 +225,9 @@ async function generateSignalsLogic(
         });
       }
     }
+
+    // Signals 3 and 4: Price target raises/cuts and crosses
+    signalsToInsert.push(...(await generateTargetSignals(storage, symbol)));
     return { signals: signalsToInsert };
   } catch (e: unknown) {
     const errorMessage = e instanceof Error ? e.message : String(e);
@@ -151,25 +240,31 @@ async function generateSignalsLogic(
 
 // --- Internal Logic: Staleness Check ---
 async function areSignalsStale(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<boolean> {
-  const orConditions = ANALYST_SIGNAL_CODES.map((code) =>
-    code.includes("%") ? `signal_code.like.${code}` : `signal_code.eq.${code}`
-  ).join(",");
-
-  const { data: latestSignal, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("created_at")
-    .eq("symbol", symbol)
-    .or(orConditions)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  // Codes containing '%' are LIKE patterns (e.g. rank families)
+  const codeConditions: Condition[][] = ANALYST_SIGNAL_CODES.map((code) => [
+    {
+      column: "signal_code",
+      op: code.includes("%") ? "like" : "eq",
+      value: code,
+    },
+  ]);
+
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      { columns: ["created_at"], anyOf: codeConditions }
+    );
+  } catch (error) {
     console.error(
-      `[AnalystSignalSvc] Error checking staleness for ${symbol}: ${error.message}. Assuming stale.`
+      `[AnalystSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
     );
     return true; // Assume stale on error to be safe
   }
@@ -193,21 +288,22 @@ async function areSignalsStale(
  * Processes analyst consensus signals for a single symbol.
  * Checks for staleness specific to analyst signals before generating.
  * @param symbol The stock symbol to process.
- * @param supabaseInstance Optional Supabase client instance.
+ * @param storageInstance Optional storage backend (default: getStorage()).
  * @returns Promise<AnalystProcessingResult> Result of the processing.
  */
 export async function processAnalystConsensusForSymbol(
   symbol: string,
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
 ): Promise<AnalystProcessingResult> {
-  const supabase = supabaseInstance || getSupabaseServerClient();
+  const storage = storageInstance || getStorage();
   const upperSymbol = symbol.toUpperCase();
 
   console.log(
     `[AnalystSignalSvc] Processing analyst consensus for symbol: ${upperSymbol}`
   );
 
-  if (!(await areSignalsStale(supabase, upperSymbol))) {
+  if (!force && !(await areSignalsStale(storage, upperSymbol))) {
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
@@ -219,7 +315,7 @@ export async function processAnalystConsensusForSymbol(
     `[AnalystSignalSvc] Signals for ${upperSymbol} are stale or missing. Generating...`
   );
   const { signals, error: generationError } = await generateSignalsLogic(
-    supabase,
+    storage,
     upperSymbol
   );
 
@@ -247,21 +343,24 @@ export async function processAnalystConsensusForSymbol(
   // Upsert signals
   const typedSignalsToInsert =
     signals as Database["public"]["Tables"]["signals"]["Insert"][];
-  const { error: upsertError } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .upsert(typedSignalsToInsert, {
-      onConflict: "symbol, signal_date, signal_code",
-    });
-
-  if (upsertError) {
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      typedSignalsToInsert,
+      ["symbol", "signal_date", "signal_code"],
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
     console.error(
-      `[AnalystSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertError.message}`
+      `[AnalystSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertMessage}`
     );
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0, // Or signals.length if you want to count what was attempted
       status: "error",
-      error: `Failed to upsert signals: ${upsertError.message}`,
+      error: `Failed to upsert signals: ${upsertMessage}`,
     };
   }
 
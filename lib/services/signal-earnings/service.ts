@@ -1,6 +1,5 @@
 // lib/services/signal-earnings/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
 import type { Database, Json } from "@/lib/supabase/database.types";
 
 // --- Types specific to this service ---
@@ -47,7 +46,7 @@ export const EARNINGS_SIGNALS_TTL_MS = 23 * 60 * 60 * 1000;
 
 // --- Internal Logic: Generate Signals for a Symbol ---
 async function generateSignalsLogic(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string,
   today: Date, // Pass Date object for precise calculations
   todayStr: string // Pass today's date string for DB consistency
@@ -60,21 +59,25 @@ async function generateSignalsLogic(
     lookbackDate.setDate(today.getDate() - LOOKBACK_DAYS);
     const lookbackDateStr = lookbackDate.toISOString().split("T")[0];
 
-    const { data: calendarData, error: calendarError } = await supabase
-      .from(EARNINGS_CALENDAR_TABLE_NAME)
-      .select(
-        "symbol, date, eps_actual, eps_estimated, revenue_actual, revenue_estimated"
-      )
-      .eq("symbol", symbol)
-      .gte("date", lookbackDateStr) // Fetch all from lookback date for this symbol
-      .order("date", { ascending: true }); // Process chronologically if needed, though not strictly necessary here
-
-    if (calendarError) {
-      return {
-        signals: [],
-        error: `Supabase fetch error for ${symbol} from ${EARNINGS_CALENDAR_TABLE_NAME}: ${calendarError.message}`,
-      };
-    }
+    // Storage errors are reported by the catch below
+    const calendarData = await storage.select<EarningsCalendarRow>(
+      EARNINGS_CALENDAR_TABLE_NAME,
+      {
+        columns: [
+          "symbol",
+          "date",
+          "eps_actual",
+          "eps_estimated",
+          "revenue_actual",
+          "revenue_estimated",
+        ],
+        where: [
+          { column: "symbol", op: "eq", value: symbol },
+          { column: "date", op: "gte", value: lookbackDateStr }, // Fetch all from lookback date for this symbol
+        ],
+        orderBy: [{ column: "date", ascending: true }], // Process chronologically if needed, though not strictly necessary here
+      }
+    );
 
     if (!calendarData || calendarData.length === 0) {
       return { signals: [] }; // No relevant calendar data for this symbol
@@ -227,24 +230,31 @@ async function generateSignalsLogic(
 
 // --- Internal Logic: Staleness Check ---
 async function areSignalsStale(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<boolean> {
   // For earnings, staleness means we haven't generated signals for this symbol *today* (or within TTL)
   // The signal_date of generated signals is todayStr.
   // We check created_at to see if the *process* ran recently.
-  const { data: latestSignal, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("created_at")
-    .eq("symbol", symbol)
-    .in("signal_code", EARNINGS_SIGNAL_CODES) // Check against all codes this service might generate
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      {
+        columns: ["created_at"],
+        // Check against all codes this service might generate
+        where: [
+          { column: "signal_code", op: "in", value: EARNINGS_SIGNAL_CODES },
+        ],
+      }
+    );
+  } catch (error) {
     console.error(
-      `[EarningsSignalSvc] Error checking staleness for ${symbol}: ${error.message}. Assuming stale.`
+      `[EarningsSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
     );
     return true;
   }
@@ -266,9 +276,10 @@ async function areSignalsStale(
 // --- Exported Service Function ---
 export async function processEarningsSignalsForSymbol(
   symbol: string,
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
 ): Promise<EarningsProcessingResult> {
-  const supabase = supabaseInstance || getSupabaseServerClient();
+  const storage = storageInstance || getStorage();
   const upperSymbol = symbol.toUpperCase();
   const today = new Date();
   const todayStr = today.toISOString().split("T")[0]; // YYYY-MM-DD format
@@ -277,7 +288,7 @@ export async function processEarningsSignalsForSymbol(
     `[EarningsSignalSvc] Processing earnings signals for symbol: ${upperSymbol}`
   );
 
-  if (!(await areSignalsStale(supabase, upperSymbol))) {
+  if (!force && !(await areSignalsStale(storage, upperSymbol))) {
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
@@ -289,7 +300,7 @@ export async function processEarningsSignalsForSymbol(
     `[EarningsSignalSvc] Signals for ${upperSymbol} are stale or missing. Generating...`
   );
   const { signals, error: generationError } = await generateSignalsLogic(
-    supabase,
+    storage,
     upperSymbol,
     today, // Pass Date object
     todayStr
@@ -317,21 +328,24 @@ export async function processEarningsSignalsForSymbol(
 
   const typedSignalsToInsert =
     signals as Database["public"]["Tables"]["signals"]["Insert"][];
-  const { error: upsertError } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .upsert(typedSignalsToInsert, {
-      onConflict: "symbol, signal_date, signal_code", // Relies on signal_date being todayStr for upsert logic
-    });
-
-  if (upsertError) {
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      typedSignalsToInsert,
+      ["symbol", "signal_date", "signal_code"], // Relies on signal_date being todayStr for upsert logic
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
     console.error(
-      `[EarningsSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertError.message}`
+      `[EarningsSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertMessage}`
     );
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
       status: "error",
-      error: `Failed to upsert signals: ${upsertError.message}`,
+      error: `Failed to upsert signals: ${upsertMessage}`,
     };
   }
 
@@ -1,7 +1,15 @@
 // lib/services/signal-ema/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
 import type { Database } from "@/lib/supabase/database.types";
+import {
+  selectSignalPrices,
+  type SignalPriceInterval,
+} from "@/lib/services/adjusted-prices";
+import { checkLookbackGaps, flagLookbackGaps } from "@/lib/services/price-gaps";
+import {
+  computeSignalsOnInterval,
+  type IntervalSignalsResult,
+} from "@/lib/services/signals/intervalSignals";
 
 // --- Types specific to this service ---
 type HistoricalPrice = Database["public"]["Tables"]["historical_prices"]["Row"];
@@ -20,14 +28,14 @@ type MovingAverageValues = { [period: number]: number | undefined };
 export interface EmaProcessingResult {
   processedSymbol: string;
   signalsGenerated: number;
-  status: string; // e.g., "processed", "skipped_fresh", "no_data", "error"
+  status: string; // e.g., "processed", "skipped_fresh", "skipped", "no_data", "error"
   error?: string;
+  skipReason?: string; // Why generation was skipped (status "skipped")
   latestSignalDate?: string | null; // To indicate the date of data used
 }
 
 // --- Configuration & Constants ---
 const SIGNALS_TABLE_NAME = "signals";
-const HISTORICAL_PRICES_TABLE_NAME = "historical_prices";
 
 const EMAs_REQUIRED: number[] = [50, 200];
 const LONGEST_MA_PERIOD: number = Math.max(...EMAs_REQUIRED);
@@ -98,29 +106,32 @@ function calculateEMAsFromSortedPrices(
 
 // --- Internal Logic: Generate Signals for a Symbol ---
 async function generateSignalsLogic(
-  supabase: SupabaseClient,
-  symbol: string
+  storage: StorageAdapter,
+  symbol: string,
+  interval?: SignalPriceInterval // Intraday or resampled bars instead of daily
 ): Promise<{
   signals: EmaSignalInsert[];
   latestSignalDate?: string | null;
   error?: string;
+  skipReason?: string;
 }> {
   const signalsForSymbol: EmaSignalInsert[] = [];
 
   try {
-    const { data: prices, error: dbError } = await supabase
-      .from(HISTORICAL_PRICES_TABLE_NAME)
-      .select("date, close")
-      .eq("symbol", symbol)
-      .order("date", { ascending: false })
-      .limit(REQUIRED_DATA_POINTS);
-
-    if (dbError) {
-      return {
-        signals: [],
-        error: `Supabase fetch error for ${symbol}: ${dbError.message}`,
-      };
-    }
+    // Storage errors are reported by the catch below
+    // Adjusted closes (see SIGNAL_PRICE_ADJUSTMENT), so splits don't cross
+    const prices: PriceDataPoint[] = await selectSignalPrices(storage, symbol, {
+      limit: REQUIRED_DATA_POINTS,
+      interval,
+    });
+    // Missing sessions distort the indicators (see SIGNAL_GAP_POLICY)
+    const { gaps, skipReason } = await checkLookbackGaps(
+      storage,
+      symbol,
+      prices,
+      interval
+    );
+    if (skipReason) return { signals: [], skipReason };
     if (!prices || prices.length < 2) {
       // Need at least T and T-1
       return {
@@ -214,7 +225,10 @@ async function generateSignalsLogic(
     }
     // Placeholder for Golden/Death Cross (EMA50 vs EMA200) if needed in the future
 
-    return { signals: signalsForSymbol, latestSignalDate: signalDate };
+    return {
+      signals: flagLookbackGaps(signalsForSymbol, gaps),
+      latestSignalDate: signalDate,
+    };
   } catch (e: unknown) {
     const errorMessage = e instanceof Error ? e.message : String(e);
     return {
@@ -226,21 +240,25 @@ async function generateSignalsLogic(
 
 // --- Internal Logic: Staleness Check ---
 async function areSignalsStale(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<boolean> {
-  const { data: latestSignal, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("created_at")
-    .eq("symbol", symbol)
-    .in("signal_code", EMA_SIGNAL_CODES)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      {
+        columns: ["created_at"],
+        where: [{ column: "signal_code", op: "in", value: EMA_SIGNAL_CODES }],
+      }
+    );
+  } catch (error) {
     console.error(
-      `[EmaSignalSvc] Error checking staleness for ${symbol}: ${error.message}. Assuming stale.`
+      `[EmaSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
     );
     return true;
   }
@@ -259,16 +277,17 @@ async function areSignalsStale(
 // --- Exported Service Function ---
 export async function processEmaSignalsForSymbol(
   symbol: string,
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
 ): Promise<EmaProcessingResult> {
-  const supabase = supabaseInstance || getSupabaseServerClient();
+  const storage = storageInstance || getStorage();
   const upperSymbol = symbol.toUpperCase();
 
   console.log(
     `[EmaSignalSvc] Processing EMA signals for symbol: ${upperSymbol}`
   );
 
-  if (!(await areSignalsStale(supabase, upperSymbol))) {
+  if (!force && !(await areSignalsStale(storage, upperSymbol))) {
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
@@ -283,7 +302,8 @@ export async function processEmaSignalsForSymbol(
     signals,
     latestSignalDate,
     error: generationError,
-  } = await generateSignalsLogic(supabase, upperSymbol);
+    skipReason,
+  } = await generateSignalsLogic(storage, upperSymbol);
 
   if (generationError) {
     return {
@@ -294,6 +314,17 @@ export async function processEmaSignalsForSymbol(
       latestSignalDate,
     };
   }
+  if (skipReason) {
+    console.log(
+      `[EmaSignalSvc] Skipped EMA signals for ${upperSymbol}: ${skipReason}`
+    );
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "skipped",
+      skipReason,
+    };
+  }
   if (!signals || signals.length === 0) {
     console.log(
       `[EmaSignalSvc] No new EMA signals generated for ${upperSymbol}.`
@@ -308,21 +339,24 @@ export async function processEmaSignalsForSymbol(
 
   const typedSignalsToInsert =
     signals as Database["public"]["Tables"]["signals"]["Insert"][];
-  const { error: upsertError } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .upsert(typedSignalsToInsert, {
-      onConflict: "symbol, signal_date, signal_code",
-    });
-
-  if (upsertError) {
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      typedSignalsToInsert,
+      ["symbol", "signal_date", "signal_code"],
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
     console.error(
-      `[EmaSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertError.message}`
+      `[EmaSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertMessage}`
     );
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
       status: "error",
-      error: `Failed to upsert signals: ${upsertError.message}`,
+      error: `Failed to upsert signals: ${upsertMessage}`,
       latestSignalDate,
     };
   }
@@ -337,3 +371,16 @@ export async function processEmaSignalsForSymbol(
     latestSignalDate,
   };
 }
+
+/**
+ * Computes EMA signals on intraday or resampled bars of `interval`,
+ * without storing them (see computeSignalsOnInterval).
+ */
+export function computeEmaSignalsForInterval(
+  symbol: string,
+  interval: SignalPriceInterval
+): Promise<IntervalSignalsResult> {
+  return computeSignalsOnInterval(symbol, interval, (storage, upperSymbol) =>
+    generateSignalsLogic(storage, upperSymbol, interval)
+  );
+}
@@ -0,0 +1,360 @@
+// lib/services/signal-insider/service.ts
+import { format, parseISO, subDays } from "date-fns";
+
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
+import type { Database, Json } from "@/lib/supabase/database.types";
+
+// --- Types specific to this service ---
+type InsiderTradeRow = Database["public"]["Tables"]["insider_trades"]["Row"];
+type InsiderTradeRead = Pick<
+  InsiderTradeRow,
+  | "transaction_date"
+  | "filing_date"
+  | "filer"
+  | "role"
+  | "transaction_type"
+  | "shares"
+  | "value"
+  | "shares_owned_after"
+>;
+
+export type InsiderSignalInsert = Omit<
+  Database["public"]["Tables"]["signals"]["Insert"],
+  "signal_category" | "signal_type"
+> & {
+  signal_category: "sentiment";
+  signal_type: "event";
+};
+
+export interface InsiderProcessingResult {
+  processedSymbol: string;
+  signalsGenerated: number;
+  status: string; // e.g., "processed", "skipped_fresh", "no_data", "error"
+  error?: string;
+}
+
+// --- Configuration & Constants ---
+const SIGNALS_TABLE_NAME = "signals";
+const INSIDER_TRADES_TABLE_NAME = "insider_trades";
+const READ_PAGE_SIZE = 1000; // PostgREST max-rows
+
+const LOOKBACK_DAYS = 90; // Signals are generated for trades this recent
+// Distinct insiders buying on the open market within the window form a cluster
+const CLUSTER_WINDOW_DAYS = 30;
+const CLUSTER_MIN_BUYERS = 3;
+// Open-market sales of one insider on one day, in USD
+const LARGE_SALE_MIN_VALUE = 1_000_000;
+
+// SEC Form 4 codes: P = open-market purchase, S = open-market sale.
+// Awards, option exercises, gifts... carry no view on the price.
+const PURCHASE_TYPE_PATTERN = "P-%";
+const SALE_TYPE_PATTERN = "S-%";
+
+// Signal codes generated by this service (used for staleness check)
+const INSIDER_SIGNAL_CODES: string[] = [
+  "INSIDER_CLUSTER_BUY",
+  "INSIDER_LARGE_SALE",
+];
+
+// Time-to-live for these signals: 23 hours (to refresh daily)
+export const INSIDER_SIGNALS_TTL_MS = 23 * 60 * 60 * 1000;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const daysBefore = (date: string, days: number): string =>
+  format(subDays(parseISO(date), days), "yyyy-MM-dd");
+
+// --- Internal Logic: Cluster Buys ---
+// Emits on the day the distinct buyers of the trailing window first reach
+// CLUSTER_MIN_BUYERS; the cluster must thin out before it can emit again.
+function findClusterBuys(
+  symbol: string,
+  purchases: ReadonlyArray<InsiderTradeRead>,
+  sinceDate: string
+): InsiderSignalInsert[] {
+  const signals: InsiderSignalInsert[] = [];
+  const dates = [...new Set(purchases.map((t) => t.transaction_date))];
+  let inCluster = false;
+  for (const date of dates) {
+    const windowStart = daysBefore(date, CLUSTER_WINDOW_DAYS - 1);
+    const inWindow = purchases.filter(
+      (t) => t.transaction_date >= windowStart && t.transaction_date <= date
+    );
+    const filers = [...new Set(inWindow.map((t) => t.filer))];
+    const isCluster = filers.length >= CLUSTER_MIN_BUYERS;
+    if (isCluster && !inCluster && date >= sinceDate) {
+      signals.push({
+        signal_date: date,
+        symbol: symbol,
+        signal_category: "sentiment",
+        signal_type: "event",
+        signal_code: "INSIDER_CLUSTER_BUY",
+        details: {
+          buyers: filers.length,
+          filers,
+          window_start: inWindow[0].transaction_date,
+          window_days: CLUSTER_WINDOW_DAYS,
+          total_shares: inWindow.reduce((sum, t) => sum + t.shares, 0),
+          total_value: round2(
+            inWindow.reduce((sum, t) => sum + (t.value ?? 0), 0)
+          ),
+        },
+      });
+    }
+    inCluster = isCluster;
+  }
+  return signals;
+}
+
+// --- Internal Logic: Large Sales ---
+// One signal per day with at least one insider selling LARGE_SALE_MIN_VALUE
+// or more (lots of one insider on one day are summed).
+function findLargeSales(
+  symbol: string,
+  sales: ReadonlyArray<InsiderTradeRead>,
+  sinceDate: string
+): InsiderSignalInsert[] {
+  const byDate = new Map<string, Map<string, InsiderTradeRead[]>>();
+  for (const sale of sales) {
+    if (sale.transaction_date < sinceDate) continue;
+    const byFiler = byDate.get(sale.transaction_date) ?? new Map();
+    byFiler.set(sale.filer, [...(byFiler.get(sale.filer) ?? []), sale]);
+    byDate.set(sale.transaction_date, byFiler);
+  }
+
+  const signals: InsiderSignalInsert[] = [];
+  for (const [date, byFiler] of byDate) {
+    const sellers: { [key: string]: Json }[] = [];
+    for (const [filer, lots] of byFiler) {
+      const value = lots.reduce((sum, t) => sum + (t.value ?? 0), 0);
+      if (value < LARGE_SALE_MIN_VALUE) continue;
+      const shares = lots.reduce((sum, t) => sum + t.shares, 0);
+      // Holdings after the last lot of the day
+      const sharesOwnedAfter = Math.min(
+        ...lots.map((t) => t.shares_owned_after)
+      );
+      const held = shares + sharesOwnedAfter;
+      sellers.push({
+        filer,
+        role: lots[0].role,
+        shares,
+        value: round2(value),
+        shares_owned_after: sharesOwnedAfter,
+        pct_of_holdings: held > 0 ? round2((shares / held) * 100) : null,
+        filing_date: lots[0].filing_date,
+      });
+    }
+    if (sellers.length === 0) continue;
+    sellers.sort((a, b) => (b.value as number) - (a.value as number));
+    signals.push({
+      signal_date: date,
+      symbol: symbol,
+      signal_category: "sentiment",
+      signal_type: "event",
+      signal_code: "INSIDER_LARGE_SALE",
+      details: {
+        sellers,
+        total_shares: sellers.reduce((sum, s) => sum + (s.shares as number), 0),
+        total_value: round2(
+          sellers.reduce((sum, s) => sum + (s.value as number), 0)
+        ),
+        min_value: LARGE_SALE_MIN_VALUE,
+      },
+    });
+  }
+  return signals;
+}
+
+// --- Internal Logic: Generate Signals for a Symbol ---
+async function generateSignalsLogic(
+  storage: StorageAdapter,
+  symbol: string,
+  todayStr: string
+): Promise<{ signals: InsiderSignalInsert[]; error?: string }> {
+  try {
+    const sinceDate = daysBefore(todayStr, LOOKBACK_DAYS);
+    // Purchases before sinceDate may still complete a cluster after it
+    const readFrom = daysBefore(sinceDate, CLUSTER_WINDOW_DAYS);
+
+    // Storage errors are reported by the catch below
+    const trades: InsiderTradeRead[] = [];
+    for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+      const page = await storage.select<InsiderTradeRead>(
+        INSIDER_TRADES_TABLE_NAME,
+        {
+          columns: [
+            "transaction_date",
+            "filing_date",
+            "filer",
+            "role",
+            "transaction_type",
+            "shares",
+            "value",
+            "shares_owned_after",
+          ],
+          where: [
+            { column: "symbol", op: "eq", value: symbol },
+            { column: "transaction_date", op: "gte", value: readFrom },
+          ],
+          anyOf: [PURCHASE_TYPE_PATTERN, SALE_TYPE_PATTERN].map((pattern) => [
+            { column: "transaction_type", op: "like", value: pattern },
+          ]),
+          orderBy: [{ column: "transaction_date", ascending: true }],
+          limit: READ_PAGE_SIZE,
+          offset,
+        }
+      );
+      trades.push(...page);
+      if (page.length < READ_PAGE_SIZE) break;
+    }
+
+    if (trades.length === 0) {
+      return { signals: [] }; // No open-market insider trades for this symbol
+    }
+
+    const purchases = trades.filter((t) => t.transaction_type.startsWith("P-"));
+    const sales = trades.filter((t) => t.transaction_type.startsWith("S-"));
+    return {
+      signals: [
+        ...findClusterBuys(symbol, purchases, sinceDate),
+        ...findLargeSales(symbol, sales, sinceDate),
+      ],
+    };
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : String(e);
+    return {
+      signals: [],
+      error: `Error generating insider signals for ${symbol}: ${errorMessage}`,
+    };
+  }
+}
+
+// --- Internal Logic: Staleness Check ---
+async function areSignalsStale(
+  storage: StorageAdapter,
+  symbol: string
+): Promise<boolean> {
+  const codeConditions: Condition[][] = INSIDER_SIGNAL_CODES.map((code) => [
+    { column: "signal_code", op: "eq", value: code },
+  ]);
+
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      { columns: ["created_at"], anyOf: codeConditions }
+    );
+  } catch (error) {
+    console.error(
+      `[InsiderSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
+    );
+    return true; // Assume stale on error to be safe
+  }
+
+  if (!latestSignal?.created_at) {
+    return true; // No existing signals of this type found
+  }
+
+  const lastGeneratedTime = new Date(latestSignal.created_at).getTime();
+  const isStale = Date.now() - lastGeneratedTime >= INSIDER_SIGNALS_TTL_MS;
+  if (!isStale) {
+    console.log(
+      `[InsiderSignalSvc] Signals for ${symbol} are fresh. Last generation: ${latestSignal.created_at}.`
+    );
+  }
+  return isStale;
+}
+
+// --- Exported Service Function ---
+/**
+ * Processes insider activity signals (cluster buys, large sales) for a
+ * single symbol from its stored insider trades.
+ * Checks for staleness specific to insider signals before generating.
+ * @param symbol The stock symbol to process.
+ * @param storageInstance Optional storage backend (default: getStorage()).
+ * @returns Promise<InsiderProcessingResult> Result of the processing.
+ */
+export async function processInsiderSignalsForSymbol(
+  symbol: string,
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
+): Promise<InsiderProcessingResult> {
+  const storage = storageInstance || getStorage();
+  const upperSymbol = symbol.toUpperCase();
+
+  console.log(
+    `[InsiderSignalSvc] Processing insider signals for symbol: ${upperSymbol}`
+  );
+
+  if (!force && !(await areSignalsStale(storage, upperSymbol))) {
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "skipped_fresh",
+    };
+  }
+
+  const todayStr = format(new Date(), "yyyy-MM-dd");
+  const { signals, error: generationError } = await generateSignalsLogic(
+    storage,
+    upperSymbol,
+    todayStr
+  );
+
+  if (generationError) {
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "error",
+      error: generationError,
+    };
+  }
+
+  if (signals.length === 0) {
+    console.log(
+      `[InsiderSignalSvc] No insider signals generated for ${upperSymbol} (no cluster buy or large sale).`
+    );
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "no_data_for_generation",
+    };
+  }
+
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      signals as Database["public"]["Tables"]["signals"]["Insert"][],
+      ["symbol", "signal_date", "signal_code"],
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
+    console.error(
+      `[InsiderSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertMessage}`
+    );
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "error",
+      error: `Failed to upsert signals: ${upsertMessage}`,
+    };
+  }
+
+  console.log(
+    `[InsiderSignalSvc] Successfully generated and upserted ${signals.length} signals for ${upperSymbol}.`
+  );
+  return {
+    processedSymbol: upperSymbol,
+    signalsGenerated: signals.length,
+    status: "processed",
+  };
+}
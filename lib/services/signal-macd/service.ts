@@ -1,7 +1,15 @@
 // lib/services/signal-macd/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
 import type { Database } from "@/lib/supabase/database.types";
+import {
+  selectSignalPrices,
+  type SignalPriceInterval,
+} from "@/lib/services/adjusted-prices";
+import { checkLookbackGaps, flagLookbackGaps } from "@/lib/services/price-gaps";
+import {
+  computeSignalsOnInterval,
+  type IntervalSignalsResult,
+} from "@/lib/services/signals/intervalSignals";
 
 // --- Types specific to this service ---
 type HistoricalPrice = Database["public"]["Tables"]["historical_prices"]["Row"];
@@ -18,14 +26,14 @@ export type MacdSignalInsert = Omit<
 export interface MacdProcessingResult {
   processedSymbol: string;
   signalsGenerated: number;
-  status: string; // e.g., "processed", "skipped_fresh", "no_data", "error"
+  status: string; // e.g., "processed", "skipped_fresh", "skipped", "no_data", "error"
   error?: string;
+  skipReason?: string; // Why generation was skipped (status "skipped")
   latestSignalDate?: string | null; // To indicate the date of data used for the signal
 }
 
 // --- Configuration & Constants ---
 const SIGNALS_TABLE_NAME = "signals";
-const HISTORICAL_PRICES_TABLE_NAME = "historical_prices";
 
 const MACD_FAST_PERIOD = 12;
 const MACD_SLOW_PERIOD = 26;
@@ -154,29 +162,32 @@ function calculateMACDAndSignalLine(
 
 // --- Internal Logic: Generate Signals for a Symbol ---
 async function generateSignalsLogic(
-  supabase: SupabaseClient,
-  symbol: string
+  storage: StorageAdapter,
+  symbol: string,
+  interval?: SignalPriceInterval // Intraday or resampled bars instead of daily
 ): Promise<{
   signals: MacdSignalInsert[];
   latestSignalDate?: string | null;
   error?: string;
+  skipReason?: string;
 }> {
   const signalsForSymbol: MacdSignalInsert[] = [];
 
   try {
-    const { data: prices, error: dbError } = await supabase
-      .from(HISTORICAL_PRICES_TABLE_NAME)
-      .select("date, close")
-      .eq("symbol", symbol)
-      .order("date", { ascending: false })
-      .limit(REQUIRED_DATA_POINTS_MACD);
-
-    if (dbError) {
-      return {
-        signals: [],
-        error: `Supabase fetch error for ${symbol}: ${dbError.message}`,
-      };
-    }
+    // Storage errors are reported by the catch below
+    // Adjusted closes (see SIGNAL_PRICE_ADJUSTMENT), so splits don't cross
+    const prices: PriceDataPoint[] = await selectSignalPrices(storage, symbol, {
+      limit: REQUIRED_DATA_POINTS_MACD,
+      interval,
+    });
+    // Missing sessions distort the indicators (see SIGNAL_GAP_POLICY)
+    const { gaps, skipReason } = await checkLookbackGaps(
+      storage,
+      symbol,
+      prices,
+      interval
+    );
+    if (skipReason) return { signals: [], skipReason };
     const typedPrices = prices as PriceDataPoint[] | null;
     if (!typedPrices || typedPrices.length < REQUIRED_DATA_POINTS_MACD * 0.5) {
       // Heuristic check for very sparse data
@@ -257,7 +268,10 @@ async function generateSignalsLogic(
       });
     }
 
-    return { signals: signalsForSymbol, latestSignalDate: signalDate };
+    return {
+      signals: flagLookbackGaps(signalsForSymbol, gaps),
+      latestSignalDate: signalDate,
+    };
   } catch (e: unknown) {
     const errorMessage = e instanceof Error ? e.message : String(e);
     return {
@@ -269,21 +283,25 @@ async function generateSignalsLogic(
 
 // --- Internal Logic: Staleness Check ---
 async function areSignalsStale(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<boolean> {
-  const { data: latestSignal, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("created_at")
-    .eq("symbol", symbol)
-    .in("signal_code", MACD_SIGNAL_CODES)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      {
+        columns: ["created_at"],
+        where: [{ column: "signal_code", op: "in", value: MACD_SIGNAL_CODES }],
+      }
+    );
+  } catch (error) {
     console.error(
-      `[MacdSignalSvc] Error checking staleness for ${symbol}: ${error.message}. Assuming stale.`
+      `[MacdSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
     );
     return true;
   }
@@ -302,16 +320,17 @@ async function areSignalsStale(
 // --- Exported Service Function ---
 export async function processMacdSignalsForSymbol(
   symbol: string,
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
 ): Promise<MacdProcessingResult> {
-  const supabase = supabaseInstance || getSupabaseServerClient();
+  const storage = storageInstance || getStorage();
   const upperSymbol = symbol.toUpperCase();
 
   console.log(
     `[MacdSignalSvc] Processing MACD signals for symbol: ${upperSymbol}`
   );
 
-  if (!(await areSignalsStale(supabase, upperSymbol))) {
+  if (!force && !(await areSignalsStale(storage, upperSymbol))) {
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
@@ -326,7 +345,8 @@ export async function processMacdSignalsForSymbol(
     signals,
     latestSignalDate,
     error: generationError,
-  } = await generateSignalsLogic(supabase, upperSymbol);
+    skipReason,
+  } = await generateSignalsLogic(storage, upperSymbol);
 
   if (generationError) {
     return {
@@ -337,6 +357,17 @@ export async function processMacdSignalsForSymbol(
       latestSignalDate,
     };
   }
+  if (skipReason) {
+    console.log(
+      `[MacdSignalSvc] Skipped MACD signals for ${upperSymbol}: ${skipReason}`
+    );
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "skipped",
+      skipReason,
+    };
+  }
   if (!signals || signals.length === 0) {
     console.log(
       `[MacdSignalSvc] No new MACD signals generated for ${upperSymbol}.`
@@ -351,21 +382,24 @@ export async function processMacdSignalsForSymbol(
 
   const typedSignalsToInsert =
     signals as Database["public"]["Tables"]["signals"]["Insert"][];
-  const { error: upsertError } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .upsert(typedSignalsToInsert, {
-      onConflict: "symbol, signal_date, signal_code",
-    });
-
-  if (upsertError) {
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      typedSignalsToInsert,
+      ["symbol", "signal_date", "signal_code"],
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
     console.error(
-      `[MacdSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertError.message}`
+      `[MacdSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertMessage}`
     );
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
       status: "error",
-      error: `Failed to upsert signals: ${upsertError.message}`,
+      error: `Failed to upsert signals: ${upsertMessage}`,
       latestSignalDate,
     };
   }
@@ -380,3 +414,16 @@ export async function processMacdSignalsForSymbol(
     latestSignalDate,
   };
 }
+
+/**
+ * Computes MACD signals on intraday or resampled bars of `interval`,
+ * without storing them (see computeSignalsOnInterval).
+ */
+export function computeMacdSignalsForInterval(
+  symbol: string,
+  interval: SignalPriceInterval
+): Promise<IntervalSignalsResult> {
+  return computeSignalsOnInterval(symbol, interval, (storage, upperSymbol) =>
+    generateSignalsLogic(storage, upperSymbol, interval)
+  );
+}
@@ -1,7 +1,15 @@
 // lib/services/signal-rsi/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
 import type { Database } from "@/lib/supabase/database.types";
+import {
+  selectSignalPrices,
+  type SignalPriceInterval,
+} from "@/lib/services/adjusted-prices";
+import { checkLookbackGaps, flagLookbackGaps } from "@/lib/services/price-gaps";
+import {
+  computeSignalsOnInterval,
+  type IntervalSignalsResult,
+} from "@/lib/services/signals/intervalSignals";
 
 // --- Types specific to this service ---
 type HistoricalPrice = Database["public"]["Tables"]["historical_prices"]["Row"];
@@ -18,14 +26,14 @@ export type RsiSignalInsert = Omit<
 export interface RsiProcessingResult {
   processedSymbol: string;
   signalsGenerated: number;
-  status: string; // e.g., "processed", "skipped_fresh", "no_data", "error"
+  status: string; // e.g., "processed", "skipped_fresh", "skipped", "no_data", "error"
   error?: string;
+  skipReason?: string; // Why generation was skipped (status "skipped")
   latestSignalDate?: string | null;
 }
 
 // --- Configuration & Constants ---
 const SIGNALS_TABLE_NAME = "signals";
-const HISTORICAL_PRICES_TABLE_NAME = "historical_prices";
 
 const RSI_PERIOD = 14;
 const RSI_OVERBOUGHT_THRESHOLD = 70;
@@ -113,29 +121,32 @@ function calculateLatestRSIForService(
 
 // --- Internal Logic: Generate Signals for a Symbol ---
 async function generateSignalsLogic(
-  supabase: SupabaseClient,
-  symbol: string
+  storage: StorageAdapter,
+  symbol: string,
+  interval?: SignalPriceInterval // Intraday or resampled bars instead of daily
 ): Promise<{
   signals: RsiSignalInsert[];
   latestSignalDate?: string | null;
   error?: string;
+  skipReason?: string;
 }> {
   const signalsForSymbol: RsiSignalInsert[] = [];
 
   try {
-    const { data: prices, error: dbError } = await supabase
-      .from(HISTORICAL_PRICES_TABLE_NAME)
-      .select("date, close")
-      .eq("symbol", symbol)
-      .order("date", { ascending: false })
-      .limit(REQUIRED_DATA_POINTS_RSI);
-
-    if (dbError) {
-      return {
-        signals: [],
-        error: `Supabase fetch error for ${symbol}: ${dbError.message}`,
-      };
-    }
+    // Storage errors are reported by the catch below
+    // Adjusted closes (see SIGNAL_PRICE_ADJUSTMENT), so splits don't cross
+    const prices: PriceDataPoint[] = await selectSignalPrices(storage, symbol, {
+      limit: REQUIRED_DATA_POINTS_RSI,
+      interval,
+    });
+    // Missing sessions distort the indicators (see SIGNAL_GAP_POLICY)
+    const { gaps, skipReason } = await checkLookbackGaps(
+      storage,
+      symbol,
+      prices,
+      interval
+    );
+    if (skipReason) return { signals: [], skipReason };
 
     const typedPrices = prices as PriceDataPoint[] | null;
     // For T-1 RSI, we need at least RSI_PERIOD+1 data points *after slicing*. So, RSI_PERIOD+2 overall.
@@ -245,7 +256,10 @@ async function generateSignalsLogic(
       );
     }
 
-    return { signals: signalsForSymbol, latestSignalDate: signalDate };
+    return {
+      signals: flagLookbackGaps(signalsForSymbol, gaps),
+      latestSignalDate: signalDate,
+    };
   } catch (e: unknown) {
     const errorMessage = e instanceof Error ? e.message : String(e);
     return {
@@ -257,21 +271,25 @@ async function generateSignalsLogic(
 
 // --- Internal Logic: Staleness Check ---
 async function areSignalsStale(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<boolean> {
-  const { data: latestSignal, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("created_at")
-    .eq("symbol", symbol)
-    .in("signal_code", RSI_SIGNAL_CODES)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      {
+        columns: ["created_at"],
+        where: [{ column: "signal_code", op: "in", value: RSI_SIGNAL_CODES }],
+      }
+    );
+  } catch (error) {
     console.error(
-      `[RsiSignalSvc] Error checking staleness for ${symbol}: ${error.message}. Assuming stale.`
+      `[RsiSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
     );
     return true;
   }
@@ -290,16 +308,17 @@ async function areSignalsStale(
 // --- Exported Service Function ---
 export async function processRsiSignalsForSymbol(
   symbol: string,
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
 ): Promise<RsiProcessingResult> {
-  const supabase = supabaseInstance || getSupabaseServerClient();
+  const storage = storageInstance || getStorage();
   const upperSymbol = symbol.toUpperCase();
 
   console.log(
     `[RsiSignalSvc] Processing RSI signals for symbol: ${upperSymbol}`
   );
 
-  if (!(await areSignalsStale(supabase, upperSymbol))) {
+  if (!force && !(await areSignalsStale(storage, upperSymbol))) {
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
@@ -314,7 +333,8 @@ export async function processRsiSignalsForSymbol(
     signals,
     latestSignalDate,
     error: generationError,
-  } = await generateSignalsLogic(supabase, upperSymbol);
+    skipReason,
+  } = await generateSignalsLogic(storage, upperSymbol);
 
   if (generationError) {
     return {
@@ -325,6 +345,17 @@ export async function processRsiSignalsForSymbol(
       latestSignalDate,
     };
   }
+  if (skipReason) {
+    console.log(
+      `[RsiSignalSvc] Skipped RSI signals for ${upperSymbol}: ${skipReason}`
+    );
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "skipped",
+      skipReason,
+    };
+  }
   if (!signals || signals.length === 0) {
     console.log(
       `[RsiSignalSvc] No new RSI signals generated for ${upperSymbol}.`
@@ -339,21 +370,24 @@ export async function processRsiSignalsForSymbol(
 
   const typedSignalsToInsert =
     signals as Database["public"]["Tables"]["signals"]["Insert"][];
-  const { error: upsertError } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .upsert(typedSignalsToInsert, {
-      onConflict: "symbol, signal_date, signal_code",
-    });
-
-  if (upsertError) {
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      typedSignalsToInsert,
+      ["symbol", "signal_date", "signal_code"],
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
     console.error(
-      `[RsiSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertError.message}`
+      `[RsiSignalSvc] Error upserting signals for ${upperSymbol}: ${upsertMessage}`
     );
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
       status: "error",
-      error: `Failed to upsert signals: ${upsertError.message}`,
+      error: `Failed to upsert signals: ${upsertMessage}`,
       latestSignalDate,
     };
   }
@@ -368,3 +402,16 @@ export async function processRsiSignalsForSymbol(
     latestSignalDate,
   };
 }
+
+/**
+ * Computes RSI signals on intraday or resampled bars of `interval`,
+ * without storing them (see computeSignalsOnInterval).
+ */
+export function computeRsiSignalsForInterval(
+  symbol: string,
+  interval: SignalPriceInterval
+): Promise<IntervalSignalsResult> {
+  return computeSignalsOnInterval(symbol, interval, (storage, upperSymbol) =>
+    generateSignalsLogic(storage, upperSymbol, interval)
+  );
+}
@@ -1,7 +1,12 @@
 // lib/services/signal-sma/fetch.ts
 // This module provides services for generating SMA signals.
 
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient"; // Assuming this path is correct for server-side/service context
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+import {
+  selectSignalPrices,
+  type SignalPriceInterval,
+} from "@/lib/services/adjusted-prices";
+import { checkLookbackGaps, flagLookbackGaps } from "@/lib/services/price-gaps";
 import type {
   PriceDataPoint,
   SignalInsert,
@@ -82,34 +87,40 @@ function getPriceVsSmaRank(
  * Generates SMA signals for a single symbol, optionally for a specific target date.
  * @param symbol The stock symbol to process.
  * @param targetDate Optional. The specific date (YYYY-MM-DD) to generate signals for. If undefined, uses latest available data.
- * @returns A promise that resolves to an object containing generated signals and any error.
+ * @param storage Optional. Storage backend to read prices from (default: getStorage()).
+ * @param interval Optional. Intraday bars or resampling period to compute on instead of daily bars.
+ * @returns A promise that resolves to an object containing generated signals and any error,
+ *   or the reason generation was skipped (see SIGNAL_GAP_POLICY).
  */
 export async function generateSmaSignals(
   symbol: string,
-  targetDate?: string
-): Promise<{ generatedSignals: SignalInsert[]; error: string | null }> {
-  const supabase = getSupabaseServerClient();
+  targetDate?: string,
+  storage: StorageAdapter = getStorage(),
+  interval?: SignalPriceInterval
+): Promise<{
+  generatedSignals: SignalInsert[];
+  error: string | null;
+  skipReason?: string;
+}> {
   const signalsForSymbol: SignalInsert[] = [];
 
   try {
-    let query = supabase
-      .from("historical_prices")
-      .select("date, close")
-      .eq("symbol", symbol);
-
-    if (targetDate) {
-      query = query.lte("date", targetDate);
-    }
-
-    const { data: prices, error: dbError } = await query
-      .order("date", { ascending: false })
-      .limit(REQUIRED_DATA_POINTS);
-
-    if (dbError) {
-      throw new Error(`Supabase fetch error for ${symbol}: ${dbError.message}`);
-    }
+    // Adjusted closes (see SIGNAL_PRICE_ADJUSTMENT), so splits don't cross
+    const prices: PriceDataPoint[] = await selectSignalPrices(storage, symbol, {
+      limit: REQUIRED_DATA_POINTS,
+      upTo: targetDate,
+      interval,
+    });
+    // Missing sessions distort the indicators (see SIGNAL_GAP_POLICY)
+    const { gaps, skipReason } = await checkLookbackGaps(
+      storage,
+      symbol,
+      prices,
+      interval
+    );
+    if (skipReason) return { generatedSignals: [], error: null, skipReason };
 
-    if (!prices || prices.length === 0) {
+    if (prices.length === 0) {
       return {
         generatedSignals: [],
         error: `No historical price data found for ${symbol}${
@@ -118,7 +129,7 @@ export async function generateSmaSignals(
       };
     }
 
-    const typedPrices = prices as PriceDataPoint[];
+    const typedPrices = prices;
 
     if (targetDate) {
       if (typedPrices[0].date !== targetDate) {
@@ -227,7 +238,10 @@ export async function generateSmaSignals(
         });
       }
     }
-    return { generatedSignals: signalsForSymbol, error: null };
+    return {
+      generatedSignals: flagLookbackGaps(signalsForSymbol, gaps),
+      error: null,
+    };
   } catch (error: unknown) {
     const errorMessage =
       error instanceof Error
@@ -252,16 +266,22 @@ export async function generateAllSmaSignals(targetDate?: string): Promise<{
   allGeneratedSignals: SignalInsert[];
   errorsProcessing: { symbol: string; error: string }[];
 }> {
-  const supabase = getSupabaseServerClient();
+  const storage = getStorage();
   const allGeneratedSignals: SignalInsert[] = [];
   const errorsProcessing: { symbol: string; error: string }[] = [];
 
-  const { data: profileSymbolsData, error: profilesError } = await supabase
-    .from("profiles")
-    .select("symbol");
-
-  if (profilesError) {
-    const errorMsg = `Failed to fetch symbols from profiles: ${profilesError.message}`;
+  let profileSymbolsData: { symbol: string | null }[];
+  try {
+    profileSymbolsData = await storage.select<{ symbol: string | null }>(
+      "profiles",
+      { columns: ["symbol"] }
+    );
+  } catch (profilesError) {
+    const errorMsg = `Failed to fetch symbols from profiles: ${
+      profilesError instanceof Error
+        ? profilesError.message
+        : String(profilesError)
+    }`;
     console.error("[SMA Service] generateAllSMASignals:", errorMsg);
     return {
       allGeneratedSignals: [],
@@ -269,16 +289,6 @@ export async function generateAllSmaSignals(targetDate?: string): Promise<{
     };
   }
 
-  if (!profileSymbolsData) {
-    const errorMsg =
-      "Failed to retrieve symbols from profiles (no data returned).";
-    console.warn("[SMA Service] generateAllSMASignals:", errorMsg);
-    return {
-      allGeneratedSignals: [],
-      errorsProcessing: [{ symbol: "GLOBAL_SYMBOL_FETCH", error: errorMsg }],
-    };
-  }
-
   const symbolsToProcess: string[] = Array.from(
     new Set(
       profileSymbolsData
@@ -301,7 +311,7 @@ export async function generateAllSmaSignals(targetDate?: string): Promise<{
   );
 
   for (const symbol of symbolsToProcess) {
-    const result = await generateSmaSignals(symbol, targetDate);
+    const result = await generateSmaSignals(symbol, targetDate, storage);
     if (result.error) {
       errorsProcessing.push({ symbol, error: result.error });
     }
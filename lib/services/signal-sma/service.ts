@@ -1,15 +1,24 @@
 // lib/services/signal-sma/service.ts
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  getStorage,
+  type Condition,
+  type StorageAdapter,
+} from "@/lib/common/storage";
 import type { Database } from "@/lib/supabase/database.types";
+import type { SignalPriceInterval } from "@/lib/services/adjusted-prices";
+import {
+  computeSignalsOnInterval,
+  type IntervalSignalsResult,
+} from "@/lib/services/signals/intervalSignals";
 import { generateSmaSignals as generateSmaSignalsCore } from "./fetch"; // Import core logic
 
 // Define a consistent processing result type for SMA signals
 export interface SmaProcessingResult {
   processedSymbol: string;
   signalsGenerated: number;
-  status: string; // e.g., "processed", "skipped_fresh", "no_data_for_generation", "error"
+  status: string; // e.g., "processed", "skipped_fresh", "skipped", "no_data_for_generation", "error"
   error?: string;
+  skipReason?: string; // Why generation was skipped (status "skipped")
   latestSignalDate?: string | null; // Date of the data point used for the signal
 }
 
@@ -29,25 +38,31 @@ export const SMA_SIGNALS_TTL_MS = 23 * 60 * 60 * 1000;
 
 // --- Internal Logic: Staleness Check ---
 async function areSmaSignalsStale(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<boolean> {
-  const orConditions = SMA_SIGNAL_CODES.map((code) =>
-    code.includes("%") ? `signal_code.like.${code}` : `signal_code.eq.${code}`
-  ).join(",");
-
-  const { data: latestSignal, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("created_at")
-    .eq("symbol", symbol)
-    .or(orConditions)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  // Codes containing '%' are LIKE patterns (e.g. rank families)
+  const codeConditions: Condition[][] = SMA_SIGNAL_CODES.map((code) => [
+    {
+      column: "signal_code",
+      op: code.includes("%") ? "like" : "eq",
+      value: code,
+    },
+  ]);
+
+  let latestSignal: { created_at: string } | null;
+  try {
+    latestSignal = await storage.selectLatest<{ created_at: string }>(
+      SIGNALS_TABLE_NAME,
+      symbol,
+      "created_at",
+      { columns: ["created_at"], anyOf: codeConditions }
+    );
+  } catch (error) {
     console.error(
-      `[SmaSignalSvc] Error checking staleness for ${symbol}: ${error.message}. Assuming stale.`
+      `[SmaSignalSvc] Error checking staleness for ${symbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }. Assuming stale.`
     );
     return true; // Assume stale on error to be safe
   }
@@ -73,23 +88,24 @@ async function areSmaSignalsStale(
  * Processes SMA signals for a single symbol.
  * Checks for staleness specific to SMA signals before generating.
  * @param symbol The stock symbol to process.
- * @param supabaseInstance Optional Supabase client instance.
+ * @param storageInstance Optional storage backend (default: getStorage()).
  * @returns Promise<SmaProcessingResult> Result of the processing.
  */
 export async function processSmaSignalsForSymbol(
   symbol: string,
-  supabaseInstance?: SupabaseClient
+  storageInstance?: StorageAdapter,
+  force = false // Skip the staleness check (forced recompute)
 ): Promise<SmaProcessingResult> {
-  // Note: generateSmaSignalsCore from fetch.ts creates its own Supabase client internally.
-  // This service uses its own (passed or new) client for staleness check and upsert.
-  const supabase = supabaseInstance || getSupabaseServerClient();
+  // The same storage serves the staleness check, the price read in
+  // generateSmaSignalsCore and the upsert.
+  const storage = storageInstance || getStorage();
   const upperSymbol = symbol.toUpperCase();
 
   console.log(
     `[SmaSignalSvc] Processing SMA signals for symbol: ${upperSymbol}`
   );
 
-  if (!(await areSmaSignalsStale(supabase, upperSymbol))) {
+  if (!force && !(await areSmaSignalsStale(storage, upperSymbol))) {
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0,
@@ -103,9 +119,12 @@ export async function processSmaSignalsForSymbol(
 
   // Call the core generation function from fetch.ts.
   // It's called without a targetDate, so it processes the latest available data.
-  // It returns { generatedSignals: SmaSignalDbInsert[]; error: string | null }
-  const { generatedSignals, error: generationError } =
-    await generateSmaSignalsCore(upperSymbol);
+  // It returns { generatedSignals: SmaSignalDbInsert[]; error: string | null; skipReason? }
+  const {
+    generatedSignals,
+    error: generationError,
+    skipReason,
+  } = await generateSmaSignalsCore(upperSymbol, undefined, storage);
 
   let latestSignalDateFromResult: string | null = null;
   if (
@@ -133,6 +152,19 @@ export async function processSmaSignalsForSymbol(
     };
   }
 
+  // Missing sessions in the lookback with the 'skip' gap policy
+  if (skipReason) {
+    console.log(
+      `[SmaSignalSvc] Skipped SMA signals for ${upperSymbol}: ${skipReason}`
+    );
+    return {
+      processedSymbol: upperSymbol,
+      signalsGenerated: 0,
+      status: "skipped",
+      skipReason,
+    };
+  }
+
   // If no error, but no signals were generated (e.g., insufficient data points for calculation)
   if (!generatedSignals || generatedSignals.length === 0) {
     console.log(
@@ -150,21 +182,24 @@ export async function processSmaSignalsForSymbol(
   // The SmaSignalDbInsert type should be compatible with the generic signals table Insert type
   const typedSignalsToInsert =
     generatedSignals as Database["public"]["Tables"]["signals"]["Insert"][];
-  const { error: upsertError } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .upsert(typedSignalsToInsert, {
-      onConflict: "symbol, signal_date, signal_code",
-    });
-
-  if (upsertError) {
+  try {
+    await storage.upsert(
+      SIGNALS_TABLE_NAME,
+      typedSignalsToInsert,
+      ["symbol", "signal_date", "signal_code"],
+      { returning: false }
+    );
+  } catch (upsertError) {
+    const upsertMessage =
+      upsertError instanceof Error ? upsertError.message : String(upsertError);
     console.error(
-      `[SmaSignalSvc] Error upserting SMA signals for ${upperSymbol}: ${upsertError.message}`
+      `[SmaSignalSvc] Error upserting SMA signals for ${upperSymbol}: ${upsertMessage}`
     );
     return {
       processedSymbol: upperSymbol,
       signalsGenerated: 0, // Or generatedSignals.length to show what was attempted
       status: "error",
-      error: `Failed to upsert SMA signals: ${upsertError.message}`,
+      error: `Failed to upsert SMA signals: ${upsertMessage}`,
       latestSignalDate: latestSignalDateFromResult,
     };
   }
@@ -179,3 +214,26 @@ export async function processSmaSignalsForSymbol(
     latestSignalDate: latestSignalDateFromResult,
   };
 }
+
+/**
+ * Computes SMA signals on intraday or resampled bars of `interval`,
+ * without storing them (see computeSignalsOnInterval).
+ */
+export function computeSmaSignalsForInterval(
+  symbol: string,
+  interval: SignalPriceInterval
+): Promise<IntervalSignalsResult> {
+  return computeSignalsOnInterval(
+    symbol,
+    interval,
+    async (storage, upperSymbol) => {
+      const { generatedSignals, error } = await generateSmaSignalsCore(
+        upperSymbol,
+        undefined,
+        storage,
+        interval
+      );
+      return { signals: generatedSignals, error: error ?? undefined };
+    }
+  );
+}
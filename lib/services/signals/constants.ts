@@ -20,3 +20,6 @@ export const signalKeyOrder: ReadonlyArray<keyof SignalApiItem> = [
   "details", // Optional JSONB details
   // created_at and modified_at are typically excluded from the API response by the mapper
 ];
+
+/** Rows per read of the signals of several symbols (PostgREST max-rows). */
+export const SIGNALS_READ_PAGE_SIZE = 1000;
@@ -39,6 +39,22 @@ interface AnalystConsensusRankDetails {
   strong_sell: number;
 }
 
+interface AnalystTargetChangeDetails {
+  target_consensus: number;
+  previous_target_consensus: number;
+  change_pct: number;
+  target_high: number | null;
+  target_low: number | null;
+  previous_date: string;
+}
+
+interface PriceTargetCrossDetails {
+  close: number;
+  prev_close: number;
+  target_consensus: number;
+  target_date: string;
+}
+
 interface EarningsUpcomingDetails {
   earnings_date: string;
   days_until: number;
@@ -52,6 +68,32 @@ interface EarningsReportedDetails {
   revenue_estimated?: number | null;
 }
 
+interface InsiderClusterBuyDetails {
+  buyers: number;
+  filers: string[];
+  window_start: string;
+  window_days: number;
+  total_shares: number;
+  total_value: number;
+}
+
+interface InsiderSeller {
+  filer: string;
+  role: string | null;
+  shares: number;
+  value: number;
+  shares_owned_after: number;
+  pct_of_holdings: number | null;
+  filing_date: string;
+}
+
+interface InsiderLargeSaleDetails {
+  sellers: InsiderSeller[];
+  total_shares: number;
+  total_value: number;
+  min_value: number;
+}
+
 interface RsiStateDetails {
   rsi: number;
   close: number;
@@ -93,8 +135,12 @@ type SignalDetails =
   | PricePosRankDetails
   | AnalystConsensusChangeDetails
   | AnalystConsensusRankDetails
+  | AnalystTargetChangeDetails
+  | PriceTargetCrossDetails
   | EarningsUpcomingDetails
   | EarningsReportedDetails
+  | InsiderClusterBuyDetails
+  | InsiderLargeSaleDetails
   | RsiStateDetails
   | RsiEventDetails
   | MacdSignalCrossDetails
@@ -111,6 +157,18 @@ export interface MarketSignal {
   timestamp: number; // Unix timestamp (milliseconds)
   symbol?: string;
   signalCode?: string;
+  trendUrl?: string; // API route with the history behind the signal, if any
+}
+
+// History endpoint a signal card can link to, by signal code prefix
+function trendUrlFor(signal: DbSignalRow): string | undefined {
+  if (signal.signal_code.startsWith("ANALYST_CONSENSUS_")) {
+    return `/api/grades-consensus/${encodeURIComponent(signal.symbol)}/history`;
+  }
+  if (signal.signal_code.startsWith("INSIDER_")) {
+    return `/api/insider-trades/${encodeURIComponent(signal.symbol)}`;
+  }
+  return undefined;
 }
 
 /**
@@ -175,6 +233,28 @@ export function transformDbSignalToMarketSignal(
     title = `${signal.symbol} Analyst Consensus: ${consensusRankDetails?.consensus} (Rank ${rank})`;
     description = `Current analyst consensus for ${signal.symbol} is ${consensusRankDetails?.consensus} (Rank ${rank}). Strong Buy: ${consensusRankDetails?.strong_buy}, Buy: ${consensusRankDetails?.buy}, Hold: ${consensusRankDetails?.hold}, Sell: ${consensusRankDetails?.sell}, Strong Sell: ${consensusRankDetails?.strong_sell}. Date: ${signal.signal_date}.`;
   }
+  // Price Targets
+  else if (
+    signal.signal_code === "ANALYST_TARGET_RAISED" ||
+    signal.signal_code === "ANALYST_TARGET_CUT"
+  ) {
+    const targetDetails = details as AnalystTargetChangeDetails;
+    const verb = signal.signal_code.endsWith("RAISED") ? "raised" : "cut";
+    title = `${signal.symbol} Price Target ${
+      verb === "raised" ? "Raised" : "Cut"
+    }`;
+    description = `Analysts ${verb} the consensus price target for ${signal.symbol} from ${targetDetails?.previous_target_consensus} (${targetDetails?.previous_date}) to ${targetDetails?.target_consensus} (${targetDetails?.change_pct}%) on ${signal.signal_date}. Range: ${targetDetails?.target_low} - ${targetDetails?.target_high}.`;
+  } else if (
+    signal.signal_code === "PRICE_CROSS_ABOVE_TARGET" ||
+    signal.signal_code === "PRICE_CROSS_BELOW_TARGET"
+  ) {
+    const crossDetails = details as PriceTargetCrossDetails;
+    const direction = signal.signal_code.includes("ABOVE") ? "above" : "below";
+    title = `${signal.symbol} Price Crossed ${
+      direction === "above" ? "Above" : "Below"
+    } Consensus Target`;
+    description = `${signal.symbol} closed ${direction} its consensus price target (${crossDetails?.target_consensus}, as of ${crossDetails?.target_date}) at ${crossDetails?.close} on ${signal.signal_date}. Prev Close: ${crossDetails?.prev_close}.`;
+  }
   // Earnings
   else if (signal.signal_code === "EARNINGS_UPCOMING") {
     const upcomingDetails = details as EarningsUpcomingDetails;
@@ -206,6 +286,36 @@ export function transformDbSignalToMarketSignal(
     title = `${signal.symbol} Earnings: ${type} ${outcome.split(" ")[0]}`;
     description = `${signal.symbol} ${outcome} for earnings reported on ${reportedDetails?.reported_date}. (Signal on ${signal.signal_date})`;
   }
+  // Insider Activity
+  else if (signal.signal_code === "INSIDER_CLUSTER_BUY") {
+    const clusterDetails = details as InsiderClusterBuyDetails;
+    title = `${signal.symbol} Insider Cluster Buy (${clusterDetails?.buyers} insiders)`;
+    description = `${clusterDetails?.buyers} insiders of ${
+      signal.symbol
+    } bought shares on the open market between ${
+      clusterDetails?.window_start
+    } and ${signal.signal_date}: ${clusterDetails?.filers?.join(
+      ", "
+    )}. Total: ${clusterDetails?.total_shares} shares, $${
+      clusterDetails?.total_value
+    }.`;
+  } else if (signal.signal_code === "INSIDER_LARGE_SALE") {
+    const saleDetails = details as InsiderLargeSaleDetails;
+    const sellers = (saleDetails?.sellers ?? [])
+      .map(
+        (seller) =>
+          `${seller.filer}${seller.role ? ` (${seller.role})` : ""}: ${
+            seller.shares
+          } shares, $${seller.value}${
+            seller.pct_of_holdings !== null
+              ? `, ${seller.pct_of_holdings}% of holdings`
+              : ""
+          }`
+      )
+      .join("; ");
+    title = `${signal.symbol} Large Insider Sale`;
+    description = `Insiders of ${signal.symbol} sold $${saleDetails?.total_value} (${saleDetails?.total_shares} shares) on the open market on ${signal.signal_date}. ${sellers}.`;
+  }
   // RSI
   else if (signal.signal_code.startsWith("RSI_")) {
     if (
@@ -323,5 +433,6 @@ export function transformDbSignalToMarketSignal(
     timestamp: new Date(signal.created_at).getTime(),
     symbol: signal.symbol,
     signalCode: signal.signal_code,
+    trendUrl: trendUrlFor(signal),
   };
 }
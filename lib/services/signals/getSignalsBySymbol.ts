@@ -3,15 +3,18 @@
  * Service to fetch signals for a specific symbol.
  * It attempts to trigger all relevant signal generation processes
  * (each handling its own staleness logic) and then fetches all signals.
+ * getSignalsForSymbols does the same for several symbols with one read.
  * ---------------------------------------------------------------------*/
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+import type { BatchResult } from "@/lib/common/supabase";
+import { SIGNALS_READ_PAGE_SIZE } from "./constants";
 import type { SignalRow } from "./types"; // Your generic SignalRow type
 
 // Import all individual signal processing services
 import { processSmaSignalsForSymbol } from "@/lib/services/signal-sma/service";
 import { processAnalystConsensusForSymbol } from "@/lib/services/signal-analyst-consensus/service";
 import { processEarningsSignalsForSymbol } from "@/lib/services/signal-earnings/service";
+import { processInsiderSignalsForSymbol } from "@/lib/services/signal-insider/service";
 import { processEmaSignalsForSymbol } from "@/lib/services/signal-ema/service";
 import { processMacdSignalsForSymbol } from "@/lib/services/signal-macd/service";
 import { processRsiSignalsForSymbol } from "@/lib/services/signal-rsi/service";
@@ -22,65 +25,67 @@ type IndividualSignalProcessingResult = {
   signalsGenerated: number;
   status: string;
   error?: string;
+  skipReason?: string;
   latestSignalDate?: string | null;
 };
 
 const SIGNALS_TABLE_NAME = "signals";
 
 /**
- * Fetches all signals for a given symbol directly from Supabase.
- * @param supabase Supabase client instance.
+ * Fetches all signals for a given symbol directly from storage.
+ * @param storage Storage backend.
  * @param symbol The stock symbol.
  * @returns Promise<SignalRow[]> An array of signal rows. Returns empty array on error.
  */
 async function fetchSignalsFromDb(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   symbol: string
 ): Promise<SignalRow[]> {
-  const { data, error } = await supabase
-    .from(SIGNALS_TABLE_NAME)
-    .select("*") // Fetches all columns defined in SignalRow
-    .eq("symbol", symbol.toUpperCase())
-    .order("signal_date", { ascending: false });
-
-  if (error) {
+  try {
+    return await storage.select<SignalRow>(SIGNALS_TABLE_NAME, {
+      where: [{ column: "symbol", op: "eq", value: symbol.toUpperCase() }],
+      orderBy: [{ column: "signal_date", ascending: false }],
+    });
+  } catch (error) {
     console.error(
       `[SignalSvc][fetchSignalsFromDb] Error fetching signals from DB for ${symbol}:`,
-      error.message
+      error instanceof Error ? error.message : error
     );
     return []; // Return empty array on error, allowing the main function to proceed
   }
-  // Ensure an array is always returned, even if data is null/undefined
-  return (data as SignalRow[] | null)?.slice() || [];
 }
 
 /**
- * Fetches signals for a given symbol.
- * This function will first attempt to trigger all relevant signal generation processes
- * (each handling its own staleness logic) and then fetch all available signals
- * for the symbol from the database.
+ * Triggers all signal generation processes for a symbol (each handling its own
+ * staleness logic). Failures of individual processes are logged and
+ * returned, not thrown, so the other processes still run.
  *
  * @param symbol The stock symbol.
- * @returns Promise<SignalRow[]> An array of signal rows for the symbol.
+ * @param storage Optional storage backend (default: getStorage()).
+ * @param force Recompute even if the signals are within their TTL (e.g.
+ *   after a forced refresh of the underlying data).
+ * @returns The failed processes as "<service>: <reason>" (empty if none).
  */
-export async function getSignalsForSymbol(
-  symbol: string
-): Promise<SignalRow[]> {
-  const supabase: SupabaseClient = getSupabaseServerClient();
+export async function generateSignalsForSymbol(
+  symbol: string,
+  storage: StorageAdapter = getStorage(),
+  force = false
+): Promise<string[]> {
   const upperSymbol = symbol.toUpperCase();
 
   console.log(
-    `[SignalSvc][getSignalsForSymbol] Orchestrating signal generation for symbol: ${upperSymbol}.`
+    `[SignalSvc][generateSignalsForSymbol] Orchestrating signal generation for symbol: ${upperSymbol}.`
   );
 
-  // Pass the Supabase client to each service to avoid multiple client creations if preferred
+  // Pass the storage backend to each service so they all read and write the same data
   const generationPromises = [
-    processSmaSignalsForSymbol(upperSymbol, supabase),
-    processAnalystConsensusForSymbol(upperSymbol, supabase),
-    processEarningsSignalsForSymbol(upperSymbol, supabase),
-    processEmaSignalsForSymbol(upperSymbol, supabase),
-    processMacdSignalsForSymbol(upperSymbol, supabase),
-    processRsiSignalsForSymbol(upperSymbol, supabase),
+    processSmaSignalsForSymbol(upperSymbol, storage, force),
+    processAnalystConsensusForSymbol(upperSymbol, storage, force),
+    processEarningsSignalsForSymbol(upperSymbol, storage, force),
+    processInsiderSignalsForSymbol(upperSymbol, storage, force),
+    processEmaSignalsForSymbol(upperSymbol, storage, force),
+    processMacdSignalsForSymbol(upperSymbol, storage, force),
+    processRsiSignalsForSymbol(upperSymbol, storage, force),
     // Add calls to other signal processors here as they are developed
   ];
 
@@ -88,17 +93,19 @@ export async function getSignalsForSymbol(
   const results = await Promise.allSettled(generationPromises);
 
   console.log(
-    `[SignalSvc][getSignalsForSymbol] Signal generation attempt phase complete for ${upperSymbol}. Results:`
+    `[SignalSvc][generateSignalsForSymbol] Signal generation attempt phase complete for ${upperSymbol}. Results:`
   );
   const serviceNames: string[] = [
     "SMA",
     "AnalystConsensus",
     "Earnings",
+    "Insider",
     "EMA",
     "MACD",
     "RSI",
   ];
 
+  const failures: string[] = [];
   results.forEach((result, index) => {
     const serviceName = serviceNames[index] || `Service ${index + 1}`;
     if (result.status === "fulfilled") {
@@ -107,17 +114,117 @@ export async function getSignalsForSymbol(
       console.log(
         `  - ${serviceName}: Success - Status: ${value.status}, Generated: ${
           value.signalsGenerated
-        }${value.error ? `, Error: ${value.error}` : ""}`
+        }${value.error ? `, Error: ${value.error}` : ""}${
+          value.skipReason ? `, Skipped: ${value.skipReason}` : ""
+        }`
       );
+      if (value.status === "error") {
+        failures.push(`${serviceName}: ${value.error ?? "Unknown error"}`);
+      }
     } else {
       // result.reason is the error thrown by the promise
       console.error(`  - ${serviceName}: Failed - Reason:`, result.reason);
+      failures.push(
+        `${serviceName}: ${
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason)
+        }`
+      );
     }
   });
+  return failures;
+}
+
+/**
+ * Fetches signals for a given symbol.
+ * This function will first attempt to trigger all relevant signal generation processes
+ * (each handling its own staleness logic) and then fetch all available signals
+ * for the symbol from the database.
+ *
+ * @param symbol The stock symbol.
+ * @param force Recompute all signals regardless of their TTL.
+ * @returns Promise<SignalRow[]> An array of signal rows for the symbol.
+ */
+export async function getSignalsForSymbol(
+  symbol: string,
+  force = false
+): Promise<SignalRow[]> {
+  const storage = getStorage();
+  const upperSymbol = symbol.toUpperCase();
+
+  await generateSignalsForSymbol(upperSymbol, storage, force);
 
   // After attempting all generations (successfully or not), fetch the current state of signals.
   console.log(
     `[SignalSvc][getSignalsForSymbol] Fetching all signals from DB for ${upperSymbol} after generation attempts.`
   );
-  return await fetchSignalsFromDb(supabase, upperSymbol);
+  return await fetchSignalsFromDb(storage, upperSymbol);
+}
+
+/**
+ * Fetches signals for several symbols. Signal generation runs per symbol
+ * (each process skips signals that are still within their TTL), then the
+ * signals of all symbols are read together, in pages.
+ *
+ * @param symbols The stock symbols (deduplicated, upper-cased).
+ * @param force Recompute all signals regardless of their TTL.
+ * @returns Signal rows keyed by symbol, in request order. Symbols with a
+ *   failed generation process get an error entry listing the failures.
+ */
+export async function getSignalsForSymbols(
+  symbols: ReadonlyArray<string>,
+  force = false
+): Promise<BatchResult<SignalRow[]>> {
+  const storage = getStorage();
+  const upperSymbols = [...new Set(symbols.map((s) => s.toUpperCase()))];
+  if (upperSymbols.length === 0) return {};
+
+  const generation = await Promise.allSettled(
+    upperSymbols.map((symbol) =>
+      generateSignalsForSymbol(symbol, storage, force)
+    )
+  );
+
+  console.log(
+    `[SignalSvc][getSignalsForSymbols] Fetching signals from DB for ${upperSymbols.length} symbol(s) after generation attempts.`
+  );
+  const rows: SignalRow[] = [];
+  for (let offset = 0; ; offset += SIGNALS_READ_PAGE_SIZE) {
+    const page = await storage.select<SignalRow>(SIGNALS_TABLE_NAME, {
+      where: [{ column: "symbol", op: "in", value: upperSymbols }],
+      // symbol + signal_code make the order stable across pages
+      orderBy: [
+        { column: "signal_date", ascending: false },
+        { column: "symbol", ascending: true },
+        { column: "signal_code", ascending: true },
+      ],
+      limit: SIGNALS_READ_PAGE_SIZE,
+      offset,
+    });
+    rows.push(...page);
+    if (page.length < SIGNALS_READ_PAGE_SIZE) break;
+  }
+
+  const results: BatchResult<SignalRow[]> = {};
+  upperSymbols.forEach((symbol, index) => {
+    const outcome = generation[index];
+    const failures =
+      outcome.status === "rejected"
+        ? [
+            outcome.reason instanceof Error
+              ? outcome.reason.message
+              : String(outcome.reason),
+          ]
+        : outcome.value;
+    results[symbol] =
+      failures.length > 0
+        ? { error: `Signal generation failed: ${failures.join("; ")}` }
+        : [];
+  });
+  for (const row of rows) {
+    const entry = results[row.symbol];
+    if (Array.isArray(entry)) entry.push(row);
+  }
+  return results;
 }
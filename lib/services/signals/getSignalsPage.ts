@@ -0,0 +1,44 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/signals/getSignalsPage.ts
+ * Service to read one page of the signals table with filters and sorting.
+ * Does not trigger signal generation (see ensureAllSignals).
+ * ---------------------------------------------------------------------*/
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+import {
+  slicePage,
+  toCollectionSelect,
+  validateCollectionQuery,
+  type CollectionQuery,
+  type CollectionSort,
+  type Page,
+} from "@/lib/common/supabase";
+import type { SignalRow } from "./types";
+import { signalKeyOrder } from "./constants";
+
+const SIGNALS_TABLE_NAME = "signals";
+
+// Newest signals first unless the request asks otherwise
+const DEFAULT_SIGNAL_SORT: CollectionSort = {
+  field: "signal_date",
+  ascending: false,
+};
+
+/**
+ * Fetches one page of signals. Filter and sort fields must be listed in
+ * signalKeyOrder (e.g. `signal_category=technical`, `sort=-signal_date`).
+ *
+ * @throws {QueryParamError} For unknown fields or an invalid cursor.
+ */
+export async function getSignalsPage(
+  query: CollectionQuery,
+  storage: StorageAdapter = getStorage()
+): Promise<Page<SignalRow>> {
+  validateCollectionQuery(query, signalKeyOrder as ReadonlyArray<string>);
+
+  const rows = await storage.select<SignalRow>(
+    SIGNALS_TABLE_NAME,
+    toCollectionSelect(query, DEFAULT_SIGNAL_SORT)
+  );
+  const page = slicePage(rows, query, DEFAULT_SIGNAL_SORT);
+  return { data: page.rows, nextCursor: page.nextCursor };
+}
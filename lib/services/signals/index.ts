@@ -3,8 +3,22 @@
  * Barrel file for exporting signal services.
  * ---------------------------------------------------------------------*/
 
-export { getSignalsForSymbol } from "./getSignalsBySymbol";
-export { ensureAndGetAllSignals } from "./processAllSymbolsSignals";
+export {
+  getSignalsForSymbol,
+  getSignalsForSymbols,
+  generateSignalsForSymbol,
+} from "./getSignalsBySymbol";
+export {
+  ensureAndGetAllSignals,
+  ensureAllSignals,
+  getProfileSymbols,
+} from "./processAllSymbolsSignals";
+export { getSignalsPage } from "./getSignalsPage";
+export { purgeSignals } from "./purgeSignals";
+export {
+  computeSignalsOnInterval,
+  type IntervalSignalsResult,
+} from "./intervalSignals";
 
 // Re-export types and constants if needed by consumers of these services
 export * from "./types";
@@ -0,0 +1,78 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/signals/intervalSignals.ts
+ * Technical signals computed on intraday bars (short-horizon use) or on
+ * daily bars resampled to weeks, months... (multi-timeframe analysis).
+ * They are returned to the caller and never stored: the signals table
+ * holds one row per symbol, day and code.
+ * ---------------------------------------------------------------------*/
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+import type { SignalPriceInterval } from "@/lib/services/adjusted-prices";
+import {
+  getIntradayPricesForSymbol,
+  parseIntradayInterval,
+} from "@/lib/services/intraday-prices";
+import type { Database } from "@/lib/supabase/database.types";
+
+type SignalInsert = Database["public"]["Tables"]["signals"]["Insert"];
+
+/**
+ * Signals of one service on one interval; signal_date is the bar time
+ * (intraday) or the period start (resampled).
+ */
+export interface IntervalSignalsResult {
+  symbol: string;
+  interval: SignalPriceInterval;
+  signals: SignalInsert[];
+  latestBarTime: string | null;
+  error?: string;
+}
+
+/**
+ * Refreshes the symbol's intraday bars of `interval` when stale, then runs
+ * a signal service's generation logic on them. Resampled periods are read
+ * from the stored daily bars, like the daily signals.
+ *
+ * @param generate The service's logic, reading bars of `interval` (see
+ *   selectSignalPrices) from the given storage.
+ */
+export async function computeSignalsOnInterval(
+  symbol: string,
+  interval: SignalPriceInterval,
+  generate: (
+    storage: StorageAdapter,
+    symbol: string
+  ) => Promise<{
+    signals: SignalInsert[];
+    latestSignalDate?: string | null;
+    error?: string;
+  }>
+): Promise<IntervalSignalsResult> {
+  const upperSymbol = symbol.toUpperCase();
+  const intradayInterval = parseIntradayInterval(interval);
+  try {
+    if (intradayInterval) {
+      await getIntradayPricesForSymbol(upperSymbol, intradayInterval);
+    }
+  } catch (error) {
+    return {
+      symbol: upperSymbol,
+      interval,
+      signals: [],
+      latestBarTime: null,
+      error: `Could not load ${interval} bars for ${upperSymbol}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+  const { signals, latestSignalDate, error } = await generate(
+    getStorage(),
+    upperSymbol
+  );
+  return {
+    symbol: upperSymbol,
+    interval,
+    signals,
+    latestBarTime: latestSignalDate ?? signals[0]?.signal_date ?? null,
+    ...(error ? { error } : {}),
+  };
+}
@@ -3,52 +3,47 @@
  * Service to get distinct symbols and then process signals for each symbol
  * using the getSignalsForSymbol service.
  * ---------------------------------------------------------------------*/
-import { SupabaseClient } from "@supabase/supabase-js";
-import { getSupabaseServerClient } from "@/lib/supabase/serverClient"; // Adjust path if needed
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
 import type { SignalRow } from "./types";
-import { getSignalsForSymbol } from "./getSignalsBySymbol"; // Import the symbol-specific service
+import {
+  generateSignalsForSymbol,
+  getSignalsForSymbol,
+} from "./getSignalsBySymbol"; // Import the symbol-specific services
 
-const PROFILE_SYMBOLS_VIEW_NAME = "profile_symbols"; // Name of your Supabase view
-
-interface ProfileSymbolViewRow {
-  symbol: string;
-  // Add other columns from your view if needed, though only symbol is used here
-}
+const PROFILES_TABLE_NAME = "profiles";
 
 /**
- * Fetches distinct symbols from the 'profile_symbols' view.
- * @param supabase Supabase client instance.
- * @returns Promise<string[]> An array of distinct symbols.
+ * Fetches the distinct symbols of the stored profiles (what the
+ * profile_symbols view returns in Postgres; views are not available in
+ * every storage backend).
+ * @param storage Optional storage backend (default: getStorage()).
+ * @returns Promise<string[]> An array of distinct, upper-cased symbols.
  */
-async function getDistinctSymbols(supabase: SupabaseClient): Promise<string[]> {
-  const { data, error } = await supabase
-    .from(PROFILE_SYMBOLS_VIEW_NAME)
-    .select("symbol"); // Select only the symbol column
-
-  if (error) {
-    console.error("[SignalSvcAll] Error fetching distinct symbols:", error);
-    throw new Error(
-      `Database error fetching distinct symbols: ${error.message}`
-    );
-  }
-
-  if (!data) {
-    return [];
-  }
-  // Extract symbols and ensure uniqueness (though the view should provide distinct symbols)
+export async function getProfileSymbols(
+  storage: StorageAdapter = getStorage()
+): Promise<string[]> {
+  const rows = await storage.select<{ symbol: string | null }>(
+    PROFILES_TABLE_NAME,
+    { columns: ["symbol"] }
+  );
   return Array.from(
-    new Set(data.map((row: ProfileSymbolViewRow) => row.symbol.toUpperCase()))
+    new Set(
+      rows
+        .map((row) => row.symbol)
+        .filter((s): s is string => typeof s === "string" && s.trim() !== "")
+        .map((s) => s.toUpperCase())
+    )
   );
 }
 
 /**
- * Ensures signals are up-to-date for all distinct symbols from the profile_symbols view
+ * Ensures signals are up-to-date for all distinct symbols of the stored profiles
  * and returns an aggregated list of all signals.
  *
  * @returns Promise<SignalRow[]> An array containing all fresh signals for all processed symbols.
  */
 export async function ensureAndGetAllSignals(): Promise<SignalRow[]> {
-  const supabase: SupabaseClient = getSupabaseServerClient();
+  const storage = getStorage();
   const allProcessedSignals: SignalRow[] = [];
 
   console.log(
@@ -57,7 +52,7 @@ export async function ensureAndGetAllSignals(): Promise<SignalRow[]> {
 
   let distinctSymbols: string[];
   try {
-    distinctSymbols = await getDistinctSymbols(supabase);
+    distinctSymbols = await getProfileSymbols(storage);
   } catch (error) {
     console.error(
       "[SignalSvcAll] Failed to retrieve distinct symbols. Aborting.",
@@ -99,3 +94,39 @@ export async function ensureAndGetAllSignals(): Promise<SignalRow[]> {
   );
   return allProcessedSignals;
 }
+
+/**
+ * Ensures signals are up-to-date for all distinct symbols of the stored profiles,
+ * without reading the signals back (callers page through the table themselves).
+ *
+ * @returns Promise<number> The number of symbols processed.
+ */
+export async function ensureAllSignals(): Promise<number> {
+  const storage = getStorage();
+
+  let distinctSymbols: string[];
+  try {
+    distinctSymbols = await getProfileSymbols(storage);
+  } catch (error) {
+    console.error(
+      "[SignalSvcAll] Failed to retrieve distinct symbols. Aborting.",
+      error
+    );
+    return 0;
+  }
+
+  console.log(
+    `[SignalSvcAll] Generating signals for ${distinctSymbols.length} distinct symbols...`
+  );
+  for (const symbol of distinctSymbols) {
+    try {
+      await generateSignalsForSymbol(symbol, storage);
+    } catch (error) {
+      console.error(
+        `[SignalSvcAll] Failed to generate signals for symbol ${symbol}. Skipping. Error:`,
+        error
+      );
+    }
+  }
+  return distinctSymbols.length;
+}
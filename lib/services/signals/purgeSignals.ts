@@ -0,0 +1,18 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/signals/purgeSignals.ts
+ * Deletes stored signals so the next read regenerates them.
+ * ---------------------------------------------------------------------*/
+import { getStorage } from "@/lib/common/storage";
+
+const SIGNALS_TABLE_NAME = "signals";
+
+/**
+ * Deletes the signals of one symbol, or of every symbol.
+ * @returns Number of rows deleted.
+ */
+export async function purgeSignals(symbol?: string): Promise<number> {
+  return getStorage().delete(
+    SIGNALS_TABLE_NAME,
+    symbol ? [{ column: "symbol", op: "eq", value: symbol.toUpperCase() }] : []
+  );
+}
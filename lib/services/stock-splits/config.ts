@@ -0,0 +1,54 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/stock-splits/config.ts
+ * Configuration for the stock splits service using Supabase.
+ * ---------------------------------------------------------------------*/
+import {
+  GenericSupabaseServiceConfig,
+  FetchMode,
+  mapRowToPartialApi,
+} from "@/lib/common/supabase";
+
+import {
+  CACHE_TTL_MS,
+  stockSplitKeyOrder,
+  stockSplitRawSchema,
+} from "./constants";
+import {
+  RawStockSplit,
+  StockSplitApiItem,
+  StockSplitRow,
+  mapRawStockSplitToRow,
+} from "./types";
+
+/**
+ * Configuration object passed to `createGenericSupabaseService`.
+ */
+export const stockSplitConfig: GenericSupabaseServiceConfig<
+  RawStockSplit,
+  StockSplitRow,
+  StockSplitApiItem
+> = {
+  // --- Core Identification & Storage ---
+  tableName: "stock_splits",
+
+  // --- FMP API Fetching ---
+  fetchMode: FetchMode.BySymbol,
+  fmpBasePath: "stable",
+  fmpPath: "splits",
+  fmpSymbolLocation: "param", // ?symbol=AAPL
+  fmpParams: {},
+
+  // --- Caching ---
+  cacheTtlMs: CACHE_TTL_MS,
+
+  // --- Data Structure, Uniqueness & Mapping ---
+  uniqueKeyColumns: ["symbol", "date"],
+  mapRawToRow: mapRawStockSplitToRow,
+  mapRowToApi: mapRowToPartialApi,
+  apiFieldOrder: stockSplitKeyOrder,
+  rawSchema: stockSplitRawSchema, // Per-record checks; failing records are quarantined
+
+  // --- Behavior Modifiers ---
+  isSingleRecordPerSymbol: false, // Full split history per symbol
+  sortByFieldForLatest: "date",
+};
@@ -0,0 +1,30 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/stock-splits/constants.ts
+ * Constants for the stock splits service.
+ * ---------------------------------------------------------------------*/
+import type { RecordSchema } from "@/lib/common/validation";
+
+import type { RawStockSplit, StockSplitApiItem } from "./types";
+
+/** Cache Time-To-Live: splits are announced well ahead, a day is plenty. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+
+/** Order of the keys in API responses. */
+export const stockSplitKeyOrder: ReadonlyArray<keyof StockSplitApiItem> = [
+  "id",
+  "symbol",
+  "date",
+  "numerator",
+  "denominator",
+];
+
+/**
+ * Per-record schema for raw splits. Both sides of the ratio must be
+ * positive: they scale every earlier price.
+ */
+export const stockSplitRawSchema: RecordSchema<RawStockSplit> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  date: { type: "date", required: true },
+  numerator: { type: "number", required: true, min: Number.MIN_VALUE },
+  denominator: { type: "number", required: true, min: Number.MIN_VALUE },
+};
@@ -0,0 +1,36 @@
+-- Ensure the moddatetime extension is enabled (run once per database)
+CREATE EXTENSION IF NOT EXISTS moddatetime;
+
+-- Stock splits per symbol, used to split-adjust price history
+CREATE TABLE IF NOT EXISTS public.stock_splits (
+    -- Primary Key (Standard UUID)
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Business Key / Identifiers
+    symbol              TEXT NOT NULL,
+    date                DATE NOT NULL,          -- Effective (ex) date
+
+    -- Ratio: numerator new shares per denominator old shares (4:1 -> 4, 1)
+    numerator           NUMERIC NOT NULL CHECK (numerator > 0),
+    denominator         NUMERIC NOT NULL CHECK (denominator > 0),
+
+    -- Timestamps
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    -- Constraints
+    UNIQUE (symbol, date),
+    CONSTRAINT fk_stock_splits_symbol FOREIGN KEY (symbol) REFERENCES public.profiles(symbol) ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+COMMENT ON TABLE public.stock_splits IS 'Stock splits per symbol fetched from FMP API.';
+
+-- Index for reading a symbol's splits by date
+CREATE INDEX IF NOT EXISTS idx_stock_splits_symbol_date ON public.stock_splits(symbol, date DESC);
+-- Index for cache checks
+CREATE INDEX IF NOT EXISTS idx_stock_splits_modified_at ON public.stock_splits(modified_at DESC);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_stock_splits_updated_at
+BEFORE UPDATE ON public.stock_splits
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
@@ -0,0 +1,33 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/stock-splits/index.ts
+ * Instantiates and exports the stock splits service methods.
+ * ---------------------------------------------------------------------*/
+import { createGenericSupabaseService } from "@/lib/common/supabase";
+
+import { stockSplitConfig } from "./config";
+import type { RawStockSplit, StockSplitApiItem, StockSplitRow } from "./types";
+
+const stockSplitService = createGenericSupabaseService<
+  RawStockSplit,
+  StockSplitRow,
+  StockSplitApiItem
+>(stockSplitConfig);
+
+/**
+ * Fetches the split history of a symbol, refreshing it from FMP when stale.
+ * A symbol that never split has no rows; FMP answers with an empty list,
+ * which the generic service reports as "No data found".
+ * Returns Promise<Partial<StockSplitApiItem>[]>
+ */
+export const getStockSplitsForSymbol = stockSplitService.getAllForSymbol;
+export const getStockSplitsForSymbolWithStatus =
+  stockSplitService.getAllForSymbolWithStatus;
+
+/**
+ * Admin cache control: forced refresh of a symbol's splits from FMP, and
+ * deletion of stored splits (one symbol, or all) so the next read refetches.
+ */
+export const refreshStockSplits = stockSplitService.refresh;
+export const purgeStockSplits = stockSplitService.purge;
+
+export type { StockSplitApiItem, StockSplitRow };
@@ -0,0 +1,33 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/stock-splits/types.ts
+ * Type definitions and mappers for stock splits using Supabase.
+ * ---------------------------------------------------------------------*/
+import type { Database } from "@/lib/supabase/database.types";
+
+export type StockSplitRow = Database["public"]["Tables"]["stock_splits"]["Row"];
+
+// 1. Interface for Raw Data from FMP API (camelCase)
+export interface RawStockSplit {
+  symbol: string;
+  date: string; // Effective (ex) date, YYYY-MM-DD
+  numerator: number; // New shares...
+  denominator: number; // ...per old shares, e.g. 4 for 1
+}
+
+// 2. Interface for API Response Shape
+export interface StockSplitApiItem
+  extends Omit<StockSplitRow, "id" | "modified_at"> {
+  id: string;
+}
+
+/**
+ * Maps a raw FMP split to the structure needed for DB storage.
+ */
+export const mapRawStockSplitToRow = (
+  raw: RawStockSplit
+): Omit<StockSplitRow, "id" | "modified_at"> => ({
+  symbol: raw.symbol,
+  date: raw.date.slice(0, 10),
+  numerator: raw.numerator,
+  denominator: raw.denominator,
+});
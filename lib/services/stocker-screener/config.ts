@@ -4,7 +4,12 @@
  * ---------------------------------------------------------------------*/
 import { GenericSupabaseServiceConfig, FetchMode } from "@/lib/common/supabase";
 import { mapRowToPartialApi } from "@/lib/common/supabase";
-import { stockScreenerKeyOrder, CACHE_TTL_MS } from "./constants";
+import {
+  stockScreenerKeyOrder,
+  CACHE_TTL_MS,
+  MAX_STALE_MS,
+  stockScreenerRawSchema,
+} from "./constants";
 
 // Import specific types and mappers for Stock Screener (Supabase version)
 import {
@@ -35,6 +40,7 @@ export const stockScreenerConfig: GenericSupabaseServiceConfig<
 
   // --- Caching ---
   cacheTtlMs: CACHE_TTL_MS,
+  staleWhileRevalidate: { maxStaleMs: MAX_STALE_MS }, // Serve stale snapshot, refresh in background
 
   // --- Data Structure, Uniqueness & Mapping ---
   // Column defining the UNIQUE constraint used for upserts (symbol is unique in snapshot)
@@ -42,6 +48,7 @@ export const stockScreenerConfig: GenericSupabaseServiceConfig<
   mapRawToRow: mapRawStockScreenerToRow, // Use screener-specific Raw -> Row mapper
   mapRowToApi: mapRowToPartialApi, // Use common Supabase Row -> API mapper
   apiFieldOrder: stockScreenerKeyOrder, // Use defined key order for selection/ordering
+  rawSchema: stockScreenerRawSchema, // Per-record checks; failing records are quarantined
 
   // --- Behavior Modifiers (Not typically needed for FullCollection mode) ---
   // isSingleRecordPerSymbol: undefined,
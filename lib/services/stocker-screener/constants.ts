@@ -4,12 +4,20 @@
  * ---------------------------------------------------------------------*/
 
 // Import the API type definition (Supabase version)
-import type { StockScreenerItem } from "./types";
+import type { StockScreenerItem, RawStockScreenerItem } from "./types";
+import type { RecordSchema } from "@/lib/common/validation";
 
 /** Cache Time-To-Live: How long fetched data is considered fresh before re-fetching. */
 // Example: 4 hours for screener data
 export const CACHE_TTL_MS = 1000 * 60 * 60 * 4;
 
+/**
+ * Stale-while-revalidate limit: snapshots younger than this are served
+ * immediately while a refresh runs in the background. Refreshing ~10,000 rows
+ * takes too long to block page loads on it.
+ */
+export const MAX_STALE_MS = 1000 * 60 * 60 * 24 * 3; // 3 days
+
 /**
  * Defines the desired order and selection of keys for the Stock Screener API response.
  * This will be used in config.ts for the 'apiFieldOrder' property.
@@ -34,3 +42,20 @@ export const stockScreenerKeyOrder: ReadonlyArray<keyof StockScreenerItem> = [
   // 'exchange', // Example: Omitting less critical fields for API response
   // created_at and modified_at are excluded by the mapper
 ];
+
+/**
+ * Per-record schema for raw screener rows. Rows failing it are quarantined;
+ * the rest of the snapshot is still ingested.
+ */
+export const stockScreenerRawSchema: RecordSchema<RawStockScreenerItem> = {
+  symbol: { type: "string", required: true, pattern: /\S/ },
+  companyName: { type: "string" },
+  marketCap: { type: "number", min: 0 },
+  price: { type: "number", min: 0 },
+  beta: { type: "number" },
+  volume: { type: "number", min: 0 },
+  lastAnnualDividend: { type: "number" },
+  isEtf: { type: "boolean" },
+  isFund: { type: "boolean" },
+  isActivelyTrading: { type: "boolean" },
+};
@@ -33,6 +33,29 @@ const stockScreenerService = createGenericSupabaseService<
  */
 export const getStockScreenerResults = stockScreenerService.getAll;
 
+/**
+ * Same as getStockScreenerResults, plus the cache status of the snapshot
+ * ('stale' while a background refresh is running).
+ * Returns Promise<WithCacheStatus<Partial<StockScreenerItem>[]>>
+ */
+export const getStockScreenerResultsWithStatus =
+  stockScreenerService.getAllWithStatus;
+
+/**
+ * Fetches one page of screener results with optional filters and sort
+ * (fields must be in stockScreenerKeyOrder). Refreshes the snapshot first
+ * under the same rules as getStockScreenerResults.
+ * Returns Promise<WithCacheStatus<Page<Partial<StockScreenerItem>>>>
+ */
+export const getStockScreenerPage = stockScreenerService.getPage;
+
+/**
+ * Admin cache control: forced refresh of the whole screener snapshot, and
+ * deletion of stored rows (one symbol, or all) so the next read refetches.
+ */
+export const refreshStockScreener = stockScreenerService.refresh;
+export const purgeStockScreener = stockScreenerService.purge;
+
 // Note: getOne and getAllForSymbol are not typically relevant for a full screener snapshot.
 
 // --- Re-export Types ---
@@ -0,0 +1,46 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/symbols/constants.ts
+ * Tables whose rows belong to a symbol and move with it on a rename.
+ * ---------------------------------------------------------------------*/
+import { QUARANTINE_TABLE } from "@/lib/common/supabase";
+import { analystRatingActionConfig } from "@/lib/services/analyst-ratings/config";
+import { balanceSheetStatementConfig } from "@/lib/services/balance-sheet-statements/config";
+import { cashFlowStatementConfig } from "@/lib/services/cash-flow-statements/config";
+import { dividendConfig } from "@/lib/services/dividends/config";
+import { earningsCalendarConfig } from "@/lib/services/earnings-calendar/config";
+import { gradesConsensusConfig } from "@/lib/services/grades-consensus/config";
+import { incomeStatementConfig } from "@/lib/services/income-statements/config";
+import { insiderTradeConfig } from "@/lib/services/insider-trades/config";
+import { priceTargetConfig } from "@/lib/services/price-targets/config";
+import { profileConfig } from "@/lib/services/profiles/config";
+import { stockSplitConfig } from "@/lib/services/stock-splits/config";
+
+/**
+ * Per-symbol tables, profiles first: in Postgres the other tables follow
+ * profiles(symbol) via ON UPDATE CASCADE, the remaining updates then find
+ * nothing left. The earnings calendar keeps past quarters per symbol and
+ * moves too; collection snapshots (screener) are refetched as a whole and
+ * not moved. record_versions is handled apart, its record keys hold the
+ * symbol too.
+ */
+export const SYMBOL_TABLES: ReadonlyArray<string> = [
+  profileConfig.tableName,
+  incomeStatementConfig.tableName,
+  balanceSheetStatementConfig.tableName,
+  cashFlowStatementConfig.tableName,
+  "historical_prices",
+  "historical_price_reconciles",
+  "intraday_prices",
+  gradesConsensusConfig.tableName,
+  analystRatingActionConfig.tableName,
+  priceTargetConfig.tableName,
+  insiderTradeConfig.tableName,
+  stockSplitConfig.tableName,
+  dividendConfig.tableName,
+  earningsCalendarConfig.tableName,
+  "signals",
+  QUARANTINE_TABLE,
+];
+
+/** Rows per page of the version records read on a rename (PostgREST max-rows). */
+export const VERSION_READ_PAGE_SIZE = 1000;
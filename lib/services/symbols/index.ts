@@ -0,0 +1,8 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/symbols/index.ts
+ * Exports ticker renames (moving stored data to a new ticker).
+ * ---------------------------------------------------------------------*/
+
+export { renameSymbol, SymbolRenameError } from "./renameSymbol";
+export { SYMBOL_TABLES } from "./constants";
+export type { SymbolRenameResult } from "./types";
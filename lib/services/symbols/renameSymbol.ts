@@ -0,0 +1,145 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/symbols/renameSymbol.ts
+ * Moves a company's stored data from its former ticker to the new one, so
+ * price history, statements and signals stay attached after a rename.
+ * The former ticker becomes a 'historical' alias of the new one.
+ * ---------------------------------------------------------------------*/
+import { getStorage, type StorageAdapter } from "@/lib/common/storage";
+import {
+  addSymbolAlias,
+  normalizeSymbol,
+  SYMBOL_ALIASES_TABLE,
+} from "@/lib/common/symbols";
+import {
+  RECORD_VERSIONS_TABLE,
+  type RecordVersion,
+} from "@/lib/common/supabase";
+
+import { SYMBOL_TABLES, VERSION_READ_PAGE_SIZE } from "./constants";
+import type { SymbolRenameResult } from "./types";
+
+/** Thrown when a rename's preconditions fail. API routes map it to HTTP 409. */
+export class SymbolRenameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SymbolRenameError";
+  }
+}
+
+// Version records keep the symbol in their record key as well. All of them
+// are read (in pages) before any moves, so the pages do not shift.
+async function moveRecordVersions(
+  storage: StorageAdapter,
+  from: string,
+  to: string
+): Promise<number> {
+  const versions: Pick<RecordVersion, "id" | "record_key">[] = [];
+  for (let offset = 0; ; offset += VERSION_READ_PAGE_SIZE) {
+    const page = await storage.select<Pick<RecordVersion, "id" | "record_key">>(
+      RECORD_VERSIONS_TABLE,
+      {
+        columns: ["id", "record_key"],
+        where: [{ column: "symbol", op: "eq", value: from }],
+        orderBy: [{ column: "id", ascending: true }],
+        limit: VERSION_READ_PAGE_SIZE,
+        offset,
+      }
+    );
+    versions.push(...page);
+    if (page.length < VERSION_READ_PAGE_SIZE) break;
+  }
+  for (const { id, record_key } of versions) {
+    await storage.update(
+      RECORD_VERSIONS_TABLE,
+      {
+        symbol: to,
+        record_key:
+          "symbol" in record_key ? { ...record_key, symbol: to } : record_key,
+      },
+      [{ column: "id", op: "eq", value: id }]
+    );
+  }
+  return versions.length;
+}
+
+/**
+ * Renames a ticker in every per-symbol table and records the former ticker
+ * as an alias, so requests for it resolve to the new one. Aliases that
+ * pointed to the former ticker are repointed as well.
+ *
+ * @param from The former ticker (must have a stored profile).
+ * @param to The new ticker (must not have a stored profile yet; purge a
+ *   profile fetched under it first).
+ * @throws {SymbolRenameError} When the tickers are equal, `from` has no profile or
+ *   `to` already has one.
+ */
+export async function renameSymbol(
+  from: string,
+  to: string,
+  storage: StorageAdapter = getStorage()
+): Promise<SymbolRenameResult> {
+  const oldSymbol = normalizeSymbol(from);
+  const newSymbol = normalizeSymbol(to);
+  if (oldSymbol === newSymbol) {
+    throw new SymbolRenameError(`Cannot rename ${oldSymbol} to itself.`);
+  }
+
+  const profileOf = (symbol: string) =>
+    storage.selectFirst(SYMBOL_TABLES[0], {
+      columns: ["symbol"],
+      where: [{ column: "symbol", op: "eq", value: symbol }],
+    });
+  const [oldProfile, newProfile] = await Promise.all([
+    profileOf(oldSymbol),
+    profileOf(newSymbol),
+  ]);
+  if (!oldProfile) {
+    throw new SymbolRenameError(
+      `No stored profile for ${oldSymbol}; nothing to rename.`
+    );
+  }
+  if (newProfile) {
+    throw new SymbolRenameError(
+      `${newSymbol} already has stored data. Purge its profile before renaming ${oldSymbol}.`
+    );
+  }
+
+  console.log(`[Symbols] Renaming ${oldSymbol} to ${newSymbol}...`);
+  const updated: Record<string, number> = {};
+  // One table after another: profiles must move before its dependents
+  for (const table of SYMBOL_TABLES) {
+    updated[table] = await storage.update(table, { symbol: newSymbol }, [
+      { column: "symbol", op: "eq", value: oldSymbol },
+    ]);
+  }
+  updated[RECORD_VERSIONS_TABLE] = await moveRecordVersions(
+    storage,
+    oldSymbol,
+    newSymbol
+  );
+
+  // Older aliases follow the company, then the former ticker becomes one.
+  // An alias spelling the new ticker itself would now point to itself.
+  await storage.delete(SYMBOL_ALIASES_TABLE, [
+    { column: "alias", op: "eq", value: newSymbol },
+  ]);
+  updated[SYMBOL_ALIASES_TABLE] = await storage.update(
+    SYMBOL_ALIASES_TABLE,
+    { symbol: newSymbol },
+    [{ column: "symbol", op: "eq", value: oldSymbol }]
+  );
+  await addSymbolAlias(
+    oldSymbol,
+    newSymbol,
+    "historical",
+    `Renamed ${new Date().toISOString().slice(0, 10)}`,
+    storage
+  );
+
+  console.log(
+    `[Symbols] Renamed ${oldSymbol} to ${newSymbol}: ${Object.entries(updated)
+      .map(([table, count]) => `${table}=${count}`)
+      .join(", ")}.`
+  );
+  return { from: oldSymbol, to: newSymbol, updated };
+}
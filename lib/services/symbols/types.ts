@@ -0,0 +1,12 @@
+/* ──────────────────────────────────────────────────────────────────────
+ * lib/services/symbols/types.ts
+ * Type definitions for ticker renames.
+ * ---------------------------------------------------------------------*/
+
+export interface SymbolRenameResult {
+  /** Former ticker, now an alias of `to`. */
+  from: string;
+  to: string;
+  /** Rows moved to the new ticker, per table. */
+  updated: Record<string, number>;
+}
@@ -0,0 +1,32 @@
+-- Per-symbol freshness of a cached table, used by /api/cache-status.
+-- Aggregates in the database so large tables (historical_prices) are not
+-- read row by row. Table and column names are quoted with %I.
+CREATE OR REPLACE FUNCTION public.cache_freshness(
+    p_table_name        TEXT,
+    p_timestamp_column  TEXT DEFAULT 'modified_at'
+)
+RETURNS TABLE (
+    symbol      TEXT,
+    row_count   BIGINT,
+    oldest      TIMESTAMPTZ,
+    newest      TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        'SELECT symbol::TEXT, count(*), min(%1$I), max(%1$I)
+           FROM public.%2$I
+          GROUP BY symbol',
+        p_timestamp_column,
+        p_table_name
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.cache_freshness(TEXT, TEXT) IS 'Row count and oldest/newest timestamp per symbol of a cached table.';
+
+-- Only the server (service role) may inspect tables this way
+REVOKE ALL ON FUNCTION public.cache_freshness(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cache_freshness(TEXT, TEXT) TO service_role;
@@ -0,0 +1,18 @@
+-- Raw provider records rejected by their dataset's schema (rawSchema).
+-- Stored untouched with the validation failures, for inspection/replay.
+CREATE TABLE IF NOT EXISTS public.quarantined_records (
+    -- Primary Key
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    table_name          TEXT NOT NULL,          -- Target table, e.g. income_statements
+    symbol              TEXT NULL,              -- From the payload, else the fetched symbol
+    reason              TEXT NOT NULL,          -- '; '-separated validation failures
+    payload             JSONB NULL,             -- Raw record as received
+    quarantined_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.quarantined_records IS 'Raw provider records that failed schema validation and were not ingested.';
+
+-- Listing per table and symbol, newest first
+CREATE INDEX IF NOT EXISTS idx_quarantined_records_lookup
+    ON public.quarantined_records(table_name, symbol, quarantined_at DESC);
@@ -0,0 +1,30 @@
+-- Version records for tracked tables (e.g. financial statements).
+-- One row per upsert that changed an existing record, holding the
+-- field-level diff between the stored and the incoming values. Tables
+-- without a publication date column (profiles) also get an 'insert' row
+-- when a record is first stored, so asOf reads can leave it out before.
+CREATE TABLE IF NOT EXISTS public.record_versions (
+    -- Primary Key
+    id                      UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Which record changed
+    table_name              TEXT NOT NULL,          -- e.g. income_statements
+    symbol                  TEXT NULL,
+    record_key              JSONB NOT NULL,         -- uniqueKeyColumns values, e.g. {"symbol":"AAPL","date":"2023-09-30","period":"FY"}
+
+    -- What changed
+    operation               TEXT NOT NULL DEFAULT 'update' CHECK (operation IN ('insert', 'update')),
+    changes                 JSONB NOT NULL,         -- {"revenue": {"old": 1, "new": 2}, ...}; {} for inserts
+    previous_modified_at    TIMESTAMPTZ NULL,       -- modified_at of the replaced values
+    recorded_at             TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Databases created before insert records
+ALTER TABLE public.record_versions
+    ADD COLUMN IF NOT EXISTS operation TEXT NOT NULL DEFAULT 'update' CHECK (operation IN ('insert', 'update'));
+
+COMMENT ON TABLE public.record_versions IS 'Field-level diffs written when an upsert changes a previously stored record (restatements).';
+
+-- History lookups: one table, one symbol, newest first
+CREATE INDEX IF NOT EXISTS idx_record_versions_lookup
+    ON public.record_versions(table_name, symbol, recorded_at DESC);
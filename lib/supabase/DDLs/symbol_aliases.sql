@@ -0,0 +1,29 @@
+-- Alternative tickers that resolve to a stored symbol: former tickers of a
+-- renamed company, share class and vendor spellings (e.g. BRK.B -> BRK-B).
+-- Read by lib/common/symbols; written by the admin symbols endpoint.
+CREATE TABLE IF NOT EXISTS public.symbol_aliases (
+    -- Primary Key
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+    modified_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    alias               TEXT NOT NULL,          -- Normalized alternative ticker, e.g. FB
+    symbol              TEXT NOT NULL,          -- Symbol the data is stored under, e.g. META
+    alias_type          TEXT NOT NULL CHECK (alias_type IN ('historical', 'share_class', 'vendor')),
+    note                TEXT NULL,              -- e.g. 'Renamed 2022-06-09'
+
+    CONSTRAINT symbol_aliases_alias_uniq UNIQUE (alias),
+    CONSTRAINT symbol_aliases_not_self CHECK (alias <> symbol)
+);
+
+COMMENT ON TABLE public.symbol_aliases IS 'Former, share class and vendor tickers mapped to the symbol their data is stored under.';
+
+-- Repointing aliases when a symbol is renamed
+CREATE INDEX IF NOT EXISTS idx_symbol_aliases_symbol
+    ON public.symbol_aliases(symbol);
+
+-- Trigger to automatically update modified_at timestamp on row update
+CREATE OR REPLACE TRIGGER handle_symbol_aliases_updated_at
+BEFORE UPDATE ON public.symbol_aliases
+FOR EACH ROW
+EXECUTE FUNCTION moddatetime('modified_at');
@@ -9,6 +9,54 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      analyst_rating_actions: {
+        Row: {
+          action: string | null;
+          date: string;
+          grading_company: string;
+          id: string;
+          modified_at: string;
+          new_grade: string | null;
+          previous_grade: string | null;
+          symbol: string;
+        };
+        Insert: {
+          action?: string | null;
+          date: string;
+          grading_company: string;
+          id?: string;
+          modified_at?: string;
+          new_grade?: string | null;
+          previous_grade?: string | null;
+          symbol: string;
+        };
+        Update: {
+          action?: string | null;
+          date?: string;
+          grading_company?: string;
+          id?: string;
+          modified_at?: string;
+          new_grade?: string | null;
+          previous_grade?: string | null;
+          symbol?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_analyst_rating_actions_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profile_symbols";
+            referencedColumns: ["symbol"];
+          },
+          {
+            foreignKeyName: "fk_analyst_rating_actions_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
       balance_sheet_statements: {
         Row: {
           accepted_date: string;
@@ -351,6 +399,56 @@ export type Database = {
           }
         ];
       };
+      dividends: {
+        Row: {
+          adj_dividend: number | null;
+          date: string;
+          declaration_date: string | null;
+          dividend: number | null;
+          frequency: string | null;
+          id: string;
+          modified_at: string;
+          payment_date: string | null;
+          record_date: string | null;
+          symbol: string;
+          yield: number | null;
+        };
+        Insert: {
+          adj_dividend?: number | null;
+          date: string;
+          declaration_date?: string | null;
+          dividend?: number | null;
+          frequency?: string | null;
+          id?: string;
+          modified_at?: string;
+          payment_date?: string | null;
+          record_date?: string | null;
+          symbol: string;
+          yield?: number | null;
+        };
+        Update: {
+          adj_dividend?: number | null;
+          date?: string;
+          declaration_date?: string | null;
+          dividend?: number | null;
+          frequency?: string | null;
+          id?: string;
+          modified_at?: string;
+          payment_date?: string | null;
+          record_date?: string | null;
+          symbol?: string;
+          yield?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_dividends_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
       earnings_calendar: {
         Row: {
           date: string;
@@ -387,6 +485,30 @@ export type Database = {
         };
         Relationships: [];
       };
+      fx_rates: {
+        Row: {
+          date: string;
+          id: string;
+          modified_at: string;
+          rate: number;
+          symbol: string;
+        };
+        Insert: {
+          date: string;
+          id?: string;
+          modified_at?: string;
+          rate: number;
+          symbol: string;
+        };
+        Update: {
+          date?: string;
+          id?: string;
+          modified_at?: string;
+          rate?: number;
+          symbol?: string;
+        };
+        Relationships: [];
+      };
       grades_consensus: {
         Row: {
           buy: number | null;
@@ -441,6 +563,36 @@ export type Database = {
           }
         ];
       };
+      historical_price_reconciles: {
+        Row: {
+          reconciled_at: string;
+          symbol: string;
+        };
+        Insert: {
+          reconciled_at: string;
+          symbol: string;
+        };
+        Update: {
+          reconciled_at?: string;
+          symbol?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_historical_price_reconciles_symbol";
+            columns: ["symbol"];
+            isOneToOne: true;
+            referencedRelation: "profile_symbols";
+            referencedColumns: ["symbol"];
+          },
+          {
+            foreignKeyName: "fk_historical_price_reconciles_symbol";
+            columns: ["symbol"];
+            isOneToOne: true;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
       historical_prices: {
         Row: {
           adj_close: number | null;
@@ -657,6 +809,180 @@ export type Database = {
           }
         ];
       };
+      insider_trades: {
+        Row: {
+          acquisition_or_disposition: string | null;
+          filer: string;
+          filing_date: string;
+          form_type: string | null;
+          id: string;
+          modified_at: string;
+          price: number | null;
+          reporting_cik: string | null;
+          role: string | null;
+          shares: number;
+          shares_owned_after: number;
+          symbol: string;
+          transaction_date: string;
+          transaction_type: string;
+          url: string | null;
+          value: number | null;
+        };
+        Insert: {
+          acquisition_or_disposition?: string | null;
+          filer: string;
+          filing_date: string;
+          form_type?: string | null;
+          id?: string;
+          modified_at?: string;
+          price?: number | null;
+          reporting_cik?: string | null;
+          role?: string | null;
+          shares: number;
+          shares_owned_after: number;
+          symbol: string;
+          transaction_date: string;
+          transaction_type: string;
+          url?: string | null;
+          value?: number | null;
+        };
+        Update: {
+          acquisition_or_disposition?: string | null;
+          filer?: string;
+          filing_date?: string;
+          form_type?: string | null;
+          id?: string;
+          modified_at?: string;
+          price?: number | null;
+          reporting_cik?: string | null;
+          role?: string | null;
+          shares?: number;
+          shares_owned_after?: number;
+          symbol?: string;
+          transaction_date?: string;
+          transaction_type?: string;
+          url?: string | null;
+          value?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_insider_trades_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profile_symbols";
+            referencedColumns: ["symbol"];
+          },
+          {
+            foreignKeyName: "fk_insider_trades_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
+      intraday_prices: {
+        Row: {
+          close: number | null;
+          high: number | null;
+          id: string;
+          interval: string;
+          low: number | null;
+          modified_at: string;
+          open: number | null;
+          symbol: string;
+          timestamp: string;
+          volume: number | null;
+        };
+        Insert: {
+          close?: number | null;
+          high?: number | null;
+          id?: string;
+          interval: string;
+          low?: number | null;
+          modified_at?: string;
+          open?: number | null;
+          symbol: string;
+          timestamp: string;
+          volume?: number | null;
+        };
+        Update: {
+          close?: number | null;
+          high?: number | null;
+          id?: string;
+          interval?: string;
+          low?: number | null;
+          modified_at?: string;
+          open?: number | null;
+          symbol?: string;
+          timestamp?: string;
+          volume?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_intraday_price_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profile_symbols";
+            referencedColumns: ["symbol"];
+          },
+          {
+            foreignKeyName: "fk_intraday_price_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
+      price_targets: {
+        Row: {
+          date: string;
+          id: string;
+          modified_at: string;
+          symbol: string;
+          target_consensus: number | null;
+          target_high: number | null;
+          target_low: number | null;
+          target_median: number | null;
+        };
+        Insert: {
+          date: string;
+          id?: string;
+          modified_at?: string;
+          symbol: string;
+          target_consensus?: number | null;
+          target_high?: number | null;
+          target_low?: number | null;
+          target_median?: number | null;
+        };
+        Update: {
+          date?: string;
+          id?: string;
+          modified_at?: string;
+          symbol?: string;
+          target_consensus?: number | null;
+          target_high?: number | null;
+          target_low?: number | null;
+          target_median?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_price_targets_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profile_symbols";
+            referencedColumns: ["symbol"];
+          },
+          {
+            foreignKeyName: "fk_price_targets_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
       profiles: {
         Row: {
           address: string | null;
@@ -780,6 +1106,66 @@ export type Database = {
         };
         Relationships: [];
       };
+      quarantined_records: {
+        Row: {
+          id: string;
+          payload: Json | null;
+          quarantined_at: string;
+          reason: string;
+          symbol: string | null;
+          table_name: string;
+        };
+        Insert: {
+          id?: string;
+          payload?: Json | null;
+          quarantined_at?: string;
+          reason: string;
+          symbol?: string | null;
+          table_name: string;
+        };
+        Update: {
+          id?: string;
+          payload?: Json | null;
+          quarantined_at?: string;
+          reason?: string;
+          symbol?: string | null;
+          table_name?: string;
+        };
+        Relationships: [];
+      };
+      record_versions: {
+        Row: {
+          changes: Json;
+          id: string;
+          operation: string;
+          previous_modified_at: string | null;
+          record_key: Json;
+          recorded_at: string;
+          symbol: string | null;
+          table_name: string;
+        };
+        Insert: {
+          changes: Json;
+          id?: string;
+          operation?: string;
+          previous_modified_at?: string | null;
+          record_key: Json;
+          recorded_at?: string;
+          symbol?: string | null;
+          table_name: string;
+        };
+        Update: {
+          changes?: Json;
+          id?: string;
+          operation?: string;
+          previous_modified_at?: string | null;
+          record_key?: Json;
+          recorded_at?: string;
+          symbol?: string | null;
+          table_name?: string;
+        };
+        Relationships: [];
+      };
       signals: {
         Row: {
           confidence: number | null;
@@ -891,6 +1277,41 @@ export type Database = {
         };
         Relationships: [];
       };
+      stock_splits: {
+        Row: {
+          date: string;
+          denominator: number;
+          id: string;
+          modified_at: string;
+          numerator: number;
+          symbol: string;
+        };
+        Insert: {
+          date: string;
+          denominator: number;
+          id?: string;
+          modified_at?: string;
+          numerator: number;
+          symbol: string;
+        };
+        Update: {
+          date?: string;
+          denominator?: number;
+          id?: string;
+          modified_at?: string;
+          numerator?: number;
+          symbol?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "fk_stock_splits_symbol";
+            columns: ["symbol"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["symbol"];
+          }
+        ];
+      };
     };
     Views: {
       profile_symbols: {
@@ -901,7 +1322,18 @@ export type Database = {
       };
     };
     Functions: {
-      [_ in never]: never;
+      cache_freshness: {
+        Args: {
+          p_table_name: string;
+          p_timestamp_column?: string;
+        };
+        Returns: {
+          symbol: string;
+          row_count: number;
+          oldest: string;
+          newest: string;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;